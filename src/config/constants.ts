@@ -9,7 +9,26 @@ import { getDefaults } from '../utils/zod-defaults';
 
 export const SCHEDULER_PERIOD_MINUTES_KEY = 'sync:scheduler_period';
 export const AGGREGATION_ALARM_NAME = 'aggregateData';
+/** One-shot alarm that resumes an aggregation run which stopped with events left */
+export const AGGREGATION_FOLLOW_UP_ALARM_NAME = 'aggregateDataFollowUp';
 export const AGGREGATION_LOCK_KEY = 'local:aggregation_lock';
+/** Time zone the stored aggregates are currently bucketed in (data before this key existed is UTC) */
+export const AGGREGATION_TIMEZONE_KEY = 'local:aggregation_timezone';
+/** Resume point of the aggregation: last scanned event ID and the events carried over to the next batch */
+export const AGGREGATION_CURSOR_KEY = 'local:aggregation_cursor';
+/** Set once the stored stats keys have been re-keyed with the unified URL normalization */
+export const STATS_KEY_MIGRATION_KEY = 'local:stats_key_migration_completed';
+export const LIMIT_SNOOZE_KEY = 'local:limit_snoozes';
+export const LIMIT_SNOOZE_ALARM_NAME = 'limitSnoozeExpired';
+/** Tracker tab states, kept for the browser session so a restarted service worker can resume */
+export const TAB_STATE_SNAPSHOT_KEY = 'session:tab_state_snapshot';
+export const FOCUS_SESSION_KEY = 'local:focus_session';
+export const FOCUS_SUMMARY_KEY = 'local:focus_last_summary';
+export const FOCUS_SESSION_ALARM_NAME = 'focusSessionEnd';
+export const GOAL_HISTORY_KEY = 'local:goal_history';
+export const GOAL_EVALUATION_ALARM_NAME = 'goalEvaluation';
+export const BADGE_REFRESH_ALARM_NAME = 'badgeRefresh';
+export const WEEKLY_DIGEST_ALARM_NAME = 'weeklyDigest';
 
 // ============================================================================
 // Zod Schemas for Runtime Validation
@@ -25,6 +44,25 @@ export const TimeTrackingConfigSchema = z.object({
   mousemoveThresholdPixels: z.number().int().default(10),
 });
 
+/**
+ * Schema for a per-site URL normalization rule
+ *
+ * - hostname: `example.com` matches with or without `www.`; `*.example.com`
+ *   also matches every subdomain. Exact hostnames win over wildcards.
+ * - keepParams / dropParams: override the global query parameter lists
+ * - pathPatterns: collapse variable path segments; `/issues/:id` keys
+ *   `/issues/123` as `/issues/:id`, and `*` matches any segment and keeps it
+ * - fragment: `strip` drops the hash, `keep` keeps it, `hashRoute` keeps only
+ *   SPA routes such as `#/inbox` or `#!/inbox`
+ */
+export const UrlNormalizationRuleSchema = z.object({
+  hostname: z.string().min(1),
+  keepParams: z.array(z.string()).default([]),
+  dropParams: z.array(z.string()).default([]),
+  pathPatterns: z.array(z.string()).default([]),
+  fragment: z.enum(['strip', 'keep', 'hashRoute']).default('strip'),
+});
+
 /**
  * Schema for URL filtering configuration
  */
@@ -43,6 +81,122 @@ export const UrlFilteringConfigSchema = z.object({
       'mc_cid',
       'mc_eid',
     ]),
+  /** Per-site normalization rules, applied on top of the global parameter lists */
+  siteRules: z.array(UrlNormalizationRuleSchema).default([]),
+});
+
+/**
+ * Schema for a category that tracked sites can be grouped under
+ */
+export const CategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** Hex color used by charts and badges */
+  color: z.string().default('#6b7280'),
+});
+
+/**
+ * Schema for a rule assigning URLs to a category
+ *
+ * - hostname: exact hostname match (`www.` is ignored)
+ * - parentDomain: exact parent domain match
+ * - pathPrefix: prefix of `hostname/path`, e.g. `docs.google.com/spreadsheets`
+ * - regex: regular expression tested against the full URL
+ */
+export const CategoryRuleSchema = z.object({
+  type: z.enum(['hostname', 'parentDomain', 'pathPrefix', 'regex']),
+  pattern: z.string().min(1),
+  categoryId: z.string().min(1),
+});
+
+/**
+ * Schema for categories configuration. Rules are evaluated in order and the
+ * first match wins.
+ */
+export const CategoriesConfigSchema = z.object({
+  categories: z.array(CategorySchema).default([
+    { id: 'work', name: 'Work', color: '#2563eb' },
+    { id: 'social', name: 'Social', color: '#db2777' },
+    { id: 'news', name: 'News', color: '#d97706' },
+    { id: 'entertainment', name: 'Entertainment', color: '#7c3aed' },
+  ]),
+  rules: z.array(CategoryRuleSchema).default([
+    { type: 'parentDomain', pattern: 'github.com', categoryId: 'work' },
+    { type: 'parentDomain', pattern: 'stackoverflow.com', categoryId: 'work' },
+    { type: 'hostname', pattern: 'docs.google.com', categoryId: 'work' },
+    { type: 'parentDomain', pattern: 'facebook.com', categoryId: 'social' },
+    { type: 'parentDomain', pattern: 'x.com', categoryId: 'social' },
+    { type: 'parentDomain', pattern: 'twitter.com', categoryId: 'social' },
+    { type: 'parentDomain', pattern: 'instagram.com', categoryId: 'social' },
+    { type: 'parentDomain', pattern: 'reddit.com', categoryId: 'social' },
+    { type: 'hostname', pattern: 'news.ycombinator.com', categoryId: 'news' },
+    { type: 'parentDomain', pattern: 'bbc.com', categoryId: 'news' },
+    { type: 'parentDomain', pattern: 'nytimes.com', categoryId: 'news' },
+    { type: 'parentDomain', pattern: 'youtube.com', categoryId: 'entertainment' },
+    { type: 'parentDomain', pattern: 'netflix.com', categoryId: 'entertainment' },
+    { type: 'parentDomain', pattern: 'twitch.tv', categoryId: 'entertainment' },
+  ]),
+});
+
+/**
+ * Schema for a single daily time limit rule
+ */
+export const LimitRuleSchema = z.object({
+  /** Parent domain (e.g. `youtube.com`) or exact hostname the budget applies to */
+  target: z.string().min(1),
+  /** Whether `target` is matched against the parent domain or the exact hostname */
+  scope: z.enum(['parentDomain', 'hostname']).default('parentDomain'),
+  /** Daily active time budget in minutes */
+  dailyLimitMinutes: z.number().int().positive(),
+  enabled: z.boolean().default(true),
+});
+
+/**
+ * Schema for daily time limits configuration
+ */
+export const LimitsConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Extra minutes granted by the "5 more minutes" button on the interstitial page */
+  snoozeMinutes: z.number().int().positive().default(5),
+  rules: z.array(LimitRuleSchema).default([]),
+});
+
+/**
+ * Schema for focus session preferences
+ */
+export const FocusConfigSchema = z.object({
+  /** Length of a new focus session in minutes */
+  durationMinutes: z.number().int().positive().default(25),
+  /** Whether `sites` lists the only allowed sites or the distracting ones */
+  mode: z.enum(['allowlist', 'denylist']).default('denylist'),
+  /** Domains or hostnames; a domain also covers its subdomains */
+  sites: z.array(z.string()).default([]),
+  /** Redirect distracting pages to an interstitial while a session runs */
+  blockDistractions: z.boolean().default(false),
+});
+
+/**
+ * Schema for a single daily goal
+ */
+export const GoalSchema = z.object({
+  id: z.string().min(1),
+  /** Parent domain (e.g. `github.com`) or exact hostname the goal applies to */
+  target: z.string().min(1),
+  scope: z.enum(['parentDomain', 'hostname']).default('parentDomain'),
+  /** `atMost` is hit by staying within the budget, `atLeast` by reaching it */
+  comparison: z.enum(['atMost', 'atLeast']),
+  /** Daily active time in minutes */
+  dailyMinutes: z.number().int().positive(),
+  enabled: z.boolean().default(true),
+  /** First date (YYYY-MM-DD) the goal is evaluated for */
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+/**
+ * Schema for goals configuration
+ */
+export const GoalsConfigSchema = z.object({
+  goals: z.array(GoalSchema).default([]),
 });
 
 /**
@@ -70,6 +224,10 @@ export const AggregationConfigSchema = z.object({
     .number()
     .int()
     .default(5 * 60 * 1000), // 5 minutes
+  /** Maximum number of events read and aggregated per batch */
+  batchSize: z.number().int().positive().default(2000),
+  /** IANA time zone whose calendar days key the aggregates. Empty uses the browser time zone. */
+  timezone: z.string().default(''),
 });
 
 /**
@@ -80,6 +238,8 @@ export const UIConfigSchema = z.object({
     .enum(['today', 'yesterday', 'last7days', 'thisMonth', 'lastMonth'])
     .default('today'),
   defaultTheme: z.enum(['light', 'dark', 'auto']).default('auto'),
+  /** What the toolbar badge shows for the current site today */
+  badgeMode: z.enum(['off', 'activeTime', 'openTime', 'limitPercent']).default('activeTime'),
 });
 
 /**
@@ -116,6 +276,10 @@ export const ConfigSchema = z.object({
   enableCheckpoints: z.boolean().default(true),
   timeTracking: TimeTrackingConfigSchema,
   urlFiltering: UrlFilteringConfigSchema,
+  categories: CategoriesConfigSchema,
+  limits: LimitsConfigSchema,
+  focus: FocusConfigSchema,
+  goals: GoalsConfigSchema,
   checkpoint: CheckpointConfigSchema,
   aggregation: AggregationConfigSchema,
   ui: UIConfigSchema,
@@ -131,6 +295,17 @@ export const ConfigSchema = z.object({
 
 export type TimeTrackingConfig = z.infer<typeof TimeTrackingConfigSchema>;
 export type UrlFilteringConfig = z.infer<typeof UrlFilteringConfigSchema>;
+export type UrlNormalizationRule = z.infer<typeof UrlNormalizationRuleSchema>;
+export type UrlFragmentMode = UrlNormalizationRule['fragment'];
+export type Category = z.infer<typeof CategorySchema>;
+export type CategoryRule = z.infer<typeof CategoryRuleSchema>;
+export type CategoriesConfig = z.infer<typeof CategoriesConfigSchema>;
+export type LimitRule = z.infer<typeof LimitRuleSchema>;
+export type LimitsConfig = z.infer<typeof LimitsConfigSchema>;
+export type FocusConfig = z.infer<typeof FocusConfigSchema>;
+export type Goal = z.infer<typeof GoalSchema>;
+export type BadgeMode = z.infer<typeof UIConfigSchema>['badgeMode'];
+export type GoalsConfig = z.infer<typeof GoalsConfigSchema>;
 export type CheckpointConfig = z.infer<typeof CheckpointConfigSchema>;
 export type RetentionPolicyConfig = z.infer<typeof RetentionPolicyConfigSchema>;
 export type EventQueueConfig = z.infer<typeof EventQueueConfigSchema>;
@@ -2,9 +2,13 @@ import { storage } from '#imports';
 import { getDefaults } from '../utils/zod-defaults';
 import {
   AggregationConfigSchema,
+  CategoriesConfigSchema,
   CheckpointConfigSchema,
   ConfigSchema,
   EventQueueConfigSchema,
+  FocusConfigSchema,
+  GoalsConfigSchema,
+  LimitsConfigSchema,
   RetentionPolicyConfigSchema,
   StartupRecoveryConfigSchema,
   TimeTrackingConfigSchema,
@@ -31,6 +35,22 @@ export const urlFilteringConfig = storage.defineItem(`sync:urlFiltering`, {
   fallback: getDefaults(UrlFilteringConfigSchema),
 });
 
+export const categoriesConfig = storage.defineItem(`sync:categories`, {
+  fallback: getDefaults(CategoriesConfigSchema),
+});
+
+export const limitsConfig = storage.defineItem(`sync:limits`, {
+  fallback: getDefaults(LimitsConfigSchema),
+});
+
+export const focusConfig = storage.defineItem(`sync:focus`, {
+  fallback: getDefaults(FocusConfigSchema),
+});
+
+export const goalsConfig = storage.defineItem(`sync:goals`, {
+  fallback: getDefaults(GoalsConfigSchema),
+});
+
 export const checkpointConfig = storage.defineItem(`sync:checkpoint`, {
   fallback: getDefaults(CheckpointConfigSchema),
 });
@@ -86,6 +106,10 @@ export const storageWarningThresholdPercent = storage.defineItem(
 export const configItems = {
   timeTracking: timeTrackingConfig,
   urlFiltering: urlFilteringConfig,
+  categories: categoriesConfig,
+  limits: limitsConfig,
+  focus: focusConfig,
+  goals: goalsConfig,
   checkpoint: checkpointConfig,
   aggregation: aggregationConfig,
   ui: uiConfig,
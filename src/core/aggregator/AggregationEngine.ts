@@ -1,86 +1,319 @@
+import { storage } from '#imports';
 import type { EventsLogRecord } from '../db/models/eventslog.model';
-import type { EventsLogRepository } from '../db/repositories/eventslog.repository';
+import { EventsLogRepository } from '../db/repositories/eventslog.repository';
 import type { AggregatedStatsRepository } from '../db/repositories/aggregatedstats.repository';
-import type { AggregationResult, VisitGroup, AggregatedData } from './types';
-import { getUtcDateString } from '../db/schemas/aggregatedstats.schema';
+import type { HourlyStatsRepository } from '../db/repositories/hourlystats.repository';
+import type { VisitsRepository } from '../db/repositories/visits.repository';
+import type { WebTimeTrackerDB } from '../db/schemas';
+import type {
+  RollupAggregationData,
+  RollupStatsRepository,
+} from '../db/repositories/rollupstats.repository';
+import type {
+  AggregationCursor,
+  AggregationResult,
+  AggregationRunOptions,
+  VisitGroup,
+  AggregatedData,
+  HourlyAggregatedData,
+  VisitAggregatedData,
+  SessionInterval,
+  TimeInterval,
+} from './types';
+import { generateHourlyStatsKey } from '../db/schemas/hourlystats.schema';
+import { splitIntervalByDay, splitIntervalByHour } from './intervals';
+import { AGGREGATION_CURSOR_KEY, DEFAULT_CONFIG } from '@/config/constants';
 import { createLogger } from '@/utils/logger';
+import { getZonedDayStart } from '@/utils/timezone';
 import * as psl from 'psl';
 
+/**
+ * Daily counter incremented by the sessions that measure into each time field
+ */
+const SESSION_COUNTERS = {
+  openTime: 'visitCount',
+  activeTime: 'activeSessionCount',
+} as const;
+
+const cursorItem = storage.defineItem<AggregationCursor>(AGGREGATION_CURSOR_KEY, {
+  fallback: { watermark: 0, carryOverIds: [] },
+});
+
 /**
  * AggregationEngine class
  *
  * Core component for processing raw event logs and converting them into
  * aggregated statistical data.
+ *
+ * Events are read in bounded batches ordered by ID. After each batch the
+ * watermark and the carried-over events are persisted, so memory stays flat on
+ * large backlogs and an interrupted run resumes where it stopped.
+ *
+ * Besides the daily and hourly aggregates, each measured visit extends its own
+ * record in the visits table, which outlives the pruned raw events, and the
+ * daily time is added to the weekly and monthly rollups of its hostname.
  */
 export class AggregationEngine {
   private static readonly logger = createLogger('⚙️ AggregationEngine');
 
   /**
+   * @param db - Database instance, for the transaction that saves each batch.
    * @param eventsLogRepo - Repository for accessing event log data.
    * @param aggregatedStatsRepo - Repository for storing aggregated statistics.
+   * @param hourlyStatsRepo - Repository for storing per-hour time buckets.
+   * @param visitsRepo - Repository for storing one record per visit.
+   * @param weeklyStatsRepo - Repository for storing per-week rollups.
+   * @param monthlyStatsRepo - Repository for storing per-month rollups.
    */
   constructor(
+    private readonly db: WebTimeTrackerDB,
     private readonly eventsLogRepo: EventsLogRepository,
-    private readonly aggregatedStatsRepo: AggregatedStatsRepository
+    private readonly aggregatedStatsRepo: AggregatedStatsRepository,
+    private readonly hourlyStatsRepo: HourlyStatsRepository,
+    private readonly visitsRepo: VisitsRepository,
+    private readonly weeklyStatsRepo: RollupStatsRepository,
+    private readonly monthlyStatsRepo: RollupStatsRepository
   ) {}
 
   /**
    * Runs the entire aggregation process.
    *
-   * Fetches unprocessed events, processes them, and saves the aggregated data.
+   * Reads the events after the watermark batch by batch, processes each batch
+   * together with the events carried over from the previous one, and saves the
+   * aggregated data. Once the log is drained, the sessions that are still open
+   * get a checkpoint at the current time, which one final batch measures.
    *
+   * @param options - Run options; `timeZone` sets the day and hour boundaries (defaults to UTC),
+   *                  `deadline` stops the run between batches.
    * @returns A promise that resolves to an AggregationResult.
    */
-  public async run(): Promise<AggregationResult> {
-    AggregationEngine.logger.info('Aggregation started');
+  public async run(options: AggregationRunOptions = {}): Promise<AggregationResult> {
+    const {
+      timeZone = 'UTC',
+      batchSize = DEFAULT_CONFIG.aggregation.batchSize,
+      deadline,
+    } = options;
+    AggregationEngine.logger.info('Aggregation started', { timeZone, batchSize });
+
+    let processedEvents = 0;
 
     try {
-      // Create checkpoints for all open sessions before fetching events
-      await this.eventsLogRepo.createCheckpointsForOpenSessions(Date.now());
-
-      // this.logger.debug('Fetching unprocessed events');
-      // Use ID ordering to preserve logical sequence, not timestamp ordering
-      const unprocessedEvents = await this.eventsLogRepo.getUnprocessedEvents({
-        orderBy: 'id',
-        orderDirection: 'asc',
-      });
+      let { watermark, carryOver } = await this.loadCursor();
+      let checkpointsCreated = false;
+      let batches = 0;
+
+      while (true) {
+        if (deadline !== undefined && batches > 0 && Date.now() >= deadline) {
+          AggregationEngine.logger.info('Aggregation paused at deadline', {
+            processedEvents,
+            batches,
+            watermark,
+          });
+          return { success: true, processedEvents, hasMore: true };
+        }
 
-      AggregationEngine.logger.info(`Fetched ${unprocessedEvents.length} unprocessed events`);
-      AggregationEngine.logger.debug('Fetched unprocessed events', {
-        count: unprocessedEvents.length,
-        unprocessedEvents,
-      });
+        // Use ID ordering to preserve logical sequence, not timestamp ordering
+        const page = await this.eventsLogRepo.getEventsAfterId(watermark, batchSize);
 
-      if (unprocessedEvents.length === 0) {
-        AggregationEngine.logger.info('No unprocessed events, aggregation finished');
-        return { success: true, processedEvents: 0 };
-      }
+        if (page.length === 0) {
+          if (checkpointsCreated) break;
+          checkpointsCreated = true;
+
+          // Log drained: checkpoint the open sessions so their time so far is counted
+          const checkpoints = EventsLogRepository.buildOpenSessionCheckpoints(carryOver, Date.now());
+          if (checkpoints.length === 0) break;
+
+          AggregationEngine.logger.debug(`Creating ${checkpoints.length} checkpoint events`);
+          await this.eventsLogRepo.bulkCreateEvents(checkpoints);
+          continue;
+        }
+
+        const freshEvents = page.filter(event => event.isProcessed === 0);
+        const events = [...carryOver, ...freshEvents];
+        AggregationEngine.logger.debug('Fetched event batch', {
+          fetched: page.length,
+          unprocessed: freshEvents.length,
+          carriedOver: carryOver.length,
+        });
+
+        if (events.length > 0) {
+          const processedIds = new Set(await this.processEvents(events, timeZone));
+          carryOver = events.filter(event => !processedIds.has(event.id!));
+          // Carried-over events are counted in the batch that finally marks them
+          processedEvents += processedIds.size;
+        }
 
-      await this.processEvents(unprocessedEvents);
+        watermark = page[page.length - 1].id!;
+        await cursorItem.setValue({
+          watermark,
+          carryOverIds: carryOver.map(event => event.id!),
+        });
 
-      AggregationEngine.logger.info('Aggregation finished', { processedEvents: unprocessedEvents.length });
-      return { success: true, processedEvents: unprocessedEvents.length };
+        batches++;
+      }
+
+      AggregationEngine.logger.info('Aggregation finished', { processedEvents, batches });
+      return { success: true, processedEvents, hasMore: false };
     } catch (e) {
       const error = e instanceof Error ? e.message : String(e);
       AggregationEngine.logger.error('Failed aggregation process', { error });
       return {
         success: false,
-        processedEvents: 0,
+        processedEvents,
+        hasMore: false,
         error,
       };
     }
   }
 
+  /**
+   * Reads the persisted resume point and reloads the carried-over events.
+   *
+   * A watermark above the last event ID means the log was recreated, so the
+   * scan starts over; already processed events are skipped on the way.
+   */
+  private async loadCursor(): Promise<{ watermark: number; carryOver: EventsLogRecord[] }> {
+    const cursor = await cursorItem.getValue();
+    const lastEventId = await this.eventsLogRepo.getLastEventId();
+
+    if (cursor.watermark > lastEventId) {
+      AggregationEngine.logger.warn('Aggregation watermark is past the event log, rescanning', {
+        watermark: cursor.watermark,
+        lastEventId,
+      });
+      return { watermark: 0, carryOver: [] };
+    }
+
+    const carryOver = await this.eventsLogRepo.getEventsByIds(cursor.carryOverIds);
+    return {
+      watermark: cursor.watermark,
+      carryOver: carryOver.filter(event => event.isProcessed === 0),
+    };
+  }
+
+  /**
+   * Reads the events the next run would measure, without marking anything.
+   *
+   * These are the carried-over events and the unprocessed events after the
+   * watermark, read in batches and returned in ID order.
+   *
+   * @param parentDomain - If given, only events of URLs under this parent domain are kept.
+   * @returns The pending events.
+   */
+  public async getPendingEvents(parentDomain?: string): Promise<EventsLogRecord[]> {
+    const batchSize = DEFAULT_CONFIG.aggregation.batchSize;
+    const domainMatches = new Map<string, boolean>();
+    const isWanted = (event: EventsLogRecord): boolean => {
+      if (parentDomain === undefined) return true;
+
+      let matches = domainMatches.get(event.url);
+      if (matches === undefined) {
+        try {
+          const { hostname } = new URL(event.url);
+          matches = (psl.get(hostname) ?? hostname) === parentDomain;
+        } catch {
+          matches = false;
+        }
+        domainMatches.set(event.url, matches);
+      }
+      return matches;
+    };
+
+    const { watermark, carryOver } = await this.loadCursor();
+    const pending = carryOver.filter(isWanted);
+
+    for (let afterId = watermark; ; ) {
+      const page = await this.eventsLogRepo.getEventsAfterId(afterId, batchSize);
+      if (page.length === 0) break;
+
+      pending.push(...page.filter(event => event.isProcessed === 0 && isWanted(event)));
+      afterId = page[page.length - 1].id!;
+    }
+
+    return pending;
+  }
+
+  /**
+   * Calculates the time of not-yet-aggregated events without saving anything.
+   *
+   * Applies the same grouping, validation and proration rules as `run`, so the
+   * result is what the next aggregation would add for these events.
+   *
+   * @param events - Unprocessed events in ID order, optionally followed by
+   *                 checkpoints that close the sessions still open.
+   * @param timeZone - IANA time zone used for date keys.
+   * @returns The daily time per URL the events amount to.
+   */
+  public calculatePendingTime(events: EventsLogRecord[], timeZone: string): AggregatedData {
+    return this.calculateAggregates(events, timeZone).aggregatedData;
+  }
+
+  /**
+   * Measures events into daily and hourly time without saving anything.
+   *
+   * Used to re-derive stored aggregates from the raw log, whatever the
+   * processed flags of the events say.
+   *
+   * @param events - Events of whole visits, in ID order.
+   * @param timeZone - IANA time zone used for date and hour keys.
+   * @returns The daily time per URL, the hourly time per hostname and the time per visit.
+   */
+  public calculateTimeBuckets(
+    events: EventsLogRecord[],
+    timeZone: string
+  ): {
+    aggregatedData: AggregatedData;
+    hourlyData: HourlyAggregatedData;
+    visitData: VisitAggregatedData;
+  } {
+    const { aggregatedData, hourlyData, visitData } = this.calculateAggregates(events, timeZone);
+    return { aggregatedData, hourlyData, visitData };
+  }
+
   /**
    * Processes a batch of event log records.
    *
    * This is the core logic where events are grouped, validated, time is calculated,
    * and domain information is extracted.
    *
-   * @param events - An array of event log records to process.
+   * @param events - An array of event log records to process, in ID order.
+   * @param timeZone - IANA time zone used for date and hour keys.
+   * @returns The IDs of the events that were marked as processed.
    */
-  private async processEvents(events: EventsLogRecord[]): Promise<void> {
+  private async processEvents(events: EventsLogRecord[], timeZone: string): Promise<number[]> {
     AggregationEngine.logger.info(`Processing ${events.length} events`);
+    const { aggregatedData, hourlyData, visitData, processedEventIds } = this.calculateAggregates(
+      events,
+      timeZone
+    );
+
+    AggregationEngine.logger.debug('Aggregated data after calculation', {
+      keys: Object.keys(aggregatedData),
+      data: aggregatedData,
+    });
+
+    await this.finalizeAggregation(aggregatedData, hourlyData, visitData, processedEventIds);
+
+    AggregationEngine.logger.info(`Processed and marked ${processedEventIds.length} events`);
+    return processedEventIds;
+  }
+
+  /**
+   * Groups, validates and measures a batch of events in memory.
+   *
+   * @param events - An array of event log records to measure.
+   * @param timeZone - IANA time zone used for date and hour keys.
+   * @returns The daily, hourly and per-visit time, and the IDs of the events it consumed.
+   */
+  private calculateAggregates(
+    events: EventsLogRecord[],
+    timeZone: string
+  ): {
+    aggregatedData: AggregatedData;
+    hourlyData: HourlyAggregatedData;
+    visitData: VisitAggregatedData;
+    processedEventIds: number[];
+  } {
     const visitGroups = this.groupEventsByVisit(events);
     AggregationEngine.logger.info(`Grouped into ${visitGroups.size} visit groups`);
 
@@ -98,23 +331,27 @@ export class AggregationEngine {
     });
 
     const aggregatedData: AggregatedData = {};
+    const hourlyData: HourlyAggregatedData = {};
+    const visitData: VisitAggregatedData = {};
     const processedEventIds = new Set<number>();
 
     for (const group of validVisitGroups.values()) {
-      const groupProcessedIds = this.calculateTime(group, aggregatedData);
+      const groupProcessedIds = this.calculateTime(
+        group,
+        aggregatedData,
+        hourlyData,
+        visitData,
+        timeZone
+      );
       groupProcessedIds.forEach(id => processedEventIds.add(id));
     }
 
-    AggregationEngine.logger.debug('Aggregated data after calculation', {
-      keys: Object.keys(aggregatedData),
-      data: aggregatedData,
-    });
-
-    const eventIds = Array.from(processedEventIds);
-    await this.finalizeAggregation(aggregatedData, eventIds);
-
-    AggregationEngine.logger.info(`Processed and marked ${eventIds.length} events`);
-    AggregationEngine.logger.debug(`Processed and marked ${eventIds.length} events`);
+    return {
+      aggregatedData,
+      hourlyData,
+      visitData,
+      processedEventIds: Array.from(processedEventIds),
+    };
   }
 
   /**
@@ -138,13 +375,23 @@ export class AggregationEngine {
 
   /**
    * Calculates the time spent on a visit and updates the aggregated data.
-   * Uses simplified first-to-last time calculation algorithm.
+   * Uses simplified first-to-last time calculation algorithm; each interval is
+   * then prorated across the days and hours it covers in the given time zone.
    *
    * @param visitGroup - The visit group to process.
    * @param aggregatedData - The map to store the aggregated data.
+   * @param hourlyData - The map to store the per-hour buckets.
+   * @param visitData - The map to store the per-visit time.
+   * @param timeZone - IANA time zone used for date and hour keys.
    * @returns Array of event IDs that should be marked as processed.
    */
-  private calculateTime(visitGroup: VisitGroup, aggregatedData: AggregatedData): number[] {
+  private calculateTime(
+    visitGroup: VisitGroup,
+    aggregatedData: AggregatedData,
+    hourlyData: HourlyAggregatedData,
+    visitData: VisitAggregatedData,
+    timeZone: string
+  ): number[] {
     // Events are already sorted by ID from the query, preserve logical order
 
     // Perform basic validation
@@ -160,6 +407,7 @@ export class AggregationEngine {
 
     // --- Calculate Open Time (based on visitId) ---
     let openTimeToAdd = 0;
+    const openIntervals: SessionInterval[] = [];
 
     // Include checkpoint events with null activityId (Open Time checkpoints)
     const openTimeEvents = visitGroup.events.filter(
@@ -178,6 +426,11 @@ export class AggregationEngine {
       if (timeDiff > 0) {
         // Positive time difference - normal processing
         openTimeToAdd = timeDiff;
+        openIntervals.push({
+          start: firstEvent.timestamp,
+          end: lastEvent.timestamp,
+          startsSession: firstEvent.eventType === 'open_time_start',
+        });
 
         // Mark events as processed based on last event type
         if (lastEvent.eventType === 'open_time_end') {
@@ -228,6 +481,8 @@ export class AggregationEngine {
 
     // --- Calculate Active Time (based on activityId) ---
     let activeTimeToAdd = 0;
+    let activitiesStarted = 0;
+    const activeIntervals: SessionInterval[] = [];
     const activityEvents = visitGroup.events.filter(
       e =>
         e.activityId !== null &&
@@ -255,6 +510,16 @@ export class AggregationEngine {
         if (timeDiff > 0) {
           // Positive time difference - normal processing
           activeTimeToAdd += timeDiff;
+          // Activities continued from an earlier batch begin with a checkpoint
+          const startsSession = firstEvent.eventType === 'active_time_start';
+          activeIntervals.push({
+            start: firstEvent.timestamp,
+            end: lastEvent.timestamp,
+            startsSession,
+          });
+          if (startsSession) {
+            activitiesStarted++;
+          }
 
           // Mark events as processed based on last event type
           if (lastEvent.eventType === 'active_time_end') {
@@ -312,28 +577,121 @@ export class AggregationEngine {
       return processedEventIds;
     }
 
-    const { hostname, parentDomain } = this.parseUrl(visitGroup.url);
-    const date = getUtcDateString(visitGroup.events[0].timestamp);
-    const key = `${date}:${visitGroup.url}`;
+    const visit = { url: visitGroup.url, ...this.parseUrl(visitGroup.url) };
 
-    if (!(key in aggregatedData)) {
-      aggregatedData[key] = {
-        openTime: 0,
-        activeTime: 0,
-        url: visitGroup.url,
-        date,
-        hostname,
-        parentDomain,
-      };
-    }
+    this.addDailyTime(openIntervals, 'openTime', visit, timeZone, aggregatedData);
+    this.addDailyTime(activeIntervals, 'activeTime', visit, timeZone, aggregatedData);
+    this.addHourlyTime(openIntervals, 'openTime', visit, timeZone, hourlyData);
+    this.addHourlyTime(activeIntervals, 'activeTime', visit, timeZone, hourlyData);
 
-    const data = aggregatedData[key];
-    data.openTime += openTimeToAdd;
-    data.activeTime += activeTimeToAdd;
+    const intervals = [...openIntervals, ...activeIntervals];
+    visitData[visitGroup.events[0].visitId] = {
+      ...visit,
+      start: Math.min(...intervals.map(interval => interval.start)),
+      end: Math.max(...intervals.map(interval => interval.end)),
+      openTime: openTimeToAdd,
+      activeTime: activeTimeToAdd,
+      activityCount: activitiesStarted,
+      crashRecovered: visitGroup.events.some(event => event.resolution === 'crash_recovery'),
+    };
 
     return processedEventIds;
   }
 
+  /**
+   * Splits intervals at midnight and adds each slice to its day's record,
+   * so visits crossing midnight are prorated instead of credited to the first day.
+   *
+   * A session counts once on every day it has time on: on the day it starts,
+   * and on each later day it enters. Slices continuing a session from an
+   * earlier batch on the same day add time only.
+   *
+   * @param intervals - The measured open or active intervals of a visit.
+   * @param field - Which time field the intervals contribute to.
+   * @param visit - URL, hostname and parent domain of the visit.
+   * @param timeZone - IANA time zone whose midnight splits the intervals.
+   * @param aggregatedData - The map to store the aggregated data.
+   */
+  private addDailyTime(
+    intervals: SessionInterval[],
+    field: 'openTime' | 'activeTime',
+    { url, hostname, parentDomain }: { url: string; hostname: string; parentDomain: string },
+    timeZone: string,
+    aggregatedData: AggregatedData
+  ): void {
+    for (const interval of intervals) {
+      let sliceStart = interval.start;
+
+      splitIntervalByDay(interval, timeZone).forEach((slice, index) => {
+        const sliceEnd = sliceStart + slice.duration;
+        const key = `${slice.date}:${url}`;
+        if (!(key in aggregatedData)) {
+          aggregatedData[key] = {
+            openTime: 0,
+            activeTime: 0,
+            visitCount: 0,
+            activeSessionCount: 0,
+            firstSeen: sliceStart,
+            lastSeen: sliceEnd,
+            url,
+            date: slice.date,
+            hostname,
+            parentDomain,
+          };
+        }
+
+        const data = aggregatedData[key];
+        data[field] += slice.duration;
+        data.firstSeen = Math.min(data.firstSeen, sliceStart);
+        data.lastSeen = Math.max(data.lastSeen, sliceEnd);
+
+        const entersDay =
+          index > 0 ||
+          interval.startsSession ||
+          sliceStart === getZonedDayStart(slice.date, timeZone);
+        if (entersDay) {
+          data[SESSION_COUNTERS[field]]++;
+        }
+
+        sliceStart = sliceEnd;
+      });
+    }
+  }
+
+  /**
+   * Splits intervals at hour boundaries and adds each slice to its hourly bucket.
+   *
+   * @param intervals - The measured open or active intervals of a visit.
+   * @param field - Which time field the intervals contribute to.
+   * @param visit - Hostname and parent domain of the visit.
+   * @param timeZone - IANA time zone whose clock hours split the intervals.
+   * @param hourlyData - The map to store the per-hour buckets.
+   */
+  private addHourlyTime(
+    intervals: TimeInterval[],
+    field: 'openTime' | 'activeTime',
+    { hostname, parentDomain }: { hostname: string; parentDomain: string },
+    timeZone: string,
+    hourlyData: HourlyAggregatedData
+  ): void {
+    for (const interval of intervals) {
+      for (const slice of splitIntervalByHour(interval, timeZone)) {
+        const key = generateHourlyStatsKey(slice.date, slice.hour, hostname);
+        if (!(key in hourlyData)) {
+          hourlyData[key] = {
+            openTime: 0,
+            activeTime: 0,
+            date: slice.date,
+            hour: slice.hour,
+            hostname,
+            parentDomain,
+          };
+        }
+        hourlyData[key][field] += slice.duration;
+      }
+    }
+  }
+
   /**
    * Validates visit groups to ensure they contain valid event sequences
    * that can form complete time intervals.
@@ -450,29 +808,85 @@ export class AggregationEngine {
    * Finalizes the aggregation by saving the calculated statistics
    * and marking the original events as processed.
    *
+   * All writes share one transaction: if any of them fails, none is kept and
+   * the events stay unprocessed, so the retry does not count their time twice.
+   *
    * @param aggregatedData - The data to be saved.
+   * @param hourlyData - The per-hour buckets to be saved.
+   * @param visitData - The per-visit time to be saved.
    * @param eventIds - The IDs of the events that were processed.
    */
   private async finalizeAggregation(
     aggregatedData: AggregatedData,
+    hourlyData: HourlyAggregatedData,
+    visitData: VisitAggregatedData,
     eventIds: number[]
   ): Promise<void> {
     AggregationEngine.logger.info(`Upserting ${Object.keys(aggregatedData).length} aggregated stats records`);
 
-    const upsertPromises = Object.values(aggregatedData).map(data =>
-      this.aggregatedStatsRepo.upsertTimeAggregation({
+    const rollupEntries = Object.values(aggregatedData).map(
+      (data): RollupAggregationData => ({
         date: data.date,
-        url: data.url,
         hostname: data.hostname,
         parentDomain: data.parentDomain,
         openTimeToAdd: data.openTime,
         activeTimeToAdd: data.activeTime,
+        visitsToAdd: data.visitCount,
+        activeSessionsToAdd: data.activeSessionCount,
       })
     );
 
-    await Promise.all(upsertPromises);
-    
-    await this.eventsLogRepo.markEventsAsProcessed(eventIds);
+    const { eventslog, aggregatedstats, hourlystats, visits, weeklystats, monthlystats } = this.db;
+    const tables = [eventslog, aggregatedstats, hourlystats, visits, weeklystats, monthlystats];
+    await this.db.transaction('rw', tables, async () => {
+      const upsertPromises = Object.values(aggregatedData).map(data =>
+        this.aggregatedStatsRepo.upsertTimeAggregation({
+          date: data.date,
+          url: data.url,
+          hostname: data.hostname,
+          parentDomain: data.parentDomain,
+          openTimeToAdd: data.openTime,
+          activeTimeToAdd: data.activeTime,
+          visitsToAdd: data.visitCount,
+          activeSessionsToAdd: data.activeSessionCount,
+          firstSeen: data.firstSeen,
+          lastSeen: data.lastSeen,
+        })
+      );
+
+      await Promise.all(upsertPromises);
+
+      await this.weeklyStatsRepo.upsertRollups(rollupEntries);
+      await this.monthlyStatsRepo.upsertRollups(rollupEntries);
+
+      await this.hourlyStatsRepo.upsertHourlyAggregations(
+        Object.values(hourlyData).map(data => ({
+          date: data.date,
+          hour: data.hour,
+          hostname: data.hostname,
+          parentDomain: data.parentDomain,
+          openTimeToAdd: data.openTime,
+          activeTimeToAdd: data.activeTime,
+        }))
+      );
+
+      await this.visitsRepo.upsertVisits(
+        Object.entries(visitData).map(([visitId, data]) => ({
+          visitId,
+          url: data.url,
+          hostname: data.hostname,
+          parentDomain: data.parentDomain,
+          start: data.start,
+          end: data.end,
+          openTimeToAdd: data.openTime,
+          activeTimeToAdd: data.activeTime,
+          activitiesToAdd: data.activityCount,
+          crashRecovered: data.crashRecovered,
+        }))
+      );
+
+      await this.eventsLogRepo.markEventsAsProcessed(eventIds);
+    });
 
     AggregationEngine.logger.info(`Marking ${eventIds.length} events as processed`);
 
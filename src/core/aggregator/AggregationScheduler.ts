@@ -1,11 +1,13 @@
 import {
   AGGREGATION_ALARM_NAME,
+  AGGREGATION_FOLLOW_UP_ALARM_NAME,
   AGGREGATION_LOCK_KEY,
   DEFAULT_CONFIG,
   SCHEDULER_PERIOD_MINUTES_KEY,
 } from '@/config/constants';
 import type { AggregationEngine } from './AggregationEngine';
 import type { DataPruner } from './DataPruner';
+import type { DateRebucketer } from './DateRebucketer';
 import { createLogger, type Logger } from '@/utils/logger';
 import { browser, Browser } from 'wxt/browser';
 import { storage } from '#imports';
@@ -20,15 +22,19 @@ export interface SchedulerOptions {
 export class AggregationScheduler {
   private isListenerRegistered: boolean = false;
   private static readonly logger = createLogger('⏰ AggregationScheduler');
+  /** Delay of the follow-up run; Chrome does not fire alarms sooner than 30 seconds */
+  private static readonly FOLLOW_UP_DELAY_MINUTES = 0.5;
 
   /**
    * @param aggregationEngine
    * @param dataPruner
+   * @param dateRebucketer - Moves stored aggregates when the configured time zone changes
    * @param options
    */
   constructor(
     private readonly aggregationEngine: AggregationEngine,
     private readonly dataPruner: DataPruner,
+    private readonly dateRebucketer: DateRebucketer,
     private readonly options: SchedulerOptions = {}
   ) {
     this.handleAlarm = this.handleAlarm.bind(this);
@@ -62,13 +68,17 @@ export class AggregationScheduler {
   }
 
   private handleAlarm(alarm: Browser.alarms.Alarm): void {
-    if (alarm.name === AGGREGATION_ALARM_NAME) {
+    if (
+      alarm.name === AGGREGATION_ALARM_NAME ||
+      alarm.name === AGGREGATION_FOLLOW_UP_ALARM_NAME
+    ) {
       this.runTask();
     }
   }
 
   public async stop(): Promise<boolean> {
     const cleared = await browser.alarms.clear(AGGREGATION_ALARM_NAME);
+    await browser.alarms.clear(AGGREGATION_FOLLOW_UP_ALARM_NAME);
     if (this.isListenerRegistered) {
       AggregationScheduler.logger.debug('Remove alarm listener');
       browser.alarms.onAlarm.removeListener(this.handleAlarm);
@@ -123,10 +133,26 @@ export class AggregationScheduler {
     await storage.setItem(AGGREGATION_LOCK_KEY, { timestamp: Date.now() });
     const startTime = Date.now();
     try {
-      const result = await this.aggregationEngine.run();
+      // Re-bucket first so new events are keyed in the same zone as the stored rows
+      const timeZone = await this.dateRebucketer.syncWithConfig();
+      const result = await this.aggregationEngine.run({
+        timeZone,
+        // Stop between batches well before the lock expires; the next run resumes
+        deadline: startTime + DEFAULT_CONFIG.aggregation.lockTtlMs / 2,
+      });
       if (result.success) {
-        AggregationScheduler.logger.info('Complete aggregation task');
-        await this.dataPruner.run();
+        AggregationScheduler.logger.info('Complete aggregation task', {
+          processedEvents: result.processedEvents,
+          hasMore: result.hasMore,
+        });
+        if (result.hasMore) {
+          // Catch up on the backlog before the next period; pruning waits until it is done
+          await browser.alarms.create(AGGREGATION_FOLLOW_UP_ALARM_NAME, {
+            delayInMinutes: AggregationScheduler.FOLLOW_UP_DELAY_MINUTES,
+          });
+        } else {
+          await this.dataPruner.run();
+        }
       } else {
         AggregationScheduler.logger.error('Fail aggregation task', {
           error: result.error,
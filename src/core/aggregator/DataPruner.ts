@@ -29,7 +29,7 @@ export class DataPruner {
       const config = configManager.getConfig();
       const retentionPolicy = config.retentionPolicy;
 
-      const retentionDays = this.calculateRetentionDays(retentionPolicy);
+      const retentionDays = DataPruner.getRetentionDays(retentionPolicy);
 
       // Skip pruning for permanent retention policy
       if (retentionDays === null) {
@@ -74,7 +74,7 @@ export class DataPruner {
    * @param retentionPolicy - The retention policy configuration
    * @returns The number of days to retain data, or null for permanent retention
    */
-  private calculateRetentionDays(retentionPolicy: RetentionPolicyConfig): number | null {
+  static getRetentionDays(retentionPolicy: RetentionPolicyConfig): number | null {
     switch (retentionPolicy.policy) {
       case 'immediate':
         return 1; // Keep for 1 day to allow for processing
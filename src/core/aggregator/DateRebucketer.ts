@@ -0,0 +1,388 @@
+import { AGGREGATION_TIMEZONE_KEY } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import { RollupStatsRepository } from '@/core/db/repositories/rollupstats.repository';
+import type { WebTimeTrackerDB } from '@/core/db/schemas';
+import {
+  earliestSeen,
+  latestSeen,
+  type AggregatedStatsRecord,
+} from '@/core/db/schemas/aggregatedstats.schema';
+import {
+  generateHourlyStatsKey,
+  type HourlyStatsRecord,
+} from '@/core/db/schemas/hourlystats.schema';
+import { createLogger } from '@/utils/logger';
+import {
+  getBucketedTimeZone,
+  getZonedDayStart,
+  getZonedHourStart,
+  resolveTimeZone,
+} from '@/utils/timezone';
+import { storage } from '#imports';
+import { splitIntervalByDay, splitIntervalByHour } from './intervals';
+import type { TimeInterval } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Distinct dates whose rows are read and moved at a time */
+const PAGE_DATES = 31;
+/**
+ * Furthest a row can move: zone offsets lie between UTC-12 and UTC+14, so a day
+ * lands at most two calendar days before or after its old date.
+ */
+const MAX_SHIFT_DAYS = 2;
+
+/**
+ * Outcome of re-bucketing the stored aggregates into another time zone
+ */
+export interface RebucketResult {
+  fromTimeZone: string;
+  toTimeZone: string;
+  /** Daily rows before and after re-bucketing */
+  statsBefore: number;
+  statsAfter: number;
+  /** Hourly rows before and after re-bucketing */
+  hourlyBefore: number;
+  hourlyAfter: number;
+}
+
+/**
+ * Splits an integer total across weighted keys. Shares are floored and the
+ * rounding remainder goes to the last key, so the shares always sum to `total`.
+ */
+function distribute(total: number, weights: Map<string, number>): Map<string, number> {
+  const entries = [...weights].filter(([, weight]) => weight > 0);
+  const weightSum = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const shares = new Map<string, number>();
+
+  let allocated = 0;
+  entries.forEach(([key, weight], index) => {
+    const share =
+      index === entries.length - 1 ? total - allocated : Math.floor((total * weight) / weightSum);
+    allocated += share;
+    shares.set(key, share);
+  });
+
+  return shares;
+}
+
+function sumWeights(weights: Map<string, number>): number {
+  let sum = 0;
+  weights.forEach(weight => (sum += weight));
+  return sum;
+}
+
+function addWeight(weights: Map<string, number>, key: string, weight: number): void {
+  weights.set(key, (weights.get(key) ?? 0) + weight);
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00.000Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function getNextDate(date: string): string {
+  return shiftDate(date, 1);
+}
+
+/**
+ * Moves the rows dated after `date` out of `rows` and returns them
+ */
+function takeRowsAfter<T extends { date: string }>(
+  rows: Map<string, T>,
+  date: string
+): Map<string, T> {
+  const later = new Map<string, T>();
+  rows.forEach((row, key) => {
+    if (row.date > date) {
+      later.set(key, row);
+      rows.delete(key);
+    }
+  });
+  return later;
+}
+
+/**
+ * Narrows a row's first and last seen times to a new day; both become null
+ * if the row was not seen during that day.
+ */
+function clampSeen(
+  { first_seen, last_seen }: Pick<AggregatedStatsRecord, 'first_seen' | 'last_seen'>,
+  day: TimeInterval
+): Pick<AggregatedStatsRecord, 'first_seen' | 'last_seen'> {
+  if (
+    first_seen === null ||
+    last_seen === null ||
+    first_seen >= day.end ||
+    last_seen <= day.start
+  ) {
+    return { first_seen: null, last_seen: null };
+  }
+  return {
+    first_seen: Math.max(first_seen, day.start),
+    last_seen: Math.min(last_seen, day.end),
+  };
+}
+
+/**
+ * Keeps the stored aggregates keyed in the configured time zone.
+ *
+ * Daily and hourly rows are keyed by calendar date in one time zone. When the
+ * setting changes, existing rows are moved into the new zone's days and hours:
+ * hourly rows are split by their exact hour interval, and daily rows follow the
+ * hourly distribution of the same hostname (or an even spread over the day when
+ * no hourly rows exist, e.g. for data aggregated before the hourly table).
+ */
+export class DateRebucketer {
+  private static readonly logger = createLogger('🌐 DateRebucketer');
+
+  /**
+   * @param db - Database holding the aggregated tables
+   */
+  constructor(private readonly db: WebTimeTrackerDB) {}
+
+  /**
+   * Time zone the aggregates should be keyed in according to the settings
+   */
+  static async getConfiguredTimeZone(): Promise<string> {
+    await configManager.initialize();
+    return resolveTimeZone(configManager.getConfig().aggregation.timezone);
+  }
+
+  /**
+   * Re-buckets the stored aggregates if the configured time zone has changed.
+   *
+   * @returns The time zone the stored aggregates are keyed in afterwards. On
+   *          failure this is the previous zone, so new data stays consistent.
+   */
+  async syncWithConfig(): Promise<string> {
+    const current = await getBucketedTimeZone();
+
+    try {
+      const target = await DateRebucketer.getConfiguredTimeZone();
+      if (target === current) {
+        return current;
+      }
+
+      await this.rebucket(current, target);
+      await storage.setItem(AGGREGATION_TIMEZONE_KEY, target);
+      return target;
+    } catch (error) {
+      DateRebucketer.logger.error('Fail to re-bucket aggregates, keep previous time zone', {
+        timeZone: current,
+        error,
+      });
+      return current;
+    }
+  }
+
+  /**
+   * Moves all daily and hourly rows from one time zone's calendar into another's,
+   * and rebuilds the weekly and monthly rollups of the dates that were moved.
+   *
+   * Runs in a single transaction, so readers see either the old or the new
+   * layout. Open and active totals are conserved exactly.
+   *
+   * Rows are read a page of dates at a time, oldest first. Moved rows that land
+   * on a date of a later page are held back until that page has been moved, so
+   * they are never mixed up with rows still keyed in the old zone.
+   *
+   * @param fromTimeZone - Time zone the rows are currently keyed in
+   * @param toTimeZone - Time zone to key the rows in
+   */
+  async rebucket(fromTimeZone: string, toTimeZone: string): Promise<RebucketResult> {
+    const { aggregatedstats, hourlystats, weeklystats, monthlystats } = this.db;
+    const tables = [aggregatedstats, hourlystats, weeklystats, monthlystats];
+
+    const result = await this.db.transaction('rw', tables, async () => {
+      const statsBefore = await aggregatedstats.count();
+      const hourlyBefore = await hourlystats.count();
+
+      const dates = [
+        ...new Set([
+          ...((await aggregatedstats.orderBy('date').uniqueKeys()) as string[]),
+          ...((await hourlystats.orderBy('date').uniqueKeys()) as string[]),
+        ]),
+      ].sort();
+
+      let heldStats = new Map<string, AggregatedStatsRecord>();
+      let heldHourly = new Map<string, HourlyStatsRecord>();
+
+      for (let index = 0; index < dates.length; index += PAGE_DATES) {
+        const page = dates.slice(index, index + PAGE_DATES);
+        const startDate = page[0];
+        const endDate = page[page.length - 1];
+
+        // Moved rows already written for the days just before the page, which it can add to
+        const movedStart = shiftDate(startDate, -MAX_SHIFT_DAYS);
+        const movedStats = aggregatedstats.where('date').between(movedStart, startDate);
+        const movedHourly = hourlystats.where('date').between(movedStart, startDate);
+        const mergedStats = new Map(heldStats);
+        const mergedHourly = new Map(heldHourly);
+        (await movedStats.toArray()).forEach(stat => mergedStats.set(stat.key, stat));
+        (await movedHourly.toArray()).forEach(record => mergedHourly.set(record.key, record));
+
+        const pageStats = aggregatedstats.where('date').between(startDate, endDate, true, true);
+        const pageHourly = hourlystats.where('date').between(startDate, endDate, true, true);
+        const stats = await pageStats.toArray();
+        const hourly = await pageHourly.toArray();
+
+        this.rebucketHourly(hourly, fromTimeZone, toTimeZone, mergedHourly);
+        this.rebucketDaily(stats, hourly, fromTimeZone, toTimeZone, mergedStats);
+        heldStats = takeRowsAfter(mergedStats, endDate);
+        heldHourly = takeRowsAfter(mergedHourly, endDate);
+
+        await pageStats.delete();
+        await pageHourly.delete();
+        await aggregatedstats.bulkPut([...mergedStats.values()]);
+        await hourlystats.bulkPut([...mergedHourly.values()]);
+      }
+
+      await aggregatedstats.bulkPut([...heldStats.values()]);
+      await hourlystats.bulkPut([...heldHourly.values()]);
+      if (dates.length > 0) {
+        await RollupStatsRepository.rebuildAll(this.db, {
+          startDate: shiftDate(dates[0], -MAX_SHIFT_DAYS),
+          endDate: shiftDate(dates[dates.length - 1], MAX_SHIFT_DAYS),
+        });
+      }
+
+      return {
+        fromTimeZone,
+        toTimeZone,
+        statsBefore,
+        statsAfter: await aggregatedstats.count(),
+        hourlyBefore,
+        hourlyAfter: await hourlystats.count(),
+      };
+    });
+
+    DateRebucketer.logger.info('Re-bucket aggregates into new time zone', result);
+    return result;
+  }
+
+  /**
+   * Adds hourly rows to `merged`, keyed by the hours of the new time zone
+   */
+  private rebucketHourly(
+    records: HourlyStatsRecord[],
+    fromTimeZone: string,
+    toTimeZone: string,
+    merged: Map<string, HourlyStatsRecord>
+  ): void {
+    for (const record of records) {
+      const start = getZonedHourStart(record.date, record.hour, fromTimeZone);
+      const slices = splitIntervalByHour({ start, end: start + HOUR_MS }, toTimeZone);
+      const weights = new Map(
+        slices.map(slice => [
+          generateHourlyStatsKey(slice.date, slice.hour, record.hostname),
+          slice.duration,
+        ])
+      );
+      const openShares = distribute(record.total_open_time, weights);
+      const activeShares = distribute(record.total_active_time, weights);
+
+      for (const slice of slices) {
+        const key = generateHourlyStatsKey(slice.date, slice.hour, record.hostname);
+        const previous = merged.get(key);
+        merged.set(key, {
+          ...record,
+          key,
+          date: slice.date,
+          hour: slice.hour,
+          dayOfWeek: new Date(`${slice.date}T00:00:00.000Z`).getUTCDay(),
+          total_open_time: (previous?.total_open_time ?? 0) + (openShares.get(key) ?? 0),
+          total_active_time: (previous?.total_active_time ?? 0) + (activeShares.get(key) ?? 0),
+          last_updated: Math.max(previous?.last_updated ?? 0, record.last_updated),
+        });
+      }
+    }
+  }
+
+  /**
+   * Adds daily rows to `merged`, keyed by the days of the new time zone
+   *
+   * @param hourly - Hourly rows of the same old days, which weight the split
+   */
+  private rebucketDaily(
+    stats: AggregatedStatsRecord[],
+    hourly: HourlyStatsRecord[],
+    fromTimeZone: string,
+    toTimeZone: string,
+    merged: Map<string, AggregatedStatsRecord>
+  ): void {
+    // Per (date, hostname): how that day's hourly time maps onto the new days
+    const openWeightsByDay = new Map<string, Map<string, number>>();
+    const activeWeightsByDay = new Map<string, Map<string, number>>();
+
+    for (const record of hourly) {
+      const dayKey = `${record.date}:${record.hostname}`;
+      const openWeights = openWeightsByDay.get(dayKey) ?? new Map<string, number>();
+      const activeWeights = activeWeightsByDay.get(dayKey) ?? new Map<string, number>();
+
+      const start = getZonedHourStart(record.date, record.hour, fromTimeZone);
+      for (const slice of splitIntervalByDay({ start, end: start + HOUR_MS }, toTimeZone)) {
+        addWeight(openWeights, slice.date, (record.total_open_time * slice.duration) / HOUR_MS);
+        addWeight(activeWeights, slice.date, (record.total_active_time * slice.duration) / HOUR_MS);
+      }
+
+      openWeightsByDay.set(dayKey, openWeights);
+      activeWeightsByDay.set(dayKey, activeWeights);
+    }
+
+    for (const stat of stats) {
+      const dayKey = `${stat.date}:${stat.hostname}`;
+      const dayInterval = {
+        start: getZonedDayStart(stat.date, fromTimeZone),
+        end: getZonedDayStart(getNextDate(stat.date), fromTimeZone),
+      };
+      const uniformWeights = new Map(
+        splitIntervalByDay(dayInterval, toTimeZone).map(slice => [slice.date, slice.duration])
+      );
+
+      let openWeights = openWeightsByDay.get(dayKey);
+      if (!openWeights || sumWeights(openWeights) === 0) {
+        openWeights = uniformWeights;
+      }
+      let activeWeights = activeWeightsByDay.get(dayKey);
+      if (!activeWeights || sumWeights(activeWeights) === 0) {
+        activeWeights = openWeights;
+      }
+
+      const openShares = distribute(stat.total_open_time, openWeights);
+      const activeShares = distribute(stat.total_active_time, activeWeights);
+      // Visits cannot be followed across the new midnight; counts go with the time
+      const visitShares = distribute(stat.visit_count, openWeights);
+      const sessionShares = distribute(stat.active_session_count, activeWeights);
+      const dates = new Set([...openShares.keys(), ...activeShares.keys()]);
+      if (dates.size === 0) {
+        // Nothing to split (both totals are zero); keep the row on its first new day
+        dates.add(uniformWeights.keys().next().value ?? stat.date);
+      }
+
+      // Keep the stored URL key part as-is, so rows stay addressable by the engine
+      const urlKey = stat.key.slice(stat.date.length + 1);
+      for (const date of dates) {
+        const key = `${date}:${urlKey}`;
+        const previous = merged.get(key);
+        const seen = clampSeen(stat, {
+          start: getZonedDayStart(date, toTimeZone),
+          end: getZonedDayStart(getNextDate(date), toTimeZone),
+        });
+        merged.set(key, {
+          ...stat,
+          key,
+          date,
+          total_open_time: (previous?.total_open_time ?? 0) + (openShares.get(date) ?? 0),
+          total_active_time: (previous?.total_active_time ?? 0) + (activeShares.get(date) ?? 0),
+          visit_count: (previous?.visit_count ?? 0) + (visitShares.get(date) ?? 0),
+          active_session_count:
+            (previous?.active_session_count ?? 0) + (sessionShares.get(date) ?? 0),
+          first_seen: earliestSeen(previous?.first_seen ?? null, seen.first_seen),
+          last_seen: latestSeen(previous?.last_seen ?? null, seen.last_seen),
+          last_updated: Math.max(previous?.last_updated ?? 0, stat.last_updated),
+        });
+      }
+    }
+  }
+}
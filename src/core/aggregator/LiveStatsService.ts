@@ -0,0 +1,200 @@
+import type { EventsLogRecord } from '../db/models/eventslog.model';
+import type { AggregatedStatsRepository } from '../db/repositories/aggregatedstats.repository';
+import {
+  generateAggregatedStatsKey,
+  earliestSeen,
+  latestSeen,
+  type AggregatedStatsRecord,
+} from '../db/schemas/aggregatedstats.schema';
+import type { TimeTracker } from '../tracker';
+import type { TabState } from '../tracker/types';
+import type { AggregationEngine } from './AggregationEngine';
+import type { AggregatedData, LiveDomainStats } from './types';
+import { createLogger } from '@/utils/logger';
+import { getBucketedTimeZone } from '@/utils/timezone';
+
+/**
+ * Tracker capabilities the live stats rely on
+ */
+export type LiveStatsTrackerHost = Pick<TimeTracker, 'getAllTabStates' | 'flushEvents'>;
+
+/**
+ * LiveStatsService class
+ *
+ * Answers stats queries with "aggregated + pending" totals, so readers do not lag
+ * behind the aggregation interval. Pending time is measured by the aggregation
+ * engine itself from the events its next run would read, with the sessions that
+ * are still open closed by in-memory checkpoints at the query time.
+ */
+export class LiveStatsService {
+  private static readonly logger = createLogger('📡 LiveStatsService');
+
+  /**
+   * @param engine - Engine that reads and measures the pending events.
+   * @param aggregatedStatsRepo - Repository for reading aggregated statistics.
+   * @param tracker - Tracker holding the open sessions.
+   */
+  constructor(
+    private readonly engine: AggregationEngine,
+    private readonly aggregatedStatsRepo: AggregatedStatsRepository,
+    private readonly tracker: LiveStatsTrackerHost
+  ) {}
+
+  /**
+   * Builds the checkpoints an aggregation run at `now` would write for the open
+   * sessions, without saving them.
+   *
+   * @param tabStates - Live tab states from the tracker.
+   * @param now - Checkpoint time.
+   * @returns One Open Time checkpoint per open visit, plus one Active Time
+   *          checkpoint per running activity.
+   */
+  static createOpenSessionCheckpoints(
+    tabStates: Iterable<TabState>,
+    now: number
+  ): EventsLogRecord[] {
+    const checkpoints: EventsLogRecord[] = [];
+
+    for (const tabState of tabStates) {
+      if (tabState.sessionEnded) continue;
+
+      const checkpoint = {
+        timestamp: now,
+        eventType: 'checkpoint',
+        tabId: tabState.tabId,
+        url: tabState.url,
+        visitId: tabState.visitId,
+        isProcessed: 0,
+      } as const;
+      checkpoints.push({ ...checkpoint, activityId: null });
+      if (tabState.activityId !== null) {
+        checkpoints.push({ ...checkpoint, activityId: tabState.activityId });
+      }
+    }
+
+    return checkpoints;
+  }
+
+  /**
+   * Adds pending time, visit and session counts to the aggregated rows of one parent domain.
+   *
+   * @param parentDomain - Parent domain the rows belong to.
+   * @param stats - Aggregated rows of the parent domain.
+   * @param pending - Pending time per date and URL, of any domain.
+   * @param now - Update time of rows that gain pending time.
+   * @returns New rows; the input rows are not modified.
+   */
+  static mergePendingTime(
+    parentDomain: string,
+    stats: readonly AggregatedStatsRecord[],
+    pending: AggregatedData,
+    now: number
+  ): AggregatedStatsRecord[] {
+    const merged = new Map(stats.map(stat => [stat.key, { ...stat }]));
+
+    for (const data of Object.values(pending)) {
+      if (data.parentDomain !== parentDomain) continue;
+
+      const key = generateAggregatedStatsKey(data.date, data.url);
+      const existing = merged.get(key);
+      if (existing) {
+        existing.total_open_time += data.openTime;
+        existing.total_active_time += data.activeTime;
+        existing.visit_count += data.visitCount;
+        existing.active_session_count += data.activeSessionCount;
+        existing.first_seen = earliestSeen(existing.first_seen, data.firstSeen);
+        existing.last_seen = latestSeen(existing.last_seen, data.lastSeen);
+        existing.last_updated = now;
+      } else {
+        merged.set(key, {
+          key,
+          date: data.date,
+          url: data.url,
+          hostname: data.hostname,
+          parentDomain: data.parentDomain,
+          total_open_time: data.openTime,
+          total_active_time: data.activeTime,
+          visit_count: data.visitCount,
+          active_session_count: data.activeSessionCount,
+          first_seen: data.firstSeen,
+          last_seen: data.lastSeen,
+          last_updated: now,
+        });
+      }
+    }
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Measures the time of a parent domain that is not aggregated yet.
+   *
+   * Read the aggregates the result is added to first: if an aggregation
+   * finishes in between, its events are missed once instead of being counted twice.
+   *
+   * @param parentDomain - Parent domain to measure.
+   * @param now - Query time; open sessions are measured up to it.
+   * @returns Pending time per date and URL of the parent domain.
+   */
+  async getPendingTime(parentDomain: string, now: number = Date.now()): Promise<AggregatedData> {
+    // Queued events are not in the log yet
+    await this.tracker.flushEvents();
+    const timeZone = await getBucketedTimeZone();
+
+    const pendingEvents = await this.engine.getPendingEvents(parentDomain);
+    const checkpoints = LiveStatsService.createOpenSessionCheckpoints(
+      this.tracker.getAllTabStates().values(),
+      now
+    );
+    const measured = this.engine.calculatePendingTime([...pendingEvents, ...checkpoints], timeZone);
+
+    const pending: AggregatedData = {};
+    for (const [key, data] of Object.entries(measured)) {
+      if (data.parentDomain === parentDomain) {
+        pending[key] = data;
+      }
+    }
+
+    LiveStatsService.logger.debug('Measured pending time', {
+      parentDomain,
+      pendingEvents: pendingEvents.length,
+      openSessionCheckpoints: checkpoints.length,
+    });
+    return pending;
+  }
+
+  /**
+   * Gets the stats of a parent domain including time not aggregated yet.
+   *
+   * @param parentDomain - Parent domain to query.
+   * @param now - Query time; open sessions are measured up to it.
+   */
+  async getParentDomainStats(
+    parentDomain: string,
+    now: number = Date.now()
+  ): Promise<LiveDomainStats> {
+    const stats = await this.aggregatedStatsRepo.getStatsByParentDomain(parentDomain);
+    const pending = await this.getPendingTime(parentDomain, now);
+
+    let pendingOpenTime = 0;
+    let pendingActiveTime = 0;
+    for (const data of Object.values(pending)) {
+      pendingOpenTime += data.openTime;
+      pendingActiveTime += data.activeTime;
+    }
+
+    LiveStatsService.logger.debug('Computed live domain stats', {
+      parentDomain,
+      pendingOpenTime,
+      pendingActiveTime,
+    });
+
+    return {
+      parentDomain,
+      stats: LiveStatsService.mergePendingTime(parentDomain, stats, pending, now),
+      pendingOpenTime,
+      pendingActiveTime,
+      computedAt: now,
+    };
+  }
+}
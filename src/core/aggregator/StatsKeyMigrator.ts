@@ -0,0 +1,158 @@
+import { STATS_KEY_MIGRATION_KEY } from '@/config/constants';
+import type { WebTimeTrackerDB } from '@/core/db/schemas';
+import {
+  generateAggregatedStatsKey,
+  earliestSeen,
+  latestSeen,
+  type AggregatedStatsRecord,
+} from '@/core/db/schemas/aggregatedstats.schema';
+import { normalizeUrl } from '@/core/db/utils/url-normalizer.util';
+import { createLogger } from '@/utils/logger';
+import { storage } from '#imports';
+
+/**
+ * Outcome of re-keying the stored daily aggregates
+ */
+export interface StatsKeyMigrationResult {
+  /** Daily rows before and after merging */
+  statsBefore: number;
+  statsAfter: number;
+  /** Rows whose key changed */
+  rekeyed: number;
+}
+
+/** Daily rows read and re-keyed per transaction */
+const PAGE_SIZE = 1000;
+
+/**
+ * Adds a row to the row already collected under its new key, if any
+ */
+function mergeStat(
+  previous: AggregatedStatsRecord | undefined,
+  stat: AggregatedStatsRecord,
+  key: string,
+  url: string
+): AggregatedStatsRecord {
+  return {
+    ...(previous ?? stat),
+    key,
+    url,
+    total_open_time: (previous?.total_open_time ?? 0) + stat.total_open_time,
+    total_active_time: (previous?.total_active_time ?? 0) + stat.total_active_time,
+    visit_count: (previous?.visit_count ?? 0) + stat.visit_count,
+    active_session_count: (previous?.active_session_count ?? 0) + stat.active_session_count,
+    first_seen: earliestSeen(previous?.first_seen ?? null, stat.first_seen),
+    last_seen: latestSeen(previous?.last_seen ?? null, stat.last_seen),
+    last_updated: Math.max(previous?.last_updated ?? 0, stat.last_updated),
+  };
+}
+
+/**
+ * Re-keys the stored daily aggregates with the unified URL normalization.
+ *
+ * The tracker and the stats keys used to normalize URLs differently, so the
+ * same page could be stored under several keys. Every row is keyed again from
+ * its URL; rows that end up with the same key are merged by adding their
+ * totals. Runs once, after the user's URL filtering config is registered.
+ */
+export class StatsKeyMigrator {
+  private static readonly logger = createLogger('🔑 StatsKeyMigrator');
+
+  /**
+   * @param db - Database holding the aggregated tables
+   */
+  constructor(private readonly db: WebTimeTrackerDB) {}
+
+  /**
+   * Re-keys the aggregates unless that has been done before.
+   *
+   * Failures are logged and retried on the next call; tracking continues with
+   * the rows as they are.
+   *
+   * @returns The result, or null if the migration had already run or failed.
+   */
+  async runOnce(): Promise<StatsKeyMigrationResult | null> {
+    try {
+      if (await storage.getItem<boolean>(STATS_KEY_MIGRATION_KEY)) {
+        StatsKeyMigrator.logger.debug('Stats key migration already completed, skipping');
+        return null;
+      }
+
+      const result = await this.migrate();
+      await storage.setItem(STATS_KEY_MIGRATION_KEY, true);
+      return result;
+    } catch (error) {
+      StatsKeyMigrator.logger.error('Fail to re-key aggregated stats', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Re-keys all daily rows and merges rows whose keys become identical.
+   *
+   * Reads the rows a page at a time in key order, and moves each page in its
+   * own transaction: a re-keyed row is added to the row under its new key and
+   * deleted in the same step, so open and active totals and the visit and
+   * session counts are conserved after every page. An interrupted migration
+   * can simply run again, since rows already under their new key stay as they are.
+   */
+  async migrate(): Promise<StatsKeyMigrationResult> {
+    const { aggregatedstats } = this.db;
+    const statsBefore = await aggregatedstats.count();
+    let rekeyed = 0;
+    let lastKey: string | undefined;
+
+    while (true) {
+      const page = await this.db.transaction('rw', aggregatedstats, async () => {
+        const stats = await (
+          lastKey === undefined
+            ? aggregatedstats.orderBy('key')
+            : aggregatedstats.where('key').above(lastKey)
+        )
+          .limit(PAGE_SIZE)
+          .toArray();
+
+        const moves = stats.flatMap(stat => {
+          const url = this.normalize(stat.url);
+          if (url === null) return [];
+          const key = generateAggregatedStatsKey(stat.date, url);
+          return key === stat.key ? [] : [{ stat, key, url }];
+        });
+        if (moves.length > 0) {
+          const targetKeys = [...new Set(moves.map(move => move.key))];
+          const targets = new Map<string, AggregatedStatsRecord>();
+          (await aggregatedstats.bulkGet(targetKeys)).forEach(
+            target => target && targets.set(target.key, target)
+          );
+
+          for (const { stat, key, url } of moves) {
+            targets.set(key, mergeStat(targets.get(key), stat, key, url));
+          }
+          await aggregatedstats.bulkDelete(moves.map(move => move.stat.key));
+          await aggregatedstats.bulkPut([...targets.values()]);
+        }
+
+        return { lastKey: stats[stats.length - 1]?.key, moved: moves.length };
+      });
+
+      if (page.lastKey === undefined) break;
+      rekeyed += page.moved;
+      lastKey = page.lastKey;
+    }
+
+    const result = { statsBefore, statsAfter: await aggregatedstats.count(), rekeyed };
+    StatsKeyMigrator.logger.info('Re-key aggregated stats', result);
+    return result;
+  }
+
+  /**
+   * Normalized URL of a row, or null if the stored URL cannot be parsed
+   */
+  private normalize(url: string): string | null {
+    try {
+      return normalizeUrl(url);
+    } catch {
+      return null;
+    }
+  }
+}
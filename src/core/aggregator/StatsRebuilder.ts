@@ -0,0 +1,426 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import { AGGREGATION_LOCK_KEY, DEFAULT_CONFIG } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { EventsLogRepository } from '@/core/db/repositories/eventslog.repository';
+import { RollupStatsRepository } from '@/core/db/repositories/rollupstats.repository';
+import type { WebTimeTrackerDB } from '@/core/db/schemas';
+import {
+  generateAggregatedStatsKey,
+  type AggregatedStatsRecord,
+} from '@/core/db/schemas/aggregatedstats.schema';
+import {
+  generateHourlyStatsKey,
+  type HourlyStatsRecord,
+} from '@/core/db/schemas/hourlystats.schema';
+import type { VisitRecord } from '@/core/db/schemas/visits.schema';
+import { createLogger } from '@/utils/logger';
+import { getZonedDateString, getZonedDayStart } from '@/utils/timezone';
+import { storage } from '#imports';
+import type { AggregationEngine } from './AggregationEngine';
+import { DataPruner } from './DataPruner';
+import type { DateRebucketer } from './DateRebucketer';
+import type {
+  AggregatedData,
+  HourlyAggregatedData,
+  StatsRebuildProgress,
+  StatsRebuildRange,
+  VisitAggregatedData,
+} from './types';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds the time of a measured bucket to another bucket of the same key
+ */
+function addBucketTime(
+  existing: { openTime: number; activeTime: number },
+  data: { openTime: number; activeTime: number }
+): void {
+  existing.openTime += data.openTime;
+  existing.activeTime += data.activeTime;
+}
+
+/**
+ * Rebuilds the daily and hourly aggregates of a date range from the raw events,
+ * and the records of the visits that touch the range.
+ *
+ * Processed flags cannot say what an aggregate should have been, so this
+ * re-measures every visit that touches the range, processed or not. Pending
+ * events are aggregated first and the rebuild stops at the last event ID at
+ * that point, so the regular aggregation continues exactly where the rebuilt
+ * totals end. Nothing is written until all days are measured: a cancelled or
+ * failed rebuild leaves the stored aggregates unchanged.
+ */
+export class StatsRebuilder {
+  private static readonly logger = createLogger('🔁 StatsRebuilder');
+
+  private progress: StatsRebuildProgress | null = null;
+  private cancelRequested = false;
+
+  /**
+   * @param db - Database holding the aggregated tables
+   * @param engine - Engine whose rules measure the events
+   * @param eventsLogRepo - Repository for reading raw events
+   * @param dateRebucketer - Aligns stored aggregates with the configured time zone first
+   */
+  constructor(
+    private readonly db: WebTimeTrackerDB,
+    private readonly engine: AggregationEngine,
+    private readonly eventsLogRepo: EventsLogRepository,
+    private readonly dateRebucketer: Pick<DateRebucketer, 'syncWithConfig'>
+  ) {}
+
+  /**
+   * Progress of the running or last finished rebuild, if any
+   */
+  getProgress(): StatsRebuildProgress | null {
+    return this.progress && { ...this.progress };
+  }
+
+  /**
+   * Starts a rebuild in the background.
+   *
+   * @returns The initial progress; poll `getProgress` for updates.
+   * @throws If the range is invalid or a rebuild is already running.
+   */
+  start(range: StatsRebuildRange): StatsRebuildProgress {
+    const progress = this.begin(range);
+    this.execute(range, progress).catch(() => {
+      // Outcome is recorded in the progress
+    });
+    return { ...progress };
+  }
+
+  /**
+   * Asks the running rebuild to stop before its next day.
+   *
+   * @returns Whether a rebuild was running.
+   */
+  cancel(): boolean {
+    if (this.progress?.status !== 'running') {
+      return false;
+    }
+
+    StatsRebuilder.logger.info('Cancel requested for stats rebuild');
+    this.cancelRequested = true;
+    return true;
+  }
+
+  /**
+   * Rebuilds the aggregates of a date range and resolves once it has finished.
+   *
+   * @param range - Dates to rebuild in the aggregation time zone, both inclusive.
+   * @returns The final progress, with status completed, cancelled or failed.
+   * @throws If the range is invalid or a rebuild is already running.
+   */
+  async rebuild(range: StatsRebuildRange): Promise<StatsRebuildProgress> {
+    return this.execute(range, this.begin(range));
+  }
+
+  /**
+   * Number of days in a range.
+   *
+   * @throws If a date is malformed or the range is reversed.
+   */
+  static countDays({ startDate, endDate }: StatsRebuildRange): number {
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(startDate) ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(endDate) ||
+      !isValid(start) ||
+      !isValid(end)
+    ) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+    if (startDate > endDate) {
+      throw new Error('Start date must not be after end date');
+    }
+    return differenceInCalendarDays(end, start) + 1;
+  }
+
+  /**
+   * Validates the request and records the new rebuild as running.
+   *
+   * Synchronous, so a cancel right after starting is honoured.
+   */
+  private begin(range: StatsRebuildRange): StatsRebuildProgress {
+    if (this.progress?.status === 'running') {
+      throw new Error('A stats rebuild is already running');
+    }
+    const daysTotal = StatsRebuilder.countDays(range);
+
+    this.cancelRequested = false;
+    this.progress = {
+      ...range,
+      status: 'running',
+      daysTotal,
+      daysDone: 0,
+      eventsRead: 0,
+      statsWritten: 0,
+      hourlyWritten: 0,
+      visitsWritten: 0,
+      startedAt: Date.now(),
+    };
+    StatsRebuilder.logger.info('Start stats rebuild', range);
+    return this.progress;
+  }
+
+  private async execute(
+    range: StatsRebuildRange,
+    progress: StatsRebuildProgress
+  ): Promise<StatsRebuildProgress> {
+    let lockAcquired = false;
+    try {
+      await this.acquireLock();
+      lockAcquired = true;
+      await this.run(range, progress);
+    } catch (error) {
+      StatsRebuilder.logger.error('Fail stats rebuild', { range, error });
+      progress.status = 'failed';
+      progress.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      if (lockAcquired) {
+        await storage.removeItem(AGGREGATION_LOCK_KEY);
+      }
+      progress.finishedAt = Date.now();
+    }
+
+    StatsRebuilder.logger.info('Finish stats rebuild', progress);
+    return { ...progress };
+  }
+
+  /**
+   * Get the first date whose raw events are still complete
+   *
+   * Pruning deletes processed events older than the retention period but keeps
+   * unprocessed ones, so an old orphan event says nothing about the days around
+   * it. Only the oldest processed event and the retention cutoff do.
+   *
+   * @param timeZone - Time zone the dates are keyed in
+   * @returns The first complete date, or null if no processed event is left
+   */
+  private async getFirstRebuildableDate(timeZone: string): Promise<string | null> {
+    const oldestTimestamp = await this.eventsLogRepo.getOldestProcessedEventTimestamp();
+    if (oldestTimestamp === null) {
+      return null;
+    }
+    const oldestDate = getZonedDateString(oldestTimestamp, timeZone);
+
+    await configManager.initialize();
+    const retentionDays = DataPruner.getRetentionDays(configManager.getConfig().retentionPolicy);
+    if (retentionDays === null) {
+      return oldestDate;
+    }
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    let cutoffDate = getZonedDateString(cutoff, timeZone);
+    if (getZonedDayStart(cutoffDate, timeZone) < cutoff) {
+      // The day of the cutoff may already have lost its first events
+      cutoffDate = format(addDays(parseISO(cutoffDate), 1), DATE_FORMAT);
+    }
+    return cutoffDate > oldestDate ? cutoffDate : oldestDate;
+  }
+
+  private async run(range: StatsRebuildRange, progress: StatsRebuildProgress): Promise<void> {
+    // Key everything in the configured zone, like the regular aggregation does
+    const timeZone = await this.dateRebucketer.syncWithConfig();
+
+    const drained = await this.engine.run({ timeZone });
+    if (!drained.success) {
+      throw new Error(`Aggregation before rebuild failed: ${drained.error}`);
+    }
+
+    const firstDate = await this.getFirstRebuildableDate(timeZone);
+    if (firstDate === null || range.startDate < firstDate) {
+      // Days without raw events (pruned or imported) would be wiped with nothing to rebuild them from
+      throw new Error(
+        firstDate === null
+          ? 'No raw events to rebuild from'
+          : `Raw events are kept from ${firstDate}, choose a later start date`
+      );
+    }
+    const lastEventId = await this.eventsLogRepo.getLastEventId();
+
+    const aggregatedData: AggregatedData = {};
+    const hourlyData: HourlyAggregatedData = {};
+    const visitData: VisitAggregatedData = {};
+    const measuredVisits = new Set<string>();
+    const lastDay = parseISO(range.endDate);
+
+    for (let cursor = parseISO(range.startDate); cursor <= lastDay; cursor = addDays(cursor, 1)) {
+      if (this.stopIfCancelled(progress)) return;
+
+      const date = format(cursor, DATE_FORMAT);
+      const dayEvents = await this.eventsLogRepo.getEventsByTimeRange(
+        getZonedDayStart(date, timeZone),
+        getZonedDayStart(format(addDays(cursor, 1), DATE_FORMAT), timeZone) - 1
+      );
+
+      // Measure whole visits once, including their events outside the range
+      const visitIds = [...new Set(dayEvents.map(event => event.visitId))].filter(
+        visitId => !measuredVisits.has(visitId)
+      );
+      visitIds.forEach(visitId => measuredVisits.add(visitId));
+      const events = (await this.eventsLogRepo.getEventsByVisitIds(visitIds))
+        .filter(event => event.id! <= lastEventId)
+        .sort((a, b) => a.id! - b.id!);
+
+      const measured = this.engine.calculateTimeBuckets(events, timeZone);
+      this.mergeInRange(measured.aggregatedData, aggregatedData, range, (existing, data) => {
+        addBucketTime(existing, data);
+        existing.visitCount += data.visitCount;
+        existing.activeSessionCount += data.activeSessionCount;
+        existing.firstSeen = Math.min(existing.firstSeen, data.firstSeen);
+        existing.lastSeen = Math.max(existing.lastSeen, data.lastSeen);
+      });
+      this.mergeInRange(measured.hourlyData, hourlyData, range, addBucketTime);
+      // Each visit is measured once and whole, so its record needs no merging
+      Object.assign(visitData, measured.visitData);
+
+      progress.daysDone++;
+      progress.eventsRead += events.length;
+      await this.refreshLock();
+    }
+
+    if (this.stopIfCancelled(progress)) return;
+
+    const written = await this.replaceRange(range, aggregatedData, hourlyData, visitData);
+    progress.statsWritten = written.stats;
+    progress.hourlyWritten = written.hourly;
+    progress.visitsWritten = written.visits;
+    progress.status = 'completed';
+  }
+
+  private stopIfCancelled(progress: StatsRebuildProgress): boolean {
+    if (!this.cancelRequested) {
+      return false;
+    }
+
+    StatsRebuilder.logger.info('Stats rebuild cancelled, aggregates unchanged', progress);
+    progress.status = 'cancelled';
+    return true;
+  }
+
+  /**
+   * Adds the measured buckets that fall in the range; time outside the range
+   * belongs to days whose stored aggregates are kept.
+   *
+   * @param combine - Adds a measured bucket to the collected bucket of the same key.
+   */
+  private mergeInRange<T extends { date: string; openTime: number; activeTime: number }>(
+    measured: Record<string, T>,
+    target: Record<string, T>,
+    { startDate, endDate }: StatsRebuildRange,
+    combine: (existing: T, data: T) => void
+  ): void {
+    for (const [key, data] of Object.entries(measured)) {
+      if (data.date < startDate || data.date > endDate) continue;
+
+      const existing = target[key];
+      if (existing) {
+        combine(existing, data);
+      } else {
+        target[key] = { ...data };
+      }
+    }
+  }
+
+  /**
+   * Swaps the stored rows of the range for the rebuilt ones in one transaction,
+   * and recomputes the weekly and monthly rollups overlapping the range.
+   *
+   * Visits are kept one record per visit rather than per day, so the records of
+   * the re-measured visits replace the stored ones as a whole.
+   */
+  private async replaceRange(
+    { startDate, endDate }: StatsRebuildRange,
+    aggregatedData: AggregatedData,
+    hourlyData: HourlyAggregatedData,
+    visitData: VisitAggregatedData
+  ): Promise<{ stats: number; hourly: number; visits: number }> {
+    const { aggregatedstats, hourlystats, visits, weeklystats, monthlystats } = this.db;
+    const now = Date.now();
+
+    const stats = Object.values(aggregatedData).map(
+      (data): AggregatedStatsRecord => ({
+        key: generateAggregatedStatsKey(data.date, data.url),
+        date: data.date,
+        url: data.url,
+        hostname: data.hostname,
+        parentDomain: data.parentDomain,
+        total_open_time: data.openTime,
+        total_active_time: data.activeTime,
+        visit_count: data.visitCount,
+        active_session_count: data.activeSessionCount,
+        first_seen: data.firstSeen,
+        last_seen: data.lastSeen,
+        last_updated: now,
+      })
+    );
+    const hourly = Object.values(hourlyData).map(
+      (data): HourlyStatsRecord => ({
+        key: generateHourlyStatsKey(data.date, data.hour, data.hostname),
+        date: data.date,
+        hour: data.hour,
+        dayOfWeek: new Date(`${data.date}T00:00:00.000Z`).getUTCDay(),
+        hostname: data.hostname,
+        parentDomain: data.parentDomain,
+        total_open_time: data.openTime,
+        total_active_time: data.activeTime,
+        last_updated: now,
+      })
+    );
+    const visitRecords = Object.entries(visitData).map(
+      ([visitId, data]): VisitRecord => ({
+        visitId,
+        url: data.url,
+        hostname: data.hostname,
+        parentDomain: data.parentDomain,
+        start: data.start,
+        end: data.end,
+        open_time: data.openTime,
+        active_time: data.activeTime,
+        activity_count: data.activityCount,
+        crash_recovered: data.crashRecovered,
+        last_updated: now,
+      })
+    );
+
+    await this.db.transaction(
+      'rw',
+      [aggregatedstats, hourlystats, visits, weeklystats, monthlystats],
+      async () => {
+        await aggregatedstats.where('date').between(startDate, endDate, true, true).delete();
+        await hourlystats.where('date').between(startDate, endDate, true, true).delete();
+        await aggregatedstats.bulkPut(stats);
+        await hourlystats.bulkPut(hourly);
+        await visits.bulkPut(visitRecords);
+        await RollupStatsRepository.rebuildAll(this.db, { startDate, endDate });
+      }
+    );
+
+    return { stats: stats.length, hourly: hourly.length, visits: visitRecords.length };
+  }
+
+  /**
+   * Takes the aggregation lock, so scheduled runs do not add time mid-rebuild.
+   *
+   * @throws If an aggregation is running.
+   */
+  private async acquireLock(): Promise<void> {
+    const lock = await storage.getItem<{ timestamp: number }>(AGGREGATION_LOCK_KEY);
+    if (lock && Date.now() - lock.timestamp < DEFAULT_CONFIG.aggregation.lockTtlMs) {
+      throw new Error('Aggregation is running, try again shortly');
+    }
+    await storage.setItem(AGGREGATION_LOCK_KEY, { timestamp: Date.now() });
+  }
+
+  /**
+   * Keeps the lock from expiring during long rebuilds
+   */
+  private async refreshLock(): Promise<void> {
+    await storage.setItem(AGGREGATION_LOCK_KEY, { timestamp: Date.now() });
+  }
+}
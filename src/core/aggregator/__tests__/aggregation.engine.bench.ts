@@ -0,0 +1,97 @@
+import 'fake-indexeddb/auto';
+import { bench, describe } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { v4 as uuidv4 } from 'uuid';
+import { AggregationEngine } from '../AggregationEngine';
+import type { EventsLogRecord } from '../../db/models/eventslog.model';
+import { EventsLogRepository } from '../../db/repositories/eventslog.repository';
+import { AggregatedStatsRepository } from '../../db/repositories/aggregatedstats.repository';
+import { HourlyStatsRepository } from '../../db/repositories/hourlystats.repository';
+import { VisitsRepository } from '../../db/repositories/visits.repository';
+import { RollupStatsRepository } from '../../db/repositories/rollupstats.repository';
+import { WebTimeTrackerDB } from '../../db/schemas';
+
+/** Events in the backlog: four per visit (open and active start and end) */
+const EVENT_COUNT = 100_000;
+const SITE_COUNT = 200;
+const MINUTE = 60 * 1000;
+
+/**
+ * Builds a long-offline backlog: finished visits spread over the past week
+ */
+function buildBacklog(): EventsLogRecord[] {
+  const events: EventsLogRecord[] = [];
+  const start = Date.now() - 7 * 24 * 60 * MINUTE;
+
+  for (let visit = 0; visit < EVENT_COUNT / 4; visit++) {
+    const url = `https://site${visit % SITE_COUNT}.example.com/page/${visit % 7}`;
+    const visitId = uuidv4();
+    const activityId = uuidv4();
+    const timestamp = start + visit * 20 * 1000;
+    const base = { url, visitId, tabId: 1, isProcessed: 0 } as const;
+
+    events.push(
+      { ...base, timestamp, eventType: 'open_time_start', activityId: null },
+      { ...base, timestamp: timestamp + 1000, eventType: 'active_time_start', activityId },
+      { ...base, timestamp: timestamp + 9000, eventType: 'active_time_end', activityId },
+      { ...base, timestamp: timestamp + 15000, eventType: 'open_time_end', activityId: null }
+    );
+  }
+
+  return events;
+}
+
+describe('AggregationEngine backlog of 100k events', () => {
+  const backlog = buildBacklog();
+  let db: WebTimeTrackerDB;
+  let engine: AggregationEngine;
+
+  /**
+   * Fresh database with the backlog unprocessed, and no aggregation cursor
+   */
+  async function setup(): Promise<void> {
+    fakeBrowser.reset();
+    if (db) {
+      await db.delete();
+      db.close();
+    }
+    db = new WebTimeTrackerDB();
+    await db.open();
+    await db.eventslog.bulkAdd(backlog);
+
+    const eventsLogRepo = new EventsLogRepository(db);
+    engine = new AggregationEngine(
+      db,
+      eventsLogRepo,
+      new AggregatedStatsRepository(db),
+      new HourlyStatsRepository(db),
+      new VisitsRepository(db),
+      new RollupStatsRepository(db, 'week'),
+      new RollupStatsRepository(db, 'month')
+    );
+  }
+
+  const options = { setup, iterations: 1, warmupIterations: 0, time: 0, warmupTime: 0 };
+
+  bench(
+    'batches of 2000 events',
+    async () => {
+      const result = await engine.run({ batchSize: 2000 });
+      if (result.processedEvents !== EVENT_COUNT) {
+        throw new Error(`Processed ${result.processedEvents} of ${EVENT_COUNT} events`);
+      }
+    },
+    options
+  );
+
+  bench(
+    'single batch (previous behaviour)',
+    async () => {
+      const result = await engine.run({ batchSize: EVENT_COUNT });
+      if (result.processedEvents !== EVENT_COUNT) {
+        throw new Error(`Processed ${result.processedEvents} of ${EVENT_COUNT} events`);
+      }
+    },
+    options
+  );
+});
@@ -1,9 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
 import { AggregationEngine } from '../AggregationEngine';
 import type { EventsLogRecord } from '../../db/models/eventslog.model';
-import type { EventsLogRepository } from '../../db/repositories/eventslog.repository';
-import type { AggregatedStatsRepository } from '../../db/repositories/aggregatedstats.repository';
+import { EventsLogRepository } from '../../db/repositories/eventslog.repository';
+import { AggregatedStatsRepository } from '../../db/repositories/aggregatedstats.repository';
+import { HourlyStatsRepository } from '../../db/repositories/hourlystats.repository';
+import { VisitsRepository } from '../../db/repositories/visits.repository';
+import { RollupStatsRepository } from '../../db/repositories/rollupstats.repository';
+import { WebTimeTrackerDB } from '../../db/schemas';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -25,28 +30,65 @@ function buildEvent(partial: Partial<EventsLogRecord>): EventsLogRecord {
 describe('AggregationEngine', () => {
   const sampleUrl = 'https://example.com/page';
   let aggregationEngine: AggregationEngine;
+  // The mocked repositories write nothing, so the batch transaction stays empty
+  let db: WebTimeTrackerDB;
   // Re-created before每个测试，保持严格类型
   let eventsLogRepoMock: MockProxy<EventsLogRepository>;
   let aggregatedStatsRepoMock: MockProxy<AggregatedStatsRepository>;
+  let hourlyStatsRepoMock: MockProxy<HourlyStatsRepository>;
+  let visitsRepoMock: MockProxy<VisitsRepository>;
+  let weeklyStatsRepoMock: MockProxy<RollupStatsRepository>;
+  let monthlyStatsRepoMock: MockProxy<RollupStatsRepository>;
+
+  /**
+   * Serves `events` as the event log, read in ID order after the watermark
+   */
+  function mockEventLog(events: EventsLogRecord[]): void {
+    eventsLogRepoMock.getEventsAfterId.mockImplementation(async (afterId, limit) =>
+      events.filter(event => event.id! > afterId).slice(0, limit)
+    );
+    eventsLogRepoMock.getEventsByIds.mockImplementation(async ids =>
+      events.filter(event => ids.includes(event.id!))
+    );
+    eventsLogRepoMock.getLastEventId.mockResolvedValue(Math.max(0, ...events.map(e => e.id!)));
+  }
 
   beforeEach(() => {
+    fakeBrowser.reset();
     // 使用 vitest-mock-extended 生成深度 mock，自动保持类型安全
     eventsLogRepoMock = mock<EventsLogRepository>();
     aggregatedStatsRepoMock = mock<AggregatedStatsRepository>();
+    hourlyStatsRepoMock = mock<HourlyStatsRepository>();
+    visitsRepoMock = mock<VisitsRepository>();
+    weeklyStatsRepoMock = mock<RollupStatsRepository>();
+    monthlyStatsRepoMock = mock<RollupStatsRepository>();
+    db = new WebTimeTrackerDB();
+
+    aggregationEngine = new AggregationEngine(
+      db,
+      eventsLogRepoMock,
+      aggregatedStatsRepoMock,
+      hourlyStatsRepoMock,
+      visitsRepoMock,
+      weeklyStatsRepoMock,
+      monthlyStatsRepoMock
+    );
+  });
 
-    aggregationEngine = new AggregationEngine(eventsLogRepoMock, aggregatedStatsRepoMock);
+  afterEach(async () => {
+    await db.delete();
   });
 
   it('should return success with 0 processed events when there is nothing to process', async () => {
     // Arrange
-    eventsLogRepoMock.getUnprocessedEvents.mockResolvedValue([]);
+    mockEventLog([]);
 
     // Act
     const result = await aggregationEngine.run();
 
     // Assert
-    expect(result).toEqual({ success: true, processedEvents: 0 });
-    expect(eventsLogRepoMock.getUnprocessedEvents).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ success: true, processedEvents: 0, hasMore: false });
+    expect(eventsLogRepoMock.getEventsAfterId).toHaveBeenCalledWith(0, expect.any(Number));
     expect(aggregatedStatsRepoMock.upsertTimeAggregation).not.toHaveBeenCalled();
     expect(eventsLogRepoMock.markEventsAsProcessed).not.toHaveBeenCalled();
   });
@@ -71,7 +113,7 @@ describe('AggregationEngine', () => {
       buildEvent({ id: 8, timestamp: baseTs + 12000, eventType: 'open_time_end', url: sampleUrl, visitId }),
     ];
 
-    eventsLogRepoMock.getUnprocessedEvents.mockResolvedValue(events);
+    mockEventLog(events);
     aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
     eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(events.length);
 
@@ -81,7 +123,7 @@ describe('AggregationEngine', () => {
     const result = await aggregationEngine.run();
 
     // Assert – engine result
-    expect(result).toEqual({ success: true, processedEvents: events.length });
+    expect(result).toEqual({ success: true, processedEvents: events.length, hasMore: false });
 
     // Assert – aggregation repository called with aggregated time
     expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledTimes(1);
@@ -92,6 +134,10 @@ describe('AggregationEngine', () => {
       parentDomain: 'example.com',
       openTimeToAdd: 12000, // 12s open time
       activeTimeToAdd: 3000, // 3s active time
+      visitsToAdd: 1,
+      activeSessionsToAdd: 1,
+      firstSeen: baseTs,
+      lastSeen: baseTs + 12000,
     });
 
     // Assert – processed events marked
@@ -110,7 +156,7 @@ describe('AggregationEngine', () => {
       buildEvent({ id: 12, timestamp: baseTs + 9000, eventType: 'checkpoint', url: sampleUrl, visitId }),
     ];
 
-    eventsLogRepoMock.getUnprocessedEvents.mockResolvedValue(events);
+    mockEventLog(events);
     aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
     eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(2);
 
@@ -118,7 +164,8 @@ describe('AggregationEngine', () => {
 
     const result = await aggregationEngine.run();
 
-    expect(result).toEqual({ success: true, processedEvents: events.length });
+    // The last checkpoint stays unprocessed and is not counted
+    expect(result).toEqual({ success: true, processedEvents: 2, hasMore: false });
 
     expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith({
       date: expectedDate,
@@ -127,6 +174,10 @@ describe('AggregationEngine', () => {
       parentDomain: 'example.com',
       openTimeToAdd: 9000,
       activeTimeToAdd: 0,
+      visitsToAdd: 1,
+      activeSessionsToAdd: 0,
+      firstSeen: baseTs,
+      lastSeen: baseTs + 9000,
     });
 
     const processedIds = eventsLogRepoMock.markEventsAsProcessed.mock.calls[0][0];
@@ -144,7 +195,7 @@ describe('AggregationEngine', () => {
       buildEvent({ id: 22, timestamp: baseTs + 8000, eventType: 'checkpoint', url: sampleUrl, visitId, activityId }),
     ];
 
-    eventsLogRepoMock.getUnprocessedEvents.mockResolvedValue(events);
+    mockEventLog(events);
     aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
     eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(2);
 
@@ -152,7 +203,8 @@ describe('AggregationEngine', () => {
 
     const result = await aggregationEngine.run();
 
-    expect(result).toEqual({ success: true, processedEvents: events.length });
+    // The last checkpoint stays unprocessed and is not counted
+    expect(result).toEqual({ success: true, processedEvents: 2, hasMore: false });
 
     expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith({
       date: expectedDate,
@@ -161,9 +213,520 @@ describe('AggregationEngine', () => {
       parentDomain: 'example.com',
       openTimeToAdd: 0,
       activeTimeToAdd: 8000,
+      visitsToAdd: 0,
+      activeSessionsToAdd: 1,
+      firstSeen: baseTs,
+      lastSeen: baseTs + 8000,
     });
 
     const processedIds = eventsLogRepoMock.markEventsAsProcessed.mock.calls[0][0];
     expect(processedIds.sort()).toEqual([20, 21]);
   });
-}); 
\ No newline at end of file
+
+  it('should split open and active time into hourly buckets at hour boundaries', async () => {
+    const visitId = uuidv4();
+    const activityId = uuidv4();
+    // 10:50 UTC → 12:10 UTC
+    const baseTs = Date.parse('2025-06-15T10:50:00.000Z');
+    const minute = 60 * 1000;
+
+    const events: EventsLogRecord[] = [
+      buildEvent({ id: 30, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId }),
+      buildEvent({ id: 31, timestamp: baseTs + 5 * minute, eventType: 'active_time_start', url: sampleUrl, visitId, activityId }),
+      buildEvent({ id: 32, timestamp: baseTs + 20 * minute, eventType: 'active_time_end', url: sampleUrl, visitId, activityId }),
+      buildEvent({ id: 33, timestamp: baseTs + 80 * minute, eventType: 'open_time_end', url: sampleUrl, visitId }),
+    ];
+
+    mockEventLog(events);
+    aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
+    eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(events.length);
+
+    await aggregationEngine.run();
+
+    const bucket = (hour: number, openTimeToAdd: number, activeTimeToAdd: number) => ({
+      date: '2025-06-15',
+      hour,
+      hostname: 'example.com',
+      parentDomain: 'example.com',
+      openTimeToAdd,
+      activeTimeToAdd,
+    });
+
+    expect(hourlyStatsRepoMock.upsertHourlyAggregations).toHaveBeenCalledTimes(1);
+    const buckets = hourlyStatsRepoMock.upsertHourlyAggregations.mock.calls[0][0];
+    expect(buckets).toHaveLength(3);
+    expect(buckets).toEqual(
+      expect.arrayContaining([
+        bucket(10, 10 * minute, 5 * minute),
+        bucket(11, 60 * minute, 10 * minute),
+        bucket(12, 10 * minute, 0),
+      ])
+    );
+  });
+
+  describe('visits crossing midnight', () => {
+    const minute = 60 * 1000;
+
+    const dailyUpsert = (
+      date: string,
+      openTimeToAdd: number,
+      activeTimeToAdd: number,
+      visitsToAdd: number,
+      activeSessionsToAdd: number
+    ) =>
+      expect.objectContaining({
+        date,
+        url: sampleUrl,
+        hostname: 'example.com',
+        parentDomain: 'example.com',
+        openTimeToAdd,
+        activeTimeToAdd,
+        visitsToAdd,
+        activeSessionsToAdd,
+      });
+
+    beforeEach(() => {
+      aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
+      eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(0);
+    });
+
+    it('should prorate open and active time across both days', async () => {
+      const visitId = uuidv4();
+      const activityId = uuidv4();
+      // 23:50 UTC → 01:30 UTC the next day
+      const baseTs = Date.parse('2025-06-15T23:50:00.000Z');
+
+      const events: EventsLogRecord[] = [
+        buildEvent({ id: 40, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId }),
+        buildEvent({ id: 41, timestamp: baseTs + 5 * minute, eventType: 'active_time_start', url: sampleUrl, visitId, activityId }),
+        buildEvent({ id: 42, timestamp: baseTs + 40 * minute, eventType: 'active_time_end', url: sampleUrl, visitId, activityId }),
+        buildEvent({ id: 43, timestamp: baseTs + 100 * minute, eventType: 'open_time_end', url: sampleUrl, visitId }),
+      ];
+      mockEventLog(events);
+
+      await aggregationEngine.run();
+
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledTimes(2);
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-15', 10 * minute, 5 * minute, 1, 1)
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-16', 90 * minute, 30 * minute, 1, 1)
+      );
+      // Each day is seen from the visit's first to its last moment within that day
+      const midnight = Date.parse('2025-06-16T00:00:00.000Z');
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        expect.objectContaining({ date: '2025-06-15', firstSeen: baseTs, lastSeen: midnight })
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          date: '2025-06-16',
+          firstSeen: midnight,
+          lastSeen: baseTs + 100 * minute,
+        })
+      );
+      // Both days also go to the weekly and monthly rollups of their hostname
+      const rollupEntries = [
+        {
+          date: '2025-06-15',
+          hostname: 'example.com',
+          parentDomain: 'example.com',
+          openTimeToAdd: 10 * minute,
+          activeTimeToAdd: 5 * minute,
+          visitsToAdd: 1,
+          activeSessionsToAdd: 1,
+        },
+        {
+          date: '2025-06-16',
+          hostname: 'example.com',
+          parentDomain: 'example.com',
+          openTimeToAdd: 90 * minute,
+          activeTimeToAdd: 30 * minute,
+          visitsToAdd: 1,
+          activeSessionsToAdd: 1,
+        },
+      ];
+      expect(weeklyStatsRepoMock.upsertRollups).toHaveBeenCalledWith(
+        expect.arrayContaining(rollupEntries)
+      );
+      expect(monthlyStatsRepoMock.upsertRollups).toHaveBeenCalledWith(
+        expect.arrayContaining(rollupEntries)
+      );
+    });
+
+    it('should split at midnight of the requested time zone', async () => {
+      const visitId = uuidv4();
+      // 03:30 → 04:30 UTC is 23:30 → 00:30 in New York (EDT, UTC-4)
+      const baseTs = Date.parse('2025-06-16T03:30:00.000Z');
+
+      const events: EventsLogRecord[] = [
+        buildEvent({ id: 45, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId }),
+        buildEvent({ id: 46, timestamp: baseTs + 60 * minute, eventType: 'open_time_end', url: sampleUrl, visitId }),
+      ];
+      mockEventLog(events);
+
+      await aggregationEngine.run({ timeZone: 'America/New_York' });
+
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-15', 30 * minute, 0, 1, 0)
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-16', 30 * minute, 0, 1, 0)
+      );
+      expect(hourlyStatsRepoMock.upsertHourlyAggregations).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ date: '2025-06-15', hour: 23, openTimeToAdd: 30 * minute }),
+          expect.objectContaining({ date: '2025-06-16', hour: 0, openTimeToAdd: 30 * minute }),
+        ])
+      );
+    });
+
+    it('should credit every day of a visit spanning several days and checkpoints', async () => {
+      const visitId = uuidv4();
+      // 22:00 on the 15th → 02:00 on the 17th, with checkpoints in between
+      const baseTs = Date.parse('2025-06-15T22:00:00.000Z');
+      const hour = 60 * minute;
+
+      const events: EventsLogRecord[] = [
+        buildEvent({ id: 50, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId }),
+        buildEvent({ id: 51, timestamp: baseTs + 12 * hour, eventType: 'checkpoint', url: sampleUrl, visitId }),
+        buildEvent({ id: 52, timestamp: baseTs + 24 * hour, eventType: 'checkpoint', url: sampleUrl, visitId }),
+        buildEvent({ id: 53, timestamp: baseTs + 28 * hour, eventType: 'open_time_end', url: sampleUrl, visitId }),
+      ];
+      mockEventLog(events);
+
+      await aggregationEngine.run();
+
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledTimes(3);
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-15', 2 * hour, 0, 1, 0)
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-16', 24 * hour, 0, 1, 0)
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-17', 2 * hour, 0, 1, 0)
+      );
+    });
+
+    it('should split each run at midnight when the visit is aggregated across checkpoints', async () => {
+      const visitId = uuidv4();
+      const activityId = uuidv4();
+      const baseTs = Date.parse('2025-06-15T23:40:00.000Z');
+
+      // First run: open and active sessions are still running at the 00:20 checkpoint
+      const checkpointTs = baseTs + 40 * minute;
+      const openCheckpoint = buildEvent({ id: 62, timestamp: checkpointTs, eventType: 'checkpoint', url: sampleUrl, visitId });
+      const activeCheckpoint = buildEvent({ id: 63, timestamp: checkpointTs, eventType: 'checkpoint', url: sampleUrl, visitId, activityId });
+      mockEventLog([
+        buildEvent({ id: 60, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId }),
+        buildEvent({ id: 61, timestamp: baseTs + 10 * minute, eventType: 'active_time_start', url: sampleUrl, visitId, activityId }),
+        openCheckpoint,
+        activeCheckpoint,
+      ]);
+
+      await aggregationEngine.run();
+
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledTimes(2);
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-15', 20 * minute, 10 * minute, 1, 1)
+      );
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-16', 20 * minute, 20 * minute, 1, 1)
+      );
+      expect(eventsLogRepoMock.markEventsAsProcessed.mock.calls[0][0].sort()).toEqual([60, 61]);
+
+      // Second run: the carried-over checkpoints start the next intervals, all on the 16th,
+      // where the visit and the activity are already counted
+      aggregatedStatsRepoMock.upsertTimeAggregation.mockClear();
+      mockEventLog([
+        openCheckpoint,
+        activeCheckpoint,
+        buildEvent({ id: 64, timestamp: checkpointTs + 30 * minute, eventType: 'active_time_end', url: sampleUrl, visitId, activityId }),
+        buildEvent({ id: 65, timestamp: checkpointTs + 60 * minute, eventType: 'open_time_end', url: sampleUrl, visitId }),
+      ]);
+
+      await aggregationEngine.run();
+
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledTimes(1);
+      expect(aggregatedStatsRepoMock.upsertTimeAggregation).toHaveBeenCalledWith(
+        dailyUpsert('2025-06-16', 60 * minute, 30 * minute, 0, 0)
+      );
+    });
+  });
+
+  describe('batched runs', () => {
+    const minute = 60 * 1000;
+    const baseTs = Date.parse('2025-06-15T10:00:00.000Z');
+
+    /**
+     * Two interleaved visits: one finished, one left open at a checkpoint
+     */
+    function buildInterleavedVisits(): EventsLogRecord[] {
+      const [first, second] = [uuidv4(), uuidv4()];
+      const secondUrl = 'https://example.com/other';
+      return [
+        buildEvent({ id: 1, timestamp: baseTs, eventType: 'open_time_start', url: sampleUrl, visitId: first }),
+        buildEvent({ id: 2, timestamp: baseTs + minute, eventType: 'open_time_start', url: secondUrl, visitId: second }),
+        buildEvent({ id: 3, timestamp: baseTs + 5 * minute, eventType: 'checkpoint', url: sampleUrl, visitId: first }),
+        buildEvent({ id: 4, timestamp: baseTs + 7 * minute, eventType: 'checkpoint', url: secondUrl, visitId: second }),
+        buildEvent({ id: 5, timestamp: baseTs + 10 * minute, eventType: 'open_time_end', url: sampleUrl, visitId: first }),
+        buildEvent({ id: 6, timestamp: baseTs + 13 * minute, eventType: 'checkpoint', url: secondUrl, visitId: second }),
+      ];
+    }
+
+    function sumOpenTimeByUrl(): Record<string, number> {
+      const totals: Record<string, number> = {};
+      for (const [data] of aggregatedStatsRepoMock.upsertTimeAggregation.mock.calls) {
+        totals[data.url] = (totals[data.url] ?? 0) + data.openTimeToAdd;
+      }
+      return totals;
+    }
+
+    beforeEach(() => {
+      aggregatedStatsRepoMock.upsertTimeAggregation.mockResolvedValue('key');
+      eventsLogRepoMock.markEventsAsProcessed.mockResolvedValue(0);
+    });
+
+    it('should give the same totals in batches of one event as in a single batch', async () => {
+      mockEventLog(buildInterleavedVisits());
+
+      const result = await aggregationEngine.run({ batchSize: 1 });
+
+      expect(result).toEqual({ success: true, processedEvents: 5, hasMore: false });
+      // Six batches, then the drained log is read again after checkpointing
+      expect(eventsLogRepoMock.getEventsAfterId).toHaveBeenCalledTimes(8);
+      expect(sumOpenTimeByUrl()).toEqual({
+        [sampleUrl]: 10 * minute,
+        'https://example.com/other': 12 * minute,
+      });
+
+      // Only the last checkpoint of the open visit is left for the next run
+      const processedIds = eventsLogRepoMock.markEventsAsProcessed.mock.calls.flatMap(
+        ([ids]) => ids
+      );
+      expect(processedIds.sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should pause at the deadline and resume from the persisted cursor', async () => {
+      mockEventLog(buildInterleavedVisits());
+
+      const paused = await aggregationEngine.run({ batchSize: 3, deadline: Date.now() });
+      // Events 2 and 3 are carried over, so only the first is processed before the pause
+      expect(paused).toEqual({ success: true, processedEvents: 1, hasMore: true });
+      expect(sumOpenTimeByUrl()).toEqual({ [sampleUrl]: 5 * minute });
+
+      // A new engine instance, as after a service worker restart
+      const resumed = await new AggregationEngine(
+        db,
+        eventsLogRepoMock,
+        aggregatedStatsRepoMock,
+        hourlyStatsRepoMock,
+        visitsRepoMock,
+        weeklyStatsRepoMock,
+        monthlyStatsRepoMock
+      ).run({ batchSize: 3 });
+
+      // The carried-over events 2 and 3 plus 4 and 5; the open visit's checkpoint is left
+      expect(resumed).toEqual({ success: true, processedEvents: 4, hasMore: false });
+      expect(eventsLogRepoMock.getEventsByIds).toHaveBeenLastCalledWith([2, 3]);
+      expect(sumOpenTimeByUrl()).toEqual({
+        [sampleUrl]: 10 * minute,
+        'https://example.com/other': 12 * minute,
+      });
+    });
+
+    it('should checkpoint the sessions still open once the log is drained', async () => {
+      const events = buildInterleavedVisits();
+      mockEventLog(events);
+
+      await aggregationEngine.run();
+
+      expect(eventsLogRepoMock.bulkCreateEvents).toHaveBeenCalledTimes(1);
+      expect(eventsLogRepoMock.bulkCreateEvents.mock.calls[0][0]).toEqual([
+        expect.objectContaining({
+          eventType: 'checkpoint',
+          visitId: events[1].visitId,
+          activityId: null,
+          isProcessed: 0,
+        }),
+      ]);
+    });
+  });
+});
+
+/**
+ * AggregationEngine against the event log in IndexedDB
+ */
+describe('AggregationEngine with IndexedDB', () => {
+  let db: WebTimeTrackerDB;
+  let eventsLogRepo: EventsLogRepository;
+  let aggregatedStatsRepo: AggregatedStatsRepository;
+  let visitsRepo: VisitsRepository;
+  let engine: AggregationEngine;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    eventsLogRepo = new EventsLogRepository(db);
+    aggregatedStatsRepo = new AggregatedStatsRepository(db);
+    visitsRepo = new VisitsRepository(db);
+    engine = new AggregationEngine(
+      db,
+      eventsLogRepo,
+      aggregatedStatsRepo,
+      new HourlyStatsRepository(db),
+      visitsRepo,
+      new RollupStatsRepository(db, 'week'),
+      new RollupStatsRepository(db, 'month')
+    );
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should aggregate finished visits in batches and carry open ones over', async () => {
+    const url = 'https://example.com/page';
+    const minute = 60 * 1000;
+    const baseTs = Date.now() - 60 * minute;
+    const openVisitId = uuidv4();
+
+    const events: EventsLogRecord[] = [];
+    for (let i = 0; i < 10; i++) {
+      const visitId = uuidv4();
+      const start = baseTs + i * 2 * minute;
+      events.push(
+        buildEvent({ timestamp: start, eventType: 'open_time_start', url, visitId }),
+        buildEvent({ timestamp: start + minute, eventType: 'open_time_end', url, visitId })
+      );
+    }
+    events.push(buildEvent({ timestamp: baseTs, eventType: 'open_time_start', url, visitId: openVisitId }));
+    await eventsLogRepo.bulkCreateEvents(events);
+
+    const result = await engine.run({ batchSize: 4 });
+
+    // The 21 stored events; the checkpoint of the open visit stays unprocessed
+    expect(result).toMatchObject({ success: true, processedEvents: 21, hasMore: false });
+    const [stat] = await aggregatedStatsRepo.getStatsByParentDomain('example.com');
+    // Ten one-minute visits plus the open visit measured up to its new checkpoint
+    expect(stat.total_open_time).toBeGreaterThanOrEqual(70 * minute);
+
+    // Only the open visit's checkpoint is still unprocessed
+    const unprocessed = await eventsLogRepo.getUnprocessedEvents();
+    expect(unprocessed).toEqual([
+      expect.objectContaining({ eventType: 'checkpoint', visitId: openVisitId }),
+    ]);
+
+    // The next run reads only after the watermark: just a new checkpoint of the open visit
+    expect(await engine.run({ batchSize: 4 })).toMatchObject({ processedEvents: 1 });
+  });
+
+  it('should keep nothing of a batch whose writes fail partway', async () => {
+    const url = 'https://example.com/page';
+    const minute = 60 * 1000;
+    const baseTs = Date.now() - 60 * minute;
+    const visitId = uuidv4();
+
+    await eventsLogRepo.bulkCreateEvents([
+      buildEvent({ timestamp: baseTs, eventType: 'open_time_start', url, visitId }),
+      buildEvent({ timestamp: baseTs + 10 * minute, eventType: 'open_time_end', url, visitId }),
+    ]);
+    vi.spyOn(visitsRepo, 'upsertVisits').mockRejectedValueOnce(new Error('Quota exceeded'));
+
+    expect(await engine.run()).toMatchObject({ success: false, error: 'Quota exceeded' });
+    // The daily and hourly rows written before the failure are rolled back
+    expect(await db.aggregatedstats.count()).toBe(0);
+    expect(await db.hourlystats.count()).toBe(0);
+    expect(await db.weeklystats.count()).toBe(0);
+    expect(await db.monthlystats.count()).toBe(0);
+    expect(await eventsLogRepo.getUnprocessedEvents()).toHaveLength(2);
+
+    // The retry counts the visit once
+    expect(await engine.run()).toMatchObject({ success: true });
+    const [stat] = await aggregatedStatsRepo.getStatsByParentDomain('example.com');
+    expect(stat).toMatchObject({ total_open_time: 10 * minute, visit_count: 1 });
+    expect(await db.visits.count()).toBe(1);
+    const rollups = await db.weeklystats.toArray();
+    expect(rollups.reduce((sum, rollup) => sum + rollup.total_open_time, 0)).toBe(10 * minute);
+  });
+
+  it('should keep one record per visit across batches', async () => {
+    const url = 'https://example.com/page';
+    const minute = 60 * 1000;
+    const baseTs = Date.now() - 60 * minute;
+    const visitId = uuidv4();
+    const [first, second] = [uuidv4(), uuidv4()];
+
+    await eventsLogRepo.bulkCreateEvents([
+      buildEvent({ timestamp: baseTs, eventType: 'open_time_start', url, visitId }),
+      buildEvent({ timestamp: baseTs + minute, eventType: 'active_time_start', url, visitId, activityId: first }),
+      buildEvent({ timestamp: baseTs + 3 * minute, eventType: 'active_time_end', url, visitId, activityId: first }),
+      buildEvent({ timestamp: baseTs + 5 * minute, eventType: 'active_time_start', url, visitId, activityId: second }),
+      {
+        ...buildEvent({ timestamp: baseTs + 6 * minute, eventType: 'active_time_end', url, visitId, activityId: second }),
+        resolution: 'crash_recovery',
+      },
+      {
+        ...buildEvent({ timestamp: baseTs + 10 * minute, eventType: 'open_time_end', url, visitId }),
+        resolution: 'crash_recovery',
+      },
+    ]);
+
+    // The first batch measures the first activity, the second the rest of the visit
+    await engine.run({ batchSize: 3 });
+
+    expect(await db.visits.toArray()).toEqual([
+      expect.objectContaining({
+        visitId,
+        url,
+        hostname: 'example.com',
+        parentDomain: 'example.com',
+        start: baseTs,
+        end: baseTs + 10 * minute,
+        open_time: 10 * minute,
+        active_time: 3 * minute,
+        activity_count: 2,
+        crash_recovered: true,
+      }),
+    ]);
+  });
+
+  it('should count each visit and activity once when their time spans several batches', async () => {
+    const url = 'https://example.com/page';
+    const minute = 60 * 1000;
+    const baseTs = Date.parse('2025-06-15T09:00:00.000Z');
+    const [first, second] = [uuidv4(), uuidv4()];
+    const activityId = uuidv4();
+
+    await eventsLogRepo.bulkCreateEvents([
+      buildEvent({ timestamp: baseTs, eventType: 'open_time_start', url, visitId: first }),
+      buildEvent({ timestamp: baseTs + minute, eventType: 'active_time_start', url, visitId: first, activityId }),
+      buildEvent({ timestamp: baseTs + 5 * minute, eventType: 'active_time_end', url, visitId: first, activityId }),
+      buildEvent({ timestamp: baseTs + 10 * minute, eventType: 'open_time_end', url, visitId: first }),
+      buildEvent({ timestamp: baseTs + 20 * minute, eventType: 'open_time_start', url, visitId: second }),
+      buildEvent({ timestamp: baseTs + 30 * minute, eventType: 'checkpoint', url, visitId: second }),
+      buildEvent({ timestamp: baseTs + 40 * minute, eventType: 'open_time_end', url, visitId: second }),
+    ]);
+
+    // The second visit is measured in two batches, continued from its checkpoint
+    await engine.run({ batchSize: 2 });
+
+    expect(await aggregatedStatsRepo.getStatsByParentDomain('example.com')).toEqual([
+      expect.objectContaining({
+        date: '2025-06-15',
+        total_open_time: 30 * minute,
+        total_active_time: 4 * minute,
+        visit_count: 2,
+        active_session_count: 1,
+        first_seen: baseTs,
+        last_seen: baseTs + 40 * minute,
+      }),
+    ]);
+  });
+});
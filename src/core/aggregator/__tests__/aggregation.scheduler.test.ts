@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
+import { browser } from '#imports';
+import { AggregationScheduler } from '../AggregationScheduler';
+import type { AggregationEngine } from '../AggregationEngine';
+import type { DataPruner } from '../DataPruner';
+import type { DateRebucketer } from '../DateRebucketer';
+import { AGGREGATION_FOLLOW_UP_ALARM_NAME } from '@/config/constants';
+
+describe('AggregationScheduler', () => {
+  let engine: MockProxy<AggregationEngine>;
+  let pruner: MockProxy<DataPruner>;
+  let scheduler: AggregationScheduler;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    engine = mock<AggregationEngine>();
+    pruner = mock<DataPruner>();
+    const rebucketer = mock<DateRebucketer>();
+    rebucketer.syncWithConfig.mockResolvedValue('UTC');
+    scheduler = new AggregationScheduler(engine, pruner, rebucketer);
+  });
+
+  it('should prune once the events are caught up', async () => {
+    engine.run.mockResolvedValue({ success: true, processedEvents: 10, hasMore: false });
+
+    await scheduler.runNow();
+
+    expect(pruner.run).toHaveBeenCalledTimes(1);
+    expect(await browser.alarms.get(AGGREGATION_FOLLOW_UP_ALARM_NAME)).toBeUndefined();
+  });
+
+  it('should schedule a follow-up run and skip pruning while events are left', async () => {
+    engine.run.mockResolvedValue({ success: true, processedEvents: 2000, hasMore: true });
+
+    await scheduler.runNow();
+
+    expect(pruner.run).not.toHaveBeenCalled();
+    expect(await browser.alarms.get(AGGREGATION_FOLLOW_UP_ALARM_NAME)).toBeDefined();
+
+    await scheduler.start();
+    engine.run.mockResolvedValue({ success: true, processedEvents: 5, hasMore: false });
+    await fakeBrowser.alarms.onAlarm.trigger({
+      name: AGGREGATION_FOLLOW_UP_ALARM_NAME,
+      scheduledTime: Date.now(),
+    });
+    await vi.waitFor(() => expect(pruner.run).toHaveBeenCalledTimes(1));
+    expect(engine.run).toHaveBeenCalledTimes(2);
+
+    await scheduler.stop();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { addDays, format } from 'date-fns';
+import { storage } from '#imports';
+import { DateRebucketer } from '../DateRebucketer';
+import { AGGREGATION_TIMEZONE_KEY } from '@/config/constants';
+import { RollupStatsRepository } from '@/core/db/repositories/rollupstats.repository';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import type { AggregatedStatsRecord } from '@/core/db/schemas/aggregatedstats.schema';
+import type { HourlyStatsRecord } from '@/core/db/schemas/hourlystats.schema';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+import { getBucketedTimeZone } from '@/utils/timezone';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const UPDATED = Date.parse('2025-06-16T00:00:00.000Z');
+
+function buildStat(date: string, openTime: number, activeTime: number): AggregatedStatsRecord {
+  return baseBuildStat({
+    date,
+    url: 'https://example.com/',
+    total_open_time: openTime,
+    total_active_time: activeTime,
+    last_updated: UPDATED,
+  });
+}
+
+function buildHourly(
+  date: string,
+  hour: number,
+  openTime: number,
+  activeTime: number
+): HourlyStatsRecord {
+  return {
+    key: `${date}T${String(hour).padStart(2, '0')}:example.com`,
+    date,
+    hour,
+    dayOfWeek: new Date(`${date}T00:00:00.000Z`).getUTCDay(),
+    hostname: 'example.com',
+    parentDomain: 'example.com',
+    total_open_time: openTime,
+    total_active_time: activeTime,
+    last_updated: UPDATED,
+  };
+}
+
+/**
+ * DateRebucketer - moving stored aggregates between time zone calendars
+ */
+describe('DateRebucketer', () => {
+  let db: WebTimeTrackerDB;
+  let rebucketer: DateRebucketer;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    rebucketer = new DateRebucketer(db);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should move hourly rows to the hours of the new time zone', async () => {
+    await db.hourlystats.bulkPut([
+      buildHourly('2025-06-15', 14, 40 * MINUTE, 20 * MINUTE),
+      buildHourly('2025-06-15', 15, 10 * MINUTE, 0),
+    ]);
+
+    // Asia/Tokyo is UTC+9, so 14:00 UTC is 23:00 and 15:00 UTC is 00:00 the next day
+    const result = await rebucketer.rebucket('UTC', 'Asia/Tokyo');
+
+    expect(result).toMatchObject({ hourlyBefore: 2, hourlyAfter: 2 });
+    expect(await db.hourlystats.get('2025-06-15T23:example.com')).toMatchObject({
+      date: '2025-06-15',
+      hour: 23,
+      dayOfWeek: 0,
+      total_open_time: 40 * MINUTE,
+      total_active_time: 20 * MINUTE,
+    });
+    expect(await db.hourlystats.get('2025-06-16T00:example.com')).toMatchObject({
+      hour: 0,
+      dayOfWeek: 1,
+      total_open_time: 10 * MINUTE,
+    });
+  });
+
+  it('should split daily rows along the hourly distribution and conserve totals', async () => {
+    await db.aggregatedstats.bulkPut([
+      buildStat('2025-06-15', 50 * MINUTE, 20 * MINUTE),
+      buildStat('2025-06-16', 30 * MINUTE, 0),
+    ]);
+    await db.hourlystats.bulkPut([
+      buildHourly('2025-06-15', 14, 40 * MINUTE, 20 * MINUTE),
+      buildHourly('2025-06-15', 15, 10 * MINUTE, 0),
+      buildHourly('2025-06-16', 2, 30 * MINUTE, 0),
+    ]);
+
+    await rebucketer.rebucket('UTC', 'Asia/Tokyo');
+
+    const stats = await db.aggregatedstats.orderBy('date').toArray();
+    expect(stats.map(stat => [stat.key, stat.total_open_time, stat.total_active_time])).toEqual([
+      ['2025-06-15:https://example.com/', 40 * MINUTE, 20 * MINUTE],
+      // 10 minutes moved over from the 15th, merged with the 16th's own 30 minutes
+      ['2025-06-16:https://example.com/', 40 * MINUTE, 0],
+    ]);
+  });
+
+  it('should spread daily rows evenly over the day when no hourly rows exist', async () => {
+    await db.aggregatedstats.put(buildStat('2025-06-15', 24 * 60 * MINUTE, 24 * MINUTE));
+
+    await rebucketer.rebucket('UTC', 'Asia/Tokyo');
+
+    // UTC day 2025-06-15 covers 09:00 on the 15th to 09:00 on the 16th in Tokyo
+    const stats = await db.aggregatedstats.orderBy('date').toArray();
+    expect(stats.map(stat => [stat.date, stat.total_open_time, stat.total_active_time])).toEqual([
+      ['2025-06-15', 15 * 60 * MINUTE, 15 * MINUTE],
+      ['2025-06-16', 9 * 60 * MINUTE, 9 * MINUTE],
+    ]);
+  });
+
+  it('should move histories longer than one page and rebuild their rollups', async () => {
+    // 40 consecutive days of round-the-clock use, read in more than one page of dates
+    await db.aggregatedstats.bulkPut(
+      Array.from({ length: 40 }, (_, day) =>
+        buildStat(format(addDays(new Date(2025, 4, 1), day), 'yyyy-MM-dd'), DAY, DAY / 2)
+      )
+    );
+    await RollupStatsRepository.rebuildAll(db);
+
+    const result = await rebucketer.rebucket('UTC', 'Asia/Tokyo');
+
+    // Each Tokyo day gets 15 hours of its UTC day and 9 hours of the one before
+    const stats = await db.aggregatedstats.orderBy('date').toArray();
+    expect(result).toMatchObject({ statsBefore: 40, statsAfter: 41 });
+    expect(stats[0]).toMatchObject({ date: '2025-05-01', total_open_time: 15 * 60 * MINUTE });
+    expect(stats.slice(1, 40).every(stat => stat.total_open_time === DAY)).toBe(true);
+    expect(stats[40]).toMatchObject({ date: '2025-06-10', total_open_time: 9 * 60 * MINUTE });
+
+    const monthly = await db.monthlystats.orderBy('startDate').toArray();
+    expect(monthly.map(rollup => [rollup.period, rollup.total_open_time])).toEqual([
+      ['2025-05', 30 * DAY + 15 * 60 * MINUTE],
+      ['2025-06', 9 * DAY + 9 * 60 * MINUTE],
+    ]);
+  });
+
+  it('should re-bucket once when the configured time zone changes', async () => {
+    await db.hourlystats.put(buildHourly('2025-06-15', 15, 10 * MINUTE, 0));
+    vi.spyOn(DateRebucketer, 'getConfiguredTimeZone').mockResolvedValue('Asia/Tokyo');
+
+    expect(await getBucketedTimeZone()).toBe('UTC');
+    expect(await rebucketer.syncWithConfig()).toBe('Asia/Tokyo');
+    expect(await storage.getItem(AGGREGATION_TIMEZONE_KEY)).toBe('Asia/Tokyo');
+
+    // Already in sync: the row must not move again
+    expect(await rebucketer.syncWithConfig()).toBe('Asia/Tokyo');
+    expect(await db.hourlystats.toCollection().primaryKeys()).toEqual([
+      '2025-06-16T00:example.com',
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
+import { storage } from '#imports';
+import { v4 as uuidv4 } from 'uuid';
+import { AggregationEngine } from '../AggregationEngine';
+import { LiveStatsService, type LiveStatsTrackerHost } from '../LiveStatsService';
+import type { EventsLogRecord } from '../../db/models/eventslog.model';
+import type { EventsLogRepository } from '../../db/repositories/eventslog.repository';
+import type { AggregatedStatsRepository } from '../../db/repositories/aggregatedstats.repository';
+import type { HourlyStatsRepository } from '../../db/repositories/hourlystats.repository';
+import type { VisitsRepository } from '../../db/repositories/visits.repository';
+import type { RollupStatsRepository } from '../../db/repositories/rollupstats.repository';
+import type { WebTimeTrackerDB } from '../../db/schemas';
+import type { TabState } from '../../tracker/types';
+import { AGGREGATION_CURSOR_KEY } from '@/config/constants';
+import { buildStat, buildTabState as baseBuildTabState, FIXTURE_NOW } from '@/test-utils/fixtures';
+
+const NOW = FIXTURE_NOW;
+const MINUTE = 60 * 1000;
+const WATCH_URL = 'https://www.youtube.com/watch';
+
+let nextEventId = 1;
+
+function buildEvent(partial: Partial<EventsLogRecord>): EventsLogRecord {
+  return {
+    id: nextEventId++,
+    timestamp: NOW,
+    eventType: 'checkpoint',
+    tabId: 1,
+    url: WATCH_URL,
+    visitId: uuidv4(),
+    activityId: null,
+    isProcessed: 0,
+    ...partial,
+  } as EventsLogRecord;
+}
+
+function buildTabState(partial: Partial<TabState>): TabState {
+  return baseBuildTabState({ url: WATCH_URL, activityId: null, activeTimeStart: null, ...partial });
+}
+
+describe('LiveStatsService', () => {
+  let eventsLogRepoMock: MockProxy<EventsLogRepository>;
+  let statsRepoMock: MockProxy<AggregatedStatsRepository>;
+  let tracker: MockProxy<LiveStatsTrackerHost>;
+  let engine: AggregationEngine;
+  let service: LiveStatsService;
+
+  /**
+   * Serves the events as the whole log, read by ID like the engine does
+   */
+  const useEventLog = (events: EventsLogRecord[]) => {
+    eventsLogRepoMock.getLastEventId.mockResolvedValue(events[events.length - 1]?.id ?? 0);
+    eventsLogRepoMock.getEventsByIds.mockImplementation(async ids =>
+      events.filter(event => ids.includes(event.id!))
+    );
+    eventsLogRepoMock.getEventsAfterId.mockImplementation(async (afterId, limit) =>
+      events.filter(event => event.id! > afterId).slice(0, limit)
+    );
+  };
+
+  const aggregatedRow = buildStat({
+    total_open_time: 40 * MINUTE,
+    total_active_time: 20 * MINUTE,
+    last_updated: NOW - 10 * MINUTE,
+  });
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    eventsLogRepoMock = mock<EventsLogRepository>();
+    statsRepoMock = mock<AggregatedStatsRepository>();
+    tracker = mock<LiveStatsTrackerHost>();
+
+    statsRepoMock.getStatsByParentDomain.mockResolvedValue([aggregatedRow]);
+    tracker.flushEvents.mockResolvedValue();
+
+    useEventLog([]);
+
+    engine = new AggregationEngine(
+      mock<WebTimeTrackerDB>(),
+      eventsLogRepoMock,
+      statsRepoMock,
+      mock<HourlyStatsRepository>(),
+      mock<VisitsRepository>(),
+      mock<RollupStatsRepository>(),
+      mock<RollupStatsRepository>()
+    );
+    service = new LiveStatsService(engine, statsRepoMock, tracker);
+  });
+
+  it('should add the open session since its last checkpoint and finished visits', async () => {
+    // Session still open: the last aggregation left its checkpoints unprocessed
+    const openVisit = uuidv4();
+    const openActivity = uuidv4();
+    // Visit that ended after the last aggregation
+    const endedVisit = uuidv4();
+    const endedActivity = uuidv4();
+    const otherUrl = 'https://www.youtube.com/feed';
+    const start = NOW - 30 * MINUTE;
+
+    useEventLog([
+      buildEvent({ visitId: openVisit, timestamp: NOW - 10 * MINUTE }),
+      buildEvent({ visitId: openVisit, activityId: openActivity, timestamp: NOW - 10 * MINUTE }),
+      buildEvent({
+        eventType: 'open_time_start',
+        url: otherUrl,
+        visitId: endedVisit,
+        timestamp: start,
+      }),
+      buildEvent({
+        eventType: 'active_time_start',
+        url: otherUrl,
+        visitId: endedVisit,
+        activityId: endedActivity,
+        timestamp: start,
+      }),
+      buildEvent({
+        eventType: 'active_time_end',
+        url: otherUrl,
+        visitId: endedVisit,
+        activityId: endedActivity,
+        timestamp: start + 5 * MINUTE,
+      }),
+      buildEvent({
+        eventType: 'open_time_end',
+        url: otherUrl,
+        visitId: endedVisit,
+        timestamp: start + 5 * MINUTE,
+      }),
+    ]);
+    tracker.getAllTabStates.mockReturnValue(
+      new Map([[1, buildTabState({ visitId: openVisit, activityId: openActivity })]])
+    );
+
+    const result = await service.getParentDomainStats('youtube.com', NOW);
+
+    expect(tracker.flushEvents).toHaveBeenCalled();
+    expect(result.pendingOpenTime).toBe(15 * MINUTE);
+    expect(result.pendingActiveTime).toBe(15 * MINUTE);
+    expect(result.stats).toHaveLength(2);
+    expect(result.stats.find(stat => stat.url === WATCH_URL)).toMatchObject({
+      total_open_time: 50 * MINUTE,
+      total_active_time: 30 * MINUTE,
+      last_updated: NOW,
+    });
+    expect(result.stats.find(stat => stat.url === otherUrl)).toMatchObject({
+      date: '2025-06-15',
+      parentDomain: 'youtube.com',
+      total_open_time: 5 * MINUTE,
+      total_active_time: 5 * MINUTE,
+    });
+
+    // Nothing is written: the next aggregation still sees the same events
+    expect(eventsLogRepoMock.createCheckpointsForOpenSessions).not.toHaveBeenCalled();
+    expect(eventsLogRepoMock.markEventsAsProcessed).not.toHaveBeenCalled();
+    expect(statsRepoMock.upsertTimeAggregation).not.toHaveBeenCalled();
+    expect(aggregatedRow.total_open_time).toBe(40 * MINUTE);
+  });
+
+  it('should ignore other domains and sessions that already ended', async () => {
+    const endedVisit = uuidv4();
+    const otherVisit = uuidv4();
+
+    useEventLog([
+      buildEvent({ visitId: endedVisit, timestamp: NOW - 10 * MINUTE }),
+      buildEvent({
+        url: 'https://example.com/',
+        visitId: otherVisit,
+        timestamp: NOW - 10 * MINUTE,
+      }),
+    ]);
+    tracker.getAllTabStates.mockReturnValue(
+      new Map([
+        [1, buildTabState({ visitId: endedVisit, sessionEnded: true })],
+        [2, buildTabState({ tabId: 2, url: 'https://example.com/', visitId: otherVisit })],
+      ])
+    );
+
+    const result = await service.getParentDomainStats('youtube.com', NOW);
+
+    expect(result.pendingOpenTime).toBe(0);
+    expect(result.stats).toEqual([aggregatedRow]);
+  });
+
+  it('should only read the events the next aggregation would measure', async () => {
+    const openVisit = uuidv4();
+    const carriedOver = buildEvent({ visitId: openVisit, timestamp: NOW - 10 * MINUTE });
+    // Left unprocessed before the watermark without being carried over
+    const orphan = buildEvent({ timestamp: NOW - 60 * MINUTE });
+    const processed = buildEvent({ visitId: openVisit, isProcessed: 1 });
+    const otherDomain = buildEvent({ url: 'https://example.com/', timestamp: NOW - 5 * MINUTE });
+    useEventLog([carriedOver, orphan, processed, otherDomain]);
+    await storage.setItem(AGGREGATION_CURSOR_KEY, {
+      watermark: processed.id,
+      carryOverIds: [carriedOver.id],
+    });
+    tracker.getAllTabStates.mockReturnValue(new Map([[1, buildTabState({ visitId: openVisit })]]));
+
+    const pendingEvents = await engine.getPendingEvents('youtube.com');
+    const result = await service.getParentDomainStats('youtube.com', NOW);
+
+    expect(pendingEvents).toEqual([carriedOver]);
+    expect(eventsLogRepoMock.getUnprocessedEvents).not.toHaveBeenCalled();
+    expect(result.pendingOpenTime).toBe(10 * MINUTE);
+  });
+
+  it('should checkpoint the running activity of open sessions only', () => {
+    const checkpoints = LiveStatsService.createOpenSessionCheckpoints(
+      [
+        buildTabState({ activityId: uuidv4(), activeTimeStart: NOW - MINUTE }),
+        buildTabState({ tabId: 2 }),
+        buildTabState({ tabId: 3, sessionEnded: true }),
+      ],
+      NOW
+    );
+
+    expect(checkpoints.map(event => [event.tabId, event.activityId === null])).toEqual([
+      [1, true],
+      [1, false],
+      [2, true],
+    ]);
+    expect(checkpoints.every(event => event.eventType === 'checkpoint')).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { storage } from '#imports';
+import { StatsKeyMigrator } from '../StatsKeyMigrator';
+import { DEFAULT_CONFIG, STATS_KEY_MIGRATION_KEY } from '@/config/constants';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import type { AggregatedStatsRecord } from '@/core/db/schemas/aggregatedstats.schema';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+import { setActiveUrlFilteringConfig } from '@/core/db/utils/url-normalizer.util';
+
+const MINUTE = 60 * 1000;
+const UPDATED = Date.parse('2025-06-16T00:00:00.000Z');
+
+function buildStat(key: string, url: string, openTime: number): AggregatedStatsRecord {
+  return baseBuildStat({
+    key,
+    date: key.slice(0, 10),
+    url,
+    hostname: 'example.com',
+    total_open_time: openTime,
+    total_active_time: openTime / 2,
+    last_updated: UPDATED,
+  });
+}
+
+/**
+ * StatsKeyMigrator - merging rows keyed by the former URL normalizations
+ */
+describe('StatsKeyMigrator', () => {
+  let db: WebTimeTrackerDB;
+  let migrator: StatsKeyMigrator;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    setActiveUrlFilteringConfig(DEFAULT_CONFIG.urlFiltering);
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    migrator = new StatsKeyMigrator(db);
+
+    await db.aggregatedstats.bulkPut([
+      // Keyed unsorted by the old stats key normalization
+      buildStat(
+        '2025-06-15:https://example.com/docs?q=x&id=1',
+        'https://example.com/docs?q=x&id=1',
+        10 * MINUTE
+      ),
+      // Same page recorded sorted by the old tracker normalization
+      buildStat(
+        '2025-06-15:https://example.com/docs?id=1&q=x',
+        'https://example.com/docs?id=1&q=x',
+        20 * MINUTE
+      ),
+      // Same page on another day stays separate
+      buildStat(
+        '2025-06-16:https://example.com/docs?q=x&id=1',
+        'https://example.com/docs?q=x&id=1',
+        5 * MINUTE
+      ),
+      // Already canonical
+      buildStat('2025-06-15:https://example.com/', 'https://example.com/', 3 * MINUTE),
+    ]);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should merge rows whose keys become identical and conserve totals', async () => {
+    const result = await migrator.migrate();
+
+    expect(result).toEqual({ statsBefore: 4, statsAfter: 3, rekeyed: 2 });
+
+    const stats = await db.aggregatedstats.orderBy('key').toArray();
+    expect(stats.map(stat => [stat.key, stat.url, stat.total_open_time / MINUTE])).toEqual([
+      ['2025-06-15:https://example.com/', 'https://example.com/', 3],
+      ['2025-06-15:https://example.com/docs?id=1&q=x', 'https://example.com/docs?id=1&q=x', 30],
+      ['2025-06-16:https://example.com/docs?id=1&q=x', 'https://example.com/docs?id=1&q=x', 5],
+    ]);
+    expect(stats[1].total_active_time).toBe(15 * MINUTE);
+  });
+
+  it('should merge rows that are read in different pages', async () => {
+    // Canonical rows that sort between the two keys of the same page
+    await db.aggregatedstats.bulkPut(
+      Array.from({ length: 1200 }, (_, index) =>
+        buildStat(
+          `2025-06-15:https://example.com/docs?id=${index + 2}`,
+          `https://example.com/docs?id=${index + 2}`,
+          MINUTE
+        )
+      )
+    );
+
+    expect(await migrator.migrate()).toEqual({ statsBefore: 1204, statsAfter: 1203, rekeyed: 2 });
+    expect(
+      (await db.aggregatedstats.get('2025-06-15:https://example.com/docs?id=1&q=x'))
+        ?.total_open_time
+    ).toBe(30 * MINUTE);
+  });
+
+  it('should run only once', async () => {
+    expect(await migrator.runOnce()).toMatchObject({ rekeyed: 2 });
+    expect(await storage.getItem(STATS_KEY_MIGRATION_KEY)).toBe(true);
+
+    await db.aggregatedstats.put(
+      buildStat(
+        '2025-06-17:https://example.com/a?q=1&id=2',
+        'https://example.com/a?q=1&id=2',
+        MINUTE
+      )
+    );
+
+    expect(await migrator.runOnce()).toBeNull();
+    expect(await db.aggregatedstats.get('2025-06-17:https://example.com/a?q=1&id=2')).toBeDefined();
+  });
+});
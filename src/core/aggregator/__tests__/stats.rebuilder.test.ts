@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { storage } from '#imports';
+import { v4 as uuidv4 } from 'uuid';
+import { AggregationEngine } from '../AggregationEngine';
+import { StatsRebuilder } from '../StatsRebuilder';
+import {
+  AGGREGATION_LOCK_KEY,
+  DEFAULT_CONFIG,
+  type RetentionPolicyConfig,
+} from '@/config/constants';
+import { configManager } from '@/config/manager';
+import { EventsLogRepository } from '@/core/db/repositories/eventslog.repository';
+import { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import { HourlyStatsRepository } from '@/core/db/repositories/hourlystats.repository';
+import { VisitsRepository } from '@/core/db/repositories/visits.repository';
+import { RollupStatsRepository } from '@/core/db/repositories/rollupstats.repository';
+import { WebTimeTrackerDB, type EventsLogRecord } from '@/core/db/schemas';
+import type { AggregatedStatsRecord } from '@/core/db/schemas/aggregatedstats.schema';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+
+const MINUTE = 60 * 1000;
+const UPDATED = Date.parse('2025-06-17T00:00:00.000Z');
+const RANGE = { startDate: '2025-06-15', endDate: '2025-06-16' };
+
+/**
+ * Events of one finished visit, with its active time starting at the visit start
+ */
+function buildVisit(
+  url: string,
+  start: number,
+  openMinutes: number,
+  activeMinutes: number,
+  isProcessed: 0 | 1
+): EventsLogRecord[] {
+  const base = { url, visitId: uuidv4(), tabId: 1, isProcessed } as const;
+  const activityId = uuidv4();
+  return [
+    { ...base, timestamp: start, eventType: 'open_time_start', activityId: null },
+    { ...base, timestamp: start, eventType: 'active_time_start', activityId },
+    {
+      ...base,
+      timestamp: start + activeMinutes * MINUTE,
+      eventType: 'active_time_end',
+      activityId,
+    },
+    {
+      ...base,
+      timestamp: start + openMinutes * MINUTE,
+      eventType: 'open_time_end',
+      activityId: null,
+    },
+  ];
+}
+
+function buildStat(date: string, url: string, openTime: number): AggregatedStatsRecord {
+  return baseBuildStat({
+    date,
+    url,
+    hostname: 'example.com',
+    total_open_time: openTime,
+    total_active_time: openTime,
+    last_updated: UPDATED,
+  });
+}
+
+function useRetentionPolicy(policy: RetentionPolicyConfig['policy']): void {
+  vi.spyOn(configManager, 'getConfig').mockReturnValue({
+    ...DEFAULT_CONFIG,
+    retentionPolicy: { ...DEFAULT_CONFIG.retentionPolicy, policy },
+  });
+}
+
+/**
+ * StatsRebuilder - re-deriving aggregates of a date range from raw events
+ */
+describe('StatsRebuilder', () => {
+  let db: WebTimeTrackerDB;
+  let engine: AggregationEngine;
+  let rebuilder: StatsRebuilder;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    vi.spyOn(configManager, 'initialize').mockResolvedValue();
+    useRetentionPolicy('permanent');
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    const eventsLogRepo = new EventsLogRepository(db);
+    engine = new AggregationEngine(
+      db,
+      eventsLogRepo,
+      new AggregatedStatsRepository(db),
+      new HourlyStatsRepository(db),
+      new VisitsRepository(db),
+      new RollupStatsRepository(db, 'week'),
+      new RollupStatsRepository(db, 'month')
+    );
+    rebuilder = new StatsRebuilder(db, engine, eventsLogRepo, {
+      syncWithConfig: vi.fn().mockResolvedValue('UTC'),
+    });
+
+    await db.eventslog.bulkAdd([
+      // Before the range: keeps its stored row
+      ...buildVisit('https://example.com/old', Date.parse('2025-06-14T12:00:00.000Z'), 20, 20, 1),
+      // Aggregated before, but its stored row is wrong
+      ...buildVisit('https://example.com/a', Date.parse('2025-06-15T10:00:00.000Z'), 30, 10, 1),
+      // Not aggregated yet, crosses midnight
+      ...buildVisit('https://example.com/b', Date.parse('2025-06-15T23:30:00.000Z'), 60, 60, 0),
+    ]);
+    await db.aggregatedstats.bulkPut([
+      buildStat('2025-06-14', 'https://example.com/old', 7 * MINUTE),
+      buildStat('2025-06-15', 'https://example.com/a', 999 * MINUTE),
+      buildStat('2025-06-16', 'https://example.com/gone', 5 * MINUTE),
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await db.delete();
+  });
+
+  it('should replace the rows of the range with totals from all raw events', async () => {
+    const result = await rebuilder.rebuild(RANGE);
+
+    expect(result).toMatchObject({
+      status: 'completed',
+      daysTotal: 2,
+      daysDone: 2,
+      eventsRead: 8,
+      statsWritten: 3,
+    });
+    expect(result.hourlyWritten).toBeGreaterThan(0);
+
+    const stats = await db.aggregatedstats.orderBy('key').toArray();
+    expect(
+      stats.map(stat => [stat.key, stat.total_open_time / MINUTE, stat.total_active_time / MINUTE])
+    ).toEqual([
+      ['2025-06-14:https://example.com/old', 7, 7],
+      ['2025-06-15:https://example.com/a', 30, 10],
+      ['2025-06-15:https://example.com/b', 30, 30],
+      ['2025-06-16:https://example.com/b', 30, 30],
+    ]);
+
+    const hourly = await db.hourlystats.where('date').equals('2025-06-15').toArray();
+    expect(hourly.reduce((sum, record) => sum + record.total_open_time, 0)).toBe(60 * MINUTE);
+
+    // The pending visit was aggregated first, so the next run adds nothing
+    expect(await engine.run()).toMatchObject({ success: true, processedEvents: 0 });
+    expect(
+      (await db.aggregatedstats.get('2025-06-16:https://example.com/b'))?.total_open_time
+    ).toBe(30 * MINUTE);
+    expect(await storage.getItem(AGGREGATION_LOCK_KEY)).toBeNull();
+  });
+
+  it('should replace the records of the visits that touch the range', async () => {
+    const visitIds = new Map(
+      (await db.eventslog.toArray()).map(event => [event.url, event.visitId])
+    );
+    const visitA = visitIds.get('https://example.com/a')!;
+    const visitB = visitIds.get('https://example.com/b')!;
+    await db.visits.put({
+      visitId: visitA,
+      url: 'https://example.com/a',
+      hostname: 'example.com',
+      parentDomain: 'example.com',
+      start: Date.parse('2025-06-15T10:00:00.000Z'),
+      end: Date.parse('2025-06-15T10:30:00.000Z'),
+      open_time: 999 * MINUTE,
+      active_time: 999 * MINUTE,
+      activity_count: 3,
+      crash_recovered: false,
+      last_updated: UPDATED,
+    });
+
+    const result = await rebuilder.rebuild(RANGE);
+
+    expect(result.visitsWritten).toBe(2);
+    expect(await db.visits.get(visitA)).toMatchObject({
+      open_time: 30 * MINUTE,
+      active_time: 10 * MINUTE,
+      activity_count: 1,
+    });
+    // Measured whole, across midnight, and not added to the record of the drained run
+    expect(await db.visits.get(visitB)).toMatchObject({
+      open_time: 60 * MINUTE,
+      active_time: 60 * MINUTE,
+    });
+    expect(await db.visits.count()).toBe(2);
+  });
+
+  it('should leave the stats unchanged when cancelled', async () => {
+    const rebuild = rebuilder.rebuild(RANGE);
+    expect(rebuilder.cancel()).toBe(true);
+
+    const result = await rebuild;
+
+    expect(result.status).toBe('cancelled');
+    expect(rebuilder.getProgress()?.status).toBe('cancelled');
+    expect(
+      (await db.aggregatedstats.get('2025-06-15:https://example.com/a'))?.total_open_time
+    ).toBe(999 * MINUTE);
+    expect(await db.aggregatedstats.get('2025-06-16:https://example.com/gone')).toBeDefined();
+    expect(rebuilder.cancel()).toBe(false);
+  });
+
+  it('should refuse days without raw events and invalid ranges', async () => {
+    const result = await rebuilder.rebuild({ startDate: '2025-06-13', endDate: '2025-06-15' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Raw events are kept from 2025-06-14');
+    // Only the pending visit was aggregated as usual; the stored rows are untouched
+    expect(await db.aggregatedstats.count()).toBe(5);
+    expect(
+      (await db.aggregatedstats.get('2025-06-15:https://example.com/a'))?.total_open_time
+    ).toBe(999 * MINUTE);
+
+    expect(() => rebuilder.start({ startDate: '2025-06-16', endDate: '2025-06-15' })).toThrow(
+      'Start date must not be after end date'
+    );
+    expect(() => rebuilder.start({ startDate: '2025-6-1', endDate: '2025-06-15' })).toThrow(
+      'YYYY-MM-DD'
+    );
+  });
+
+  it('should refuse days pruned under the retention policy beside an old orphan event', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse('2025-06-17T12:00:00.000Z'));
+    useRetentionPolicy('immediate');
+    // Pruning has deleted the processed events older than a day, but kept an unprocessed orphan
+    await db.eventslog.where('isProcessed').equals(1).delete();
+    await db.eventslog.add({
+      url: 'https://example.com/orphan',
+      visitId: uuidv4(),
+      tabId: 2,
+      isProcessed: 0,
+      timestamp: Date.parse('2025-06-10T12:00:00.000Z'),
+      eventType: 'checkpoint',
+      activityId: null,
+    });
+
+    const result = await rebuilder.rebuild(RANGE);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Raw events are kept from 2025-06-17');
+    expect(
+      (await db.aggregatedstats.get('2025-06-15:https://example.com/a'))?.total_open_time
+    ).toBe(999 * MINUTE);
+    expect(await db.aggregatedstats.get('2025-06-16:https://example.com/gone')).toBeDefined();
+  });
+
+  it('should not run while an aggregation holds the lock', async () => {
+    await storage.setItem(AGGREGATION_LOCK_KEY, { timestamp: Date.now() });
+
+    const result = await rebuilder.rebuild(RANGE);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Aggregation is running');
+    expect(await storage.getItem(AGGREGATION_LOCK_KEY)).not.toBeNull();
+  });
+});
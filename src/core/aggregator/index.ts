@@ -1,7 +1,17 @@
 export { AggregationEngine } from './AggregationEngine';
 export { AggregationScheduler } from './AggregationScheduler';
 export { DataPruner } from './DataPruner';
+export { DateRebucketer, type RebucketResult } from './DateRebucketer';
 export { AggregationService } from './AggregationService';
+export { LiveStatsService, type LiveStatsTrackerHost } from './LiveStatsService';
+export { StatsRebuilder } from './StatsRebuilder';
+export { StatsKeyMigrator, type StatsKeyMigrationResult } from './StatsKeyMigrator';
+export {
+  splitIntervalByHour,
+  splitIntervalByDay,
+  type HourSlice,
+  type DaySlice,
+} from './intervals';
 
 
 // ============================================================================
@@ -13,7 +23,18 @@ export * as AggregatorTypes from './types';
 /**
  * Re-export commonly used types for convenience
  */
-export type { AggregationResult, VisitGroup, AggregatedData } from './types';
+export type {
+  AggregationResult,
+  AggregationRunOptions,
+  VisitGroup,
+  AggregatedData,
+  HourlyAggregatedData,
+  TimeInterval,
+  LiveDomainStats,
+  StatsRebuildRange,
+  StatsRebuildStatus,
+  StatsRebuildProgress,
+} from './types';
 
 /**
  * Re-export scheduler options interface
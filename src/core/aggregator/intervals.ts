@@ -0,0 +1,68 @@
+import type { TimeInterval } from './types';
+import { getNextZonedBoundary, getZonedDateHour } from '@/utils/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A slice of an interval that falls inside a single calendar day
+ */
+export interface DaySlice {
+  /** Date in YYYY-MM-DD format, in the time zone used for splitting */
+  date: string;
+  /** Milliseconds of the interval inside this day */
+  duration: number;
+}
+
+/**
+ * A slice of an interval that falls inside a single clock hour
+ */
+export interface HourSlice {
+  /** Date of the hour in YYYY-MM-DD format, in the time zone used for splitting */
+  date: string;
+  /** Hour of the day (0-23) */
+  hour: number;
+  /** Milliseconds of the interval inside this hour */
+  duration: number;
+}
+
+/**
+ * Splits an interval at every hour boundary it crosses in the given time zone.
+ *
+ * @param interval - Interval with `start` < `end` (Unix timestamps in milliseconds)
+ * @param timeZone - IANA time zone whose clock hours are used (defaults to UTC)
+ * @returns Slices ordered by time; their durations sum to `end - start`
+ */
+export function splitIntervalByHour(interval: TimeInterval, timeZone = 'UTC'): HourSlice[] {
+  const slices: HourSlice[] = [];
+  let cursor = interval.start;
+
+  while (cursor < interval.end) {
+    const hourEnd = Math.min(getNextZonedBoundary(cursor, HOUR_MS, timeZone), interval.end);
+    slices.push({ ...getZonedDateHour(cursor, timeZone), duration: hourEnd - cursor });
+    cursor = hourEnd;
+  }
+
+  return slices;
+}
+
+/**
+ * Splits an interval at every midnight it crosses in the given time zone, so a
+ * visit from 23:50 to 01:30 credits 10 minutes to the first day and 90 to the second.
+ *
+ * @param interval - Interval with `start` < `end` (Unix timestamps in milliseconds)
+ * @param timeZone - IANA time zone whose calendar days are used (defaults to UTC)
+ * @returns Slices ordered by time; their durations sum to `end - start`
+ */
+export function splitIntervalByDay(interval: TimeInterval, timeZone = 'UTC'): DaySlice[] {
+  const slices: DaySlice[] = [];
+  let cursor = interval.start;
+
+  while (cursor < interval.end) {
+    const dayEnd = Math.min(getNextZonedBoundary(cursor, DAY_MS, timeZone), interval.end);
+    slices.push({ date: getZonedDateHour(cursor, timeZone).date, duration: dayEnd - cursor });
+    cursor = dayEnd;
+  }
+
+  return slices;
+}
@@ -1,11 +1,40 @@
 import type { EventsLogRecord } from '@/core/db/models/eventslog.model';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
 
 export interface AggregationResult {
   success: boolean;
   processedEvents: number;
+  /** Whether the run stopped at its deadline with events left for the next run */
+  hasMore: boolean;
   error?: string;
 }
 
+export interface AggregationRunOptions {
+  /** IANA time zone whose calendar days and hours key the aggregates (defaults to UTC) */
+  timeZone?: string;
+
+  /** Maximum number of events read and aggregated per batch */
+  batchSize?: number;
+
+  /** No new batch is started after this time (Unix timestamp in milliseconds) */
+  deadline?: number;
+}
+
+/**
+ * Persisted resume point of the aggregation
+ *
+ * Events are read in ID order. Everything up to the watermark has been read;
+ * the carry-over holds the unprocessed events among them, such as the last
+ * checkpoint of an open session, which start the intervals of the next batch.
+ */
+export interface AggregationCursor {
+  /** ID of the last event read */
+  watermark: number;
+
+  /** IDs of read events that are still unprocessed */
+  carryOverIds: number[];
+}
+
 export interface VisitGroup {
   events: EventsLogRecord[];
   url: string;
@@ -16,6 +45,12 @@ export type AggregatedData = Record<
   {
     openTime: number;
     activeTime: number;
+    /** Visits and active time intervals started on the day */
+    visitCount: number;
+    activeSessionCount: number;
+    /** Earliest start and latest end of the measured time (Unix timestamps in milliseconds) */
+    firstSeen: number;
+    lastSeen: number;
     url: string;
     date: string;
     hostname: string;
@@ -23,4 +58,102 @@ export type AggregatedData = Record<
   }
 >;
 
+/**
+ * Stats of one parent domain including the time that is not aggregated yet
+ */
+export interface LiveDomainStats {
+  parentDomain: string;
+
+  /** Aggregated rows with the pending time merged in */
+  stats: AggregatedStatsRecord[];
+
+  /** Open time from unprocessed events and open sessions, included in `stats` */
+  pendingOpenTime: number;
+
+  /** Active time from unprocessed events and open sessions, included in `stats` */
+  pendingActiveTime: number;
+
+  /** When the figures were computed (Unix timestamp in milliseconds) */
+  computedAt: number;
+}
+
+/**
+ * Inclusive range of calendar dates (YYYY-MM-DD) in the aggregation time zone
+ */
+export interface StatsRebuildRange {
+  startDate: string;
+  endDate: string;
+}
+
+export type StatsRebuildStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Progress of rebuilding the aggregates of a date range from the raw events
+ */
+export interface StatsRebuildProgress extends StatsRebuildRange {
+  status: StatsRebuildStatus;
+
+  /** Days in the range, and days whose events have been measured */
+  daysTotal: number;
+  daysDone: number;
+
+  /** Raw events read so far, including events of visits reaching into the range */
+  eventsRead: number;
+
+  /** Daily, hourly and visit rows written for the range (set once completed) */
+  statsWritten: number;
+  hourlyWritten: number;
+  visitsWritten: number;
+
+  /** Unix timestamps in milliseconds */
+  startedAt: number;
+  finishedAt?: number;
+
+  error?: string;
+}
+
+/**
+ * A measured time span (Unix timestamps in milliseconds)
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A measured interval of a visit or an activity
+ */
+export interface SessionInterval extends TimeInterval {
+  /** Whether the interval begins at the session's start event, not at a carried-over checkpoint */
+  startsSession: boolean;
+}
 
+export type HourlyAggregatedData = Record<
+  string,
+  {
+    openTime: number;
+    activeTime: number;
+    date: string;
+    hour: number;
+    hostname: string;
+    parentDomain: string;
+  }
+>;
+
+/**
+ * Time measured per visit in a batch, keyed by visit ID
+ */
+export type VisitAggregatedData = Record<
+  string,
+  {
+    url: string;
+    hostname: string;
+    parentDomain: string;
+    start: number;
+    end: number;
+    openTime: number;
+    activeTime: number;
+    activityCount: number;
+    crashRecovered: boolean;
+  }
+>;
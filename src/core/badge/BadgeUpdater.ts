@@ -0,0 +1,230 @@
+import { browser } from '#imports';
+import { type Browser } from 'wxt/browser';
+import { BADGE_REFRESH_ALARM_NAME, type BadgeMode } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { LimitEvaluator } from '@/core/limits/LimitEvaluator';
+import type { TimeTracker } from '@/core/tracker';
+import type { TabState } from '@/core/tracker/types';
+import { createLogger } from '@/utils/logger';
+import { getBucketedTimeZone, getZonedDateString, getZonedDayStart } from '@/utils/timezone';
+
+/**
+ * Tracker capabilities the badge relies on
+ */
+export type BadgeTrackerHost = Pick<TimeTracker, 'getAllTabStates'>;
+
+/**
+ * Today's time on one parent domain, aggregated plus in flight
+ */
+export interface SiteTimeToday {
+  activeTime: number;
+  openTime: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const BADGE_COLORS = {
+  default: '#2563eb',
+  warning: '#d97706',
+  exceeded: '#dc2626',
+} as const;
+
+/**
+ * Shows today's time on the current site on the toolbar badge.
+ *
+ * The badge is set per tab, so each tab keeps the value of its own site. It is
+ * refreshed on tab activation and navigation, and once a minute on an alarm for
+ * the active tab of every window.
+ */
+export class BadgeUpdater {
+  private static readonly logger = createLogger('🔖 BadgeUpdater');
+  private isListenerRegistered = false;
+
+  constructor(
+    private readonly aggregatedStatsRepo: AggregatedStatsRepository,
+    private readonly limitEvaluator: LimitEvaluator,
+    private readonly tracker: BadgeTrackerHost
+  ) {
+    this.handleAlarm = this.handleAlarm.bind(this);
+  }
+
+  /**
+   * Format a duration to fit the badge (at most four characters)
+   *
+   * @example
+   * formatBadgeDuration(45 * 60 * 1000) // "45m"
+   * formatBadgeDuration(90 * 60 * 1000) // "1.5h"
+   */
+  static formatBadgeDuration(milliseconds: number): string {
+    if (milliseconds < HOUR) {
+      return `${Math.floor(milliseconds / MINUTE)}m`;
+    }
+    const hours = milliseconds / HOUR;
+    return hours < 10 ? `${Math.floor(hours * 10) / 10}h` : `${Math.floor(hours)}h`;
+  }
+
+  /**
+   * Combine today's aggregated rows of a parent domain with the time still in
+   * flight in open tabs.
+   *
+   * Live time only counts after the latest aggregation of the domain, so time
+   * already flushed through a checkpoint is not counted twice.
+   *
+   * @param parentDomain - Site to measure
+   * @param todayStats - Today's aggregated rows of the site
+   * @param tabStates - Live tab states from the tracker
+   * @param now - Evaluation time
+   * @param startOfToday - Start of today in the stats time zone
+   */
+  static computeSiteTime(
+    parentDomain: string,
+    todayStats: readonly AggregatedStatsRecord[],
+    tabStates: Iterable<TabState>,
+    now: number,
+    startOfToday: number
+  ): SiteTimeToday {
+    let activeTime = 0;
+    let openTime = 0;
+    let lastAggregatedAt = 0;
+    for (const stat of todayStats) {
+      activeTime += stat.total_active_time;
+      openTime += stat.total_open_time;
+      lastAggregatedAt = Math.max(lastAggregatedAt, stat.last_updated);
+    }
+
+    const countFrom = (start: number) => Math.max(start, lastAggregatedAt, startOfToday);
+    for (const tabState of tabStates) {
+      if (tabState.sessionEnded) continue;
+      if (LimitEvaluator.parseTarget(tabState.url)?.parentDomain !== parentDomain) continue;
+
+      openTime += Math.max(0, now - countFrom(tabState.openTimeStart));
+      if (tabState.activeTimeStart) {
+        activeTime += Math.max(0, now - countFrom(tabState.activeTimeStart));
+      }
+    }
+
+    return { activeTime, openTime };
+  }
+
+  /**
+   * Start the periodic refresh and update the active tabs
+   */
+  async start(): Promise<void> {
+    if (!this.isListenerRegistered) {
+      browser.alarms.onAlarm.addListener(this.handleAlarm);
+      this.isListenerRegistered = true;
+    }
+    await browser.alarms.create(BADGE_REFRESH_ALARM_NAME, { periodInMinutes: 1 });
+    await this.refresh();
+    BadgeUpdater.logger.info('Badge updater started');
+  }
+
+  /**
+   * Stop the periodic refresh
+   */
+  async stop(): Promise<void> {
+    if (this.isListenerRegistered) {
+      browser.alarms.onAlarm.removeListener(this.handleAlarm);
+      this.isListenerRegistered = false;
+    }
+    await browser.alarms.clear(BADGE_REFRESH_ALARM_NAME);
+  }
+
+  /**
+   * Update the badge of the active tab of every window
+   */
+  async refresh(now: number = Date.now()): Promise<void> {
+    const tabs = await browser.tabs.query({ active: true });
+    for (const tab of tabs) {
+      if (tab.id !== undefined) {
+        await this.updateTab(tab.id, tab.url ?? '', now);
+      }
+    }
+  }
+
+  /**
+   * Update the badge of one tab
+   *
+   * @returns The badge text that was set
+   */
+  async updateTab(tabId: number, url: string, now: number = Date.now()): Promise<string> {
+    try {
+      await configManager.initialize();
+      const { badgeMode } = configManager.getConfig().ui;
+      const { text, color } = await this.computeBadge(badgeMode, url, now);
+
+      await browser.action.setBadgeText({ tabId, text });
+      if (text) {
+        await browser.action.setBadgeBackgroundColor({ tabId, color });
+      }
+      return text;
+    } catch (error) {
+      BadgeUpdater.logger.error('Failed to update badge', { tabId, url, error });
+      return '';
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async computeBadge(
+    mode: BadgeMode,
+    url: string,
+    now: number
+  ): Promise<{ text: string; color: string }> {
+    const empty = { text: '', color: BADGE_COLORS.default };
+    const target = LimitEvaluator.parseTarget(url);
+    if (mode === 'off' || !target) {
+      return empty;
+    }
+
+    const timeZone = await getBucketedTimeZone();
+    const tabStates = this.tracker.getAllTabStates().values();
+
+    if (mode === 'limitPercent') {
+      const { limits } = configManager.getConfig();
+      if (!limits.enabled) return empty;
+
+      const usage = await this.limitEvaluator.evaluate(url, limits.rules, now, timeZone);
+      if (!usage) return empty;
+
+      const percent = Math.floor((usage.usedMs / usage.limitMs) * 100);
+      return {
+        text: `${Math.min(percent, 999)}%`,
+        color:
+          percent >= 100
+            ? BADGE_COLORS.exceeded
+            : percent >= 80
+              ? BADGE_COLORS.warning
+              : BADGE_COLORS.default,
+      };
+    }
+
+    const today = getZonedDateString(now, timeZone);
+    const stats = await this.aggregatedStatsRepo.getStatsByParentDomainInRange(
+      target.parentDomain,
+      today,
+      today
+    );
+    const siteTime = BadgeUpdater.computeSiteTime(
+      target.parentDomain,
+      stats,
+      tabStates,
+      now,
+      getZonedDayStart(today, timeZone)
+    );
+
+    const time = mode === 'openTime' ? siteTime.openTime : siteTime.activeTime;
+    return { text: BadgeUpdater.formatBadgeDuration(time), color: BADGE_COLORS.default };
+  }
+
+  private async handleAlarm(alarm: Browser.alarms.Alarm): Promise<void> {
+    if (alarm.name === BADGE_REFRESH_ALARM_NAME) {
+      await this.refresh();
+    }
+  }
+}
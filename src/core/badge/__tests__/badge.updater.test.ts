@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
+import { browser } from '#imports';
+import { BadgeUpdater, type BadgeTrackerHost } from '..';
+import { DEFAULT_CONFIG, type BadgeMode } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { LiveStatsService } from '@/core/aggregator/LiveStatsService';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import { LimitEvaluator } from '@/core/limits/LimitEvaluator';
+import { buildPendingTime, buildStat, buildTabState, FIXTURE_NOW } from '@/test-utils/fixtures';
+
+const NOW = FIXTURE_NOW;
+const START_OF_TODAY = Date.parse('2025-06-15T00:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+/**
+ * Today's stored totals of the YouTube page in the fixtures
+ */
+const STORED_TOTALS = { total_open_time: 40 * MINUTE, total_active_time: 20 * MINUTE };
+
+describe('BadgeUpdater', () => {
+  it('should format durations to fit the badge', () => {
+    expect(BadgeUpdater.formatBadgeDuration(0)).toBe('0m');
+    expect(BadgeUpdater.formatBadgeDuration(45 * MINUTE)).toBe('45m');
+    expect(BadgeUpdater.formatBadgeDuration(95 * MINUTE)).toBe('1.5h');
+    expect(BadgeUpdater.formatBadgeDuration(12 * 60 * MINUTE + 59 * MINUTE)).toBe('12h');
+  });
+
+  it('should add in-flight time after the last aggregation only', () => {
+    const siteTime = BadgeUpdater.computeSiteTime(
+      'youtube.com',
+      [buildStat(STORED_TOTALS)],
+      [
+        // Open for an hour, but the first 30 minutes are already aggregated
+        buildTabState({ tabId: 1 }),
+        buildTabState({ tabId: 2, url: 'https://example.com/' }),
+        buildTabState({ tabId: 3, sessionEnded: true }),
+      ],
+      NOW,
+      START_OF_TODAY
+    );
+
+    expect(siteTime).toEqual({ activeTime: 30 * MINUTE, openTime: 70 * MINUTE });
+  });
+
+  it('should not count live time from before today', () => {
+    const siteTime = BadgeUpdater.computeSiteTime(
+      'youtube.com',
+      [],
+      [buildTabState({ openTimeStart: START_OF_TODAY - 60 * MINUTE, activeTimeStart: null })],
+      NOW,
+      START_OF_TODAY
+    );
+
+    expect(siteTime).toEqual({ activeTime: 0, openTime: 12 * 60 * MINUTE });
+  });
+
+  describe('updateTab', () => {
+    let statsRepoMock: MockProxy<AggregatedStatsRepository>;
+    let tracker: MockProxy<BadgeTrackerHost>;
+    let updater: BadgeUpdater;
+
+    const useConfig = (badgeMode: BadgeMode) => {
+      vi.spyOn(configManager, 'getConfig').mockReturnValue({
+        ...DEFAULT_CONFIG,
+        ui: { ...DEFAULT_CONFIG.ui, badgeMode },
+        limits: {
+          ...DEFAULT_CONFIG.limits,
+          enabled: true,
+          rules: [
+            { target: 'youtube.com', scope: 'parentDomain', dailyLimitMinutes: 35, enabled: true },
+          ],
+        },
+      });
+    };
+
+    beforeEach(() => {
+      fakeBrowser.reset();
+      statsRepoMock = mock<AggregatedStatsRepository>();
+      statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([buildStat(STORED_TOTALS)]);
+      tracker = mock<BadgeTrackerHost>();
+      tracker.getAllTabStates.mockReturnValue(new Map([[1, buildTabState()]]));
+
+      vi.spyOn(configManager, 'initialize').mockResolvedValue();
+      vi.spyOn(browser.action, 'setBadgeText').mockResolvedValue();
+      vi.spyOn(browser.action, 'setBadgeBackgroundColor').mockResolvedValue();
+
+      // The 10 minutes of the open tab since the last aggregation
+      const liveStatsMock = mock<LiveStatsService>();
+      liveStatsMock.getPendingTime.mockResolvedValue(
+        buildPendingTime([{ activeTime: 10 * MINUTE }])
+      );
+
+      updater = new BadgeUpdater(
+        statsRepoMock,
+        new LimitEvaluator(statsRepoMock, liveStatsMock),
+        tracker
+      );
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should show the active or open time of today', async () => {
+      useConfig('activeTime');
+      expect(await updater.updateTab(1, 'https://www.youtube.com/', NOW)).toBe('30m');
+      expect(browser.action.setBadgeText).toHaveBeenCalledWith({ tabId: 1, text: '30m' });
+
+      useConfig('openTime');
+      expect(await updater.updateTab(1, 'https://www.youtube.com/', NOW)).toBe('1.1h');
+    });
+
+    it('should show the share of the daily limit with a warning color', async () => {
+      useConfig('limitPercent');
+      expect(await updater.updateTab(1, 'https://www.youtube.com/', NOW)).toBe('85%');
+      expect(browser.action.setBadgeBackgroundColor).toHaveBeenCalledWith({
+        tabId: 1,
+        color: '#d97706',
+      });
+
+      expect(await updater.updateTab(1, 'https://example.com/', NOW)).toBe('');
+    });
+
+    it('should clear the badge when disabled or on untracked pages', async () => {
+      useConfig('off');
+      expect(await updater.updateTab(1, 'https://www.youtube.com/', NOW)).toBe('');
+
+      useConfig('activeTime');
+      expect(await updater.updateTab(1, 'chrome://extensions/', NOW)).toBe('');
+      expect(browser.action.setBadgeText).toHaveBeenLastCalledWith({ tabId: 1, text: '' });
+      expect(browser.action.setBadgeBackgroundColor).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,6 @@
+export { BadgeUpdater } from './BadgeUpdater';
+
+/**
+ * Re-export badge types
+ */
+export type { BadgeTrackerHost, SiteTimeToday } from './BadgeUpdater';
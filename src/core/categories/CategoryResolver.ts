@@ -0,0 +1,145 @@
+import type { CategoriesConfig, Category, CategoryRule } from '@/config/constants';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Fallback category for records no rule matches
+ */
+export const UNCATEGORIZED_CATEGORY: Category = {
+  id: 'uncategorized',
+  name: 'Uncategorized',
+  color: '#9ca3af',
+};
+
+/**
+ * Fields of a stats record needed to resolve its category
+ */
+export type CategorizableRecord = Pick<AggregatedStatsRecord, 'url' | 'hostname' | 'parentDomain'>;
+
+/**
+ * Stats records grouped under one category
+ */
+export interface CategoryGroup<T extends CategorizableRecord> {
+  category: Category;
+  stats: T[];
+  totalOpenTime: number;
+  totalActiveTime: number;
+}
+
+interface CompiledRule {
+  rule: CategoryRule;
+  matches: (record: CategorizableRecord) => boolean;
+}
+
+function stripWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Resolves tracked URLs to categories using the configured rules.
+ *
+ * Categories are not stored with the stats: they are resolved at query time so
+ * that editing a rule immediately re-categorizes the whole history.
+ */
+export class CategoryResolver {
+  private static readonly logger = createLogger('🏷️ CategoryResolver');
+  private readonly categories = new Map<string, Category>();
+  private readonly rules: CompiledRule[];
+  private readonly cache = new Map<string, Category>();
+
+  constructor(config: CategoriesConfig) {
+    for (const category of config.categories) {
+      this.categories.set(category.id, category);
+    }
+    this.rules = config.rules
+      .filter(rule => this.categories.has(rule.categoryId))
+      .map(rule => this.compileRule(rule))
+      .filter((compiled): compiled is CompiledRule => compiled !== null);
+  }
+
+  /**
+   * Resolve the category of a record. The first matching rule wins.
+   */
+  resolve(record: CategorizableRecord): Category {
+    const cached = this.cache.get(record.url);
+    if (cached) return cached;
+
+    const match = this.rules.find(compiled => compiled.matches(record));
+    const category = match ? this.categories.get(match.rule.categoryId)! : UNCATEGORIZED_CATEGORY;
+
+    this.cache.set(record.url, category);
+    return category;
+  }
+
+  /**
+   * All configured categories plus the uncategorized fallback
+   */
+  getCategories(): Category[] {
+    return [...this.categories.values(), UNCATEGORIZED_CATEGORY];
+  }
+
+  private compileRule(rule: CategoryRule): CompiledRule | null {
+    const pattern = rule.pattern.trim();
+
+    switch (rule.type) {
+      case 'hostname': {
+        const hostname = stripWww(pattern);
+        return { rule, matches: record => stripWww(record.hostname) === hostname };
+      }
+      case 'parentDomain': {
+        const parentDomain = pattern.toLowerCase();
+        return { rule, matches: record => record.parentDomain === parentDomain };
+      }
+      case 'pathPrefix': {
+        const prefix = stripWww(pattern.replace(/^https?:\/\//, ''));
+        return {
+          rule,
+          matches: record => {
+            try {
+              const { hostname, pathname } = new URL(record.url);
+              return `${stripWww(hostname)}${pathname}`.startsWith(prefix);
+            } catch {
+              return false;
+            }
+          },
+        };
+      }
+      case 'regex': {
+        try {
+          const regex = new RegExp(pattern, 'i');
+          return { rule, matches: record => regex.test(record.url) };
+        } catch (error) {
+          CategoryResolver.logger.warn('Ignoring invalid category regex', { pattern, error });
+          return null;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Group stats records by resolved category, sorted by total open time descending
+ *
+ * @param stats - Records to group
+ * @param resolver - Resolver built from the current categories config
+ */
+export function groupStatsByCategory<T extends AggregatedStatsRecord>(
+  stats: T[],
+  resolver: CategoryResolver
+): CategoryGroup<T>[] {
+  const groups = new Map<string, CategoryGroup<T>>();
+
+  for (const stat of stats) {
+    const category = resolver.resolve(stat);
+    let group = groups.get(category.id);
+    if (!group) {
+      group = { category, stats: [], totalOpenTime: 0, totalActiveTime: 0 };
+      groups.set(category.id, group);
+    }
+    group.stats.push(stat);
+    group.totalOpenTime += stat.total_open_time;
+    group.totalActiveTime += stat.total_active_time;
+  }
+
+  return [...groups.values()].sort((a, b) => b.totalOpenTime - a.totalOpenTime);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CategoryResolver,
+  UNCATEGORIZED_CATEGORY,
+  groupStatsByCategory,
+} from '../CategoryResolver';
+import { DEFAULT_CONFIG, type CategoriesConfig } from '@/config/constants';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+
+/**
+ * Helper to build an AggregatedStatsRecord from a URL with sensible defaults.
+ */
+function buildStat(
+  url: string,
+  parentDomain: string,
+  partial: Partial<AggregatedStatsRecord> = {}
+): AggregatedStatsRecord {
+  return baseBuildStat({ url, parentDomain, last_updated: 0, ...partial });
+}
+
+const config: CategoriesConfig = {
+  categories: [
+    { id: 'work', name: 'Work', color: '#2563eb' },
+    { id: 'reading', name: 'Reading', color: '#16a34a' },
+  ],
+  rules: [
+    { type: 'pathPrefix', pattern: 'example.com/blog', categoryId: 'reading' },
+    { type: 'hostname', pattern: 'docs.example.com', categoryId: 'reading' },
+    { type: 'parentDomain', pattern: 'example.com', categoryId: 'work' },
+    { type: 'regex', pattern: '^https://[^/]+\\.atlassian\\.net/', categoryId: 'work' },
+  ],
+};
+
+describe('CategoryResolver', () => {
+  it('should match each rule type', () => {
+    const resolver = new CategoryResolver(config);
+
+    expect(resolver.resolve(buildStat('https://www.example.com/blog/post', 'example.com')).id).toBe(
+      'reading'
+    );
+    expect(resolver.resolve(buildStat('https://docs.example.com/intro', 'example.com')).id).toBe(
+      'reading'
+    );
+    expect(resolver.resolve(buildStat('https://app.example.com/', 'example.com')).id).toBe('work');
+    expect(
+      resolver.resolve(buildStat('https://team.atlassian.net/browse/X-1', 'atlassian.net')).id
+    ).toBe('work');
+  });
+
+  it('should apply the first matching rule', () => {
+    const resolver = new CategoryResolver({
+      ...config,
+      rules: [
+        { type: 'parentDomain', pattern: 'example.com', categoryId: 'work' },
+        { type: 'pathPrefix', pattern: 'example.com/blog', categoryId: 'reading' },
+      ],
+    });
+
+    expect(resolver.resolve(buildStat('https://example.com/blog/post', 'example.com')).id).toBe(
+      'work'
+    );
+  });
+
+  it('should fall back to uncategorized and ignore invalid or orphaned rules', () => {
+    const resolver = new CategoryResolver({
+      ...config,
+      rules: [
+        { type: 'regex', pattern: '(unclosed', categoryId: 'work' },
+        { type: 'parentDomain', pattern: 'other.com', categoryId: 'missing' },
+      ],
+    });
+
+    expect(resolver.resolve(buildStat('https://other.com/', 'other.com'))).toBe(
+      UNCATEGORIZED_CATEGORY
+    );
+    expect(resolver.getCategories().map(category => category.id)).toEqual([
+      'work',
+      'reading',
+      'uncategorized',
+    ]);
+  });
+
+  it('should resolve the default categories', () => {
+    const resolver = new CategoryResolver(DEFAULT_CONFIG.categories);
+
+    expect(resolver.resolve(buildStat('https://github.com/org/repo', 'github.com')).id).toBe(
+      'work'
+    );
+    expect(resolver.resolve(buildStat('https://www.youtube.com/watch', 'youtube.com')).id).toBe(
+      'entertainment'
+    );
+  });
+});
+
+describe('groupStatsByCategory', () => {
+  it('should sum totals per category and sort by open time', () => {
+    const resolver = new CategoryResolver(config);
+    const stats = [
+      buildStat('https://app.example.com/a', 'example.com', { total_open_time: 1000 }),
+      buildStat('https://app.example.com/b', 'example.com', {
+        total_open_time: 2000,
+        total_active_time: 500,
+      }),
+      buildStat('https://docs.example.com/', 'example.com', { total_open_time: 500 }),
+      buildStat('https://unknown.org/', 'unknown.org', { total_open_time: 4000 }),
+    ];
+
+    const groups = groupStatsByCategory(stats, resolver);
+
+    expect(groups.map(group => group.category.id)).toEqual(['uncategorized', 'work', 'reading']);
+    expect(groups[1]).toMatchObject({ totalOpenTime: 3000, totalActiveTime: 500 });
+    expect(groups[1].stats).toHaveLength(2);
+  });
+});
@@ -0,0 +1,7 @@
+export {
+  CategoryResolver,
+  UNCATEGORIZED_CATEGORY,
+  groupStatsByCategory,
+  type CategorizableRecord,
+  type CategoryGroup,
+} from './CategoryResolver';
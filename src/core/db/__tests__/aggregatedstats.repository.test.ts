@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import type { AggregatedStatsRecord } from '@/core/db/schemas/aggregatedstats.schema';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+import { AggregatedStatsRepository } from '@/core/db/repositories';
+
+const MINUTE = 60 * 1000;
+const UPDATED = Date.parse('2025-06-20T00:00:00.000Z');
+
+function buildStat(date: string, url: string, activeMinutes: number): AggregatedStatsRecord {
+  return baseBuildStat({
+    date,
+    url,
+    total_open_time: 2 * activeMinutes * MINUTE,
+    total_active_time: activeMinutes * MINUTE,
+    last_updated: UPDATED,
+  });
+}
+
+/**
+ * AggregatedStatsRepository - indexed range, top-N and page queries
+ */
+describe('AggregatedStatsRepository range queries', () => {
+  let db: WebTimeTrackerDB;
+  let repository: AggregatedStatsRepository;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    repository = new AggregatedStatsRepository(db);
+
+    await db.aggregatedstats.bulkPut([
+      buildStat('2025-06-14', 'https://www.youtube.com/', 60),
+      buildStat('2025-06-15', 'https://www.youtube.com/', 30),
+      buildStat('2025-06-15', 'https://m.youtube.com/', 10),
+      buildStat('2025-06-16', 'https://www.youtube.com/', 20),
+      buildStat('2025-06-15', 'https://github.com/', 45),
+      buildStat('2025-06-16', 'https://docs.github.com/', 5),
+      buildStat('2025-06-17', 'https://github.com/', 90),
+    ]);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should read a parent domain or hostname within a date range', async () => {
+    const domainStats = await repository.getStatsByParentDomainInRange(
+      'youtube.com',
+      '2025-06-15',
+      '2025-06-16',
+      { orderDirection: 'desc' }
+    );
+    expect(domainStats.map(stat => [stat.date, stat.hostname])).toEqual([
+      ['2025-06-16', 'www.youtube.com'],
+      ['2025-06-15', 'www.youtube.com'],
+      ['2025-06-15', 'm.youtube.com'],
+    ]);
+
+    const hostStats = await repository.getStatsByHostnameInRange(
+      'www.youtube.com',
+      '2025-06-14',
+      '2025-06-15'
+    );
+    expect(hostStats.map(stat => stat.date)).toEqual(['2025-06-14', '2025-06-15']);
+  });
+
+  it('should rank groups by active time within a date range', async () => {
+    const top = await repository.getTopByActiveTime('2025-06-15', '2025-06-16', 2);
+    expect(top).toEqual([
+      {
+        group: 'youtube.com',
+        totalOpenTime: 120 * MINUTE,
+        totalActiveTime: 60 * MINUTE,
+        recordCount: 3,
+      },
+      {
+        group: 'github.com',
+        totalOpenTime: 100 * MINUTE,
+        totalActiveTime: 50 * MINUTE,
+        recordCount: 2,
+      },
+    ]);
+
+    const hosts = await repository.getTopByActiveTime('2025-06-14', '2025-06-17', 10, {
+      groupBy: 'hostname',
+      parentDomain: 'youtube.com',
+    });
+    expect(hosts.map(host => [host.group, host.totalActiveTime / MINUTE])).toEqual([
+      ['www.youtube.com', 110],
+      ['m.youtube.com', 10],
+    ]);
+  });
+
+  it('should page through a date range with the total count', async () => {
+    const first = await repository.getStatsPage('2025-06-15', '2025-06-17', { limit: 4 });
+    expect(first).toMatchObject({ total: 6, offset: 0, limit: 4, hasMore: true });
+    expect(first.items).toHaveLength(4);
+
+    const second = await repository.getStatsPage('2025-06-15', '2025-06-17', {
+      limit: 4,
+      offset: 4,
+    });
+    expect(second).toMatchObject({ total: 6, offset: 4, hasMore: false });
+    expect(second.items.map(stat => stat.date)).toEqual(['2025-06-16', '2025-06-17']);
+
+    const keys = [...first.items, ...second.items].map(stat => stat.key);
+    expect(new Set(keys).size).toBe(6);
+
+    const byActiveTime = await repository.getStatsPage('2025-06-14', '2025-06-17', {
+      parentDomain: 'youtube.com',
+      orderBy: 'total_active_time',
+      orderDirection: 'desc',
+      limit: 2,
+    });
+    expect(byActiveTime.total).toBe(4);
+    expect(byActiveTime.items.map(stat => stat.total_active_time / MINUTE)).toEqual([60, 30]);
+  });
+});
+
+/**
+ * AggregatedStatsRepository - visit and session counts of time aggregation upserts
+ */
+describe('AggregatedStatsRepository time aggregation', () => {
+  let db: WebTimeTrackerDB;
+  let repository: AggregatedStatsRepository;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    repository = new AggregatedStatsRepository(db);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should add counts and widen the seen times of a row aggregated before they existed', async () => {
+    const legacy = buildStat('2025-06-15', 'https://github.com/', 45);
+    await db.aggregatedstats.put(legacy);
+    const seen = Date.parse('2025-06-15T09:00:00.000Z');
+    const upsert = {
+      date: '2025-06-15',
+      url: 'https://github.com/',
+      hostname: 'github.com',
+      parentDomain: 'github.com',
+      openTimeToAdd: 10 * MINUTE,
+      activeTimeToAdd: 5 * MINUTE,
+    };
+
+    await repository.upsertTimeAggregation({
+      ...upsert,
+      visitsToAdd: 1,
+      activeSessionsToAdd: 2,
+      firstSeen: seen + 60 * MINUTE,
+      lastSeen: seen + 70 * MINUTE,
+    });
+    await repository.upsertTimeAggregation({
+      ...upsert,
+      visitsToAdd: 1,
+      activeSessionsToAdd: 0,
+      firstSeen: seen,
+      lastSeen: seen + 10 * MINUTE,
+    });
+    // Callers without counts add time only
+    await repository.upsertTimeAggregation(upsert);
+
+    expect(await db.aggregatedstats.get(legacy.key)).toMatchObject({
+      total_open_time: legacy.total_open_time + 30 * MINUTE,
+      total_active_time: legacy.total_active_time + 15 * MINUTE,
+      visit_count: 2,
+      active_session_count: 2,
+      first_seen: seen,
+      last_seen: seen + 70 * MINUTE,
+    });
+  });
+});
@@ -3,7 +3,10 @@ import { fakeBrowser } from 'wxt/testing';
 import { WebTimeTrackerDB } from '@/core/db/schemas';
 import { DatabaseService } from '@/core/db/services';
 import type { TimeAggregationData } from '@/core/db/repositories';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { addDays, format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import { buildStat } from '@/test-utils/fixtures';
 
 /**
  * DatabaseService - Core CRUD Operations
@@ -369,6 +372,97 @@ describe('DatabaseService - Core CRUD Operations', () => {
     });
   });
 
+  // ==================== ROLLUPS ====================
+  describe('Rollups', () => {
+    // Daily rows over 100 days: two hostnames of example.com, other.org every third day
+    function buildDailyStats(): AggregatedStatsRecord[] {
+      const records: AggregatedStatsRecord[] = [];
+      for (let day = 0; day < 100; day++) {
+        const date = format(addDays(new Date(2025, 4, 10), day), 'yyyy-MM-dd');
+        const sites = [
+          ['www.example.com', 'example.com'],
+          ['docs.example.com', 'example.com'],
+          ...(day % 3 === 0 ? [['other.org', 'other.org']] : []),
+        ];
+        for (const [hostname, parentDomain] of sites) {
+          records.push(
+            buildStat({
+              date,
+              url: `https://${hostname}/`,
+              hostname,
+              parentDomain,
+              total_open_time: 60000 + day * 1000,
+              total_active_time: 30000 + day * 500,
+              // Rows before 2025-06-01 predate the visit counts
+              visit_count: day < 22 ? 0 : 2,
+              active_session_count: day < 22 ? 0 : 1,
+              last_updated: Date.now(),
+            })
+          );
+        }
+      }
+      return records;
+    }
+
+    it('should sum site totals from rollups exactly as from the daily rows', async () => {
+      // Arrange
+      await service.bulkPutStats(buildDailyStats());
+      const startDate = '2025-05-14';
+      const endDate = '2025-08-10';
+      const daily = await service.getStatsByDateRange(startDate, endDate);
+
+      // Act
+      const totals = await service.getSiteTotalsInRange(startDate, endDate);
+
+      // Assert
+      expect(totals.parentDomains.map(site => site.site).sort()).toEqual([
+        'example.com',
+        'other.org',
+      ]);
+      for (const site of totals.parentDomains) {
+        const rows = daily.filter(stat => stat.parentDomain === site.site);
+        expect(site).toEqual({
+          site: site.site,
+          parentDomain: site.site,
+          openTime: rows.reduce((sum, stat) => sum + stat.total_open_time, 0),
+          activeTime: rows.reduce((sum, stat) => sum + stat.total_active_time, 0),
+          countedOpenTime: rows
+            .filter(stat => stat.visit_count > 0)
+            .reduce((sum, stat) => sum + stat.total_open_time, 0),
+          visitCount: rows.reduce((sum, stat) => sum + stat.visit_count, 0),
+          activeSessionCount: rows.reduce((sum, stat) => sum + stat.active_session_count, 0),
+          days: new Set(rows.map(stat => stat.date)).size,
+          hostnames: new Set(rows.map(stat => stat.hostname)).size,
+        });
+      }
+
+      const docs = await service.getSiteTotalsInRange(startDate, endDate, {
+        hostname: 'docs.example.com',
+      });
+      expect(docs.parentDomains).toHaveLength(1);
+      expect(docs.hostnames).toEqual([
+        expect.objectContaining({ site: 'docs.example.com', days: 89, hostnames: 0 }),
+      ]);
+    });
+
+    it('should return weekly chart time that sums to the daily rows', async () => {
+      // Arrange
+      await service.bulkPutStats(buildDailyStats());
+      const startDate = '2025-05-14';
+      const endDate = '2025-08-10';
+      const daily = await service.getStatsByDateRange(startDate, endDate);
+
+      // Act
+      const time = await service.getWeeklyTimeInRange(startDate, endDate);
+
+      // Assert – 12 full weeks dated by their Monday plus the 5 days before the first one
+      expect(new Set(time.map(entry => entry.date)).size).toBe(12 + 5);
+      expect(time.reduce((sum, entry) => sum + entry.total_open_time, 0)).toBe(
+        daily.reduce((sum, stat) => sum + stat.total_open_time, 0)
+      );
+    });
+  });
+
   // ==================== HEALTH ====================
   // NOT USED, will be deleted
   // describe('Database Health', () => {
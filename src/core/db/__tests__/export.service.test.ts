@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { v4 as uuidv4 } from 'uuid';
+import { WebTimeTrackerDB, DATABASE_VERSION } from '@/core/db/schemas';
+import {
+  DatabaseService,
+  ExportService,
+  EXPORT_SCHEMA_TAG,
+  type ExportBundle,
+} from '@/core/db/services';
+import { DEFAULT_CONFIG } from '@/config/constants';
+
+/**
+ * ExportService - JSON bundle and CSV export
+ */
+describe('ExportService', () => {
+  let db: WebTimeTrackerDB;
+  let dbService: DatabaseService;
+  let exportService: ExportService;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    dbService = new DatabaseService(db);
+    // Small batch size so multi-batch streaming is exercised
+    exportService = new ExportService(dbService, 2);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  async function seed(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await dbService.addEvent({
+        timestamp: 1_700_000_000_000 + i,
+        eventType: 'open_time_start',
+        tabId: i,
+        url: `https://export.test/${i}`,
+        visitId: uuidv4(),
+        activityId: null,
+      });
+    }
+    await dbService.upsertStat({
+      date: '2025-06-15',
+      url: 'https://export.test/a,b?q="x"',
+      hostname: 'export.test',
+      parentDomain: 'export.test',
+      openTimeToAdd: 2000,
+      activeTimeToAdd: 1000,
+    });
+  }
+
+  it('should export a versioned JSON bundle with every record', async () => {
+    await seed();
+
+    const [file] = await exportService.export('json', DEFAULT_CONFIG);
+    const bundle = JSON.parse(file.content) as ExportBundle;
+
+    expect(file.mimeType).toBe('application/json');
+    expect(file.filename).toMatch(/^webtime-tracker-export-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(bundle.schema).toBe(EXPORT_SCHEMA_TAG);
+    expect(bundle.databaseVersion).toBe(DATABASE_VERSION);
+    expect(bundle.config).toEqual(DEFAULT_CONFIG);
+    expect(bundle.tables.eventslog).toHaveLength(5);
+    expect(bundle.tables.eventslog.map(event => event.tabId)).toEqual([0, 1, 2, 3, 4]);
+    expect(bundle.tables.aggregatedstats).toHaveLength(1);
+    expect(bundle.tables.aggregatedstats[0].total_active_time).toBe(1000);
+  });
+
+  it('should export valid JSON for an empty database', async () => {
+    const [file] = await exportService.export('json', DEFAULT_CONFIG);
+    const bundle = JSON.parse(file.content) as ExportBundle;
+
+    expect(bundle.tables).toEqual({ eventslog: [], aggregatedstats: [] });
+  });
+
+  it('should export one escaped CSV file per table', async () => {
+    await seed();
+
+    const files = await exportService.export('csv', DEFAULT_CONFIG);
+    const [eventsCsv, statsCsv] = files;
+
+    expect(files).toHaveLength(2);
+    expect(eventsCsv.filename).toMatch(/^webtime-tracker-eventslog-/);
+    expect(eventsCsv.content.split('\r\n')[0]).toBe(
+      'id,timestamp,eventType,tabId,url,visitId,activityId,isProcessed,resolution'
+    );
+    // Header + 5 rows + trailing newline
+    expect(eventsCsv.content.split('\r\n')).toHaveLength(7);
+
+    const statsLines = statsCsv.content.split('\r\n');
+    expect(statsLines[0]).toBe(
+      'key,date,url,hostname,parentDomain,total_open_time,total_active_time,visit_count,' +
+        'active_session_count,first_seen,last_seen,last_updated'
+    );
+    expect(statsLines[1]).toContain('"https://export.test/a,b?q=""x"""');
+  });
+});
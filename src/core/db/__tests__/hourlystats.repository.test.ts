@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import { HourlyStatsRepository, type HourlyAggregationData } from '@/core/db/repositories';
+
+const MINUTE = 60 * 1000;
+
+function buildEntry(partial: Partial<HourlyAggregationData>): HourlyAggregationData {
+  return {
+    date: '2025-06-15', // Sunday
+    hour: 9,
+    hostname: 'www.example.com',
+    parentDomain: 'example.com',
+    openTimeToAdd: 10 * MINUTE,
+    activeTimeToAdd: 5 * MINUTE,
+    ...partial,
+  };
+}
+
+/**
+ * HourlyStatsRepository - hourly bucket upserts and heatmap queries
+ */
+describe('HourlyStatsRepository', () => {
+  let db: WebTimeTrackerDB;
+  let repository: HourlyStatsRepository;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    repository = new HourlyStatsRepository(db);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should sum repeated buckets across upserts', async () => {
+    await repository.upsertHourlyAggregations([buildEntry({}), buildEntry({})]);
+    await repository.upsertHourlyAggregations([buildEntry({ activeTimeToAdd: 0 })]);
+
+    const [record] = await db.hourlystats.toArray();
+    expect(await db.hourlystats.count()).toBe(1);
+    expect(record).toMatchObject({
+      key: '2025-06-15T09:www.example.com',
+      hour: 9,
+      dayOfWeek: 0,
+      total_open_time: 30 * MINUTE,
+      total_active_time: 10 * MINUTE,
+    });
+  });
+
+  it('should build hour-of-day and day-of-week heatmaps for a date range', async () => {
+    await repository.upsertHourlyAggregations([
+      buildEntry({}),
+      buildEntry({ date: '2025-06-16', hostname: 'other.org', parentDomain: 'other.org' }),
+      buildEntry({ date: '2025-06-16', hour: 22 }),
+      // Outside of the queried range
+      buildEntry({ date: '2025-06-20' }),
+    ]);
+
+    const hours = await repository.getHourOfDayHeatmap('2025-06-15', '2025-06-16');
+    expect(hours).toHaveLength(24);
+    expect(hours[9]).toEqual({ hour: 9, openTime: 20 * MINUTE, activeTime: 10 * MINUTE });
+    expect(hours[22].openTime).toBe(10 * MINUTE);
+
+    const filtered = await repository.getHourOfDayHeatmap('2025-06-15', '2025-06-16', {
+      parentDomain: 'example.com',
+    });
+    expect(filtered[9].openTime).toBe(10 * MINUTE);
+
+    const cells = await repository.getDayOfWeekHeatmap('2025-06-15', '2025-06-16');
+    expect(cells).toHaveLength(7 * 24);
+    expect(cells[9]).toMatchObject({ dayOfWeek: 0, hour: 9, openTime: 10 * MINUTE });
+    expect(cells[24 + 9]).toMatchObject({ dayOfWeek: 1, hour: 9, openTime: 10 * MINUTE });
+    expect(cells[24 + 22].openTime).toBe(10 * MINUTE);
+  });
+});
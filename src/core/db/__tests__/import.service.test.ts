@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { v4 as uuidv4 } from 'uuid';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import {
+  DatabaseService,
+  ExportService,
+  ImportService,
+  ValidationError,
+  type ExportBundle,
+} from '@/core/db/services';
+import { DEFAULT_CONFIG } from '@/config/constants';
+
+const STAT_DATE = '2025-06-15';
+const STAT_URL = 'https://import.test/page';
+
+/**
+ * ImportService - validation, merge strategies and dry run
+ */
+describe('ImportService', () => {
+  let db: WebTimeTrackerDB;
+  let dbService: DatabaseService;
+  let importService: ImportService;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    dbService = new DatabaseService(db);
+    importService = new ImportService(dbService);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  /**
+   * Seed the database with one event and one stat, and return its export bundle.
+   */
+  async function seedAndExport(): Promise<ExportBundle> {
+    await dbService.addEvent({
+      timestamp: 1_700_000_000_000,
+      eventType: 'open_time_start',
+      tabId: 1,
+      url: STAT_URL,
+      visitId: uuidv4(),
+      activityId: null,
+    });
+    await dbService.upsertStat({
+      date: STAT_DATE,
+      url: STAT_URL,
+      hostname: 'import.test',
+      parentDomain: 'import.test',
+      openTimeToAdd: 2000,
+      activeTimeToAdd: 1000,
+    });
+
+    const [file] = await new ExportService(dbService).export('json', DEFAULT_CONFIG);
+    return JSON.parse(file.content) as ExportBundle;
+  }
+
+  async function getStat() {
+    const [stat] = await dbService.getStatsByKeys([`${STAT_DATE}:${STAT_URL}`]);
+    return stat;
+  }
+
+  it('should reject input that is not an export bundle', async () => {
+    await expect(importService.importBundle('not json', { strategy: 'sum' })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(
+      importService.importBundle({ schema: 'other' }, { strategy: 'sum' })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should report changes without writing on dry run', async () => {
+    const bundle = await seedAndExport();
+    bundle.tables.eventslog.push({
+      ...bundle.tables.eventslog[0],
+      id: 99,
+      visitId: uuidv4(),
+    });
+
+    const report = await importService.importBundle(JSON.stringify(bundle), {
+      strategy: 'sum',
+      dryRun: true,
+    });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.events).toEqual({ total: 2, invalid: 0, inserted: 1, duplicates: 1 });
+    expect(report.stats).toEqual({ total: 1, invalid: 0, inserted: 0, merged: 1 });
+    expect(await db.eventslog.count()).toBe(1);
+    expect((await getStat())?.total_active_time).toBe(1000);
+  });
+
+  it('should sum time on key collisions with the sum strategy', async () => {
+    const bundle = await seedAndExport();
+
+    const report = await importService.importBundle(bundle, { strategy: 'sum' });
+
+    expect(report.stats.merged).toBe(1);
+    expect(report.events.duplicates).toBe(1);
+    expect(await db.eventslog.count()).toBe(1);
+    const stat = await getStat();
+    expect(stat?.total_open_time).toBe(4000);
+    expect(stat?.total_active_time).toBe(2000);
+  });
+
+  it('should overwrite rows on key collisions with the replace strategy', async () => {
+    const bundle = await seedAndExport();
+    bundle.tables.aggregatedstats[0].total_active_time = 5000;
+
+    await importService.importBundle(bundle, { strategy: 'replace' });
+
+    const stat = await getStat();
+    expect(stat?.total_open_time).toBe(2000);
+    expect(stat?.total_active_time).toBe(5000);
+  });
+
+  it('should skip invalid records and import the rest into an empty database', async () => {
+    const bundle = await seedAndExport();
+    await db.eventslog.clear();
+    await db.aggregatedstats.clear();
+    (bundle.tables.eventslog as unknown[]).push({ eventType: 'bogus' });
+    (bundle.tables.aggregatedstats as unknown[]).push({ key: 'bad' });
+
+    const report = await importService.importBundle(bundle, { strategy: 'sum' });
+
+    expect(report.events).toMatchObject({ inserted: 1, invalid: 1 });
+    expect(report.stats).toMatchObject({ inserted: 1, invalid: 1 });
+    expect(report.errors).toHaveLength(2);
+    expect(report.errors[0]).toMatchObject({ table: 'eventslog', index: 1 });
+    expect(await db.eventslog.count()).toBe(1);
+    expect((await getStat())?.total_active_time).toBe(1000);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { WebTimeTrackerDB, type AggregatedStatsRecord } from '@/core/db/schemas';
+import { RollupStatsRepository, type RollupAggregationData } from '@/core/db/repositories';
+import { planRollupRange } from '@/core/db/utils';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+
+const MINUTE = 60 * 1000;
+const UPDATED = Date.parse('2025-06-20T12:00:00.000Z');
+
+function buildEntry(partial: Partial<RollupAggregationData>): RollupAggregationData {
+  return {
+    date: '2025-06-16', // Monday of ISO week 25
+    hostname: 'www.example.com',
+    parentDomain: 'example.com',
+    openTimeToAdd: 10 * MINUTE,
+    activeTimeToAdd: 5 * MINUTE,
+    visitsToAdd: 1,
+    activeSessionsToAdd: 1,
+    ...partial,
+  };
+}
+
+function buildStat(partial: Partial<AggregatedStatsRecord>): AggregatedStatsRecord {
+  return baseBuildStat({
+    date: '2025-06-16',
+    url: 'https://www.example.com/',
+    total_open_time: 10 * MINUTE,
+    total_active_time: 5 * MINUTE,
+    visit_count: 1,
+    active_session_count: 1,
+    last_updated: UPDATED,
+    ...partial,
+  });
+}
+
+/**
+ * RollupStatsRepository - weekly and monthly rollups of the daily stats
+ */
+describe('RollupStatsRepository', () => {
+  let db: WebTimeTrackerDB;
+  let weekly: RollupStatsRepository;
+  let monthly: RollupStatsRepository;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    weekly = new RollupStatsRepository(db, 'week');
+    monthly = new RollupStatsRepository(db, 'month');
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should merge upserts of the same hostname and period', async () => {
+    await weekly.upsertRollups([buildEntry({}), buildEntry({ date: '2025-06-18' })]);
+    await weekly.upsertRollups([buildEntry({ date: '2025-06-22', visitsToAdd: 0 })]);
+
+    expect(await db.weeklystats.count()).toBe(1);
+    expect(await db.weeklystats.get('2025-W25:www.example.com')).toMatchObject({
+      period: '2025-W25',
+      startDate: '2025-06-16',
+      endDate: '2025-06-22',
+      total_open_time: 30 * MINUTE,
+      total_active_time: 15 * MINUTE,
+      counted_open_time: 30 * MINUTE,
+      visit_count: 2,
+      active_session_count: 3,
+      day_mask: (1 << 0) | (1 << 2) | (1 << 6),
+    });
+  });
+
+  it('should split entries into the periods of its granularity', async () => {
+    const entries = [buildEntry({ date: '2025-06-29' }), buildEntry({ date: '2025-06-30' })];
+    await weekly.upsertRollups(entries);
+    await monthly.upsertRollups(entries);
+
+    expect(await db.weeklystats.orderBy('startDate').primaryKeys()).toEqual([
+      '2025-W26:www.example.com',
+      '2025-W27:www.example.com',
+    ]);
+    expect(await db.monthlystats.get('2025-06:www.example.com')).toMatchObject({
+      total_open_time: 20 * MINUTE,
+      day_mask: (1 << 28) | (1 << 29),
+    });
+  });
+
+  it('should reject invalid entries', async () => {
+    await expect(weekly.upsertRollups([buildEntry({ hostname: '' })])).rejects.toThrow(
+      'Hostname cannot be empty'
+    );
+    expect(await db.weeklystats.count()).toBe(0);
+  });
+
+  it('should only return periods that lie entirely within the range', async () => {
+    await weekly.upsertRollups([
+      buildEntry({ date: '2025-06-09' }),
+      buildEntry({ date: '2025-06-16' }),
+      buildEntry({ date: '2025-06-16', hostname: 'other.org', parentDomain: 'other.org' }),
+      buildEntry({ date: '2025-06-23' }),
+    ]);
+
+    const rollups = await weekly.getRollupsInRange('2025-06-10', '2025-06-29');
+    expect(rollups.map(rollup => rollup.key).sort()).toEqual([
+      '2025-W25:other.org',
+      '2025-W25:www.example.com',
+      '2025-W26:www.example.com',
+    ]);
+
+    const filtered = await weekly.getRollupsInRange('2025-06-10', '2025-06-29', {
+      parentDomain: 'other.org',
+    });
+    expect(filtered.map(rollup => rollup.key)).toEqual(['2025-W25:other.org']);
+
+    const byHostname = await weekly.getRollupsInRange('2025-06-10', '2025-06-28', {
+      hostname: 'www.example.com',
+    });
+    expect(byHostname.map(rollup => rollup.key)).toEqual(['2025-W25:www.example.com']);
+  });
+
+  it('should rebuild the periods of a range from the daily stats', async () => {
+    await db.aggregatedstats.bulkPut([
+      buildStat({}),
+      buildStat({ url: 'https://www.example.com/a', date: '2025-06-17', visit_count: 0 }),
+      buildStat({ date: '2025-07-01' }),
+    ]);
+    // Stale rollups inside and outside the rebuilt range
+    await weekly.upsertRollups([buildEntry({ openTimeToAdd: 99 * MINUTE })]);
+    await weekly.upsertRollups([buildEntry({ date: '2025-07-01', openTimeToAdd: 99 * MINUTE })]);
+
+    expect(
+      await weekly.rebuildFromDailyStats({ startDate: '2025-06-17', endDate: '2025-06-17' })
+    ).toBe(1);
+
+    expect(await db.weeklystats.get('2025-W25:www.example.com')).toMatchObject({
+      total_open_time: 20 * MINUTE,
+      counted_open_time: 10 * MINUTE,
+      visit_count: 1,
+      day_mask: (1 << 0) | (1 << 1),
+    });
+    expect((await db.weeklystats.get('2025-W27:www.example.com'))?.total_open_time).toBe(
+      99 * MINUTE
+    );
+
+    await RollupStatsRepository.rebuildAll(db);
+    expect((await db.weeklystats.get('2025-W27:www.example.com'))?.total_open_time).toBe(
+      10 * MINUTE
+    );
+    expect(await db.monthlystats.orderBy('startDate').primaryKeys()).toEqual([
+      '2025-06:www.example.com',
+      '2025-07:www.example.com',
+    ]);
+  });
+});
+
+/**
+ * planRollupRange - splitting a range into months, weeks and days
+ */
+describe('planRollupRange', () => {
+  it('should read full months, then full weeks, then the remaining days', () => {
+    // 2025-05-28 is a Wednesday and 2025-08-06 a Wednesday
+    expect(planRollupRange('2025-05-28', '2025-08-06')).toEqual({
+      months: { startDate: '2025-06-01', endDate: '2025-07-31' },
+      weeks: [],
+      days: [
+        { startDate: '2025-05-28', endDate: '2025-05-31' },
+        { startDate: '2025-08-01', endDate: '2025-08-06' },
+      ],
+    });
+
+    expect(planRollupRange('2025-05-14', '2025-08-20')).toEqual({
+      months: { startDate: '2025-06-01', endDate: '2025-07-31' },
+      weeks: [
+        { startDate: '2025-05-19', endDate: '2025-05-25' },
+        { startDate: '2025-08-04', endDate: '2025-08-17' },
+      ],
+      days: [
+        { startDate: '2025-05-14', endDate: '2025-05-18' },
+        { startDate: '2025-05-26', endDate: '2025-05-31' },
+        { startDate: '2025-08-01', endDate: '2025-08-03' },
+        { startDate: '2025-08-18', endDate: '2025-08-20' },
+      ],
+    });
+  });
+
+  it('should fall back to days when no whole period fits', () => {
+    expect(planRollupRange('2025-06-10', '2025-06-14')).toEqual({
+      months: null,
+      weeks: [],
+      days: [{ startDate: '2025-06-10', endDate: '2025-06-14' }],
+    });
+    expect(planRollupRange('2025-06-02', '2025-06-29', ['week'])).toEqual({
+      months: null,
+      weeks: [{ startDate: '2025-06-02', endDate: '2025-06-29' }],
+      days: [],
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import {
+  WebTimeTrackerDB,
+  DATABASE_NAME,
+  DATABASE_VERSION,
+  SCHEMA_MIGRATIONS,
+  type SchemaMigration,
+} from '@/core/db/schemas';
+import { createTestConnectionManager, MockDatabaseFactory } from '@/core/db/connection/manager';
+import { VersionManagerUtil } from '@/core/db/utils/version-manager.util';
+import type { MigrationProgress } from '@/core/db/utils/types';
+
+const BACKUP_NAME = `${DATABASE_NAME}-backup`;
+const UPDATED = Date.parse('2025-06-15T12:00:00.000Z');
+
+const V1_EVENTS = [
+  {
+    timestamp: Date.parse('2025-06-15T10:00:00.000Z'),
+    eventType: 'open_time_start',
+    tabId: 1,
+    url: 'https://example.com/',
+    visitId: 'visit-1',
+    activityId: null,
+    isProcessed: 1,
+  },
+  {
+    timestamp: Date.parse('2025-06-15T10:30:00.000Z'),
+    eventType: 'open_time_end',
+    tabId: 1,
+    url: 'https://example.com/',
+    visitId: 'visit-1',
+    activityId: null,
+    isProcessed: 0,
+  },
+];
+
+const V1_STATS = [
+  {
+    key: '2025-06-15:https://example.com/',
+    date: '2025-06-15',
+    url: 'https://example.com/',
+    hostname: 'example.com',
+    parentDomain: 'example.com',
+    total_open_time: 30 * 60 * 1000,
+    total_active_time: 10 * 60 * 1000,
+    last_updated: UPDATED,
+  },
+];
+
+/**
+ * Version-specific checks of the upgraded fixture; every migration after v1 needs one
+ */
+const FIXTURE_CHECKS: Record<number, (db: WebTimeTrackerDB) => Promise<void>> = {
+  2: async db => {
+    expect(db.hourlystats.schema.indexes.map(index => index.name)).toEqual(
+      expect.arrayContaining(['date', 'hostname', 'parentDomain'])
+    );
+    expect(await db.hourlystats.count()).toBe(0);
+  },
+  3: async db => {
+    expect(db.aggregatedstats.schema.indexes.map(index => index.name)).toEqual(
+      expect.arrayContaining(['[parentDomain+date]', '[hostname+date]'])
+    );
+    // The compound indexes cover rows written before the upgrade
+    expect(
+      await db.aggregatedstats
+        .where('[parentDomain+date]')
+        .between(['example.com', '2025-06-01'], ['example.com', '2025-06-30'], true, true)
+        .primaryKeys()
+    ).toEqual([V1_STATS[0].key]);
+  },
+  4: async db => {
+    expect(db.visits.schema.primKey.name).toBe('visitId');
+    expect(db.visits.schema.indexes.map(index => index.name)).toEqual(
+      expect.arrayContaining(['start', '[hostname+start]', '[parentDomain+start]'])
+    );
+    expect(await db.visits.count()).toBe(0);
+  },
+  5: async db => {
+    expect(await db.aggregatedstats.get(V1_STATS[0].key)).toEqual({
+      ...V1_STATS[0],
+      visit_count: 0,
+      active_session_count: 0,
+      first_seen: null,
+      last_seen: null,
+    });
+  },
+  6: async db => {
+    for (const table of [db.weeklystats, db.monthlystats]) {
+      expect(table.schema.indexes.map(index => index.name)).toEqual(
+        expect.arrayContaining(['startDate', '[parentDomain+startDate]', '[hostname+startDate]'])
+      );
+    }
+    // Existing daily rows are rolled up; 2025-06-15 is the Sunday of ISO week 24
+    expect(await db.weeklystats.get('2025-W24:example.com')).toMatchObject({
+      period: '2025-W24',
+      startDate: '2025-06-09',
+      endDate: '2025-06-15',
+      total_open_time: V1_STATS[0].total_open_time,
+      total_active_time: V1_STATS[0].total_active_time,
+      counted_open_time: 0,
+      visit_count: 0,
+      day_mask: 1 << 6,
+    });
+    expect(await db.monthlystats.get('2025-06:example.com')).toMatchObject({
+      startDate: '2025-06-01',
+      endDate: '2025-06-30',
+      total_open_time: V1_STATS[0].total_open_time,
+      day_mask: 1 << 14,
+    });
+  },
+};
+
+/**
+ * Creates the database at schema v1 and seeds it with fixture rows
+ */
+async function seedV1Database(): Promise<void> {
+  const legacy = new Dexie(DATABASE_NAME);
+  VersionManagerUtil.declareMigrations(
+    legacy,
+    SCHEMA_MIGRATIONS.filter(migration => migration.version === 1)
+  );
+  await legacy.open();
+  await legacy.table('eventslog').bulkAdd(V1_EVENTS);
+  await legacy.table('aggregatedstats').bulkAdd(V1_STATS);
+  legacy.close();
+}
+
+async function getStoredVersion(): Promise<number> {
+  const stored = new Dexie(DATABASE_NAME);
+  await stored.open();
+  const version = stored.verno;
+  stored.close();
+  return version;
+}
+
+function migrationsUpTo(version: number): SchemaMigration[] {
+  return SCHEMA_MIGRATIONS.filter(migration => migration.version <= version);
+}
+
+/**
+ * Opens the database through the connection manager, which backs up data upgrades
+ */
+async function openWith(migrations: readonly SchemaMigration[]): Promise<WebTimeTrackerDB> {
+  const db = new WebTimeTrackerDB(migrations);
+  const manager = createTestConnectionManager({ maxRetryAttempts: 0 }, new MockDatabaseFactory(db));
+  await manager.open();
+  return db;
+}
+
+/**
+ * Progress reports of the migration added on top of the declared ones
+ */
+function reportsOfExtraMigration(progress: MigrationProgress[]): MigrationProgress[] {
+  return progress.filter(report => report.version === DATABASE_VERSION + 1);
+}
+
+/**
+ * Schema migrations - upgrading a seeded v1 database
+ */
+describe('Schema migrations', () => {
+  let db: WebTimeTrackerDB | null;
+  let progress: MigrationProgress[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    db = null;
+    progress = [];
+    unsubscribe = VersionManagerUtil.onMigrationProgress(report => progress.push(report));
+    await seedV1Database();
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    db?.close();
+    await Dexie.delete(DATABASE_NAME);
+    await Dexie.delete(BACKUP_NAME);
+  });
+
+  it('should declare ascending versions ending at DATABASE_VERSION', () => {
+    const versions = SCHEMA_MIGRATIONS.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(DATABASE_VERSION);
+    expect(Object.keys(FIXTURE_CHECKS).map(Number)).toEqual(versions.slice(1));
+  });
+
+  describe.each(SCHEMA_MIGRATIONS.filter(migration => migration.version > 1))(
+    'v$version: $description',
+    migration => {
+      it('should upgrade a v1 database and keep its history', async () => {
+        db = await openWith(migrationsUpTo(migration.version));
+
+        expect(db.verno).toBe(migration.version);
+        expect(await db.eventslog.count()).toBe(V1_EVENTS.length);
+        expect(await db.aggregatedstats.get(V1_STATS[0].key)).toMatchObject(V1_STATS[0]);
+        await FIXTURE_CHECKS[migration.version](db);
+        expect(await Dexie.exists(BACKUP_NAME)).toBe(false);
+      });
+    }
+  );
+
+  it('should back up data upgrades and discard the backup once they succeed', async () => {
+    db = await openWith([
+      ...SCHEMA_MIGRATIONS,
+      {
+        version: DATABASE_VERSION + 1,
+        description: 'Double open time',
+        stores: {},
+        upgrade: async tx => {
+          await tx
+            .table('aggregatedstats')
+            .toCollection()
+            .modify(stat => {
+              stat.total_open_time *= 2;
+            });
+        },
+      },
+    ]);
+
+    expect(db.verno).toBe(DATABASE_VERSION + 1);
+    expect((await db.aggregatedstats.get(V1_STATS[0].key))?.total_open_time).toBe(
+      V1_STATS[0].total_open_time * 2
+    );
+    const reports = reportsOfExtraMigration(progress);
+    expect(reports.map(report => report.phase)).toEqual(['backedUp', 'upgrading', 'upgraded']);
+    expect(reports[0]).toMatchObject({ fromVersion: 1, version: DATABASE_VERSION + 1 });
+    expect(await Dexie.exists(BACKUP_NAME)).toBe(false);
+  });
+
+  it('should roll back a failed upgrade and keep the backup', async () => {
+    const migrations: SchemaMigration[] = [
+      ...SCHEMA_MIGRATIONS,
+      {
+        version: DATABASE_VERSION + 1,
+        description: 'Broken upgrade',
+        stores: {},
+        upgrade: async tx => {
+          await tx.table('aggregatedstats').clear();
+          throw new Error('Upgrade exploded');
+        },
+      },
+    ];
+
+    await expect(openWith(migrations)).rejects.toThrow();
+
+    expect(await getStoredVersion()).toBe(1);
+    const reports = reportsOfExtraMigration(progress);
+    expect(reports.map(report => report.phase)).toEqual([
+      'backedUp',
+      'upgrading',
+      'failed',
+      'rolledBack',
+    ]);
+    expect(reports[2].error).toBe('Upgrade exploded');
+    expect(await Dexie.exists(BACKUP_NAME)).toBe(true);
+
+    db = await openWith(SCHEMA_MIGRATIONS);
+    expect(await db.aggregatedstats.count()).toBe(V1_STATS.length);
+  });
+
+  it('should restore a backup into the backed-up version', async () => {
+    const backup = await VersionManagerUtil.backupBeforeUpgrade(
+      new WebTimeTrackerDB([
+        ...SCHEMA_MIGRATIONS,
+        {
+          version: DATABASE_VERSION + 1,
+          description: 'Data upgrade',
+          stores: {},
+          upgrade: async () => {},
+        },
+      ])
+    );
+    expect(backup).toMatchObject({ fromVersion: 1, counts: { eventslog: 2, aggregatedstats: 1 } });
+
+    await Dexie.delete(DATABASE_NAME);
+    await VersionManagerUtil.restoreBackup(backup!);
+
+    expect(await getStoredVersion()).toBe(1);
+    db = await openWith(SCHEMA_MIGRATIONS);
+    expect(await db.eventslog.orderBy('id').toArray()).toMatchObject(V1_EVENTS);
+    expect(await db.aggregatedstats.toArray()).toMatchObject(V1_STATS);
+  });
+  it('should back up and restore tables larger than one page', async () => {
+    const legacy = new Dexie(DATABASE_NAME);
+    await legacy.open();
+    await legacy.table('eventslog').bulkAdd(
+      Array.from({ length: 2500 }, (_, index) => ({
+        ...V1_EVENTS[0],
+        timestamp: V1_EVENTS[0].timestamp + index,
+        visitId: `visit-${index + 2}`,
+      }))
+    );
+    legacy.close();
+
+    const backup = await VersionManagerUtil.backupBeforeUpgrade(
+      new WebTimeTrackerDB([
+        ...SCHEMA_MIGRATIONS,
+        {
+          version: DATABASE_VERSION + 1,
+          description: 'Data upgrade',
+          stores: {},
+          upgrade: async () => {},
+        },
+      ])
+    );
+    expect(backup?.counts).toEqual({ eventslog: 2502, aggregatedstats: 1 });
+
+    await Dexie.delete(DATABASE_NAME);
+    await VersionManagerUtil.restoreBackup(backup!);
+
+    db = await openWith(SCHEMA_MIGRATIONS);
+    const ids = await db.eventslog.orderBy('id').primaryKeys();
+    expect(ids).toHaveLength(2502);
+    expect(ids[ids.length - 1]).toBe(2502);
+    expect(await db.aggregatedstats.count()).toBe(V1_STATS.length);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_CONFIG,
+  UrlNormalizationRuleSchema,
+  type UrlNormalizationRule,
+} from '@/config/constants';
+import { normalizeUrl, setActiveUrlFilteringConfig } from '../utils/url-normalizer.util';
+import {
+  applyFragmentMode,
+  collapsePathSegments,
+  findUrlNormalizationRule,
+} from '../utils/url-rules.util';
+import { generateAggregatedStatsKey } from '../schemas/aggregatedstats.schema';
+import { createDefaultURLProcessor } from '@/core/tracker/utils/URLProcessor';
+
+function rule(input: Partial<UrlNormalizationRule> & { hostname: string }): UrlNormalizationRule {
+  return UrlNormalizationRuleSchema.parse(input);
+}
+
+const GITHUB = rule({
+  hostname: 'github.com',
+  dropParams: ['tab'],
+  pathPatterns: ['/*/*/issues/:id', '/*/*/pull/:number'],
+});
+const YOUTUBE = rule({ hostname: '*.youtube.com', keepParams: ['v', 'list'] });
+const APP = rule({ hostname: 'app.example.com', fragment: 'hashRoute' });
+
+/**
+ * Per-site URL normalization rules
+ */
+describe('URL normalization rules', () => {
+  afterEach(() => {
+    setActiveUrlFilteringConfig(DEFAULT_CONFIG.urlFiltering);
+  });
+
+  describe('findUrlNormalizationRule', () => {
+    it('should prefer exact hostnames over the longest matching wildcard', () => {
+      const wide = rule({ hostname: '*.example.com' });
+      const narrow = rule({ hostname: '*.docs.example.com' });
+      const rules = [wide, narrow, APP];
+
+      expect(findUrlNormalizationRule('app.example.com', rules)).toBe(APP);
+      expect(findUrlNormalizationRule('api.docs.example.com', rules)).toBe(narrow);
+      expect(findUrlNormalizationRule('example.com', rules)).toBe(wide);
+      expect(findUrlNormalizationRule('www.github.com', [GITHUB])).toBe(GITHUB);
+      expect(findUrlNormalizationRule('notexample.com', rules)).toBeUndefined();
+    });
+  });
+
+  describe('collapsePathSegments', () => {
+    it('should replace named segments and keep wildcard and trailing segments', () => {
+      expect(collapsePathSegments('/owner/repo/issues/123', GITHUB.pathPatterns)).toBe(
+        '/owner/repo/issues/:id'
+      );
+      expect(collapsePathSegments('/owner/repo/pull/7/files', GITHUB.pathPatterns)).toBe(
+        '/owner/repo/pull/:number/files'
+      );
+      expect(collapsePathSegments('/owner/repo/issues', GITHUB.pathPatterns)).toBe(
+        '/owner/repo/issues'
+      );
+    });
+  });
+
+  describe('applyFragmentMode', () => {
+    it('should keep only route-like hashes in hashRoute mode', () => {
+      expect(applyFragmentMode('#/inbox/42', 'hashRoute')).toBe('#/inbox/42');
+      expect(applyFragmentMode('#!/inbox', 'hashRoute')).toBe('#!/inbox');
+      expect(applyFragmentMode('#section-2', 'hashRoute')).toBe('');
+      expect(applyFragmentMode('#section-2', 'keep')).toBe('#section-2');
+      expect(applyFragmentMode('#/inbox', 'strip')).toBe('');
+    });
+  });
+
+  describe('normalizeUrl', () => {
+    it('should apply the rule of the hostname', () => {
+      const rules = [GITHUB, YOUTUBE, APP];
+
+      expect(
+        normalizeUrl('https://github.com/owner/repo/issues/123?tab=comments&q=bug#top', { rules })
+      ).toBe('https://github.com/owner/repo/issues/:id?q=bug');
+      expect(normalizeUrl('https://m.youtube.com/watch?v=abc&t=42', { rules })).toBe(
+        'https://m.youtube.com/watch?v=abc'
+      );
+      expect(normalizeUrl('https://app.example.com/#/mail/1', { rules })).toBe(
+        'https://app.example.com/#/mail/1'
+      );
+      expect(normalizeUrl('https://other.com/a?tab=1#x', { rules })).toBe(
+        'https://other.com/a?tab=1'
+      );
+    });
+
+    it('should use the active config for stats keys', () => {
+      setActiveUrlFilteringConfig({ ...DEFAULT_CONFIG.urlFiltering, siteRules: [GITHUB] });
+
+      expect(generateAggregatedStatsKey('2025-06-15', 'https://github.com/o/r/issues/9')).toBe(
+        '2025-06-15:https://github.com/o/r/issues/:id'
+      );
+    });
+  });
+
+  describe('URLProcessor', () => {
+    it('should keep rule parameters that the global filters would remove', () => {
+      const processor = createDefaultURLProcessor({
+        ignoredQueryParams: ['v'],
+        siteRules: [YOUTUBE, GITHUB],
+      });
+
+      expect(processor.processUrl('https://www.youtube.com/watch?v=abc&si=x').normalizedUrl).toBe(
+        'https://www.youtube.com/watch?v=abc'
+      );
+      expect(
+        processor.processUrl('https://github.com/o/r/pull/5?tab=files&utm_source=x').normalizedUrl
+      ).toBe('https://github.com/o/r/pull/:number');
+    });
+  });
+
+  describe('unified pipeline', () => {
+    it('should record and key the same page identically', () => {
+      setActiveUrlFilteringConfig({
+        ...DEFAULT_CONFIG.urlFiltering,
+        ignoredQueryParams: ['tab'],
+      });
+      const processor = createDefaultURLProcessor();
+
+      for (const url of [
+        'https://Example.com/Docs?tab=2&q=x&id=1#intro',
+        'https://example.com/docs?id=1&utm_source=mail&q=x',
+      ]) {
+        const recorded = processor.processUrl(url).normalizedUrl!;
+
+        expect(recorded).toBe('https://example.com/docs?id=1&q=x');
+        expect(normalizeUrl(url)).toBe(recorded);
+        expect(normalizeUrl(recorded)).toBe(recorded);
+      }
+      expect(processor.shouldIgnoreHostname('newtab')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+import { VisitsRepository, type VisitAggregationData } from '@/core/db/repositories';
+
+const MINUTE = 60 * 1000;
+const BASE = Date.parse('2025-06-15T09:00:00.000Z');
+
+function buildEntry(partial: Partial<VisitAggregationData>): VisitAggregationData {
+  return {
+    visitId: 'visit-1',
+    url: 'https://www.example.com/',
+    hostname: 'www.example.com',
+    parentDomain: 'example.com',
+    start: BASE,
+    end: BASE + 10 * MINUTE,
+    openTimeToAdd: 10 * MINUTE,
+    activeTimeToAdd: 5 * MINUTE,
+    activitiesToAdd: 1,
+    crashRecovered: false,
+    ...partial,
+  };
+}
+
+/**
+ * VisitsRepository - per-visit upserts and visit history queries
+ */
+describe('VisitsRepository', () => {
+  let db: WebTimeTrackerDB;
+  let repository: VisitsRepository;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    repository = new VisitsRepository(db);
+  });
+
+  afterEach(async () => {
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should extend a visit measured across several upserts', async () => {
+    await repository.upsertVisits([buildEntry({})]);
+    await repository.upsertVisits([
+      buildEntry({
+        start: BASE + 10 * MINUTE,
+        end: BASE + 25 * MINUTE,
+        openTimeToAdd: 15 * MINUTE,
+        activeTimeToAdd: 0,
+        activitiesToAdd: 0,
+        crashRecovered: true,
+      }),
+    ]);
+
+    expect(await db.visits.toArray()).toEqual([
+      expect.objectContaining({
+        visitId: 'visit-1',
+        start: BASE,
+        end: BASE + 25 * MINUTE,
+        open_time: 25 * MINUTE,
+        active_time: 5 * MINUTE,
+        activity_count: 1,
+        crash_recovered: true,
+      }),
+    ]);
+  });
+
+  it('should query visits by start time, site and active time', async () => {
+    await repository.upsertVisits([
+      buildEntry({}),
+      buildEntry({
+        visitId: 'visit-2',
+        start: BASE + 30 * MINUTE,
+        end: BASE + 90 * MINUTE,
+        activeTimeToAdd: 40 * MINUTE,
+      }),
+      buildEntry({
+        visitId: 'visit-3',
+        url: 'https://docs.example.com/',
+        hostname: 'docs.example.com',
+        start: BASE + 60 * MINUTE,
+        end: BASE + 70 * MINUTE,
+        activeTimeToAdd: 8 * MINUTE,
+      }),
+      buildEntry({
+        visitId: 'visit-4',
+        url: 'https://github.com/',
+        hostname: 'github.com',
+        parentDomain: 'github.com',
+        start: BASE + 120 * MINUTE,
+        end: BASE + 130 * MINUTE,
+      }),
+    ]);
+
+    const morning = await repository.getVisitsInRange(BASE, BASE + 120 * MINUTE);
+    expect(morning.map(visit => visit.visitId)).toEqual(['visit-1', 'visit-2', 'visit-3']);
+
+    const docs = await repository.getVisitsInRange(BASE, BASE + 180 * MINUTE, {
+      hostname: 'docs.example.com',
+    });
+    expect(docs.map(visit => visit.visitId)).toEqual(['visit-3']);
+
+    const longest = await repository.getLongestVisits(BASE, BASE + 180 * MINUTE, 2, {
+      parentDomain: 'example.com',
+    });
+    expect(longest.map(visit => [visit.visitId, visit.active_time / MINUTE])).toEqual([
+      ['visit-2', 40],
+      ['visit-3', 8],
+    ]);
+  });
+});
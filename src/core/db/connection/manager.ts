@@ -7,6 +7,7 @@
 
 import { retry } from 'es-toolkit/function';
 import { WebTimeTrackerDB, DATABASE_NAME, DATABASE_VERSION } from '../schemas';
+import { VersionManagerUtil } from '../utils/version-manager.util';
 
 /**
  * Database factory interface for dependency injection
@@ -151,10 +152,26 @@ export class DatabaseConnectionManager {
   /**
    * Attempt to open the database connection
    *
+   * Upgrades that transform data are backed up first; if one fails, the
+   * database is rolled back to its previous version before the error is rethrown.
+   *
    * @private
    */
   private async attemptDatabaseOpen(): Promise<void> {
-    await this.db.open();
+    const backup = await VersionManagerUtil.backupBeforeUpgrade(this.db);
+
+    try {
+      await this.db.open();
+    } catch (error) {
+      if (backup) {
+        await VersionManagerUtil.rollbackUpgrade(backup);
+      }
+      throw error;
+    }
+
+    if (backup) {
+      await VersionManagerUtil.discardBackup(backup);
+    }
     this.handleOpenSuccess();
   }
 
@@ -32,14 +32,19 @@
 
 // Export database instance and core schemas
 export { WebTimeTrackerDB, DATABASE_NAME, DATABASE_VERSION } from './schemas';
-export type { EventsLogRecord, AggregatedStatsRecord } from './schemas';
+export type { EventsLogRecord, AggregatedStatsRecord, HourlyStatsRecord } from './schemas';
 
 // ============================================================================
 // REPOSITORY LAYER
 // ============================================================================
 
 // Export repository classes and base functionality
-export { BaseRepository, EventsLogRepository, AggregatedStatsRepository } from './repositories';
+export {
+  BaseRepository,
+  EventsLogRepository,
+  AggregatedStatsRepository,
+  HourlyStatsRepository,
+} from './repositories';
 
 // Export repository types and interfaces
 export type {
@@ -48,6 +53,9 @@ export type {
   RepositoryOptions,
   ValidationError,
   NotFoundError,
+  HeatmapQueryOptions,
+  HourOfDayBucket,
+  DayOfWeekHeatmapCell,
 } from './repositories';
 
 // ============================================================================
@@ -60,11 +68,20 @@ export {
   createDatabaseService,
   databaseService,
   ErrorHandlerService,
+  ExportService,
+  ImportService,
 } from './services';
 
 // Export service types and interfaces
 export type {
   DatabaseHealthInfo,
+  ExportBundle,
+  ExportFile,
+  ExportFormat,
+  ExportTableName,
+  ImportMergeStrategy,
+  ImportOptions,
+  ImportReport,
   ErrorInfo,
   ErrorHandlingOptions,
   RecoveryResult,
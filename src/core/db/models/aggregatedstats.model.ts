@@ -21,9 +21,8 @@ export const AggregatedStatsSchema = z.object({
   key: z.string().regex(/^\d{4}-\d{2}-\d{2}:.+$/, 'Key must be in format YYYY-MM-DD:url'),
 
   /**
-   * Date in YYYY-MM-DD format (UTC date)
+   * Date in YYYY-MM-DD format (calendar day in the aggregation time zone)
    * Indexed field for date-based queries
-   * Must be UTC date as per project rules
    */
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
 
@@ -54,6 +53,30 @@ export const AggregatedStatsSchema = z.object({
    */
   total_active_time: z.number().int().nonnegative(),
 
+  /**
+   * Number of visits with open time on the day
+   * Defaults to 0 for records written before the count existed
+   */
+  visit_count: z.number().int().nonnegative().default(0),
+
+  /**
+   * Number of active time intervals on the day
+   * Defaults to 0 for records written before the count existed
+   */
+  active_session_count: z.number().int().nonnegative().default(0),
+
+  /**
+   * Start of the earliest measured time on the day (Unix timestamp in milliseconds)
+   * Null if unknown
+   */
+  first_seen: z.number().int().nonnegative().nullable().default(null),
+
+  /**
+   * End of the latest measured time on the day (Unix timestamp in milliseconds)
+   * Null if unknown
+   */
+  last_seen: z.number().int().nonnegative().nullable().default(null),
+
   /**
    * Last update timestamp (Unix timestamp in milliseconds from Date.now())
    * Key dependency for FR-4C smart merge logic implementation
@@ -0,0 +1,87 @@
+/**
+ * Hourly Stats Model Definition
+ *
+ * This file defines the Zod v4 schema and TypeScript types for the hourlystats table,
+ * providing runtime validation for per-hour time buckets.
+ */
+
+import { z } from 'zod/v4';
+
+/**
+ * Hourly stats record Zod schema
+ */
+export const HourlyStatsSchema = z.object({
+  /**
+   * Primary key in format "YYYY-MM-DDTHH:hostname"
+   */
+  key: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:.+$/, 'Key must be in format YYYY-MM-DDTHH:hostname'),
+
+  /**
+   * Date in YYYY-MM-DD format (aggregation time zone)
+   */
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+
+  /**
+   * Hour of the day (0-23, aggregation time zone)
+   */
+  hour: z.number().int().min(0).max(23),
+
+  /**
+   * Day of the week (0 = Sunday ... 6 = Saturday)
+   */
+  dayOfWeek: z.number().int().min(0).max(6),
+
+  /**
+   * URL hostname
+   */
+  hostname: z.string().min(1),
+
+  /**
+   * URL parent domain based on PSL (Public Suffix List) calculation
+   */
+  parentDomain: z.string().min(1),
+
+  /**
+   * Accumulated open time in milliseconds (integer values only)
+   */
+  total_open_time: z.number().int().nonnegative(),
+
+  /**
+   * Accumulated active time in milliseconds (integer values only)
+   */
+  total_active_time: z.number().int().nonnegative(),
+
+  /**
+   * Last update timestamp (Unix timestamp in milliseconds from Date.now())
+   */
+  last_updated: z
+    .number()
+    .int()
+    .min(1000000000000, 'Timestamp must be in milliseconds (Unix timestamp >= 1000000000000)'),
+});
+
+/**
+ * TypeScript type inferred from Zod schema
+ */
+export type HourlyStatsRecord = z.infer<typeof HourlyStatsSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const HourlyStatsValidation = {
+  /**
+   * Validate a complete hourly stats record
+   */
+  validateRecord: (data: unknown): HourlyStatsRecord => {
+    return HourlyStatsSchema.parse(data);
+  },
+
+  /**
+   * Safely validate a complete hourly stats record
+   */
+  safeValidateRecord: (data: unknown) => {
+    return HourlyStatsSchema.safeParse(data);
+  },
+};
@@ -41,5 +41,22 @@ export {
   type DateRangeQuery,
 } from './aggregatedstats.model';
 
+// Export HourlyStats model
+export {
+  HourlyStatsSchema,
+  HourlyStatsValidation,
+  type HourlyStatsRecord,
+} from './hourlystats.model';
+
+// Export Visits model
+export { VisitSchema, VisitValidation, type VisitRecord } from './visits.model';
+
+// Export RollupStats model
+export {
+  RollupStatsSchema,
+  RollupStatsValidation,
+  type RollupStatsRecord,
+} from './rollupstats.model';
+
 // Re-export Zod for convenience
 export { z } from 'zod/v4';
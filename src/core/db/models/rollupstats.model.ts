@@ -0,0 +1,123 @@
+/**
+ * Rollup Stats Model Definition
+ *
+ * This file defines the Zod v4 schema and TypeScript types for the weeklystats and
+ * monthlystats tables, providing runtime validation for per-period rollups.
+ */
+
+import { z } from 'zod/v4';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rollup stats record Zod schema
+ */
+export const RollupStatsSchema = z
+  .object({
+    /**
+     * Primary key in format "period:hostname"
+     */
+    key: z
+      .string()
+      .regex(
+        /^\d{4}-(W\d{2}|\d{2}):.+$/,
+        'Key must be in format YYYY-Www:hostname or YYYY-MM:hostname'
+      ),
+
+    /**
+     * ISO week ("YYYY-Www") or calendar month ("YYYY-MM")
+     */
+    period: z
+      .string()
+      .regex(/^\d{4}-(W\d{2}|\d{2})$/, 'Period must be in format YYYY-Www or YYYY-MM'),
+
+    /**
+     * First date of the period in YYYY-MM-DD format (aggregation time zone)
+     */
+    startDate: z.string().regex(DATE_REGEX, 'Start date must be in YYYY-MM-DD format'),
+
+    /**
+     * Last date of the period in YYYY-MM-DD format (aggregation time zone)
+     */
+    endDate: z.string().regex(DATE_REGEX, 'End date must be in YYYY-MM-DD format'),
+
+    /**
+     * URL hostname
+     */
+    hostname: z.string().min(1),
+
+    /**
+     * URL parent domain based on PSL (Public Suffix List) calculation
+     */
+    parentDomain: z.string().min(1),
+
+    /**
+     * Accumulated open time in milliseconds (integer values only)
+     */
+    total_open_time: z.number().int().nonnegative(),
+
+    /**
+     * Accumulated active time in milliseconds (integer values only)
+     */
+    total_active_time: z.number().int().nonnegative(),
+
+    /**
+     * Open time of the days that have visit counts (integer values only)
+     */
+    counted_open_time: z.number().int().nonnegative(),
+
+    /**
+     * Sum of the daily visit counts
+     */
+    visit_count: z.number().int().nonnegative(),
+
+    /**
+     * Sum of the daily active session counts
+     */
+    active_session_count: z.number().int().nonnegative(),
+
+    /**
+     * Days of the period with a daily row, bit i for the i-th day (at most 31 days)
+     */
+    day_mask: z
+      .number()
+      .int()
+      .min(0)
+      .max(2 ** 31 - 1),
+
+    /**
+     * Last update timestamp (Unix timestamp in milliseconds from Date.now())
+     */
+    last_updated: z
+      .number()
+      .int()
+      .min(1000000000000, 'Timestamp must be in milliseconds (Unix timestamp >= 1000000000000)'),
+  })
+  .refine(rollup => rollup.endDate >= rollup.startDate, {
+    message: 'End date must not be before start date',
+    path: ['endDate'],
+  });
+
+/**
+ * TypeScript type inferred from Zod schema
+ */
+export type RollupStatsRecord = z.infer<typeof RollupStatsSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const RollupStatsValidation = {
+  /**
+   * Validate a complete rollup stats record
+   */
+  validateRecord: (data: unknown): RollupStatsRecord => {
+    return RollupStatsSchema.parse(data);
+  },
+
+  /**
+   * Safely validate a complete rollup stats record
+   */
+  safeValidateRecord: (data: unknown) => {
+    return RollupStatsSchema.safeParse(data);
+  },
+};
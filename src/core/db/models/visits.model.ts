@@ -0,0 +1,100 @@
+/**
+ * Visits Model Definition
+ *
+ * This file defines the Zod v4 schema and TypeScript types for the visits table,
+ * providing runtime validation for per-visit records.
+ */
+
+import { z } from 'zod/v4';
+
+/**
+ * Visit record Zod schema
+ */
+export const VisitSchema = z
+  .object({
+    /**
+     * Primary key, the visit ID shared by the visit's events
+     */
+    visitId: z.string().min(1),
+
+    /**
+     * URL of the visit
+     */
+    url: z.string().url(),
+
+    /**
+     * URL hostname
+     */
+    hostname: z.string().min(1),
+
+    /**
+     * URL parent domain based on PSL (Public Suffix List) calculation
+     */
+    parentDomain: z.string().min(1),
+
+    /**
+     * Start of the first measured interval (Unix timestamp in milliseconds)
+     */
+    start: z.number().int().nonnegative(),
+
+    /**
+     * End of the last measured interval (Unix timestamp in milliseconds)
+     */
+    end: z.number().int().nonnegative(),
+
+    /**
+     * Open time measured so far in milliseconds (integer values only)
+     */
+    open_time: z.number().int().nonnegative(),
+
+    /**
+     * Active time measured so far in milliseconds (integer values only)
+     */
+    active_time: z.number().int().nonnegative(),
+
+    /**
+     * Number of active time intervals started in the visit
+     */
+    activity_count: z.number().int().nonnegative(),
+
+    /**
+     * Whether any of the visit's events was written by crash recovery
+     */
+    crash_recovered: z.boolean(),
+
+    /**
+     * Last update timestamp (Unix timestamp in milliseconds from Date.now())
+     */
+    last_updated: z
+      .number()
+      .int()
+      .min(1000000000000, 'Timestamp must be in milliseconds (Unix timestamp >= 1000000000000)'),
+  })
+  .refine(visit => visit.end >= visit.start, {
+    message: 'Visit end must not be before its start',
+    path: ['end'],
+  });
+
+/**
+ * TypeScript type inferred from Zod schema
+ */
+export type VisitRecord = z.infer<typeof VisitSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const VisitValidation = {
+  /**
+   * Validate a complete visit record
+   */
+  validateRecord: (data: unknown): VisitRecord => {
+    return VisitSchema.parse(data);
+  },
+
+  /**
+   * Safely validate a complete visit record
+   */
+  safeValidateRecord: (data: unknown) => {
+    return VisitSchema.safeParse(data);
+  },
+};
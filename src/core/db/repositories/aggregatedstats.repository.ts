@@ -14,7 +14,12 @@ import {
 import type { IDType } from 'dexie';
 import type { WebTimeTrackerDB } from '../schemas';
 import type { AggregatedStatsRecord } from '../schemas/aggregatedstats.schema';
-import { generateAggregatedStatsKey, getUtcDateString } from '../schemas/aggregatedstats.schema';
+import {
+  generateAggregatedStatsKey,
+  getUtcDateString,
+  earliestSeen,
+  latestSeen,
+} from '../schemas/aggregatedstats.schema';
 import { AggregatedStatsValidation } from '../models/aggregatedstats.model';
 import { createLogger } from '@/utils/logger';
 
@@ -33,6 +38,73 @@ export interface AggregatedStatsQueryOptions extends RepositoryOptions {
   orderDirection?: 'asc' | 'desc';
 }
 
+/**
+ * Restricts a date range query to one site
+ *
+ * Filtered queries read the `[hostname+date]` or `[parentDomain+date]` index,
+ * so only the site's rows within the range are loaded.
+ *
+ * @property {string} [parentDomain] - Only records of this parent domain.
+ * @property {string} [hostname] - Only records of this hostname.
+ */
+export interface AggregatedStatsRangeFilter {
+  parentDomain?: string;
+  hostname?: string;
+}
+
+/**
+ * Query options for date range queries, optionally restricted to one site
+ */
+export interface AggregatedStatsRangeQueryOptions
+  extends AggregatedStatsQueryOptions,
+    AggregatedStatsRangeFilter {}
+
+/**
+ * Query options for ranking stats by active time
+ *
+ * @property {"url" | "hostname" | "parentDomain"} [groupBy] - The field records are summed by.
+ */
+export interface TopStatsQueryOptions extends RepositoryOptions, AggregatedStatsRangeFilter {
+  groupBy?: 'url' | 'hostname' | 'parentDomain';
+}
+
+/**
+ * Time summed over the records of one group
+ *
+ * @property {string} group - The url, hostname or parent domain of the group.
+ * @property {number} totalOpenTime - Summed open time in milliseconds.
+ * @property {number} totalActiveTime - Summed active time in milliseconds.
+ * @property {number} recordCount - Number of daily records in the group.
+ */
+export interface AggregatedStatsTotal {
+  group: string;
+  totalOpenTime: number;
+  totalActiveTime: number;
+  recordCount: number;
+}
+
+/**
+ * One page of a date range query
+ *
+ * @property {AggregatedStatsRecord[]} items - Records of this page.
+ * @property {number} total - Number of records matching the query across all pages.
+ * @property {number} offset - Records skipped before this page.
+ * @property {number} limit - Maximum number of records per page.
+ * @property {boolean} hasMore - Whether records follow this page.
+ */
+export interface AggregatedStatsPage {
+  items: AggregatedStatsRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Page size used when a page query does not set a limit
+ */
+export const DEFAULT_STATS_PAGE_SIZE = 50;
+
 /**
  * Time aggregation data for upsert operations
  *
@@ -42,6 +114,10 @@ export interface AggregatedStatsQueryOptions extends RepositoryOptions {
  * @property {string} parentDomain - The parent domain of the tracked resource. Cannot be empty.
  * @property {number} openTimeToAdd - The open time to add (in milliseconds). Must be a non-negative integer.
  * @property {number} activeTimeToAdd - The active time to add (in milliseconds). Must be a non-negative integer.
+ * @property {number} [visitsToAdd] - Visits started on the day (defaults to 0). Must be a non-negative integer.
+ * @property {number} [activeSessionsToAdd] - Active time intervals started on the day (defaults to 0). Must be a non-negative integer.
+ * @property {number} [firstSeen] - Start of the earliest added time (Unix timestamp in milliseconds).
+ * @property {number} [lastSeen] - End of the latest added time (Unix timestamp in milliseconds). Must not be before firstSeen.
  */
 export interface TimeAggregationData {
   date: string;
@@ -50,6 +126,10 @@ export interface TimeAggregationData {
   parentDomain: string;
   openTimeToAdd: number;
   activeTimeToAdd: number;
+  visitsToAdd?: number;
+  activeSessionsToAdd?: number;
+  firstSeen?: number;
+  lastSeen?: number;
 }
 
 /**
@@ -91,6 +171,9 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
       this.validateTimeAggregationData(data);
 
       const key = generateAggregatedStatsKey(data.date, data.url);
+      const { visitsToAdd = 0, activeSessionsToAdd = 0 } = data;
+      const firstSeen = data.firstSeen ?? null;
+      const lastSeen = data.lastSeen ?? null;
 
       const result = await this.executeWithRetry(
         async () => {
@@ -109,6 +192,10 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
                 // Remove the incorrect conversion to seconds.
                 total_open_time: existing.total_open_time + data.openTimeToAdd,
                 total_active_time: existing.total_active_time + data.activeTimeToAdd,
+                visit_count: existing.visit_count + visitsToAdd,
+                active_session_count: existing.active_session_count + activeSessionsToAdd,
+                first_seen: earliestSeen(existing.first_seen, firstSeen),
+                last_seen: latestSeen(existing.last_seen, lastSeen),
                 // last_updated will be automatically set by the updating hook
               };
 
@@ -132,6 +219,10 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
                 parentDomain: data.parentDomain,
                 total_open_time: data.openTimeToAdd,
                 total_active_time: data.activeTimeToAdd,
+                visit_count: visitsToAdd,
+                active_session_count: activeSessionsToAdd,
+                first_seen: firstSeen,
+                last_seen: lastSeen,
                 last_updated: Date.now(), // Set current timestamp
               };
 
@@ -619,6 +710,236 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
     }
   }
 
+  /**
+   * Get aggregated stats within a date range, optionally restricted to one site
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Site filter and query options
+   * @returns Promise resolving to array of aggregated stats
+   */
+  async getStatsInRange(
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsRangeQueryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    const startTime = performance.now();
+
+    try {
+      const result = await this.executeWithRetry(
+        () => this.readRange(startDate, endDate, options),
+        'getStatsInRange',
+        options
+      );
+
+      AggregatedStatsRepository.logger.debug('Completed range query', {
+        startDate,
+        endDate,
+        parentDomain: options.parentDomain,
+        hostname: options.hostname,
+        resultCount: result.length,
+        executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+
+      return result;
+    } catch (error) {
+      AggregatedStatsRepository.logger.error('Failed range query', {
+        startDate,
+        endDate,
+        options,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw this.handleError(error, 'getStatsInRange');
+    }
+  }
+
+  /**
+   * Get aggregated stats of a parent domain within a date range
+   *
+   * @param parentDomain - The parent domain to filter by
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Query options
+   * @returns Promise resolving to array of aggregated stats
+   */
+  async getStatsByParentDomainInRange(
+    parentDomain: string,
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsQueryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    return this.getStatsInRange(startDate, endDate, { ...options, parentDomain });
+  }
+
+  /**
+   * Get aggregated stats of a hostname within a date range
+   *
+   * @param hostname - The hostname to filter by
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Query options
+   * @returns Promise resolving to array of aggregated stats
+   */
+  async getStatsByHostnameInRange(
+    hostname: string,
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsQueryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    return this.getStatsInRange(startDate, endDate, { ...options, hostname });
+  }
+
+  /**
+   * Get the groups with the most active time within a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param limit - Maximum number of groups to return
+   * @param options - Grouping, site filter and repository options
+   * @returns Promise resolving to groups ordered by active time descending
+   */
+  async getTopByActiveTime(
+    startDate: string,
+    endDate: string,
+    limit: number,
+    options: TopStatsQueryOptions = {}
+  ): Promise<AggregatedStatsTotal[]> {
+    const { groupBy = 'parentDomain' } = options;
+
+    try {
+      return await this.executeWithRetry(
+        async () => {
+          const totals = new Map<string, AggregatedStatsTotal>();
+
+          await this.whereInRange(startDate, endDate, options).each(stat => {
+            const group = stat[groupBy];
+            const total = totals.get(group) ?? {
+              group,
+              totalOpenTime: 0,
+              totalActiveTime: 0,
+              recordCount: 0,
+            };
+            total.totalOpenTime += stat.total_open_time;
+            total.totalActiveTime += stat.total_active_time;
+            total.recordCount++;
+            totals.set(group, total);
+          });
+
+          return [...totals.values()]
+            .sort(
+              (a, b) => b.totalActiveTime - a.totalActiveTime || a.group.localeCompare(b.group)
+            )
+            .slice(0, limit);
+        },
+        'getTopByActiveTime',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getTopByActiveTime');
+    }
+  }
+
+  /**
+   * Get one page of aggregated stats within a date range, with the total count
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Site filter, ordering and page (limit/offset) options
+   * @returns Promise resolving to the requested page
+   */
+  async getStatsPage(
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsRangeQueryOptions = {}
+  ): Promise<AggregatedStatsPage> {
+    const { limit = DEFAULT_STATS_PAGE_SIZE, offset = 0 } = options;
+
+    try {
+      return await this.executeWithRetry(
+        () =>
+          this.db.transaction('r', this.table, async () => {
+            const total = await this.whereInRange(startDate, endDate, options).count();
+            const items = await this.readRange(startDate, endDate, { ...options, limit, offset });
+            return { items, total, offset, limit, hasMore: offset + items.length < total };
+          }),
+        'getStatsPage',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getStatsPage');
+    }
+  }
+
+  /**
+   * Get a page of stats ordered by primary key, starting after a given key.
+   * Keyset pagination keeps full-table reads cheap regardless of table size.
+   *
+   * @param afterKey - Only records with a key greater than this are returned (use '' to start)
+   * @param limit - Maximum number of records to return
+   * @param options - Repository operation options
+   * @returns Promise resolving to records ordered by key ascending
+   */
+  async getStatsAfterKey(
+    afterKey: string,
+    limit: number,
+    options: RepositoryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    try {
+      return await this.executeWithRetry(
+        () => this.table.where('key').above(afterKey).limit(limit).toArray(),
+        'getStatsAfterKey',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getStatsAfterKey');
+    }
+  }
+
+  /**
+   * Get stats records by primary key
+   *
+   * @param keys - Primary keys to look up
+   * @param options - Repository operation options
+   * @returns Promise resolving to records in the same order as `keys`, undefined where missing
+   */
+  async getStatsByKeys(
+    keys: string[],
+    options: RepositoryOptions = {}
+  ): Promise<(AggregatedStatsRecord | undefined)[]> {
+    try {
+      return await this.executeWithRetry(
+        () => this.table.bulkGet(keys),
+        'getStatsByKeys',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getStatsByKeys');
+    }
+  }
+
+  /**
+   * Insert or overwrite many stats records at once
+   *
+   * @param records - Complete records to write
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of written records
+   */
+  async bulkPutStats(
+    records: AggregatedStatsRecord[],
+    options: RepositoryOptions = {}
+  ): Promise<number> {
+    if (records.length === 0) {
+      return 0;
+    }
+
+    try {
+      await this.executeWithRetry(() => this.table.bulkPut(records), 'bulkPutStats', options);
+      return records.length;
+    } catch (error) {
+      throw this.handleError(error, 'bulkPutStats');
+    }
+  }
+
   /**
    * Generate a primary key for aggregated stats
    *
@@ -640,6 +961,59 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
     return getUtcDateString(timestamp);
   }
 
+  /**
+   * Collection of the records within a date range, read from the narrowest index
+   */
+  private whereInRange(startDate: string, endDate: string, filter: AggregatedStatsRangeFilter) {
+    const { hostname, parentDomain } = filter;
+
+    if (hostname) {
+      const collection = this.table
+        .where('[hostname+date]')
+        .between([hostname, startDate], [hostname, endDate], true, true);
+      return parentDomain ? collection.and(stat => stat.parentDomain === parentDomain) : collection;
+    }
+
+    if (parentDomain) {
+      return this.table
+        .where('[parentDomain+date]')
+        .between([parentDomain, startDate], [parentDomain, endDate], true, true);
+    }
+
+    return this.table.where('date').between(startDate, endDate, true, true);
+  }
+
+  /**
+   * Reads a date range with ordering and pagination applied
+   *
+   * Every index used by `whereInRange` yields records in date order, so date
+   * ordering and pagination happen in the database; other fields sort in memory.
+   */
+  private async readRange(
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsRangeQueryOptions
+  ): Promise<AggregatedStatsRecord[]> {
+    const { limit, offset = 0, orderBy = 'date', orderDirection = 'asc' } = options;
+    let collection = this.whereInRange(startDate, endDate, options);
+
+    if (orderBy !== 'date') {
+      const sorted = this.sortRecords(await collection.toArray(), orderBy, orderDirection);
+      return sorted.slice(offset, limit ? offset + limit : undefined);
+    }
+
+    if (orderDirection === 'desc') {
+      collection = collection.reverse();
+    }
+    if (offset > 0) {
+      collection = collection.offset(offset);
+    }
+    if (limit && limit > 0) {
+      collection = collection.limit(limit);
+    }
+    return collection.toArray();
+  }
+
   // Validation methods implementation
   private validateTimeAggregationData(data: TimeAggregationData): void {
     // Validate date format
@@ -672,6 +1046,25 @@ export class AggregatedStatsRepository extends BaseRepository<AggregatedStatsRec
     if (data.activeTimeToAdd < 0 || !Number.isInteger(data.activeTimeToAdd)) {
       throw new ValidationError('Active time to add must be a non-negative integer');
     }
+
+    // Validate counts
+    const { visitsToAdd = 0, activeSessionsToAdd = 0 } = data;
+    if (visitsToAdd < 0 || !Number.isInteger(visitsToAdd)) {
+      throw new ValidationError('Visits to add must be a non-negative integer');
+    }
+
+    if (activeSessionsToAdd < 0 || !Number.isInteger(activeSessionsToAdd)) {
+      throw new ValidationError('Active sessions to add must be a non-negative integer');
+    }
+
+    // Validate seen times
+    if (
+      data.firstSeen !== undefined &&
+      data.lastSeen !== undefined &&
+      data.lastSeen < data.firstSeen
+    ) {
+      throw new ValidationError('Last seen must not be before first seen');
+    }
   }
 
   protected async validateForCreate(entity: InsertType<AggregatedStatsRecord>): Promise<void> {
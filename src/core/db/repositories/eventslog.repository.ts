@@ -12,6 +12,7 @@ import {
   type InsertType,
 } from './base.repository';
 import type { IDType } from 'dexie';
+import { omit } from 'es-toolkit';
 import type { WebTimeTrackerDB } from '../schemas';
 import type { EventsLogRecord, EventType } from '../schemas/eventslog.schema';
 import { EventsLogValidation } from '../models/eventslog.model';
@@ -122,14 +123,10 @@ export class EventsLogRepository extends BaseRepository<EventsLogRecord, 'id'> {
 
       const result = await this.executeWithRetry(
         async () => {
-          return this.db.transaction('rw', 'eventslog', async () => {
-            let updatedCount = 0;
-            for (const id of eventIds) {
-              const updateResult = await this.table.update(id, { isProcessed: 1 });
-              updatedCount += updateResult;
-            }
-            return updatedCount;
-          });
+          // One bulk update: awaiting per-ID updates is too slow for large aggregation batches
+          return this.table.bulkUpdate(
+            eventIds.map(id => ({ key: id, changes: { isProcessed: 1 as const } }))
+          );
         },
         'markEventsAsProcessed',
         options
@@ -289,6 +286,35 @@ export class EventsLogRepository extends BaseRepository<EventsLogRecord, 'id'> {
     }
   }
 
+  /**
+   * Get all events within a time range, processed or not
+   *
+   * @param startTime - Start timestamp (inclusive)
+   * @param endTime - End timestamp (inclusive)
+   * @param options - Query options
+   * @returns Promise resolving to array of events ordered by timestamp
+   */
+  async getEventsByTimeRange(
+    startTime: number,
+    endTime: number,
+    options: EventsLogQueryOptions = {}
+  ): Promise<EventsLogRecord[]> {
+    try {
+      const { orderDirection = 'asc' } = options;
+
+      return await this.executeWithRetry(
+        async () => {
+          const collection = this.table.where('timestamp').between(startTime, endTime, true, true);
+          return (orderDirection === 'desc' ? collection.reverse() : collection).toArray();
+        },
+        'getEventsByTimeRange',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getEventsByTimeRange');
+    }
+  }
+
   /**
    * Get unprocessed events within a specific time range.
    *
@@ -386,9 +412,79 @@ export class EventsLogRepository extends BaseRepository<EventsLogRecord, 'id'> {
   }
 
   /**
-   * Creates "checkpoint" events for all sessions that are currently open.
+   * Builds "checkpoint" events for all sessions that are open in a set of events.
    * An open session is defined as a sequence of events sharing a `visitId` or `activityId`
-   * that has a "start" event but no corresponding "end" event among the unprocessed logs.
+   * that has a "start" event but no corresponding "end" event among the given events.
+   *
+   * @param events - Unprocessed events in ID order.
+   * @param checkpointTime - The timestamp to use for the new checkpoint events.
+   * @returns New, unsaved checkpoint events, one per open session.
+   */
+  static buildOpenSessionCheckpoints(
+    events: EventsLogRecord[],
+    checkpointTime: number
+  ): Omit<EventsLogRecord, 'id'>[] {
+    // Group events by visitId and activityId to track sessions
+    const sessions = new Map<string, { lastEvent: EventsLogRecord; hasEnd: boolean }>();
+
+    for (const event of events) {
+      // Track open_time sessions by visitId
+      const openTimeKey = `visit-${event.visitId}`;
+      if (!sessions.has(openTimeKey)) {
+        sessions.set(openTimeKey, { lastEvent: event, hasEnd: false });
+      }
+      if (event.eventType === 'open_time_start') {
+        sessions.set(openTimeKey, { lastEvent: event, hasEnd: false });
+      } else if (event.eventType === 'open_time_end') {
+        sessions.get(openTimeKey)!.hasEnd = true;
+      } else {
+        sessions.get(openTimeKey)!.lastEvent = event;
+      }
+
+      // Track active_time sessions by activityId
+      if (event.activityId) {
+        const activeTimeKey = `activity-${event.activityId}`;
+        if (!sessions.has(activeTimeKey)) {
+          sessions.set(activeTimeKey, { lastEvent: event, hasEnd: false });
+        }
+        if (event.eventType === 'active_time_start') {
+          sessions.set(activeTimeKey, { lastEvent: event, hasEnd: false });
+        } else if (event.eventType === 'active_time_end') {
+          sessions.get(activeTimeKey)!.hasEnd = true;
+        } else {
+          sessions.get(activeTimeKey)!.lastEvent = event;
+        }
+      }
+    }
+
+    // Identify open sessions and create checkpoint events
+    const checkpointEvents: Omit<EventsLogRecord, 'id'>[] = [];
+    for (const [key, session] of sessions.entries()) {
+      if (!session.hasEnd) {
+        const { lastEvent } = session;
+        const isActivity = key.startsWith('activity-');
+
+        checkpointEvents.push({
+          timestamp: checkpointTime,
+          eventType: 'checkpoint',
+          url: lastEvent.url,
+          tabId: lastEvent.tabId,
+          visitId: lastEvent.visitId,
+          // For open_time sessions, activityId is null.
+          // For active_time sessions, it's taken from the last event.
+          activityId: isActivity ? lastEvent.activityId : null,
+          // Unprocessed, so the next aggregation picks the checkpoint up
+          isProcessed: 0,
+        });
+      }
+    }
+
+    return checkpointEvents;
+  }
+
+  /**
+   * Creates "checkpoint" events for all sessions that are currently open
+   * among the unprocessed logs (see `buildOpenSessionCheckpoints`).
    *
    * This mechanism allows the aggregation engine to calculate time for ongoing activities
    * without waiting for them to formally close.
@@ -404,68 +500,16 @@ export class EventsLogRepository extends BaseRepository<EventsLogRecord, 'id'> {
     try {
       await this.executeWithRetry(
         async () => {
-          // 1. Fetch all unprocessed events
           const unprocessedEvents = await this.getUnprocessedEvents({ orderBy: 'id', orderDirection: 'asc' });
           if (unprocessedEvents.length === 0) {
             this.logger.debug('No unprocessed events found, skipping checkpoint creation.');
             return;
           }
 
-          // 2. Group events by visitId and activityId to track sessions
-          const sessions = new Map<string, { lastEvent: EventsLogRecord; hasEnd: boolean }>();
-
-          for (const event of unprocessedEvents) {
-            // Track open_time sessions by visitId
-            const openTimeKey = `visit-${event.visitId}`;
-            if (!sessions.has(openTimeKey)) {
-              sessions.set(openTimeKey, { lastEvent: event, hasEnd: false });
-            }
-            if (event.eventType === 'open_time_start') {
-              sessions.set(openTimeKey, { lastEvent: event, hasEnd: false });
-            } else if (event.eventType === 'open_time_end') {
-              sessions.get(openTimeKey)!.hasEnd = true;
-            } else {
-              sessions.get(openTimeKey)!.lastEvent = event;
-            }
-
-            // Track active_time sessions by activityId
-            if (event.activityId) {
-              const activeTimeKey = `activity-${event.activityId}`;
-              if (!sessions.has(activeTimeKey)) {
-                sessions.set(activeTimeKey, { lastEvent: event, hasEnd: false });
-              }
-              if (event.eventType === 'active_time_start') {
-                sessions.set(activeTimeKey, { lastEvent: event, hasEnd: false });
-              } else if (event.eventType === 'active_time_end') {
-                sessions.get(activeTimeKey)!.hasEnd = true;
-              } else {
-                sessions.get(activeTimeKey)!.lastEvent = event;
-              }
-            }
-          }
-
-          // 3. Identify open sessions and create checkpoint events
-          const checkpointEvents: Omit<EventsLogRecord, 'id' | 'isProcessed'>[] = [];
-          for (const [key, session] of sessions.entries()) {
-            if (!session.hasEnd) {
-              const { lastEvent } = session;
-              const isActivity = key.startsWith('activity-');
-              
-              const newEvent: Omit<EventsLogRecord, 'id' | 'isProcessed'> = {
-                timestamp: checkpointTime,
-                eventType: 'checkpoint',
-                url: lastEvent.url,
-                tabId: lastEvent.tabId,
-                visitId: lastEvent.visitId,
-                // For open_time sessions, activityId is null.
-                // For active_time sessions, it's taken from the last event.
-                activityId: isActivity ? lastEvent.activityId : null,
-              };
-              checkpointEvents.push(newEvent);
-            }
-          }
-
-          // 4. Bulk-add the new checkpoint events to the database
+          const checkpointEvents = EventsLogRepository.buildOpenSessionCheckpoints(
+            unprocessedEvents,
+            checkpointTime
+          );
           if (checkpointEvents.length > 0) {
             this.logger.debug(`Creating ${checkpointEvents.length} checkpoint events.`, { checkpointEvents });
             await this.table.bulkAdd(checkpointEvents as EventsLogRecord[]);
@@ -585,6 +629,154 @@ export class EventsLogRepository extends BaseRepository<EventsLogRecord, 'id'> {
     }
   }
 
+  /**
+   * Get a page of events ordered by primary key, starting after a given ID.
+   * Keyset pagination keeps full-table reads cheap regardless of table size.
+   *
+   * @param afterId - Only events with an ID greater than this are returned (use 0 to start)
+   * @param limit - Maximum number of events to return
+   * @param options - Repository operation options
+   * @returns Promise resolving to events ordered by ID ascending
+   */
+  async getEventsAfterId(
+    afterId: number,
+    limit: number,
+    options: RepositoryOptions = {}
+  ): Promise<EventsLogRecord[]> {
+    try {
+      return await this.executeWithRetry(
+        () => this.table.where('id').above(afterId).limit(limit).toArray(),
+        'getEventsAfterId',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getEventsAfterId');
+    }
+  }
+
+  /**
+   * Get events by their IDs
+   *
+   * @param ids - Event IDs to look up
+   * @param options - Repository operation options
+   * @returns Promise resolving to the events that still exist, in the order of `ids`
+   */
+  async getEventsByIds(ids: number[], options: RepositoryOptions = {}): Promise<EventsLogRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const events = await this.executeWithRetry(
+        () => this.table.bulkGet(ids),
+        'getEventsByIds',
+        options
+      );
+      return events.filter((event): event is EventsLogRecord => event !== undefined);
+    } catch (error) {
+      throw this.handleError(error, 'getEventsByIds');
+    }
+  }
+
+  /**
+   * Get the highest event ID in the table
+   *
+   * @param options - Repository operation options
+   * @returns Promise resolving to the last assigned ID, or 0 if the table is empty
+   */
+  async getLastEventId(options: RepositoryOptions = {}): Promise<number> {
+    try {
+      const last = await this.executeWithRetry(
+        () => this.table.orderBy('id').last(),
+        'getLastEventId',
+        options
+      );
+      return last?.id ?? 0;
+    } catch (error) {
+      throw this.handleError(error, 'getLastEventId');
+    }
+  }
+
+  /**
+   * Get the timestamp of the oldest processed event still in the log
+   *
+   * Unprocessed events are never pruned, so only processed ones show how far
+   * back the log is complete.
+   *
+   * @param options - Repository operation options
+   * @returns Promise resolving to the oldest timestamp, or null if no processed event is left
+   */
+  async getOldestProcessedEventTimestamp(options: RepositoryOptions = {}): Promise<number | null> {
+    try {
+      const oldest = await this.executeWithRetry(
+        () =>
+          this.table
+            .orderBy('timestamp')
+            .filter(event => event.isProcessed === 1)
+            .first(),
+        'getOldestProcessedEventTimestamp',
+        options
+      );
+      return oldest?.timestamp ?? null;
+    } catch (error) {
+      throw this.handleError(error, 'getOldestProcessedEventTimestamp');
+    }
+  }
+
+  /**
+   * Get all events belonging to any of the given visits
+   *
+   * @param visitIds - Visit IDs to look up
+   * @param options - Repository operation options
+   * @returns Promise resolving to the matching events in no particular order
+   */
+  async getEventsByVisitIds(
+    visitIds: string[],
+    options: RepositoryOptions = {}
+  ): Promise<EventsLogRecord[]> {
+    if (visitIds.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.executeWithRetry(
+        () => this.table.where('visitId').anyOf(visitIds).toArray(),
+        'getEventsByVisitIds',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getEventsByVisitIds');
+    }
+  }
+
+  /**
+   * Insert many events at once, letting the database assign new IDs
+   *
+   * @param events - Events to insert (any `id` is ignored)
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of inserted events
+   */
+  async bulkCreateEvents(
+    events: EventsLogRecord[],
+    options: RepositoryOptions = {}
+  ): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    try {
+      const withoutIds = events.map(event => omit(event, ['id']));
+      await this.executeWithRetry(
+        () => this.table.bulkAdd(withoutIds),
+        'bulkCreateEvents',
+        options
+      );
+      return withoutIds.length;
+    } catch (error) {
+      throw this.handleError(error, 'bulkCreateEvents');
+    }
+  }
+
   protected async validateForUpsert(entity: InsertType<EventsLogRecord, 'id'>): Promise<void> {
     // For upsert, use the same validation as create
     await this.validateForCreate(entity);
@@ -0,0 +1,304 @@
+/**
+ * HourlyStats Repository Implementation
+ *
+ * This file implements the repository pattern for the hourlystats table,
+ * providing batched upserts for the aggregation engine and the
+ * hour-of-day / day-of-week heatmap queries.
+ */
+
+import {
+  BaseRepository,
+  ValidationError,
+  type RepositoryOptions,
+  type InsertType,
+} from './base.repository';
+import type { IDType } from 'dexie';
+import type { WebTimeTrackerDB } from '../schemas';
+import { generateHourlyStatsKey, type HourlyStatsRecord } from '../schemas/hourlystats.schema';
+import { HourlyStatsValidation } from '../models/hourlystats.model';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Time to add to one hourly bucket
+ *
+ * @property {string} date - The date in YYYY-MM-DD format (aggregation time zone).
+ * @property {number} hour - Hour of the day (0-23, aggregation time zone).
+ * @property {string} hostname - The hostname of the tracked resource.
+ * @property {string} parentDomain - The parent domain of the tracked resource.
+ * @property {number} openTimeToAdd - Open time to add (in milliseconds).
+ * @property {number} activeTimeToAdd - Active time to add (in milliseconds).
+ */
+export interface HourlyAggregationData {
+  date: string;
+  hour: number;
+  hostname: string;
+  parentDomain: string;
+  openTimeToAdd: number;
+  activeTimeToAdd: number;
+}
+
+/**
+ * Filters for heatmap queries
+ *
+ * @property {string} [parentDomain] - Restrict the heatmap to a single parent domain.
+ */
+export interface HeatmapQueryOptions extends RepositoryOptions {
+  parentDomain?: string;
+}
+
+/**
+ * Time accumulated in one hour of the day across a date range
+ */
+export interface HourOfDayBucket {
+  hour: number;
+  openTime: number;
+  activeTime: number;
+}
+
+/**
+ * Time accumulated in one (day of week, hour) cell across a date range
+ */
+export interface DayOfWeekHeatmapCell extends HourOfDayBucket {
+  dayOfWeek: number;
+}
+
+/**
+ * HourlyStats Repository Class
+ *
+ * Provides data access operations for the hourlystats table.
+ * Note: This repository works with string primary keys (format: "YYYY-MM-DDTHH:hostname")
+ */
+export class HourlyStatsRepository extends BaseRepository<HourlyStatsRecord, 'key'> {
+  private static readonly logger = createLogger('💾 HourlyStatsRepository');
+
+  constructor(db: WebTimeTrackerDB) {
+    super(db, db.hourlystats, 'hourlystats');
+  }
+
+  /**
+   * Add time to many hourly buckets in a single transaction
+   *
+   * Entries sharing the same bucket are summed before writing.
+   *
+   * @param entries - Time to add per (date, hour, hostname) bucket
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of buckets written
+   */
+  async upsertHourlyAggregations(
+    entries: HourlyAggregationData[],
+    options: RepositoryOptions = {}
+  ): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const startTime = performance.now();
+
+    try {
+      entries.forEach(entry => this.validateHourlyAggregationData(entry));
+
+      const incoming = new Map<string, HourlyAggregationData>();
+      for (const entry of entries) {
+        const key = generateHourlyStatsKey(entry.date, entry.hour, entry.hostname);
+        const previous = incoming.get(key);
+        incoming.set(
+          key,
+          previous
+            ? {
+                ...previous,
+                openTimeToAdd: previous.openTimeToAdd + entry.openTimeToAdd,
+                activeTimeToAdd: previous.activeTimeToAdd + entry.activeTimeToAdd,
+              }
+            : entry
+        );
+      }
+
+      const written = await this.executeWithRetry(
+        () =>
+          this.db.transaction('rw', 'hourlystats', async () => {
+            const keys = [...incoming.keys()];
+            const existing = await this.table.bulkGet(keys);
+            const now = Date.now();
+
+            const records = keys.map((key, index): HourlyStatsRecord => {
+              const data = incoming.get(key)!;
+              const current = existing[index];
+              return {
+                key,
+                date: data.date,
+                hour: data.hour,
+                dayOfWeek: new Date(`${data.date}T00:00:00.000Z`).getUTCDay(),
+                hostname: data.hostname,
+                parentDomain: data.parentDomain,
+                total_open_time: (current?.total_open_time ?? 0) + data.openTimeToAdd,
+                total_active_time: (current?.total_active_time ?? 0) + data.activeTimeToAdd,
+                last_updated: now,
+              };
+            });
+
+            await this.table.bulkPut(records);
+            return records.length;
+          }),
+        'upsertHourlyAggregations',
+        options
+      );
+
+      HourlyStatsRepository.logger.info('Completed hourly aggregation upsert', {
+        entries: entries.length,
+        buckets: written,
+        executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+
+      return written;
+    } catch (error) {
+      HourlyStatsRepository.logger.error('Failed hourly aggregation upsert', {
+        entries: entries.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw this.handleError(error, 'upsertHourlyAggregations');
+    }
+  }
+
+  /**
+   * Get hourly buckets within a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Heatmap filters and repository options
+   * @returns Promise resolving to matching hourly records
+   */
+  async getHourlyStatsByDateRange(
+    startDate: string,
+    endDate: string,
+    options: HeatmapQueryOptions = {}
+  ): Promise<HourlyStatsRecord[]> {
+    const { parentDomain } = options;
+
+    try {
+      return await this.executeWithRetry(
+        () => {
+          const collection = this.table.where('date').between(startDate, endDate, true, true);
+          return parentDomain
+            ? collection.filter(record => record.parentDomain === parentDomain).toArray()
+            : collection.toArray();
+        },
+        'getHourlyStatsByDateRange',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getHourlyStatsByDateRange');
+    }
+  }
+
+  /**
+   * Hour-of-day heatmap: total time per clock hour across a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Heatmap filters and repository options
+   * @returns Promise resolving to 24 buckets ordered by hour
+   */
+  async getHourOfDayHeatmap(
+    startDate: string,
+    endDate: string,
+    options: HeatmapQueryOptions = {}
+  ): Promise<HourOfDayBucket[]> {
+    const records = await this.getHourlyStatsByDateRange(startDate, endDate, options);
+    const buckets: HourOfDayBucket[] = Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      openTime: 0,
+      activeTime: 0,
+    }));
+
+    for (const record of records) {
+      buckets[record.hour].openTime += record.total_open_time;
+      buckets[record.hour].activeTime += record.total_active_time;
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Day-of-week heatmap: total time per (weekday, hour) cell across a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Heatmap filters and repository options
+   * @returns Promise resolving to 7 × 24 cells ordered by day of week (Sunday first), then hour
+   */
+  async getDayOfWeekHeatmap(
+    startDate: string,
+    endDate: string,
+    options: HeatmapQueryOptions = {}
+  ): Promise<DayOfWeekHeatmapCell[]> {
+    const records = await this.getHourlyStatsByDateRange(startDate, endDate, options);
+    const cells: DayOfWeekHeatmapCell[] = Array.from({ length: 7 * 24 }, (_, index) => ({
+      dayOfWeek: Math.floor(index / 24),
+      hour: index % 24,
+      openTime: 0,
+      activeTime: 0,
+    }));
+
+    for (const record of records) {
+      const cell = cells[record.dayOfWeek * 24 + record.hour];
+      cell.openTime += record.total_open_time;
+      cell.activeTime += record.total_active_time;
+    }
+
+    return cells;
+  }
+
+  // Validation methods implementation
+  private validateHourlyAggregationData(data: HourlyAggregationData): void {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+      throw new ValidationError('Date must be in YYYY-MM-DD format');
+    }
+
+    if (!Number.isInteger(data.hour) || data.hour < 0 || data.hour > 23) {
+      throw new ValidationError('Hour must be an integer between 0 and 23');
+    }
+
+    if (!data.hostname || data.hostname.trim().length === 0) {
+      throw new ValidationError('Hostname cannot be empty');
+    }
+
+    if (!data.parentDomain || data.parentDomain.trim().length === 0) {
+      throw new ValidationError('Parent domain cannot be empty');
+    }
+
+    if (data.openTimeToAdd < 0 || !Number.isInteger(data.openTimeToAdd)) {
+      throw new ValidationError('Open time to add must be a non-negative integer');
+    }
+
+    if (data.activeTimeToAdd < 0 || !Number.isInteger(data.activeTimeToAdd)) {
+      throw new ValidationError('Active time to add must be a non-negative integer');
+    }
+  }
+
+  protected async validateForCreate(entity: InsertType<HourlyStatsRecord>): Promise<void> {
+    try {
+      HourlyStatsValidation.validateRecord(entity);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid hourly stats data for creation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  protected async validateForUpdate(
+    key: IDType<HourlyStatsRecord, 'key'>,
+    changes: Partial<HourlyStatsRecord>
+  ): Promise<void> {
+    if (!key || typeof key !== 'string') {
+      throw new ValidationError('Hourly stats key must be a non-empty string');
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new ValidationError('Update changes cannot be empty');
+    }
+  }
+
+  protected async validateForUpsert(entity: InsertType<HourlyStatsRecord>): Promise<void> {
+    await this.validateForCreate(entity);
+  }
+}
@@ -22,9 +22,35 @@ export { EventsLogRepository, type EventsLogQueryOptions } from './eventslog.rep
 export {
   AggregatedStatsRepository,
   type AggregatedStatsQueryOptions,
+  type AggregatedStatsRangeFilter,
+  type AggregatedStatsRangeQueryOptions,
+  type TopStatsQueryOptions,
+  type AggregatedStatsTotal,
+  type AggregatedStatsPage,
+  DEFAULT_STATS_PAGE_SIZE,
   type TimeAggregationData,
 } from './aggregatedstats.repository';
 
+export {
+  HourlyStatsRepository,
+  type HourlyAggregationData,
+  type HeatmapQueryOptions,
+  type HourOfDayBucket,
+  type DayOfWeekHeatmapCell,
+} from './hourlystats.repository';
+
+export {
+  VisitsRepository,
+  type VisitAggregationData,
+  type VisitQueryOptions,
+} from './visits.repository';
+
+export {
+  RollupStatsRepository,
+  type RollupAggregationData,
+  type RollupQueryOptions,
+} from './rollupstats.repository';
+
 // Re-export database schemas and models for convenience
 // Note: Only re-export specific items to avoid naming conflicts
 export { WebTimeTrackerDB, db, DATABASE_NAME, DATABASE_VERSION } from '../schemas';
@@ -33,13 +59,23 @@ export {
   getUtcDateString,
   EVENTSLOG_TABLE_NAME,
   AGGREGATEDSTATS_TABLE_NAME,
+  HOURLYSTATS_TABLE_NAME,
+  VISITS_TABLE_NAME,
+  WEEKLYSTATS_TABLE_NAME,
+  MONTHLYSTATS_TABLE_NAME,
   EVENTSLOG_SCHEMA,
   AGGREGATEDSTATS_SCHEMA,
+  HOURLYSTATS_SCHEMA,
+  VISITS_SCHEMA,
+  ROLLUPSTATS_SCHEMA,
 } from '../schemas';
 
 export {
   EventsLogValidation,
   AggregatedStatsValidation,
+  HourlyStatsValidation,
+  VisitValidation,
+  RollupStatsValidation,
   EventTypeSchema,
   ResolutionTypeSchema,
 } from '../models';
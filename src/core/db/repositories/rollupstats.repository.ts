@@ -0,0 +1,335 @@
+/**
+ * Rollup Stats Repository Implementation
+ *
+ * This file implements the repository pattern for the weeklystats and monthlystats
+ * tables, providing batched upserts for the aggregation engine and period queries
+ * for long date ranges.
+ */
+
+import {
+  BaseRepository,
+  ValidationError,
+  type RepositoryOptions,
+  type InsertType,
+} from './base.repository';
+import type { IDType } from 'dexie';
+import type { WebTimeTrackerDB } from '../schemas';
+import type { AggregatedStatsRangeFilter } from './aggregatedstats.repository';
+import type { DateSpan } from '../utils/rollup-range.util';
+import {
+  ROLLUPSTATS_TABLE_NAMES,
+  addToRollup,
+  getRollupPeriod,
+  toRollupSource,
+  type RollupGranularity,
+  type RollupStatsRecord,
+} from '../schemas/rollupstats.schema';
+import { RollupStatsValidation } from '../models/rollupstats.model';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Time aggregated for one URL and day, added to the rollup of its hostname and period
+ *
+ * @property {string} date - The date in YYYY-MM-DD format (aggregation time zone).
+ * @property {string} hostname - The hostname of the tracked resource. Cannot be empty.
+ * @property {string} parentDomain - The parent domain of the tracked resource. Cannot be empty.
+ * @property {number} openTimeToAdd - Open time to add (in milliseconds).
+ * @property {number} activeTimeToAdd - Active time to add (in milliseconds).
+ * @property {number} visitsToAdd - Visits to add to the period's count.
+ * @property {number} activeSessionsToAdd - Active sessions to add to the period's count.
+ */
+export interface RollupAggregationData {
+  date: string;
+  hostname: string;
+  parentDomain: string;
+  openTimeToAdd: number;
+  activeTimeToAdd: number;
+  visitsToAdd: number;
+  activeSessionsToAdd: number;
+}
+
+/**
+ * Query options for rollup range queries, optionally restricted to one site
+ */
+export interface RollupQueryOptions extends RepositoryOptions, AggregatedStatsRangeFilter {}
+
+/**
+ * Rollup Stats Repository Class
+ *
+ * Provides data access operations for the rollup table of one granularity.
+ */
+export class RollupStatsRepository extends BaseRepository<RollupStatsRecord, 'key'> {
+  private static readonly logger = createLogger('💾 RollupStatsRepository');
+
+  /**
+   * @param db - Database instance
+   * @param granularity - Period length; selects the weeklystats or monthlystats table
+   */
+  constructor(
+    db: WebTimeTrackerDB,
+    readonly granularity: RollupGranularity
+  ) {
+    const tableName = ROLLUPSTATS_TABLE_NAMES[granularity];
+    super(db, db[tableName], tableName);
+  }
+
+  /**
+   * Add aggregated time to the rollups of many hostnames in a single transaction
+   *
+   * Entries of the same hostname and period are merged before writing. Time
+   * from the aggregation engine always carries visit counts, so all of its open
+   * time counts towards the average visit length.
+   *
+   * @param entries - Time aggregated per URL and day
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of rollups written
+   */
+  async upsertRollups(
+    entries: RollupAggregationData[],
+    options: RepositoryOptions = {}
+  ): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const startTime = performance.now();
+
+    try {
+      entries.forEach(entry => this.validateRollupAggregationData(entry));
+
+      const now = Date.now();
+      const incoming = new Map<string, RollupStatsRecord>();
+      for (const entry of entries) {
+        addToRollup(
+          incoming,
+          this.granularity,
+          {
+            date: entry.date,
+            hostname: entry.hostname,
+            parentDomain: entry.parentDomain,
+            total_open_time: entry.openTimeToAdd,
+            total_active_time: entry.activeTimeToAdd,
+            counted_open_time: entry.openTimeToAdd,
+            visit_count: entry.visitsToAdd,
+            active_session_count: entry.activeSessionsToAdd,
+          },
+          now
+        );
+      }
+
+      const written = await this.executeWithRetry(
+        () =>
+          this.db.transaction('rw', this.table, async () => {
+            const keys = [...incoming.keys()];
+            const existing = await this.table.bulkGet(keys);
+
+            const records = keys.map((key, index): RollupStatsRecord => {
+              const data = incoming.get(key)!;
+              const current = existing[index];
+              if (!current) {
+                return data;
+              }
+              return {
+                ...current,
+                total_open_time: current.total_open_time + data.total_open_time,
+                total_active_time: current.total_active_time + data.total_active_time,
+                counted_open_time: current.counted_open_time + data.counted_open_time,
+                visit_count: current.visit_count + data.visit_count,
+                active_session_count: current.active_session_count + data.active_session_count,
+                day_mask: current.day_mask | data.day_mask,
+                last_updated: now,
+              };
+            });
+
+            await this.table.bulkPut(records);
+            return records.length;
+          }),
+        'upsertRollups',
+        options
+      );
+
+      RollupStatsRepository.logger.info('Completed rollup upsert', {
+        granularity: this.granularity,
+        entries: entries.length,
+        rollups: written,
+        executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+
+      return written;
+    } catch (error) {
+      RollupStatsRepository.logger.error('Failed rollup upsert', {
+        granularity: this.granularity,
+        entries: entries.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw this.handleError(error, 'upsertRollups');
+    }
+  }
+
+  /**
+   * Recompute rollups from the daily stats
+   *
+   * Bulk writers of the daily stats call this after their writes, within the
+   * same transaction, so the rollups never disagree with the daily rows.
+   *
+   * @param range - Dates whose rollups are recomputed, widened to whole periods (defaults to all)
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of rollups written
+   */
+  async rebuildFromDailyStats(range?: DateSpan, options: RepositoryOptions = {}): Promise<number> {
+    const { aggregatedstats } = this.db;
+
+    try {
+      return await this.executeWithRetry(
+        () =>
+          this.db.transaction('rw', [this.table, aggregatedstats], async () => {
+            const rollups = new Map<string, RollupStatsRecord>();
+            const now = Date.now();
+
+            if (range) {
+              const startDate = getRollupPeriod(range.startDate, this.granularity).startDate;
+              const endDate = getRollupPeriod(range.endDate, this.granularity).endDate;
+              await this.table.where('startDate').between(startDate, endDate, true, true).delete();
+              await aggregatedstats
+                .where('date')
+                .between(startDate, endDate, true, true)
+                .each(stat => addToRollup(rollups, this.granularity, toRollupSource(stat), now));
+            } else {
+              await this.table.clear();
+              await aggregatedstats.each(stat =>
+                addToRollup(rollups, this.granularity, toRollupSource(stat), now)
+              );
+            }
+
+            await this.table.bulkPut([...rollups.values()]);
+            return rollups.size;
+          }),
+        'rebuildFromDailyStats',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'rebuildFromDailyStats');
+    }
+  }
+
+  /**
+   * Recompute the weekly and monthly rollups from the daily stats
+   *
+   * @param db - Database instance
+   * @param range - Dates whose rollups are recomputed (defaults to all)
+   */
+  static async rebuildAll(db: WebTimeTrackerDB, range?: DateSpan): Promise<void> {
+    for (const granularity of Object.keys(ROLLUPSTATS_TABLE_NAMES) as RollupGranularity[]) {
+      await new RollupStatsRepository(db, granularity).rebuildFromDailyStats(range);
+    }
+  }
+
+  /**
+   * Get the rollups of the periods that lie entirely within a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Site filter and repository options
+   * @returns Promise resolving to rollups ordered by period start
+   */
+  async getRollupsInRange(
+    startDate: string,
+    endDate: string,
+    options: RollupQueryOptions = {}
+  ): Promise<RollupStatsRecord[]> {
+    try {
+      return await this.executeWithRetry(
+        () =>
+          this.whereStartsBetween(startDate, endDate, options)
+            .and(rollup => rollup.endDate <= endDate)
+            .toArray(),
+        'getRollupsInRange',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getRollupsInRange');
+    }
+  }
+
+  /**
+   * Collection of the rollups starting within a date range, read from the narrowest index
+   */
+  private whereStartsBetween(startDate: string, endDate: string, filter: RollupQueryOptions) {
+    const { hostname, parentDomain } = filter;
+
+    if (hostname) {
+      const collection = this.table
+        .where('[hostname+startDate]')
+        .between([hostname, startDate], [hostname, endDate], true, true);
+      return parentDomain
+        ? collection.and(rollup => rollup.parentDomain === parentDomain)
+        : collection;
+    }
+
+    if (parentDomain) {
+      return this.table
+        .where('[parentDomain+startDate]')
+        .between([parentDomain, startDate], [parentDomain, endDate], true, true);
+    }
+
+    return this.table.where('startDate').between(startDate, endDate, true, true);
+  }
+
+  // Validation methods implementation
+  private validateRollupAggregationData(data: RollupAggregationData): void {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+      throw new ValidationError('Date must be in YYYY-MM-DD format');
+    }
+
+    if (!data.hostname || data.hostname.trim().length === 0) {
+      throw new ValidationError('Hostname cannot be empty');
+    }
+
+    if (!data.parentDomain || data.parentDomain.trim().length === 0) {
+      throw new ValidationError('Parent domain cannot be empty');
+    }
+
+    if (data.openTimeToAdd < 0 || !Number.isInteger(data.openTimeToAdd)) {
+      throw new ValidationError('Open time to add must be a non-negative integer');
+    }
+
+    if (data.activeTimeToAdd < 0 || !Number.isInteger(data.activeTimeToAdd)) {
+      throw new ValidationError('Active time to add must be a non-negative integer');
+    }
+
+    if (data.visitsToAdd < 0 || !Number.isInteger(data.visitsToAdd)) {
+      throw new ValidationError('Visits to add must be a non-negative integer');
+    }
+
+    if (data.activeSessionsToAdd < 0 || !Number.isInteger(data.activeSessionsToAdd)) {
+      throw new ValidationError('Active sessions to add must be a non-negative integer');
+    }
+  }
+
+  protected async validateForCreate(entity: InsertType<RollupStatsRecord, 'key'>): Promise<void> {
+    try {
+      RollupStatsValidation.validateRecord(entity);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid rollup stats data for creation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  protected async validateForUpdate(
+    key: IDType<RollupStatsRecord, 'key'>,
+    changes: Partial<RollupStatsRecord>
+  ): Promise<void> {
+    if (!key || typeof key !== 'string') {
+      throw new ValidationError('Key must be a non-empty string');
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new ValidationError('Update changes cannot be empty');
+    }
+  }
+
+  protected async validateForUpsert(entity: InsertType<RollupStatsRecord, 'key'>): Promise<void> {
+    await this.validateForCreate(entity);
+  }
+}
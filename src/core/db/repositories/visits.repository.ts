@@ -0,0 +1,312 @@
+/**
+ * Visits Repository Implementation
+ *
+ * This file implements the repository pattern for the visits table,
+ * providing batched upserts for the aggregation engine and visit history queries.
+ */
+
+import {
+  BaseRepository,
+  ValidationError,
+  type RepositoryOptions,
+  type InsertType,
+} from './base.repository';
+import type { IDType } from 'dexie';
+import type { WebTimeTrackerDB } from '../schemas';
+import type { VisitRecord } from '../schemas/visits.schema';
+import { VisitValidation } from '../models/visits.model';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Time measured for one visit in an aggregation batch
+ *
+ * A visit still open when a batch is aggregated is measured again in later
+ * batches; each upsert extends the stored record.
+ *
+ * @property {string} visitId - The visit ID shared by the visit's events.
+ * @property {string} url - The URL of the visit.
+ * @property {string} hostname - The hostname of the visit.
+ * @property {string} parentDomain - The parent domain of the visit.
+ * @property {number} start - Start of the earliest interval measured in the batch.
+ * @property {number} end - End of the latest interval measured in the batch.
+ * @property {number} openTimeToAdd - Open time to add (in milliseconds).
+ * @property {number} activeTimeToAdd - Active time to add (in milliseconds).
+ * @property {number} activitiesToAdd - Active time intervals started in the batch.
+ * @property {boolean} crashRecovered - Whether any event of the batch was written by crash recovery.
+ */
+export interface VisitAggregationData {
+  visitId: string;
+  url: string;
+  hostname: string;
+  parentDomain: string;
+  start: number;
+  end: number;
+  openTimeToAdd: number;
+  activeTimeToAdd: number;
+  activitiesToAdd: number;
+  crashRecovered: boolean;
+}
+
+/**
+ * Filters and limits for visit history queries
+ *
+ * Filtered queries read the `[hostname+start]` or `[parentDomain+start]` index.
+ *
+ * @property {string} [parentDomain] - Only visits of this parent domain.
+ * @property {string} [hostname] - Only visits of this hostname.
+ * @property {number} [limit] - Limits the number of results returned.
+ */
+export interface VisitQueryOptions extends RepositoryOptions {
+  parentDomain?: string;
+  hostname?: string;
+  limit?: number;
+}
+
+/**
+ * Visits Repository Class
+ *
+ * Provides data access operations for the visits table.
+ * Note: This repository works with the visit ID as primary key
+ */
+export class VisitsRepository extends BaseRepository<VisitRecord, 'visitId'> {
+  private static readonly logger = createLogger('💾 VisitsRepository');
+
+  constructor(db: WebTimeTrackerDB) {
+    super(db, db.visits, 'visits');
+  }
+
+  /**
+   * Add measured time to many visits in a single transaction
+   *
+   * Entries of the same visit are merged before writing: the time span is
+   * widened, times and activity counts are summed.
+   *
+   * @param entries - Time measured per visit
+   * @param options - Repository operation options
+   * @returns Promise resolving to the number of visits written
+   */
+  async upsertVisits(
+    entries: VisitAggregationData[],
+    options: RepositoryOptions = {}
+  ): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const startTime = performance.now();
+
+    try {
+      entries.forEach(entry => this.validateVisitAggregationData(entry));
+
+      const incoming = new Map<string, VisitAggregationData>();
+      for (const entry of entries) {
+        const previous = incoming.get(entry.visitId);
+        incoming.set(
+          entry.visitId,
+          previous ? VisitsRepository.mergeEntries(previous, entry) : entry
+        );
+      }
+
+      const written = await this.executeWithRetry(
+        () =>
+          this.db.transaction('rw', 'visits', async () => {
+            const visitIds = [...incoming.keys()];
+            const existing = await this.table.bulkGet(visitIds);
+            const now = Date.now();
+
+            const records = visitIds.map((visitId, index): VisitRecord => {
+              const data = incoming.get(visitId)!;
+              const current = existing[index];
+              return {
+                visitId,
+                url: current?.url ?? data.url,
+                hostname: current?.hostname ?? data.hostname,
+                parentDomain: current?.parentDomain ?? data.parentDomain,
+                start: Math.min(current?.start ?? data.start, data.start),
+                end: Math.max(current?.end ?? data.end, data.end),
+                open_time: (current?.open_time ?? 0) + data.openTimeToAdd,
+                active_time: (current?.active_time ?? 0) + data.activeTimeToAdd,
+                activity_count: (current?.activity_count ?? 0) + data.activitiesToAdd,
+                crash_recovered: (current?.crash_recovered ?? false) || data.crashRecovered,
+                last_updated: now,
+              };
+            });
+
+            await this.table.bulkPut(records);
+            return records.length;
+          }),
+        'upsertVisits',
+        options
+      );
+
+      VisitsRepository.logger.info('Completed visit upsert', {
+        entries: entries.length,
+        visits: written,
+        executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+
+      return written;
+    } catch (error) {
+      VisitsRepository.logger.error('Failed visit upsert', {
+        entries: entries.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw this.handleError(error, 'upsertVisits');
+    }
+  }
+
+  /**
+   * Get the visits that started within a time range, oldest first
+   *
+   * @param startTime - Range start (Unix timestamp in milliseconds, inclusive)
+   * @param endTime - Range end (Unix timestamp in milliseconds, exclusive)
+   * @param options - Site filter, limit and repository options
+   * @returns Promise resolving to visits ordered by start
+   */
+  async getVisitsInRange(
+    startTime: number,
+    endTime: number,
+    options: VisitQueryOptions = {}
+  ): Promise<VisitRecord[]> {
+    const { limit } = options;
+
+    try {
+      return await this.executeWithRetry(
+        () => {
+          const collection = this.whereStartedBetween(startTime, endTime, options);
+          return limit && limit > 0 ? collection.limit(limit).toArray() : collection.toArray();
+        },
+        'getVisitsInRange',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getVisitsInRange');
+    }
+  }
+
+  /**
+   * Get the visits with the most active time among those started within a time range
+   *
+   * @param startTime - Range start (Unix timestamp in milliseconds, inclusive)
+   * @param endTime - Range end (Unix timestamp in milliseconds, exclusive)
+   * @param limit - Maximum number of visits to return
+   * @param options - Site filter and repository options
+   * @returns Promise resolving to visits ordered by active time descending
+   */
+  async getLongestVisits(
+    startTime: number,
+    endTime: number,
+    limit: number,
+    options: VisitQueryOptions = {}
+  ): Promise<VisitRecord[]> {
+    try {
+      return await this.executeWithRetry(
+        async () => {
+          const visits = await this.whereStartedBetween(startTime, endTime, options).toArray();
+          return visits
+            .sort((a, b) => b.active_time - a.active_time || b.open_time - a.open_time)
+            .slice(0, limit);
+        },
+        'getLongestVisits',
+        options
+      );
+    } catch (error) {
+      throw this.handleError(error, 'getLongestVisits');
+    }
+  }
+
+  /**
+   * Collection of the visits started within a time range, read from the narrowest index
+   */
+  private whereStartedBetween(startTime: number, endTime: number, options: VisitQueryOptions) {
+    const { hostname, parentDomain } = options;
+
+    if (hostname) {
+      const collection = this.table
+        .where('[hostname+start]')
+        .between([hostname, startTime], [hostname, endTime], true, false);
+      return parentDomain
+        ? collection.and(visit => visit.parentDomain === parentDomain)
+        : collection;
+    }
+
+    if (parentDomain) {
+      return this.table
+        .where('[parentDomain+start]')
+        .between([parentDomain, startTime], [parentDomain, endTime], true, false);
+    }
+
+    return this.table.where('start').between(startTime, endTime, true, false);
+  }
+
+  private static mergeEntries(
+    previous: VisitAggregationData,
+    entry: VisitAggregationData
+  ): VisitAggregationData {
+    return {
+      ...previous,
+      start: Math.min(previous.start, entry.start),
+      end: Math.max(previous.end, entry.end),
+      openTimeToAdd: previous.openTimeToAdd + entry.openTimeToAdd,
+      activeTimeToAdd: previous.activeTimeToAdd + entry.activeTimeToAdd,
+      activitiesToAdd: previous.activitiesToAdd + entry.activitiesToAdd,
+      crashRecovered: previous.crashRecovered || entry.crashRecovered,
+    };
+  }
+
+  // Validation methods implementation
+  private validateVisitAggregationData(data: VisitAggregationData): void {
+    if (!data.visitId || data.visitId.trim().length === 0) {
+      throw new ValidationError('Visit ID cannot be empty');
+    }
+
+    if (!data.hostname || data.hostname.trim().length === 0) {
+      throw new ValidationError('Hostname cannot be empty');
+    }
+
+    if (!data.parentDomain || data.parentDomain.trim().length === 0) {
+      throw new ValidationError('Parent domain cannot be empty');
+    }
+
+    if (data.end < data.start) {
+      throw new ValidationError('Visit end must not be before its start');
+    }
+
+    if (data.openTimeToAdd < 0 || !Number.isInteger(data.openTimeToAdd)) {
+      throw new ValidationError('Open time to add must be a non-negative integer');
+    }
+
+    if (data.activeTimeToAdd < 0 || !Number.isInteger(data.activeTimeToAdd)) {
+      throw new ValidationError('Active time to add must be a non-negative integer');
+    }
+
+    if (data.activitiesToAdd < 0 || !Number.isInteger(data.activitiesToAdd)) {
+      throw new ValidationError('Activities to add must be a non-negative integer');
+    }
+  }
+
+  protected async validateForCreate(entity: InsertType<VisitRecord, 'visitId'>): Promise<void> {
+    try {
+      VisitValidation.validateRecord(entity);
+    } catch (error) {
+      throw new ValidationError(`Invalid visit data for creation: ${(error as Error).message}`);
+    }
+  }
+
+  protected async validateForUpdate(
+    visitId: IDType<VisitRecord, 'visitId'>,
+    changes: Partial<VisitRecord>
+  ): Promise<void> {
+    if (!visitId || typeof visitId !== 'string') {
+      throw new ValidationError('Visit ID must be a non-empty string');
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new ValidationError('Update changes cannot be empty');
+    }
+  }
+
+  protected async validateForUpsert(entity: InsertType<VisitRecord, 'visitId'>): Promise<void> {
+    await this.validateForCreate(entity);
+  }
+}
@@ -14,12 +14,16 @@ import { normalizeUrl } from '../utils/url-normalizer.util';
  * This interface defines the structure of records stored in the `aggregatedstats` table.
  *
  * @property {string} key - Primary key in format "YYYY-MM-DD:normalized_url". Ensures uniqueness for each URL per day.
- * @property {string} date - Date in YYYY-MM-DD format (UTC date). Indexed field for date-based queries. Must be UTC date as per project rules.
+ * @property {string} date - Date in YYYY-MM-DD format (aggregation time zone). Indexed field for date-based queries.
  * @property {string} url - Complete URL as minimum aggregation granularity.
  * @property {string} hostname - URL hostname for mid-level aggregation. Indexed field for hostname-based queries.
  * @property {string} parentDomain - URL parent domain based on PSL (Public Suffix List) calculation. Indexed field for top-level aggregation.
  * @property {number} total_open_time - Accumulated open time in milliseconds.
  * @property {number} total_active_time - Accumulated active time in milliseconds.
+ * @property {number} visit_count - Number of visits with open time on the day.
+ * @property {number} active_session_count - Number of active time intervals on the day.
+ * @property {number | null} first_seen - Start of the earliest measured time on the day (Unix timestamp in milliseconds), null if unknown.
+ * @property {number | null} last_seen - End of the latest measured time on the day (Unix timestamp in milliseconds), null if unknown.
  * @property {number} last_updated - Last update timestamp (Unix timestamp in milliseconds). Key dependency for FR-4C smart merge logic implementation.
  */
 export interface AggregatedStatsRecord {
@@ -33,9 +37,8 @@ export interface AggregatedStatsRecord {
   key: string;
 
   /**
-   * Date in YYYY-MM-DD format (UTC date)
+   * Date in YYYY-MM-DD format (calendar day in the aggregation time zone)
    * Indexed field for date-based queries
-   * Must be UTC date
    */
   date: string;
 
@@ -66,6 +69,33 @@ export interface AggregatedStatsRecord {
    */
   total_active_time: number;
 
+  /**
+   * Number of visits with open time on the day
+   *
+   * A visit crossing midnight counts on both days. Rows aggregated before the
+   * counts were introduced keep 0.
+   */
+  visit_count: number;
+
+  /**
+   * Number of active time intervals on the day, counted like visit_count
+   */
+  active_session_count: number;
+
+  /**
+   * Start of the earliest measured time on the day (Unix timestamp in milliseconds)
+   *
+   * Null for rows aggregated before it was recorded
+   */
+  first_seen: number | null;
+
+  /**
+   * End of the latest measured time on the day (Unix timestamp in milliseconds)
+   *
+   * Null for rows aggregated before it was recorded
+   */
+  last_seen: number | null;
+
   /**
    * Last update timestamp (Unix timestamp in milliseconds)
    * Key dependency for FR-4C smart merge logic implementation
@@ -81,14 +111,43 @@ export interface AggregatedStatsRecord {
  * - date: Index for date-based queries
  * - hostname: Index for hostname-based aggregation
  * - parentDomain: Index for top-level domain aggregation
+ * - [parentDomain+date]: Compound index for a parent domain within a date range
+ * - [hostname+date]: Compound index for a hostname within a date range
  */
-export const AGGREGATEDSTATS_SCHEMA = 'key, date, hostname, parentDomain';
+export const AGGREGATEDSTATS_SCHEMA =
+  'key, date, hostname, parentDomain, [parentDomain+date], [hostname+date]';
 
 /**
  * Table name constant
  */
 export const AGGREGATEDSTATS_TABLE_NAME = 'aggregatedstats';
 
+/**
+ * Earlier of two first-seen times, ignoring unknown (null) ones
+ *
+ * @param a - First-seen time or null
+ * @param b - First-seen time or null
+ * @returns The earlier known time, or null if both are unknown
+ */
+export function earliestSeen(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Later of two last-seen times, ignoring unknown (null) ones
+ *
+ * @param a - Last-seen time or null
+ * @param b - Last-seen time or null
+ * @returns The later known time, or null if both are unknown
+ */
+export function latestSeen(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
+
 /**
  * Utility function to get current UTC date in YYYY-MM-DD format
  * Ensures consistent date formatting across the application
@@ -0,0 +1,101 @@
+/**
+ * Hourly Stats Schema Definition
+ *
+ * This file defines the schema for the hourlystats table.
+ * The table stores open/active time per hostname and clock hour in the aggregation
+ * time zone, so that time-of-day and day-of-week patterns can be queried without
+ * the raw events.
+ */
+
+/**
+ * Hourly stats table record interface
+ *
+ * @property {string} key - Primary key in format "YYYY-MM-DDTHH:hostname".
+ * @property {string} date - Date in YYYY-MM-DD format (aggregation time zone). Indexed field for date-based queries.
+ * @property {number} hour - Hour of the day (0-23, aggregation time zone).
+ * @property {number} dayOfWeek - Day of the week (0 = Sunday ... 6 = Saturday).
+ * @property {string} hostname - URL hostname. Indexed field for hostname-based queries.
+ * @property {string} parentDomain - URL parent domain based on PSL calculation. Indexed field.
+ * @property {number} total_open_time - Accumulated open time in milliseconds within the hour.
+ * @property {number} total_active_time - Accumulated active time in milliseconds within the hour.
+ * @property {number} last_updated - Last update timestamp (Unix timestamp in milliseconds).
+ */
+export interface HourlyStatsRecord {
+  /**
+   * Primary key in format "YYYY-MM-DDTHH:hostname"
+   *
+   * Ensures uniqueness for each hostname per hour
+   */
+  key: string;
+
+  /**
+   * Date in YYYY-MM-DD format (aggregation time zone)
+   * Indexed field for date-based queries
+   */
+  date: string;
+
+  /**
+   * Hour of the day (0-23, aggregation time zone)
+   */
+  hour: number;
+
+  /**
+   * Day of the week (0 = Sunday ... 6 = Saturday)
+   */
+  dayOfWeek: number;
+
+  /**
+   * URL hostname
+   * Indexed field for hostname-based queries
+   */
+  hostname: string;
+
+  /**
+   * URL parent domain based on PSL (Public Suffix List) calculation
+   * Indexed field for domain-filtered heatmaps
+   */
+  parentDomain: string;
+
+  /**
+   * Accumulated open time in milliseconds
+   */
+  total_open_time: number;
+
+  /**
+   * Accumulated active time in milliseconds
+   */
+  total_active_time: number;
+
+  /**
+   * Last update timestamp (Unix timestamp in milliseconds)
+   */
+  last_updated: number;
+}
+
+/**
+ * Dexie schema string for hourlystats table
+ *
+ * Schema breakdown:
+ * - key: Primary key (composite format: dateThour:hostname)
+ * - date: Index for date range queries
+ * - hostname: Index for hostname-based queries
+ * - parentDomain: Index for domain-filtered heatmaps
+ */
+export const HOURLYSTATS_SCHEMA = 'key, date, hostname, parentDomain';
+
+/**
+ * Table name constant
+ */
+export const HOURLYSTATS_TABLE_NAME = 'hourlystats';
+
+/**
+ * Utility function to generate primary key for hourly stats
+ *
+ * @param date - Date in YYYY-MM-DD format (aggregation time zone)
+ * @param hour - Hour of the day (0-23, aggregation time zone)
+ * @param hostname - URL hostname
+ * @returns Primary key in format "YYYY-MM-DDTHH:hostname"
+ */
+export function generateHourlyStatsKey(date: string, hour: number, hostname: string): string {
+  return `${date}T${String(hour).padStart(2, '0')}:${hostname}`;
+}
@@ -1,13 +1,14 @@
 import Dexie, { type EntityTable } from 'dexie';
 
 // Import schema definitions
-import { type EventsLogRecord, EVENTSLOG_SCHEMA, EVENTSLOG_TABLE_NAME } from './eventslog.schema';
-import {
-  type AggregatedStatsRecord,
-  AGGREGATEDSTATS_SCHEMA,
-  AGGREGATEDSTATS_TABLE_NAME,
-} from './aggregatedstats.schema';
+import type { EventsLogRecord } from './eventslog.schema';
+import type { AggregatedStatsRecord } from './aggregatedstats.schema';
+import type { HourlyStatsRecord } from './hourlystats.schema';
+import type { VisitRecord } from './visits.schema';
+import type { RollupStatsRecord } from './rollupstats.schema';
 import { aggregatedStatsCreatingHook, aggregatedStatsUpdatingHook } from './hooks';
+import { SCHEMA_MIGRATIONS, type SchemaMigration } from './migrations';
+import { VersionManagerUtil } from '../utils/version-manager.util';
 
 /**
  * Database name constant
@@ -15,17 +16,27 @@ import { aggregatedStatsCreatingHook, aggregatedStatsUpdatingHook } from './hook
 export const DATABASE_NAME = 'WebTimeTracker';
 
 /**
- * Database version constant
+ * Database version constant (the latest schema migration)
  */
-export const DATABASE_VERSION = 1;
+export { DATABASE_VERSION } from './migrations';
 
 // Re-export interfaces for external use
-export type { EventsLogRecord, AggregatedStatsRecord };
+export type {
+  EventsLogRecord,
+  AggregatedStatsRecord,
+  HourlyStatsRecord,
+  VisitRecord,
+  RollupStatsRecord,
+};
 // Re-export types from models (EventType, ResolutionType are now in models)
 export type { EventType, ResolutionType } from '../models/eventslog.model';
 export * from './eventslog.schema';
 export * from './aggregatedstats.schema';
+export * from './hourlystats.schema';
+export * from './visits.schema';
+export * from './rollupstats.schema';
 export * from './hooks';
+export * from './migrations';
 
 /**
  * Database class extending Dexie with typed tables
@@ -34,18 +45,19 @@ export class WebTimeTrackerDB extends Dexie {
   // Typed table declarations
   eventslog!: EntityTable<EventsLogRecord, 'id'>;
   aggregatedstats!: EntityTable<AggregatedStatsRecord, 'key'>;
+  hourlystats!: EntityTable<HourlyStatsRecord, 'key'>;
+  visits!: EntityTable<VisitRecord, 'visitId'>;
+  weeklystats!: EntityTable<RollupStatsRecord, 'key'>;
+  monthlystats!: EntityTable<RollupStatsRecord, 'key'>;
 
-  constructor() {
+  /**
+   * @param migrations - Schema versions, oldest first (tests pass their own)
+   */
+  constructor(readonly migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS) {
     super(DATABASE_NAME);
 
-    // Define database schema version 1
-    this.version(DATABASE_VERSION).stores({
-      // Events log table with auto-increment primary key and indexes
-      [EVENTSLOG_TABLE_NAME]: EVENTSLOG_SCHEMA,
-
-      // Aggregated stats table with composite primary key and indexes
-      [AGGREGATEDSTATS_TABLE_NAME]: AGGREGATEDSTATS_SCHEMA,
-    });
+    // Declare every schema version; see ./migrations.ts
+    VersionManagerUtil.declareMigrations(this, migrations);
 
     // Register hooks for automatic metadata management
     this.aggregatedstats.hook('creating', aggregatedStatsCreatingHook);
@@ -0,0 +1,197 @@
+/**
+ * Database Schema Migrations
+ *
+ * Every schema version of WebTimeTrackerDB is declared here, oldest first.
+ * Dexie applies the stores of all versions up to the latest and runs the
+ * upgrade functions of the versions a user's database has not seen yet, in one
+ * transaction: if any upgrade throws, the database stays at its old version
+ * with its data untouched.
+ *
+ * To evolve the schema, update the table's schema constant and append a
+ * migration with the next version number that declares it. Released
+ * migrations spell out their store strings, inline the data logic of their
+ * upgrades and must never change, and every migration gets a fixture test in
+ * `__tests__/schema.migrations.test.ts`.
+ */
+
+import type { Transaction } from 'dexie';
+import {
+  differenceInCalendarDays,
+  endOfISOWeek,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+} from 'date-fns';
+import { EVENTSLOG_TABLE_NAME } from './eventslog.schema';
+import { AGGREGATEDSTATS_TABLE_NAME } from './aggregatedstats.schema';
+import { HOURLYSTATS_TABLE_NAME } from './hourlystats.schema';
+import { VISITS_TABLE_NAME } from './visits.schema';
+import { MONTHLYSTATS_TABLE_NAME, WEEKLYSTATS_TABLE_NAME } from './rollupstats.schema';
+
+/**
+ * One version of the database schema
+ */
+export interface SchemaMigration {
+  /** Schema version; versions must be ascending integers */
+  version: number;
+
+  /** What the version changes, shown in version history and migration progress */
+  description: string;
+
+  /** Stores added or changed by this version, as for Dexie's `stores()`; null deletes a store */
+  stores: Record<string, string | null>;
+
+  /**
+   * Transforms existing data after the stores of this version are applied.
+   *
+   * Runs inside the upgrade transaction: await only operations on `tx`, since
+   * awaiting anything else (e.g. extension storage) commits the transaction early.
+   */
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Rollup row written by the v6 upgrade
+ */
+interface RollupRowV6 {
+  key: string;
+  period: string;
+  startDate: string;
+  endDate: string;
+  hostname: string;
+  parentDomain: string;
+  total_open_time: number;
+  total_active_time: number;
+  counted_open_time: number;
+  visit_count: number;
+  active_session_count: number;
+  day_mask: number;
+  last_updated: number;
+}
+
+/**
+ * Rolls the daily rows up into the weekly and monthly tables, as of v6
+ *
+ * A frozen copy of the rollup logic of that version, so later changes to the
+ * live helpers in `rollupstats.schema.ts` cannot change what this upgrade does.
+ */
+async function backfillRollupsV6(tx: Transaction): Promise<void> {
+  const now = Date.now();
+  const rollups = { week: new Map<string, RollupRowV6>(), month: new Map<string, RollupRowV6>() };
+
+  await tx.table(AGGREGATEDSTATS_TABLE_NAME).each(stat => {
+    const day = parseISO(stat.date);
+
+    for (const granularity of ['week', 'month'] as const) {
+      const isWeek = granularity === 'week';
+      const period = format(day, isWeek ? "RRRR-'W'II" : 'yyyy-MM');
+      const start = isWeek ? startOfISOWeek(day) : startOfMonth(day);
+      const end = isWeek ? endOfISOWeek(day) : endOfMonth(day);
+      const key = `${period}:${stat.hostname}`;
+
+      const rollup: RollupRowV6 = rollups[granularity].get(key) ?? {
+        key,
+        period,
+        startDate: format(start, 'yyyy-MM-dd'),
+        endDate: format(end, 'yyyy-MM-dd'),
+        hostname: stat.hostname,
+        parentDomain: stat.parentDomain,
+        total_open_time: 0,
+        total_active_time: 0,
+        counted_open_time: 0,
+        visit_count: 0,
+        active_session_count: 0,
+        day_mask: 0,
+        last_updated: now,
+      };
+      rollup.total_open_time += stat.total_open_time;
+      rollup.total_active_time += stat.total_active_time;
+      // Rows without visit counts are left out of the average visit length
+      rollup.counted_open_time += stat.visit_count > 0 ? stat.total_open_time : 0;
+      rollup.visit_count += stat.visit_count;
+      rollup.active_session_count += stat.active_session_count;
+      rollup.day_mask |= 1 << differenceInCalendarDays(day, start);
+      rollups[granularity].set(key, rollup);
+    }
+  });
+
+  await tx.table(WEEKLYSTATS_TABLE_NAME).bulkPut([...rollups.week.values()]);
+  await tx.table(MONTHLYSTATS_TABLE_NAME).bulkPut([...rollups.month.values()]);
+}
+
+/**
+ * All schema versions, oldest first
+ */
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Initial database schema with eventslog and aggregatedstats tables',
+    stores: {
+      // Events log table with auto-increment primary key and indexes
+      [EVENTSLOG_TABLE_NAME]: '++id, isProcessed, visitId, activityId, timestamp',
+
+      // Aggregated stats table with composite primary key and indexes
+      [AGGREGATEDSTATS_TABLE_NAME]: 'key, date, hostname, parentDomain',
+    },
+  },
+  {
+    version: 2,
+    description: 'Add hourlystats table for time-of-day buckets',
+    // Existing tables are unchanged
+    stores: {
+      [HOURLYSTATS_TABLE_NAME]: 'key, date, hostname, parentDomain',
+    },
+  },
+  {
+    version: 3,
+    description: 'Index aggregatedstats by site and date for range queries',
+    // Dexie builds the new indexes from the existing rows
+    stores: {
+      [AGGREGATEDSTATS_TABLE_NAME]:
+        'key, date, hostname, parentDomain, [parentDomain+date], [hostname+date]',
+    },
+  },
+  {
+    version: 4,
+    description: 'Add visits table with one record per visit',
+    // Visits aggregated before this version are not backfilled
+    stores: {
+      [VISITS_TABLE_NAME]: 'visitId, start, [hostname+start], [parentDomain+start]',
+    },
+  },
+  {
+    version: 5,
+    description: 'Add visit and active session counts and first/last seen times to aggregatedstats',
+    // New fields are not indexed
+    stores: {},
+    upgrade: async tx => {
+      // Counts of rows aggregated so far are unknown; they start at zero
+      await tx
+        .table(AGGREGATEDSTATS_TABLE_NAME)
+        .toCollection()
+        .modify(stat => {
+          stat.visit_count ??= 0;
+          stat.active_session_count ??= 0;
+          stat.first_seen ??= null;
+          stat.last_seen ??= null;
+        });
+    },
+  },
+  {
+    version: 6,
+    description: 'Add weeklystats and monthlystats rollup tables for long date ranges',
+    stores: {
+      [WEEKLYSTATS_TABLE_NAME]: 'key, startDate, [parentDomain+startDate], [hostname+startDate]',
+      [MONTHLYSTATS_TABLE_NAME]: 'key, startDate, [parentDomain+startDate], [hostname+startDate]',
+    },
+    // Backfill the rollups from the daily rows aggregated so far
+    upgrade: backfillRollupsV6,
+  },
+];
+
+/**
+ * Latest schema version
+ */
+export const DATABASE_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
@@ -0,0 +1,315 @@
+/**
+ * Rollup Stats Schema Definition
+ *
+ * This file defines the schema shared by the weeklystats and monthlystats tables.
+ * Each table stores open/active time per hostname and ISO week or calendar month
+ * in the aggregation time zone, so that long date ranges are summed from a few
+ * rows per site instead of one row per URL and day.
+ */
+
+import {
+  differenceInCalendarDays,
+  endOfISOWeek,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+} from 'date-fns';
+
+/**
+ * Period length of a rollup table
+ */
+export type RollupGranularity = 'week' | 'month';
+
+/**
+ * Rollup stats table record interface
+ *
+ * @property {string} key - Primary key in format "period:hostname".
+ * @property {string} period - ISO week ("YYYY-Www") or calendar month ("YYYY-MM").
+ * @property {string} startDate - First date of the period in YYYY-MM-DD format. Indexed field for date range queries.
+ * @property {string} endDate - Last date of the period in YYYY-MM-DD format.
+ * @property {string} hostname - URL hostname. Indexed together with startDate.
+ * @property {string} parentDomain - URL parent domain based on PSL calculation. Indexed together with startDate.
+ * @property {number} total_open_time - Accumulated open time in milliseconds within the period.
+ * @property {number} total_active_time - Accumulated active time in milliseconds within the period.
+ * @property {number} counted_open_time - Open time of the days that have visit counts, in milliseconds.
+ * @property {number} visit_count - Sum of the daily visit counts.
+ * @property {number} active_session_count - Sum of the daily active session counts.
+ * @property {number} day_mask - Bit i is set when the hostname has a daily row on day i of the period.
+ * @property {number} last_updated - Last update timestamp (Unix timestamp in milliseconds).
+ */
+export interface RollupStatsRecord {
+  /**
+   * Primary key in format "period:hostname"
+   *
+   * Ensures uniqueness for each hostname per period
+   */
+  key: string;
+
+  /**
+   * ISO week ("YYYY-Www") or calendar month ("YYYY-MM")
+   */
+  period: string;
+
+  /**
+   * First date of the period in YYYY-MM-DD format (aggregation time zone)
+   * Indexed field for date range queries
+   */
+  startDate: string;
+
+  /**
+   * Last date of the period in YYYY-MM-DD format (aggregation time zone)
+   */
+  endDate: string;
+
+  /**
+   * URL hostname
+   * Indexed together with startDate for a hostname's periods within a range
+   */
+  hostname: string;
+
+  /**
+   * URL parent domain based on PSL (Public Suffix List) calculation
+   * Indexed together with startDate for a parent domain's periods within a range
+   */
+  parentDomain: string;
+
+  /**
+   * Accumulated open time in milliseconds
+   */
+  total_open_time: number;
+
+  /**
+   * Accumulated active time in milliseconds
+   */
+  total_active_time: number;
+
+  /**
+   * Open time of the days that have visit counts, in milliseconds
+   *
+   * Daily rows aggregated before the counts were introduced are left out, so
+   * the average visit length is not skewed by time without visits.
+   */
+  counted_open_time: number;
+
+  /**
+   * Sum of the daily visit counts
+   */
+  visit_count: number;
+
+  /**
+   * Sum of the daily active session counts
+   */
+  active_session_count: number;
+
+  /**
+   * Days of the period with a daily row, bit i for the i-th day
+   *
+   * Masks of the same period are OR-ed to count distinct days across hostnames.
+   */
+  day_mask: number;
+
+  /**
+   * Last update timestamp (Unix timestamp in milliseconds)
+   */
+  last_updated: number;
+}
+
+/**
+ * Time of one daily row added to a rollup
+ */
+export type RollupSource = Pick<
+  RollupStatsRecord,
+  | 'hostname'
+  | 'parentDomain'
+  | 'total_open_time'
+  | 'total_active_time'
+  | 'counted_open_time'
+  | 'visit_count'
+  | 'active_session_count'
+> & {
+  /** Date of the daily row in YYYY-MM-DD format */
+  date: string;
+};
+
+/**
+ * Calendar period covered by a rollup row
+ */
+export interface RollupPeriod {
+  period: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Dexie schema string for the weeklystats and monthlystats tables
+ *
+ * Schema breakdown:
+ * - key: Primary key (composite format: period:hostname)
+ * - startDate: Index for date range queries
+ * - [parentDomain+startDate]: Compound index for a parent domain within a date range
+ * - [hostname+startDate]: Compound index for a hostname within a date range
+ */
+export const ROLLUPSTATS_SCHEMA = 'key, startDate, [parentDomain+startDate], [hostname+startDate]';
+
+/**
+ * Table name constants
+ */
+export const WEEKLYSTATS_TABLE_NAME = 'weeklystats';
+export const MONTHLYSTATS_TABLE_NAME = 'monthlystats';
+
+/**
+ * Rollup table of each granularity
+ */
+export const ROLLUPSTATS_TABLE_NAMES = {
+  week: WEEKLYSTATS_TABLE_NAME,
+  month: MONTHLYSTATS_TABLE_NAME,
+} as const satisfies Record<RollupGranularity, string>;
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Get the ISO week or calendar month containing a date
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param granularity - Period length
+ * @returns Period key with its first and last date
+ */
+export function getRollupPeriod(date: string, granularity: RollupGranularity): RollupPeriod {
+  const day = parseISO(date);
+
+  if (granularity === 'week') {
+    return {
+      period: format(day, "RRRR-'W'II"),
+      startDate: format(startOfISOWeek(day), DATE_FORMAT),
+      endDate: format(endOfISOWeek(day), DATE_FORMAT),
+    };
+  }
+
+  return {
+    period: format(day, 'yyyy-MM'),
+    startDate: format(startOfMonth(day), DATE_FORMAT),
+    endDate: format(endOfMonth(day), DATE_FORMAT),
+  };
+}
+
+/**
+ * Utility function to generate primary key for rollup stats
+ *
+ * @param period - ISO week or calendar month key
+ * @param hostname - URL hostname
+ * @returns Primary key in format "period:hostname"
+ */
+export function generateRollupStatsKey(period: string, hostname: string): string {
+  return `${period}:${hostname}`;
+}
+
+/**
+ * Day mask bit of a date within its period
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param startDate - First date of the period in YYYY-MM-DD format
+ * @returns Mask with only the date's bit set
+ */
+export function getRollupDayBit(date: string, startDate: string): number {
+  return 1 << differenceInCalendarDays(parseISO(date), parseISO(startDate));
+}
+
+/**
+ * Number of days set in a day mask
+ *
+ * @param mask - Day mask of one period
+ * @returns Number of set bits
+ */
+export function countRollupDays(mask: number): number {
+  let count = 0;
+  for (let rest = mask; rest !== 0; rest &= rest - 1) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Add the time of a daily row to the rollup of its period
+ *
+ * @param rollups - Rollups by primary key, updated in place
+ * @param granularity - Period length
+ * @param source - Time of the daily row
+ * @param lastUpdated - Update timestamp of created or changed rollups
+ */
+export function addToRollup(
+  rollups: Map<string, RollupStatsRecord>,
+  granularity: RollupGranularity,
+  source: RollupSource,
+  lastUpdated: number
+): void {
+  const { period, startDate, endDate } = getRollupPeriod(source.date, granularity);
+  const key = generateRollupStatsKey(period, source.hostname);
+  const rollup = rollups.get(key) ?? {
+    key,
+    period,
+    startDate,
+    endDate,
+    hostname: source.hostname,
+    parentDomain: source.parentDomain,
+    total_open_time: 0,
+    total_active_time: 0,
+    counted_open_time: 0,
+    visit_count: 0,
+    active_session_count: 0,
+    day_mask: 0,
+    last_updated: lastUpdated,
+  };
+
+  rollup.total_open_time += source.total_open_time;
+  rollup.total_active_time += source.total_active_time;
+  rollup.counted_open_time += source.counted_open_time;
+  rollup.visit_count += source.visit_count;
+  rollup.active_session_count += source.active_session_count;
+  rollup.day_mask |= getRollupDayBit(source.date, startDate);
+  rollup.last_updated = lastUpdated;
+  rollups.set(key, rollup);
+}
+
+/**
+ * Rollup source of a daily row
+ *
+ * Rows aggregated before the visit counts existed have time but no visits, so
+ * their open time is not counted towards the average visit length.
+ *
+ * @param stat - Daily row; only its hostname-level fields are read
+ * @returns Time of the row to add to its rollups
+ */
+export function toRollupSource(stat: Omit<RollupSource, 'counted_open_time'>): RollupSource {
+  return {
+    date: stat.date,
+    hostname: stat.hostname,
+    parentDomain: stat.parentDomain,
+    total_open_time: stat.total_open_time,
+    total_active_time: stat.total_active_time,
+    counted_open_time: stat.visit_count > 0 ? stat.total_open_time : 0,
+    visit_count: stat.visit_count,
+    active_session_count: stat.active_session_count,
+  };
+}
+
+/**
+ * Roll daily rows up into the periods of one granularity
+ *
+ * @param stats - Daily rows
+ * @param granularity - Period length
+ * @param lastUpdated - Update timestamp of the built rollups
+ * @returns Rollups of every period and hostname with a daily row
+ */
+export function rollUpDailyStats(
+  stats: Iterable<Omit<RollupSource, 'counted_open_time'>>,
+  granularity: RollupGranularity,
+  lastUpdated: number
+): RollupStatsRecord[] {
+  const rollups = new Map<string, RollupStatsRecord>();
+  for (const stat of stats) {
+    addToRollup(rollups, granularity, toRollupSource(stat), lastUpdated);
+  }
+  return [...rollups.values()];
+}
@@ -0,0 +1,100 @@
+/**
+ * Visits Schema Definition
+ *
+ * This file defines the schema for the visits table.
+ * The table keeps one compact record per visit (a page open in a tab), so that
+ * session lengths and visit history survive the pruning of the raw events.
+ */
+
+/**
+ * Visits table record interface
+ *
+ * @property {string} visitId - Primary key, the visit ID shared by the visit's events.
+ * @property {string} url - URL of the visit.
+ * @property {string} hostname - URL hostname. Indexed together with start.
+ * @property {string} parentDomain - URL parent domain based on PSL calculation. Indexed together with start.
+ * @property {number} start - Start of the first measured interval (Unix timestamp in milliseconds). Indexed field.
+ * @property {number} end - End of the last measured interval (Unix timestamp in milliseconds).
+ * @property {number} open_time - Open time measured so far in milliseconds.
+ * @property {number} active_time - Active time measured so far in milliseconds.
+ * @property {number} activity_count - Number of active time intervals started in the visit.
+ * @property {boolean} crash_recovered - Whether any of the visit's events was written by crash recovery.
+ * @property {number} last_updated - Last update timestamp (Unix timestamp in milliseconds).
+ */
+export interface VisitRecord {
+  /**
+   * Primary key, the visit ID shared by the visit's events
+   */
+  visitId: string;
+
+  /**
+   * URL of the visit
+   */
+  url: string;
+
+  /**
+   * URL hostname
+   * Indexed together with start for a hostname's visit history
+   */
+  hostname: string;
+
+  /**
+   * URL parent domain based on PSL (Public Suffix List) calculation
+   * Indexed together with start for a parent domain's visit history
+   */
+  parentDomain: string;
+
+  /**
+   * Start of the first measured interval (Unix timestamp in milliseconds)
+   * Indexed field for time range queries
+   */
+  start: number;
+
+  /**
+   * End of the last measured interval (Unix timestamp in milliseconds)
+   *
+   * Visits still open end at their latest aggregated checkpoint
+   */
+  end: number;
+
+  /**
+   * Open time measured so far in milliseconds
+   */
+  open_time: number;
+
+  /**
+   * Active time measured so far in milliseconds
+   */
+  active_time: number;
+
+  /**
+   * Number of active time intervals started in the visit
+   */
+  activity_count: number;
+
+  /**
+   * Whether any of the visit's events was written by crash recovery
+   */
+  crash_recovered: boolean;
+
+  /**
+   * Last update timestamp (Unix timestamp in milliseconds)
+   */
+  last_updated: number;
+}
+
+/**
+ * Dexie schema string for visits table
+ *
+ * Schema breakdown:
+ * - visitId: Primary key
+ * - start: Index for time range queries
+ * - [hostname+start]: Compound index for a hostname's visits within a time range
+ * - [parentDomain+start]: Compound index for a parent domain's visits within a time range
+ */
+export const VISITS_SCHEMA = 'visitId, start, [hostname+start], [parentDomain+start]';
+
+/**
+ * Table name constant
+ */
+export const VISITS_TABLE_NAME = 'visits';
@@ -6,18 +6,39 @@
  * without any business logic, maintaining clear separation of concerns.
  */
 
-import { EventsLogRepository, AggregatedStatsRepository } from '../repositories';
+import {
+  EventsLogRepository,
+  AggregatedStatsRepository,
+  HourlyStatsRepository,
+  VisitsRepository,
+  RollupStatsRepository,
+} from '../repositories';
 import type {
   TimeAggregationData,
   AggregatedStatsQueryOptions,
+  AggregatedStatsRangeQueryOptions,
+  AggregatedStatsTotal,
+  AggregatedStatsPage,
+  TopStatsQueryOptions,
+  HeatmapQueryOptions,
+  HourOfDayBucket,
+  DayOfWeekHeatmapCell,
   RepositoryOptions,
   EventsLogQueryOptions,
+  VisitQueryOptions,
+  AggregatedStatsRangeFilter,
 } from '../repositories';
 import type { EventsLogRecord } from '../models/eventslog.model';
 import { CreateEventsLogSchema } from '../models/eventslog.model';
 import type { AggregatedStatsRecord } from '../models/aggregatedstats.model';
-import type { WebTimeTrackerDB } from '../schemas';
+import type { WebTimeTrackerDB, VisitRecord } from '../schemas';
 import { getUtcDateString } from '../schemas/aggregatedstats.schema';
+import {
+  planRollupRange,
+  summarizeSiteTotals,
+  type DatedTime,
+  type SiteTotals,
+} from '../utils/rollup-range.util';
 import type { ConnectionService } from '../connection/service';
 import { createLogger } from '@/utils/logger';
 
@@ -45,11 +66,19 @@ export interface DatabaseHealthInfo {
 export class DatabaseService {
   private eventsLogRepo: EventsLogRepository;
   private aggregatedStatsRepo: AggregatedStatsRepository;
+  private hourlyStatsRepo: HourlyStatsRepository;
+  private visitsRepo: VisitsRepository;
+  private weeklyStatsRepo: RollupStatsRepository;
+  private monthlyStatsRepo: RollupStatsRepository;
   private static readonly logger = createLogger('DB');
 
-  constructor(db: WebTimeTrackerDB) {
+  constructor(private readonly db: WebTimeTrackerDB) {
     this.eventsLogRepo = new EventsLogRepository(db);
     this.aggregatedStatsRepo = new AggregatedStatsRepository(db);
+    this.hourlyStatsRepo = new HourlyStatsRepository(db);
+    this.visitsRepo = new VisitsRepository(db);
+    this.weeklyStatsRepo = new RollupStatsRepository(db, 'week');
+    this.monthlyStatsRepo = new RollupStatsRepository(db, 'month');
   }
 
   // ==================== EVENT CRUD OPERATIONS ====================
@@ -207,6 +236,171 @@ export class DatabaseService {
     return this.aggregatedStatsRepo.getStatsByParentDomain(parentDomain, options);
   }
 
+  /**
+   * Get aggregated statistics of a parent domain within a date range
+   *
+   * @param parentDomain - The parent domain to filter by
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Query options for ordering and pagination
+   * @returns Promise resolving to array of aggregated stats
+   * @throws {RepositoryError} If database query fails
+   */
+  async getStatsByParentDomainInRange(
+    parentDomain: string,
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsQueryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    return this.aggregatedStatsRepo.getStatsByParentDomainInRange(
+      parentDomain,
+      startDate,
+      endDate,
+      options
+    );
+  }
+
+  /**
+   * Get aggregated statistics of a hostname within a date range
+   *
+   * @param hostname - The hostname to filter by
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Query options for ordering and pagination
+   * @returns Promise resolving to array of aggregated stats
+   * @throws {RepositoryError} If database query fails
+   */
+  async getStatsByHostnameInRange(
+    hostname: string,
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsQueryOptions = {}
+  ): Promise<AggregatedStatsRecord[]> {
+    return this.aggregatedStatsRepo.getStatsByHostnameInRange(
+      hostname,
+      startDate,
+      endDate,
+      options
+    );
+  }
+
+  /**
+   * Get the groups with the most active time within a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param limit - Maximum number of groups to return
+   * @param options - Grouping and site filter
+   * @returns Promise resolving to groups ordered by active time descending
+   * @throws {RepositoryError} If database query fails
+   */
+  async getTopByActiveTime(
+    startDate: string,
+    endDate: string,
+    limit: number,
+    options: TopStatsQueryOptions = {}
+  ): Promise<AggregatedStatsTotal[]> {
+    return this.aggregatedStatsRepo.getTopByActiveTime(startDate, endDate, limit, options);
+  }
+
+  /**
+   * Get one page of aggregated statistics within a date range
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Site filter, ordering and page options
+   * @returns Promise resolving to the requested page and the total count
+   * @throws {RepositoryError} If database query fails
+   */
+  async getStatsPage(
+    startDate: string,
+    endDate: string,
+    options: AggregatedStatsRangeQueryOptions = {}
+  ): Promise<AggregatedStatsPage> {
+    return this.aggregatedStatsRepo.getStatsPage(startDate, endDate, options);
+  }
+
+  // ==================== ROLLUP OPERATIONS ====================
+
+  /**
+   * Get time per parent domain and per hostname within a date range
+   *
+   * Full months and ISO weeks of the range are read from the rollup tables and
+   * only the remaining days from the daily stats, so long ranges stay cheap.
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param filter - Optional site filter
+   * @returns Promise resolving to unsorted totals per parent domain and per hostname
+   * @throws {RepositoryError} If database query fails
+   */
+  async getSiteTotalsInRange(
+    startDate: string,
+    endDate: string,
+    filter: AggregatedStatsRangeFilter = {}
+  ): Promise<SiteTotals> {
+    const plan = planRollupRange(startDate, endDate);
+
+    const [monthly, weekly, daily] = await Promise.all([
+      plan.months
+        ? this.monthlyStatsRepo.getRollupsInRange(
+            plan.months.startDate,
+            plan.months.endDate,
+            filter
+          )
+        : [],
+      Promise.all(
+        plan.weeks.map(span =>
+          this.weeklyStatsRepo.getRollupsInRange(span.startDate, span.endDate, filter)
+        )
+      ),
+      Promise.all(
+        plan.days.map(span =>
+          this.aggregatedStatsRepo.getStatsInRange(span.startDate, span.endDate, filter)
+        )
+      ),
+    ]);
+
+    return summarizeSiteTotals([...monthly, ...weekly.flat()], daily.flat());
+  }
+
+  /**
+   * Get time within a date range for weekly charts
+   *
+   * Full ISO weeks are read from weeklystats and dated by their Monday; the
+   * days of partial weeks at either end are read from the daily stats.
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @returns Promise resolving to dated time, not summed by week
+   * @throws {RepositoryError} If database query fails
+   */
+  async getWeeklyTimeInRange(startDate: string, endDate: string): Promise<DatedTime[]> {
+    const plan = planRollupRange(startDate, endDate, ['week']);
+
+    const [weekly, daily] = await Promise.all([
+      Promise.all(
+        plan.weeks.map(span =>
+          this.weeklyStatsRepo.getRollupsInRange(span.startDate, span.endDate)
+        )
+      ),
+      Promise.all(
+        plan.days.map(span =>
+          this.aggregatedStatsRepo.getStatsInRange(span.startDate, span.endDate)
+        )
+      ),
+    ]);
+
+    return [
+      ...weekly.flat().map(rollup => ({
+        date: rollup.startDate,
+        total_open_time: rollup.total_open_time,
+        total_active_time: rollup.total_active_time,
+      })),
+      ...daily.flat(),
+    ];
+  }
+
   /**
    * Get all unprocessed events relevant for recovery in a single query.
    *
@@ -230,6 +424,197 @@ export class DatabaseService {
     );
   }
 
+  // ==================== HOURLY STATS OPERATIONS ====================
+
+  /**
+   * Get total time per hour of the day across a date range
+   *
+   * Hours are local to the time zone the aggregates are bucketed in (see `getBucketedTimeZone`).
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Optional parent domain filter
+   * @returns Promise resolving to 24 buckets ordered by hour
+   * @throws {RepositoryError} If database query fails
+   */
+  async getHourOfDayHeatmap(
+    startDate: string,
+    endDate: string,
+    options: HeatmapQueryOptions = {}
+  ): Promise<HourOfDayBucket[]> {
+    return this.hourlyStatsRepo.getHourOfDayHeatmap(startDate, endDate, options);
+  }
+
+  /**
+   * Get total time per (day of week, hour) cell across a date range
+   *
+   * Days and hours are local to the time zone the aggregates are bucketed in
+   * (see `getBucketedTimeZone`).
+   *
+   * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+   * @param endDate - End date in YYYY-MM-DD format (inclusive)
+   * @param options - Optional parent domain filter
+   * @returns Promise resolving to 7 × 24 cells, Sunday first
+   * @throws {RepositoryError} If database query fails
+   */
+  async getDayOfWeekHeatmap(
+    startDate: string,
+    endDate: string,
+    options: HeatmapQueryOptions = {}
+  ): Promise<DayOfWeekHeatmapCell[]> {
+    return this.hourlyStatsRepo.getDayOfWeekHeatmap(startDate, endDate, options);
+  }
+
+  // ==================== VISIT OPERATIONS ====================
+
+  /**
+   * Get the visits that started within a time range, oldest first
+   *
+   * @param startTime - Range start (Unix timestamp in milliseconds, inclusive)
+   * @param endTime - Range end (Unix timestamp in milliseconds, exclusive)
+   * @param options - Optional site filter and limit
+   * @returns Promise resolving to visits ordered by start
+   * @throws {RepositoryError} If database query fails
+   */
+  async getVisitsInRange(
+    startTime: number,
+    endTime: number,
+    options: VisitQueryOptions = {}
+  ): Promise<VisitRecord[]> {
+    return this.visitsRepo.getVisitsInRange(startTime, endTime, options);
+  }
+
+  /**
+   * Get the visits with the most active time among those started within a time range
+   *
+   * @param startTime - Range start (Unix timestamp in milliseconds, inclusive)
+   * @param endTime - Range end (Unix timestamp in milliseconds, exclusive)
+   * @param limit - Maximum number of visits to return
+   * @param options - Optional site filter
+   * @returns Promise resolving to visits ordered by active time descending
+   * @throws {RepositoryError} If database query fails
+   */
+  async getLongestVisits(
+    startTime: number,
+    endTime: number,
+    limit: number,
+    options: VisitQueryOptions = {}
+  ): Promise<VisitRecord[]> {
+    return this.visitsRepo.getLongestVisits(startTime, endTime, limit, options);
+  }
+
+  // ==================== BULK READ OPERATIONS ====================
+
+  /**
+   * Stream every event in the eventslog table in primary key order
+   *
+   * @param batchSize - Number of events read per database round trip
+   * @returns Async iterator yielding batches of events
+   * @throws {RepositoryError} If a batch query fails
+   */
+  async *streamAllEvents(batchSize = 1000): AsyncGenerator<EventsLogRecord[]> {
+    let afterId = 0;
+    while (true) {
+      const batch = await this.eventsLogRepo.getEventsAfterId(afterId, batchSize);
+      if (batch.length === 0) return;
+      yield batch;
+      afterId = batch[batch.length - 1].id!;
+      if (batch.length < batchSize) return;
+    }
+  }
+
+  /**
+   * Stream every record in the aggregatedstats table in primary key order
+   *
+   * @param batchSize - Number of records read per database round trip
+   * @returns Async iterator yielding batches of stats records
+   * @throws {RepositoryError} If a batch query fails
+   */
+  async *streamAllStats(batchSize = 1000): AsyncGenerator<AggregatedStatsRecord[]> {
+    let afterKey = '';
+    while (true) {
+      const batch = await this.aggregatedStatsRepo.getStatsAfterKey(afterKey, batchSize);
+      if (batch.length === 0) return;
+      yield batch;
+      afterKey = batch[batch.length - 1].key;
+      if (batch.length < batchSize) return;
+    }
+  }
+
+  // ==================== BULK WRITE OPERATIONS ====================
+
+  /**
+   * Get all events belonging to any of the given visits
+   *
+   * @param visitIds - Visit IDs to look up
+   * @returns Promise resolving to the matching events
+   * @throws {RepositoryError} If query fails
+   */
+  async getEventsByVisitIds(visitIds: string[]): Promise<EventsLogRecord[]> {
+    return this.eventsLogRepo.getEventsByVisitIds(visitIds);
+  }
+
+  /**
+   * Insert many events at once with newly assigned IDs
+   *
+   * @param events - Events to insert
+   * @returns Promise resolving to the number of inserted events
+   * @throws {RepositoryError} If database operation fails
+   */
+  async bulkAddEvents(events: EventsLogRecord[]): Promise<number> {
+    return this.eventsLogRepo.bulkCreateEvents(events);
+  }
+
+  /**
+   * Get stats records by primary key
+   *
+   * @param keys - Primary keys to look up
+   * @returns Promise resolving to records aligned with `keys`
+   * @throws {RepositoryError} If query fails
+   */
+  async getStatsByKeys(keys: string[]): Promise<(AggregatedStatsRecord | undefined)[]> {
+    return this.aggregatedStatsRepo.getStatsByKeys(keys);
+  }
+
+  /**
+   * Insert or overwrite many stats records at once
+   *
+   * The weekly and monthly rollups of the written dates are recomputed from
+   * the daily rows afterwards.
+   *
+   * @param records - Complete records to write
+   * @returns Promise resolving to the number of written records
+   * @throws {RepositoryError} If database operation fails
+   */
+  async bulkPutStats(records: AggregatedStatsRecord[]): Promise<number> {
+    const written = await this.aggregatedStatsRepo.bulkPutStats(records);
+
+    if (written > 0) {
+      const dates = records.map(record => record.date).sort();
+      const range = { startDate: dates[0], endDate: dates[dates.length - 1] };
+      await this.weeklyStatsRepo.rebuildFromDailyStats(range);
+      await this.monthlyStatsRepo.rebuildFromDailyStats(range);
+    }
+
+    return written;
+  }
+
+  /**
+   * Run a callback inside a read-write transaction spanning the events, the
+   * daily stats and their rollups, so multi-step writes either fully apply or not at all
+   *
+   * @param callback - Operations to run atomically
+   * @returns Promise resolving to the callback result
+   */
+  async runInTransaction<T>(callback: () => Promise<T>): Promise<T> {
+    const { eventslog, aggregatedstats, weeklystats, monthlystats } = this.db;
+    return this.db.transaction(
+      'rw',
+      [eventslog, aggregatedstats, weeklystats, monthlystats],
+      callback
+    );
+  }
+
   // ==================== HEALTH CHECK OPERATIONS ====================
 
   /**
@@ -0,0 +1,237 @@
+/**
+ * Export Service
+ *
+ * Streams the eventslog and aggregatedstats tables out of IndexedDB into a
+ * versioned JSON bundle or per-table CSV files, for backups and spreadsheets.
+ * Tables are read in batches so exporting a large history never loads a whole
+ * table into a single query result.
+ */
+
+import type { Config } from '@/config/constants';
+import type { EventsLogRecord } from '../models/eventslog.model';
+import type { AggregatedStatsRecord } from '../models/aggregatedstats.model';
+import { DATABASE_VERSION } from '../schemas';
+import { getUtcDateString } from '../schemas/aggregatedstats.schema';
+import type { DatabaseService } from './database.service';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Tag identifying an export bundle, checked by the importer
+ */
+export const EXPORT_SCHEMA_TAG = 'webtime-tracker-export';
+
+/**
+ * Version of the bundle layout itself (independent of the database version)
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Tables included in an export
+ */
+export const EXPORT_TABLES = ['eventslog', 'aggregatedstats'] as const;
+export type ExportTableName = (typeof EXPORT_TABLES)[number];
+
+export type ExportFormat = 'json' | 'csv';
+
+/**
+ * Column order used for the eventslog CSV file
+ */
+export const EVENTSLOG_CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'eventType',
+  'tabId',
+  'url',
+  'visitId',
+  'activityId',
+  'isProcessed',
+  'resolution',
+] as const satisfies readonly (keyof EventsLogRecord)[];
+
+/**
+ * Column order used for the aggregatedstats CSV file
+ */
+export const AGGREGATEDSTATS_CSV_COLUMNS = [
+  'key',
+  'date',
+  'url',
+  'hostname',
+  'parentDomain',
+  'total_open_time',
+  'total_active_time',
+  'visit_count',
+  'active_session_count',
+  'first_seen',
+  'last_seen',
+  'last_updated',
+] as const satisfies readonly (keyof AggregatedStatsRecord)[];
+
+/**
+ * Complete export bundle layout
+ */
+export interface ExportBundle {
+  schema: typeof EXPORT_SCHEMA_TAG;
+  formatVersion: number;
+  databaseVersion: number;
+  exportedAt: string;
+  config: Config;
+  tables: {
+    eventslog: EventsLogRecord[];
+    aggregatedstats: AggregatedStatsRecord[];
+  };
+}
+
+/**
+ * A generated export file, ready to be downloaded
+ */
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/**
+ * Escape a single value for CSV output (RFC 4180)
+ */
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(values: readonly unknown[]): string {
+  return `${values.map(toCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * Export Service Class
+ *
+ * Builds export files on top of the DatabaseService bulk read operations.
+ */
+export class ExportService {
+  private static readonly logger = createLogger('📤 ExportService');
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly batchSize = 1000
+  ) {}
+
+  /**
+   * Stream the JSON bundle as text chunks
+   *
+   * @param config - Configuration snapshot to embed in the bundle
+   * @param exportedAt - Export time recorded in the bundle
+   */
+  async *streamJsonBundle(config: Config, exportedAt = new Date()): AsyncGenerator<string> {
+    const header: Omit<ExportBundle, 'tables'> = {
+      schema: EXPORT_SCHEMA_TAG,
+      formatVersion: EXPORT_FORMAT_VERSION,
+      databaseVersion: DATABASE_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      config,
+    };
+
+    // Open the header object and splice the tables in without re-serializing it
+    yield `${JSON.stringify(header).slice(0, -1)},"tables":{`;
+
+    for (const [index, table] of EXPORT_TABLES.entries()) {
+      yield `${index > 0 ? ',' : ''}${JSON.stringify(table)}:[`;
+      let isFirst = true;
+      for await (const batch of this.streamTable(table)) {
+        yield `${isFirst ? '' : ','}${batch.map(record => JSON.stringify(record)).join(',')}`;
+        isFirst = false;
+      }
+      yield ']';
+    }
+
+    yield '}}';
+  }
+
+  /**
+   * Stream one table as CSV text chunks, header row first
+   *
+   * @param table - Table to export
+   */
+  async *streamCsv(table: ExportTableName): AsyncGenerator<string> {
+    const columns: readonly string[] =
+      table === 'eventslog' ? EVENTSLOG_CSV_COLUMNS : AGGREGATEDSTATS_CSV_COLUMNS;
+
+    yield toCsvLine(columns);
+
+    for await (const batch of this.streamTable(table)) {
+      yield batch
+        .map(record => toCsvLine(columns.map(column => (record as Record<string, unknown>)[column])))
+        .join('');
+    }
+  }
+
+  /**
+   * Generate the JSON bundle file
+   *
+   * @param config - Configuration snapshot to embed in the bundle
+   */
+  async exportJson(config: Config): Promise<ExportFile> {
+    const exportedAt = new Date();
+    return {
+      filename: `webtime-tracker-export-${getUtcDateString(exportedAt.getTime())}.json`,
+      mimeType: 'application/json',
+      content: await this.collect(this.streamJsonBundle(config, exportedAt)),
+    };
+  }
+
+  /**
+   * Generate the CSV file for one table
+   *
+   * @param table - Table to export
+   */
+  async exportCsv(table: ExportTableName): Promise<ExportFile> {
+    return {
+      filename: `webtime-tracker-${table}-${getUtcDateString()}.csv`,
+      mimeType: 'text/csv',
+      content: await this.collect(this.streamCsv(table)),
+    };
+  }
+
+  /**
+   * Generate all export files for a format: one JSON bundle, or one CSV file per table
+   *
+   * @param format - Export format
+   * @param config - Configuration snapshot to embed in the JSON bundle
+   */
+  async export(format: ExportFormat, config: Config): Promise<ExportFile[]> {
+    const startTime = performance.now();
+
+    const files =
+      format === 'json'
+        ? [await this.exportJson(config)]
+        : await Promise.all(EXPORT_TABLES.map(table => this.exportCsv(table)));
+
+    ExportService.logger.info('Export completed', {
+      format,
+      files: files.map(file => ({ filename: file.filename, size: file.content.length })),
+      executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+    });
+
+    return files;
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private streamTable(
+    table: ExportTableName
+  ): AsyncGenerator<EventsLogRecord[] | AggregatedStatsRecord[]> {
+    return table === 'eventslog'
+      ? this.databaseService.streamAllEvents(this.batchSize)
+      : this.databaseService.streamAllStats(this.batchSize);
+  }
+
+  private async collect(chunks: AsyncGenerator<string>): Promise<string> {
+    const parts: string[] = [];
+    for await (const chunk of chunks) {
+      parts.push(chunk);
+    }
+    return parts.join('');
+  }
+}
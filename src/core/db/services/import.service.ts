@@ -0,0 +1,304 @@
+/**
+ * Import Service
+ *
+ * Restores a bundle produced by the ExportService into the current database.
+ * Every record is validated against the table models before anything is written,
+ * and the whole merge runs in a single transaction. A dry run computes the same
+ * report without writing.
+ */
+
+import { z } from 'zod/v4';
+import { EventsLogSchema, type EventsLogRecord } from '../models/eventslog.model';
+import {
+  AggregatedStatsSchema,
+  type AggregatedStatsRecord,
+} from '../models/aggregatedstats.model';
+import { ValidationError } from '../repositories';
+import { DATABASE_VERSION, earliestSeen, latestSeen } from '../schemas';
+import type { DatabaseService } from './database.service';
+import { EXPORT_FORMAT_VERSION, EXPORT_SCHEMA_TAG, type ExportTableName } from './export.service';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * How imported stats are combined with existing rows that share the same key
+ * - sum: add imported open/active time and visit/session counts onto the existing totals
+ * - replace: overwrite the existing row with the imported one
+ */
+export type ImportMergeStrategy = 'sum' | 'replace';
+
+export interface ImportOptions {
+  strategy: ImportMergeStrategy;
+  /** Compute the report without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * A record that failed validation and was skipped
+ */
+export interface ImportRecordError {
+  table: ExportTableName;
+  index: number;
+  message: string;
+}
+
+/**
+ * Outcome of an import (or of a dry run)
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  strategy: ImportMergeStrategy;
+  /** Database version the bundle was exported from */
+  sourceDatabaseVersion: number;
+  exportedAt: string;
+  events: {
+    total: number;
+    invalid: number;
+    /** Events not present locally (inserted with new IDs) */
+    inserted: number;
+    /** Events already present locally (same visit, activity, type and timestamp) */
+    duplicates: number;
+  };
+  stats: {
+    total: number;
+    invalid: number;
+    /** Keys not present locally */
+    inserted: number;
+    /** Keys already present locally, merged according to the strategy */
+    merged: number;
+  };
+  /** Validation errors, capped at MAX_REPORTED_ERRORS */
+  errors: ImportRecordError[];
+}
+
+/**
+ * Maximum number of record errors kept in a report
+ */
+export const MAX_REPORTED_ERRORS = 100;
+
+/**
+ * Structural schema of an export bundle. Records are validated one by one
+ * afterwards so that a single bad row does not reject the whole file.
+ */
+export const ImportBundleSchema = z.object({
+  schema: z.literal(EXPORT_SCHEMA_TAG),
+  formatVersion: z.number().int().min(1).max(EXPORT_FORMAT_VERSION),
+  databaseVersion: z.number().int().min(1).max(DATABASE_VERSION),
+  exportedAt: z.string(),
+  config: z.unknown(),
+  tables: z.object({
+    eventslog: z.array(z.unknown()),
+    aggregatedstats: z.array(z.unknown()),
+  }),
+});
+
+export type ImportBundle = z.infer<typeof ImportBundleSchema>;
+
+/**
+ * Identity of an event across databases, since auto-increment IDs are not portable
+ */
+function getEventFingerprint(event: EventsLogRecord): string {
+  return [event.visitId, event.activityId ?? '', event.eventType, event.timestamp].join('|');
+}
+
+/**
+ * Import Service Class
+ */
+export class ImportService {
+  private static readonly logger = createLogger('📥 ImportService');
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Parse and structurally validate an export bundle
+   *
+   * @param input - Bundle as JSON text or already parsed value
+   * @returns The parsed bundle
+   * @throws {ValidationError} If the input is not a supported export bundle
+   */
+  static parseBundle(input: string | unknown): ImportBundle {
+    let raw: unknown = input;
+    if (typeof input === 'string') {
+      try {
+        raw = JSON.parse(input);
+      } catch {
+        throw new ValidationError('Import file is not valid JSON');
+      }
+    }
+
+    const result = ImportBundleSchema.safeParse(raw);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ValidationError(
+        `Unsupported export bundle: ${issue.message}`,
+        issue.path.join('.') || undefined
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Import a bundle, or report what an import would change when `dryRun` is set
+   *
+   * @param input - Bundle as JSON text or already parsed value
+   * @param options - Merge strategy and dry-run flag
+   * @returns Report of inserted, merged, duplicate and invalid records
+   * @throws {ValidationError} If the input is not a supported export bundle
+   */
+  async importBundle(input: string | unknown, options: ImportOptions): Promise<ImportReport> {
+    const startTime = performance.now();
+    const { strategy, dryRun = false } = options;
+    const bundle = ImportService.parseBundle(input);
+    const errors: ImportRecordError[] = [];
+
+    const events = this.validateRecords(bundle.tables.eventslog, EventsLogSchema, 'eventslog', errors);
+    const stats = this.validateRecords(
+      bundle.tables.aggregatedstats,
+      AggregatedStatsSchema,
+      'aggregatedstats',
+      errors
+    );
+
+    const report: ImportReport = {
+      dryRun,
+      strategy,
+      sourceDatabaseVersion: bundle.databaseVersion,
+      exportedAt: bundle.exportedAt,
+      events: {
+        total: bundle.tables.eventslog.length,
+        invalid: bundle.tables.eventslog.length - events.length,
+        inserted: 0,
+        duplicates: 0,
+      },
+      stats: {
+        total: bundle.tables.aggregatedstats.length,
+        invalid: bundle.tables.aggregatedstats.length - stats.length,
+        inserted: 0,
+        merged: 0,
+      },
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    };
+
+    const apply = async () => {
+      const newEvents = await this.findNewEvents(events);
+      const { records, inserted, merged } = await this.mergeStats(stats, strategy);
+
+      report.events.inserted = newEvents.length;
+      report.events.duplicates = events.length - newEvents.length;
+      report.stats.inserted = inserted;
+      report.stats.merged = merged;
+
+      if (!dryRun) {
+        await this.databaseService.bulkAddEvents(newEvents);
+        await this.databaseService.bulkPutStats(records);
+      }
+    };
+
+    if (dryRun) {
+      await apply();
+    } else {
+      await this.databaseService.runInTransaction(apply);
+    }
+
+    ImportService.logger.info(dryRun ? 'Import dry run completed' : 'Import completed', {
+      strategy,
+      events: report.events,
+      stats: report.stats,
+      executionTime: `${(performance.now() - startTime).toFixed(2)}ms`,
+    });
+
+    return report;
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  private validateRecords<T>(
+    records: unknown[],
+    schema: z.ZodType<T>,
+    table: ExportTableName,
+    errors: ImportRecordError[]
+  ): T[] {
+    const valid: T[] = [];
+    records.forEach((record, index) => {
+      const result = schema.safeParse(record);
+      if (result.success) {
+        valid.push(result.data);
+      } else {
+        errors.push({
+          table,
+          index,
+          message: result.error.issues
+            .map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`)
+            .join('; '),
+        });
+      }
+    });
+    return valid;
+  }
+
+  /**
+   * Drop events that already exist locally or appear twice in the bundle
+   */
+  private async findNewEvents(events: EventsLogRecord[]): Promise<EventsLogRecord[]> {
+    const visitIds = [...new Set(events.map(event => event.visitId))];
+    const existing = await this.databaseService.getEventsByVisitIds(visitIds);
+    const seen = new Set(existing.map(getEventFingerprint));
+
+    return events.filter(event => {
+      const fingerprint = getEventFingerprint(event);
+      if (seen.has(fingerprint)) return false;
+      seen.add(fingerprint);
+      return true;
+    });
+  }
+
+  /**
+   * Combine imported stats with existing rows according to the strategy
+   */
+  private async mergeStats(
+    stats: AggregatedStatsRecord[],
+    strategy: ImportMergeStrategy
+  ): Promise<{ records: AggregatedStatsRecord[]; inserted: number; merged: number }> {
+    // Collapse repeated keys inside the bundle first
+    const incoming = new Map<string, AggregatedStatsRecord>();
+    for (const stat of stats) {
+      const previous = incoming.get(stat.key);
+      incoming.set(
+        stat.key,
+        previous && strategy === 'sum' ? this.sumStats(previous, stat) : stat
+      );
+    }
+
+    const keys = [...incoming.keys()];
+    const existing = await this.databaseService.getStatsByKeys(keys);
+
+    let inserted = 0;
+    let merged = 0;
+    const records = keys.map((key, index) => {
+      const imported = incoming.get(key)!;
+      const current = existing[index];
+      if (!current) {
+        inserted++;
+        return imported;
+      }
+      merged++;
+      return strategy === 'sum' ? this.sumStats(current, imported) : imported;
+    });
+
+    return { records, inserted, merged };
+  }
+
+  private sumStats(
+    base: AggregatedStatsRecord,
+    addition: AggregatedStatsRecord
+  ): AggregatedStatsRecord {
+    return {
+      ...base,
+      total_open_time: base.total_open_time + addition.total_open_time,
+      total_active_time: base.total_active_time + addition.total_active_time,
+      visit_count: base.visit_count + addition.visit_count,
+      active_session_count: base.active_session_count + addition.active_session_count,
+      first_seen: earliestSeen(base.first_seen, addition.first_seen),
+      last_seen: latestSeen(base.last_seen, addition.last_seen),
+    };
+  }
+}
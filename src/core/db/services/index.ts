@@ -13,6 +13,30 @@ export {
   type DatabaseHealthInfo,
 } from './database.service';
 
+export {
+  ExportService,
+  EXPORT_SCHEMA_TAG,
+  EXPORT_FORMAT_VERSION,
+  EXPORT_TABLES,
+  EVENTSLOG_CSV_COLUMNS,
+  AGGREGATEDSTATS_CSV_COLUMNS,
+  type ExportBundle,
+  type ExportFile,
+  type ExportFormat,
+  type ExportTableName,
+} from './export.service';
+
+export {
+  ImportService,
+  ImportBundleSchema,
+  MAX_REPORTED_ERRORS,
+  type ImportBundle,
+  type ImportMergeStrategy,
+  type ImportOptions,
+  type ImportRecordError,
+  type ImportReport,
+} from './import.service';
+
 export {
   ErrorHandlerService,
   errorHandlerService,
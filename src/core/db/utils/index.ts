@@ -9,7 +9,7 @@
 
 // Version Management Utilities
 export { VersionManagerUtil } from './version-manager.util';
-export type { VersionManagerOptions } from './version-manager.util';
+export type { VersionManagerOptions, MigrationProgressListener } from './version-manager.util';
 
 // URL Normalization Utilities
 export {
@@ -17,15 +17,37 @@ export {
   isAllowedQueryParam,
   getNormalizationStats,
   ALLOWED_QUERY_PARAMS,
+  setActiveUrlFilteringConfig,
+  getActiveUrlFilteringConfig,
 } from './url-normalizer.util';
 export type { UrlNormalizationOptions } from './url-normalizer.util';
 
+// Per-site URL Normalization Rules
+export {
+  findUrlNormalizationRule,
+  collapsePathSegments,
+  applyFragmentMode,
+} from './url-rules.util';
+
+// Rollup Range Planning
+export { planRollupRange, summarizeSiteTotals } from './rollup-range.util';
+export type {
+  DateSpan,
+  DatedTime,
+  RollupRangePlan,
+  SiteTotal,
+  SiteTotals,
+} from './rollup-range.util';
+
 // Re-export common types and interfaces
 export type {
   VersionInfo,
   VersionComparison,
   UtilityOptions,
   UtilityErrorType,
+  MigrationPhase,
+  MigrationProgress,
+  MigrationBackup,
 } from './types';
 export { UtilityError } from './types';
 
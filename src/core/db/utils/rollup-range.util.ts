@@ -0,0 +1,279 @@
+/**
+ * Rollup Range Utilities
+ *
+ * Splits a date range into the calendar months and ISO weeks it fully covers,
+ * which are read from the rollup tables, and the remaining days, which are read
+ * from the daily aggregated stats. Summing the parts gives the range's totals
+ * from a few rows per site, however long the range is.
+ */
+
+import {
+  addDays,
+  addMonths,
+  endOfISOWeek,
+  format,
+  getISODay,
+  isLastDayOfMonth,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+} from 'date-fns';
+import type { AggregatedStatsRecord } from '../schemas/aggregatedstats.schema';
+import {
+  countRollupDays,
+  type RollupGranularity,
+  type RollupStatsRecord,
+} from '../schemas/rollupstats.schema';
+
+/**
+ * Inclusive range of dates in YYYY-MM-DD format
+ */
+export interface DateSpan {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Parts of a date range by the table that serves them
+ */
+export interface RollupRangePlan {
+  /** Full calendar months of the range, read from monthlystats */
+  months: DateSpan | null;
+
+  /** Full ISO weeks outside the months, read from weeklystats */
+  weeks: DateSpan[];
+
+  /** Remaining days, read from aggregatedstats */
+  days: DateSpan[];
+}
+
+/**
+ * Time summed over a site within a date range
+ *
+ * @property {string} site - The parent domain or hostname.
+ * @property {string} parentDomain - The parent domain of the site.
+ * @property {number} openTime - Summed open time in milliseconds.
+ * @property {number} activeTime - Summed active time in milliseconds.
+ * @property {number} countedOpenTime - Open time of the days that have visit counts.
+ * @property {number} visitCount - Summed visit count.
+ * @property {number} activeSessionCount - Summed active session count.
+ * @property {number} days - Number of distinct days with data.
+ * @property {number} hostnames - Number of distinct hostnames (0 for hostname totals).
+ */
+export interface SiteTotal {
+  site: string;
+  parentDomain: string;
+  openTime: number;
+  activeTime: number;
+  countedOpenTime: number;
+  visitCount: number;
+  activeSessionCount: number;
+  days: number;
+  hostnames: number;
+}
+
+/**
+ * Site totals of a date range at both levels of the site hierarchy
+ */
+export interface SiteTotals {
+  parentDomains: SiteTotal[];
+  hostnames: SiteTotal[];
+}
+
+/**
+ * Time of one day, or of a whole period dated by its first day
+ */
+export type DatedTime = Pick<
+  AggregatedStatsRecord,
+  'date' | 'total_open_time' | 'total_active_time'
+>;
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function toDate(date: Date): string {
+  return format(date, DATE_FORMAT);
+}
+
+/**
+ * Splits a span into the block of whole periods it covers and the days around it
+ */
+function splitSpan(
+  span: DateSpan,
+  granularity: RollupGranularity
+): { periods: DateSpan | null; rest: DateSpan[] } {
+  const start = parseISO(span.startDate);
+  const end = parseISO(span.endDate);
+
+  let firstStart: Date;
+  let lastEnd: Date;
+  if (granularity === 'month') {
+    firstStart = start.getDate() === 1 ? start : addMonths(startOfMonth(start), 1);
+    lastEnd = isLastDayOfMonth(end) ? end : addDays(startOfMonth(end), -1);
+  } else {
+    firstStart = getISODay(start) === 1 ? start : addDays(startOfISOWeek(start), 7);
+    lastEnd = getISODay(end) === 7 ? end : addDays(endOfISOWeek(end), -7);
+  }
+
+  if (lastEnd < firstStart) {
+    return { periods: null, rest: [span] };
+  }
+
+  const rest: DateSpan[] = [];
+  if (firstStart > start) {
+    rest.push({ startDate: span.startDate, endDate: toDate(addDays(firstStart, -1)) });
+  }
+  if (lastEnd < end) {
+    rest.push({ startDate: toDate(addDays(lastEnd, 1)), endDate: span.endDate });
+  }
+
+  return { periods: { startDate: toDate(firstStart), endDate: toDate(lastEnd) }, rest };
+}
+
+/**
+ * Split a date range into full months, full ISO weeks and remaining days
+ *
+ * The months form one block in the middle of the range; the weeks and days
+ * fill the partial months at either end.
+ *
+ * @param startDate - Start date in YYYY-MM-DD format (inclusive)
+ * @param endDate - End date in YYYY-MM-DD format (inclusive)
+ * @param granularities - Rollup tables to use (defaults to both)
+ * @returns Non-overlapping parts that together cover the range
+ */
+export function planRollupRange(
+  startDate: string,
+  endDate: string,
+  granularities: readonly RollupGranularity[] = ['month', 'week']
+): RollupRangePlan {
+  const plan: RollupRangePlan = { months: null, weeks: [], days: [] };
+  if (endDate < startDate) {
+    return plan;
+  }
+
+  let spans: DateSpan[] = [{ startDate, endDate }];
+
+  if (granularities.includes('month')) {
+    const { periods, rest } = splitSpan(spans[0], 'month');
+    plan.months = periods;
+    spans = rest;
+  }
+
+  for (const span of spans) {
+    if (!granularities.includes('week')) {
+      plan.days.push(span);
+      continue;
+    }
+    const { periods, rest } = splitSpan(span, 'week');
+    if (periods) {
+      plan.weeks.push(periods);
+    }
+    plan.days.push(...rest);
+  }
+
+  return plan;
+}
+
+interface SiteAccumulator {
+  total: SiteTotal;
+  masks: Map<string, number>;
+  dates: Set<string>;
+  hostnames: Set<string>;
+}
+
+function accumulate(
+  groups: Map<string, SiteAccumulator>,
+  site: string,
+  parentDomain: string,
+  time: Omit<SiteTotal, 'site' | 'parentDomain' | 'days' | 'hostnames'>
+): SiteAccumulator {
+  let group = groups.get(site);
+  if (!group) {
+    group = {
+      total: {
+        site,
+        parentDomain,
+        openTime: 0,
+        activeTime: 0,
+        countedOpenTime: 0,
+        visitCount: 0,
+        activeSessionCount: 0,
+        days: 0,
+        hostnames: 0,
+      },
+      masks: new Map(),
+      dates: new Set(),
+      hostnames: new Set(),
+    };
+    groups.set(site, group);
+  }
+
+  group.total.openTime += time.openTime;
+  group.total.activeTime += time.activeTime;
+  group.total.countedOpenTime += time.countedOpenTime;
+  group.total.visitCount += time.visitCount;
+  group.total.activeSessionCount += time.activeSessionCount;
+  return group;
+}
+
+function finish(groups: Map<string, SiteAccumulator>): SiteTotal[] {
+  return [...groups.values()].map(({ total, masks, dates, hostnames }) => {
+    let days = dates.size;
+    for (const mask of masks.values()) {
+      days += countRollupDays(mask);
+    }
+    return { ...total, days, hostnames: hostnames.size };
+  });
+}
+
+/**
+ * Sum the rollups and daily rows of a planned range by parent domain and by hostname
+ *
+ * Days are counted exactly: day masks of the same period are OR-ed across the
+ * hostnames of a parent domain, and the parts of a plan never overlap.
+ *
+ * @param rollups - Weekly and monthly rollups of the planned periods
+ * @param stats - Daily rows of the planned days
+ * @returns Unsorted totals per parent domain and per hostname
+ */
+export function summarizeSiteTotals(
+  rollups: readonly RollupStatsRecord[],
+  stats: readonly AggregatedStatsRecord[]
+): SiteTotals {
+  const parentDomains = new Map<string, SiteAccumulator>();
+  const hostnames = new Map<string, SiteAccumulator>();
+
+  for (const rollup of rollups) {
+    const time = {
+      openTime: rollup.total_open_time,
+      activeTime: rollup.total_active_time,
+      countedOpenTime: rollup.counted_open_time,
+      visitCount: rollup.visit_count,
+      activeSessionCount: rollup.active_session_count,
+    };
+
+    const domain = accumulate(parentDomains, rollup.parentDomain, rollup.parentDomain, time);
+    domain.masks.set(rollup.period, (domain.masks.get(rollup.period) ?? 0) | rollup.day_mask);
+    domain.hostnames.add(rollup.hostname);
+
+    const host = accumulate(hostnames, rollup.hostname, rollup.parentDomain, time);
+    host.masks.set(rollup.period, (host.masks.get(rollup.period) ?? 0) | rollup.day_mask);
+  }
+
+  for (const stat of stats) {
+    const time = {
+      openTime: stat.total_open_time,
+      activeTime: stat.total_active_time,
+      countedOpenTime: stat.visit_count > 0 ? stat.total_open_time : 0,
+      visitCount: stat.visit_count,
+      activeSessionCount: stat.active_session_count,
+    };
+
+    const domain = accumulate(parentDomains, stat.parentDomain, stat.parentDomain, time);
+    domain.dates.add(stat.date);
+    domain.hostnames.add(stat.hostname);
+
+    accumulate(hostnames, stat.hostname, stat.parentDomain, time).dates.add(stat.date);
+  }
+
+  return { parentDomains: finish(parentDomains), hostnames: finish(hostnames) };
+}
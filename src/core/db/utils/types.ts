@@ -61,6 +61,52 @@ export interface VersionInfo {
   }>;
 }
 
+/**
+ * Stage of a schema upgrade
+ *
+ * - backedUp: the data was copied to the backup database before upgrading
+ * - upgrading / upgraded: a version's upgrade function started / finished
+ * - failed: the upgrade was aborted
+ * - rolledBack: the database is back at its previous version with its data
+ */
+export type MigrationPhase = 'backedUp' | 'upgrading' | 'upgraded' | 'failed' | 'rolledBack';
+
+/**
+ * Progress report of a schema upgrade
+ */
+export interface MigrationProgress {
+  phase: MigrationPhase;
+  /** Version the database had before the upgrade, if known */
+  fromVersion?: number;
+  /** Version being upgraded to */
+  version: number;
+  /** Description of the version being upgraded to */
+  description?: string;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  error?: string;
+}
+
+/**
+ * Pre-upgrade copy of the database, kept in a separate database
+ */
+export interface MigrationBackup {
+  /** Name of the backup database */
+  name: string;
+  /** Name of the backed-up database */
+  databaseName: string;
+  /** Version the backed-up database had */
+  fromVersion: number;
+  /** Version the upgrade leads to */
+  toVersion: number;
+  /** Store declarations of that version, to recreate it on restore */
+  stores: Record<string, string>;
+  /** Number of rows copied per table */
+  counts: Record<string, number>;
+  /** Unix timestamp in milliseconds */
+  createdAt: number;
+}
+
 /**
  * Database health status levels
  */
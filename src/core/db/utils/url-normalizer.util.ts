@@ -11,6 +11,13 @@
 
 // Removed query-string dependency for better performance
 
+import {
+  DEFAULT_CONFIG,
+  type UrlFilteringConfig,
+  type UrlNormalizationRule,
+} from '@/config/constants';
+import { applyFragmentMode, collapsePathSegments, findUrlNormalizationRule } from './url-rules.util';
+
 /**
  * Business-relevant query parameters that should be preserved
  * These parameters affect the actual content or functionality of the page
@@ -68,10 +75,13 @@ const ALLOWED_PARAMS_SET = new Set(ALLOWED_QUERY_PARAMS);
 
 /**
  * Configuration options for URL normalization
+ *
+ * Options left out follow the active URL filtering config, so the tracker and
+ * the stats keys agree unless a caller deliberately overrides them.
  */
 export interface UrlNormalizationOptions {
   /**
-   * Whether to preserve fragment identifiers (hash)
+   * Whether to preserve fragment identifiers (hash) on sites without a rule
    * @default false
    */
   preserveFragment?: boolean;
@@ -82,19 +92,62 @@ export interface UrlNormalizationOptions {
    */
   additionalAllowedParams?: readonly string[];
 
+  /**
+   * Parameters to remove even if they are whitelisted
+   * @default getActiveUrlFilteringConfig().ignoredQueryParams
+   */
+  ignoredQueryParams?: readonly string[];
+
   /**
    * Whether to sort query parameters alphabetically
-   * @default false
+   * @default true
    */
   sortParams?: boolean;
+
+  /**
+   * Per-site rules to apply
+   * @default getActiveUrlFilteringConfig().siteRules
+   */
+  rules?: readonly UrlNormalizationRule[];
 }
 
+let activeConfig: UrlFilteringConfig = DEFAULT_CONFIG.urlFiltering;
+
 /**
- * Normalizes a URL by filtering query parameters using a hybrid strategy
+ * Sets the URL filtering config that normalization follows by default
+ *
+ * The background registers the user's config at startup and on every change.
  *
- * This function removes known marketing/tracking parameters (blacklist) while
- * preserving business-relevant parameters, providing optimal performance
- * through native URL APIs and Set-based lookups.
+ * @param config - The user's URL filtering config
+ */
+export function setActiveUrlFilteringConfig(config: UrlFilteringConfig): void {
+  activeConfig = config;
+}
+
+/**
+ * Gets the URL filtering config that normalization follows by default
+ *
+ * @returns The registered config, or the defaults if none was registered
+ */
+export function getActiveUrlFilteringConfig(): UrlFilteringConfig {
+  return activeConfig;
+}
+
+/**
+ * Normalizes a URL into the form used to record and key it
+ *
+ * This is the single normalization pipeline: the tracker records URLs in this
+ * form and `generateAggregatedStatsKey` keys stats by it, so the same page gets
+ * the same key whichever path it took. The output is canonical and stable:
+ * normalizing a normalized URL returns it unchanged.
+ *
+ * Steps, in order:
+ * 1. Lowercase the hostname and path
+ * 2. Keep query parameters the site rule keeps; drop ignored parameters and
+ *    those the site rule drops; keep the rest only if whitelisted
+ * 3. Collapse variable path segments of the site rule
+ * 4. Strip the fragment, unless the site rule or `preserveFragment` keeps it
+ * 5. Sort the remaining query parameters
  *
  * @param url - The URL to normalize
  * @param options - Configuration options for normalization
@@ -113,7 +166,7 @@ export interface UrlNormalizationOptions {
  * const normalizedUrl = normalizeUrl(urlWithCustomParams, {
  *   additionalAllowedParams: ['custom_param']
  * });
- * // Result: 'https://example.com/page?id=123&custom_param=value'
+ * // Result: 'https://example.com/page?custom_param=value&id=123'
  * ```
  */
 export function normalizeUrl(url: string, options: UrlNormalizationOptions = {}): string {
@@ -133,20 +186,31 @@ export function normalizeUrl(url: string, options: UrlNormalizationOptions = {})
   parsedUrl.hostname = parsedUrl.hostname.toLowerCase();
   parsedUrl.pathname = parsedUrl.pathname.toLowerCase();
 
-  const { preserveFragment = false, additionalAllowedParams = [], sortParams = false } = options;
+  const {
+    preserveFragment = false,
+    additionalAllowedParams = [],
+    ignoredQueryParams = activeConfig.ignoredQueryParams,
+    sortParams = true,
+    rules = activeConfig.siteRules,
+  } = options;
+  const rule = findUrlNormalizationRule(parsedUrl.hostname, rules);
 
   // Create additional allowed params set only if needed
   const hasAdditionalParams = additionalAllowedParams.length > 0;
   const additionalParamsSet = hasAdditionalParams ? new Set(additionalAllowedParams) : null;
-
-  // Track if any parameters were removed
-  let hasChanges = false;
+  const ignoredParamsSet = new Set(ignoredQueryParams);
 
   // Remove parameters that are not in the allowed list (direct iteration)
   const paramsToDelete: string[] = [];
   for (const [paramName] of parsedUrl.searchParams) {
+    if (rule?.keepParams.includes(paramName)) {
+      continue;
+    }
+
     const isAllowed =
-      ALLOWED_PARAMS_SET.has(paramName) || (additionalParamsSet?.has(paramName) ?? false);
+      !ignoredParamsSet.has(paramName) &&
+      !(rule?.dropParams.includes(paramName) ?? false) &&
+      (ALLOWED_PARAMS_SET.has(paramName) || (additionalParamsSet?.has(paramName) ?? false));
 
     if (!isAllowed) {
       paramsToDelete.push(paramName);
@@ -154,47 +218,33 @@ export function normalizeUrl(url: string, options: UrlNormalizationOptions = {})
   }
 
   // Delete parameters in separate loop to avoid iterator issues
-  if (paramsToDelete.length > 0) {
-    for (const paramName of paramsToDelete) {
-      parsedUrl.searchParams.delete(paramName);
-    }
-    hasChanges = true;
+  for (const paramName of paramsToDelete) {
+    parsedUrl.searchParams.delete(paramName);
   }
 
-  // Handle fragment preservation
-  if (!preserveFragment) {
-    if (parsedUrl.hash) {
-      parsedUrl.hash = '';
-      hasChanges = true;
-    }
+  // Collapse variable path segments, e.g. /issues/123 -> /issues/:id
+  if (rule && rule.pathPatterns.length > 0) {
+    parsedUrl.pathname = collapsePathSegments(parsedUrl.pathname, rule.pathPatterns);
+  }
+
+  // Handle fragment preservation; a site rule decides for its site
+  if (rule) {
+    parsedUrl.hash = applyFragmentMode(parsedUrl.hash, rule.fragment);
+  } else if (!preserveFragment) {
+    parsedUrl.hash = '';
   }
 
   // Sort parameters if requested (optimized)
   if (sortParams && parsedUrl.searchParams.size > 0) {
-    const sortedParams = new URLSearchParams();
-    // Direct iteration without Array.from conversion
-    const entries: [string, string][] = [];
-    for (const [key, value] of parsedUrl.searchParams) {
-      entries.push([key, value]);
-    }
-    entries.sort(([a], [b]) => a.localeCompare(b));
-
-    for (const [key, value] of entries) {
-      sortedParams.append(key, value);
-    }
-
-    parsedUrl.search = sortedParams.toString();
-    hasChanges = true;
+    parsedUrl.searchParams.sort();
   }
 
   // Clean up empty query string
-  if (parsedUrl.search === '?' || parsedUrl.searchParams.size === 0) {
+  if (parsedUrl.searchParams.size === 0) {
     parsedUrl.search = '';
-    hasChanges = true;
   }
 
-  // Return original URL if no changes were made (performance optimization)
-  return hasChanges ? parsedUrl.toString() : url;
+  return parsedUrl.toString();
 }
 
 /**
@@ -0,0 +1,118 @@
+/**
+ * Per-site URL Normalization Rules
+ *
+ * This module matches URLs to the user's per-hostname normalization rules and
+ * applies the parts of a rule that go beyond the global query parameter lists:
+ * collapsing variable path segments and deciding what happens to fragments.
+ */
+
+import type { UrlFragmentMode, UrlNormalizationRule } from '@/config/constants';
+
+function stripWww(hostname: string): string {
+  return hostname
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, '');
+}
+
+/**
+ * Finds the rule for a hostname
+ *
+ * An exact hostname rule wins; otherwise the wildcard rule with the longest
+ * matching domain is used.
+ *
+ * @param hostname - Hostname of the URL being normalized
+ * @param rules - Rules to search
+ * @returns The matching rule, or undefined if none matches
+ */
+export function findUrlNormalizationRule(
+  hostname: string,
+  rules: readonly UrlNormalizationRule[]
+): UrlNormalizationRule | undefined {
+  const host = stripWww(hostname);
+  let wildcardMatch: UrlNormalizationRule | undefined;
+  let wildcardLength = -1;
+
+  for (const rule of rules) {
+    const pattern = stripWww(rule.hostname);
+
+    if (!pattern.startsWith('*.')) {
+      if (pattern === host) return rule;
+      continue;
+    }
+
+    const domain = pattern.slice(2);
+    if ((host === domain || host.endsWith(`.${domain}`)) && domain.length > wildcardLength) {
+      wildcardMatch = rule;
+      wildcardLength = domain.length;
+    }
+  }
+
+  return wildcardMatch;
+}
+
+/**
+ * Collapses variable path segments using the first matching pattern
+ *
+ * Patterns match a prefix of the path segment by segment: literal segments
+ * must be equal (case-insensitive), `:name` matches any segment and replaces
+ * it, and `*` matches any segment and keeps it. Segments after the prefix are
+ * kept as they are.
+ *
+ * @param pathname - URL path, starting with `/`
+ * @param patterns - Patterns such as `/issues/:id`, tried in order
+ * @returns The collapsed path, or the original path if no pattern matches
+ *
+ * @example
+ * ```typescript
+ * collapsePathSegments('/issues/42/comments', ['/issues/:id']);
+ * // Result: '/issues/:id/comments'
+ * ```
+ */
+export function collapsePathSegments(pathname: string, patterns: readonly string[]): string {
+  const segments = pathname.split('/').slice(1);
+
+  for (const pattern of patterns) {
+    const patternSegments = pattern.trim().toLowerCase().split('/').filter(Boolean);
+    if (patternSegments.length === 0 || patternSegments.length > segments.length) continue;
+
+    const collapsed = [...segments];
+    const matches = patternSegments.every((patternSegment, index) => {
+      const segment = segments[index];
+      if (patternSegment === '*') {
+        return segment.length > 0;
+      }
+      if (patternSegment.startsWith(':')) {
+        collapsed[index] = patternSegment;
+        return segment.length > 0;
+      }
+      return segment.toLowerCase() === patternSegment;
+    });
+
+    if (matches) {
+      return `/${collapsed.join('/')}`;
+    }
+  }
+
+  return pathname;
+}
+
+/**
+ * Applies a fragment mode to a URL hash
+ *
+ * @param hash - URL hash including `#`, or an empty string
+ * @param mode - How the rule treats fragments
+ * @returns The hash to keep, or an empty string to drop it
+ */
+export function applyFragmentMode(hash: string, mode: UrlFragmentMode): string {
+  switch (mode) {
+    case 'keep':
+      return hash;
+    case 'hashRoute':
+      // SPA routes look like paths; in-page anchors such as `#section-2` are dropped
+      return /^#!?\//.test(hash) ? hash : '';
+    case 'strip':
+    default:
+      return '';
+  }
+}
@@ -7,11 +7,22 @@
  * @module db/utils/version-manager
  */
 
+import Dexie, { type IndexableType, type Table } from 'dexie';
+import { createLogger } from '@/utils/logger';
 import type { WebTimeTrackerDB } from '../schemas';
-import { DATABASE_VERSION } from '../schemas';
-import type { VersionInfo, VersionComparison, UtilityOptions } from './types';
+import { DATABASE_VERSION, SCHEMA_MIGRATIONS, type SchemaMigration } from '../schemas/migrations';
+import type {
+  VersionInfo,
+  VersionComparison,
+  UtilityOptions,
+  MigrationBackup,
+  MigrationProgress,
+} from './types';
 import { UtilityError, UtilityErrorType } from './types';
 
+/** Rows read and written per page when copying to or from the backup database */
+const BACKUP_CHUNK_SIZE = 1000;
+
 /**
  * Version manager configuration options
  */
@@ -24,6 +35,11 @@ export interface VersionManagerOptions extends UtilityOptions {
   migrationHandlers?: Map<number, (db: WebTimeTrackerDB) => Promise<void>>;
 }
 
+/**
+ * Receives the progress reports of schema upgrades
+ */
+export type MigrationProgressListener = (progress: MigrationProgress) => void;
+
 /**
  * Database Version Manager Utility Class
  *
@@ -31,6 +47,10 @@ export interface VersionManagerOptions extends UtilityOptions {
  * including checking, comparing, and upgrading database schemas.
  */
 export class VersionManagerUtil {
+  private static readonly logger = createLogger('🗄️ VersionManager');
+  private static readonly progressListeners = new Set<MigrationProgressListener>();
+  private static migrationLog: MigrationProgress[] = [];
+
   /**
    * Get current database version information
    *
@@ -196,12 +216,8 @@ export class VersionManagerUtil {
    * @returns Version description
    */
   private static getVersionDescription(version: number): string {
-    const descriptions: Record<number, string> = {
-      1: 'Initial database schema with eventslog and aggregatedstats tables',
-      // Add more version descriptions as the schema evolves
-    };
-
-    return descriptions[version] || `Database version ${version}`;
+    const migration = SCHEMA_MIGRATIONS.find(candidate => candidate.version === version);
+    return migration?.description || `Database version ${version}`;
   }
 
   /**
@@ -268,4 +284,280 @@ export class VersionManagerUtil {
       return 'future';
     }
   }
+
+  // ============================================================================
+  // Schema Migrations
+  // ============================================================================
+
+  /**
+   * Declares the schema versions on a database, reporting upgrade progress
+   *
+   * @param db - Database to declare the versions on, before it is opened
+   * @param migrations - Schema versions, oldest first
+   */
+  static declareMigrations(db: Dexie, migrations: readonly SchemaMigration[]): void {
+    for (const migration of migrations) {
+      const version = db.version(migration.version).stores(migration.stores);
+      const { upgrade } = migration;
+      if (!upgrade) continue;
+
+      const step = { version: migration.version, description: migration.description };
+      version.upgrade(async tx => {
+        this.reportMigrationProgress({ ...step, phase: 'upgrading' });
+        try {
+          await upgrade(tx);
+        } catch (error) {
+          this.reportMigrationProgress({
+            ...step,
+            phase: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+        this.reportMigrationProgress({ ...step, phase: 'upgraded' });
+      });
+    }
+  }
+
+  /**
+   * Subscribes to schema upgrade progress
+   *
+   * @param listener - Called synchronously for every report
+   * @returns Function that unsubscribes the listener
+   */
+  static onMigrationProgress(listener: MigrationProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reports schema upgrade progress to the log and all listeners
+   *
+   * Synchronous, so it can be called inside an upgrade transaction.
+   *
+   * @param progress - Progress to report; the timestamp is added
+   */
+  static reportMigrationProgress(progress: Omit<MigrationProgress, 'timestamp'>): void {
+    const report: MigrationProgress = { ...progress, timestamp: Date.now() };
+    this.migrationLog.push(report);
+
+    if (report.phase === 'failed') {
+      this.logger.error('Schema migration failed', report);
+    } else {
+      this.logger.info(`Schema migration ${report.phase}`, report);
+    }
+
+    for (const listener of this.progressListeners) {
+      try {
+        listener(report);
+      } catch (error) {
+        this.logger.warn('Migration progress listener failed', { error });
+      }
+    }
+  }
+
+  /**
+   * Gets the progress reports of this session, oldest first
+   */
+  static getMigrationLog(): MigrationProgress[] {
+    return [...this.migrationLog];
+  }
+
+  /**
+   * Copies the stored data to a backup database if opening `db` will transform it
+   *
+   * Upgrades that only add tables or indexes cannot lose data and are not
+   * backed up. Call before opening the database.
+   *
+   * @param db - Database about to be opened
+   * @param options - Version manager options; `backupBeforeUpgrade: false` skips the backup
+   * @returns The backup, or null if none was needed
+   */
+  static async backupBeforeUpgrade(
+    db: WebTimeTrackerDB,
+    options: VersionManagerOptions = {}
+  ): Promise<MigrationBackup | null> {
+    if (options.backupBeforeUpgrade === false || !(await Dexie.exists(db.name))) {
+      return null;
+    }
+
+    // Opened without a schema, so it keeps the stored version
+    const stored = new Dexie(db.name);
+    try {
+      await stored.open();
+      const pendingUpgrade = db.migrations.some(
+        migration => migration.version > stored.verno && migration.upgrade
+      );
+      const toVersion = db.migrations[db.migrations.length - 1].version;
+      return pendingUpgrade ? await this.createBackup(stored, toVersion) : null;
+    } catch (error) {
+      throw new UtilityError(
+        UtilityErrorType.MIGRATION_FAILED,
+        `Failed to back up database before upgrade: ${(error as Error).message}`,
+        { error }
+      );
+    } finally {
+      stored.close();
+    }
+  }
+
+  /**
+   * Makes sure a database whose upgrade failed is back at its previous state
+   *
+   * An aborted upgrade normally leaves the old version and data in place; the
+   * backup is restored only if the stored database no longer matches it.
+   *
+   * @param backup - Backup taken before the upgrade
+   * @returns True if the backup had to be restored
+   */
+  static async rollbackUpgrade(backup: MigrationBackup): Promise<boolean> {
+    const stored = new Dexie(backup.databaseName);
+    let intact = false;
+    try {
+      await stored.open();
+      intact = stored.verno === backup.fromVersion;
+      for (const table of stored.tables) {
+        intact &&= (await table.count()) === (backup.counts[table.name] ?? 0);
+      }
+    } catch {
+      intact = false;
+    } finally {
+      stored.close();
+    }
+
+    if (!intact) {
+      await this.restoreBackup(backup);
+    }
+
+    this.reportMigrationProgress({
+      phase: 'rolledBack',
+      fromVersion: backup.fromVersion,
+      version: backup.toVersion,
+    });
+    return !intact;
+  }
+
+  /**
+   * Replaces a database with its backup, recreating the backed-up version
+   *
+   * @param backup - Backup to restore
+   */
+  static async restoreBackup(backup: MigrationBackup): Promise<void> {
+    const source = this.openBackupDatabase(backup.name);
+    const target = new Dexie(backup.databaseName);
+    target.version(backup.fromVersion).stores(backup.stores);
+
+    try {
+      await Dexie.delete(backup.databaseName);
+      await target.open();
+
+      await this.forEachPage(source.table('rows'), async rows => {
+        const byTable = new Map<string, unknown[]>();
+        for (const { table, record } of rows as { table: string; record: unknown }[]) {
+          if (!byTable.has(table)) {
+            byTable.set(table, []);
+          }
+          byTable.get(table)!.push(record);
+        }
+        for (const [tableName, records] of byTable) {
+          await target.table(tableName).bulkAdd(records);
+        }
+      });
+
+      this.logger.info('Restore database from backup', backup);
+    } finally {
+      target.close();
+      source.close();
+    }
+  }
+
+  /**
+   * Deletes a backup once the upgrade has succeeded
+   *
+   * @param backup - Backup to delete
+   */
+  static async discardBackup(backup: MigrationBackup): Promise<void> {
+    await Dexie.delete(backup.name);
+  }
+
+  private static async createBackup(stored: Dexie, toVersion: number): Promise<MigrationBackup> {
+    const backupName = `${stored.name}-backup`;
+    await Dexie.delete(backupName);
+    const backupDb = this.openBackupDatabase(backupName);
+
+    try {
+      const stores: Record<string, string> = {};
+      const counts: Record<string, number> = {};
+
+      for (const table of stored.tables) {
+        const { primKey, indexes } = table.schema;
+        stores[table.name] = [primKey, ...indexes].map(index => index.src).join(', ');
+
+        counts[table.name] = await this.forEachPage(table, records =>
+          backupDb.table('rows').bulkAdd(records.map(record => ({ table: table.name, record })))
+        );
+      }
+
+      const backup: MigrationBackup = {
+        name: backupName,
+        databaseName: stored.name,
+        fromVersion: stored.verno,
+        toVersion,
+        stores,
+        counts,
+        createdAt: Date.now(),
+      };
+      await backupDb.table('meta').put(backup);
+
+      this.reportMigrationProgress({
+        phase: 'backedUp',
+        fromVersion: backup.fromVersion,
+        version: toVersion,
+      });
+      return backup;
+    } finally {
+      backupDb.close();
+    }
+  }
+
+  /**
+   * Reads a table in primary key order, one page at a time, so that large
+   * tables are never held in memory at once
+   *
+   * @param table - Table to read
+   * @param onPage - Receives each page of records before the next is read
+   * @returns The number of records read
+   */
+  private static async forEachPage(
+    table: Table,
+    onPage: (records: unknown[]) => Promise<unknown>
+  ): Promise<number> {
+    let count = 0;
+    let lastKey: IndexableType | undefined;
+
+    while (true) {
+      const page = () =>
+        (lastKey === undefined ? table.toCollection() : table.where(':id').above(lastKey)).limit(
+          BACKUP_CHUNK_SIZE
+        );
+      const [keys, records] = await table.db.transaction('r', table, () =>
+        Promise.all([page().primaryKeys(), page().toArray()])
+      );
+      if (records.length === 0) {
+        return count;
+      }
+
+      await onPage(records);
+      count += records.length;
+      lastKey = keys[keys.length - 1];
+    }
+  }
+
+  private static openBackupDatabase(name: string): Dexie {
+    const backupDb = new Dexie(name);
+    backupDb.version(1).stores({ meta: 'name', rows: '++id, table' });
+    return backupDb;
+  }
 }
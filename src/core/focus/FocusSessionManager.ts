@@ -0,0 +1,231 @@
+import { browser, storage } from '#imports';
+import { type Browser } from 'wxt/browser';
+import { FOCUS_SESSION_ALARM_NAME, FOCUS_SESSION_KEY, FOCUS_SUMMARY_KEY } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { TimeTracker } from '@/core/tracker';
+import { createLogger } from '@/utils/logger';
+import { FocusSessionSummarizer } from './FocusSessionSummarizer';
+import type { FocusSession, FocusSessionSummary } from './types';
+
+/**
+ * Path of the bundled interstitial page shown for blocked distractions
+ */
+export const FOCUS_INTERSTITIAL_PATH = '/focus-blocked.html';
+
+/**
+ * Tracker capabilities the focus session manager relies on
+ */
+export type FocusTrackerHost = Pick<TimeTracker, 'endTabSession' | 'flushEvents'>;
+
+export interface FocusSessionManagerOptions {
+  /** Called after a session ended and its summary was stored */
+  onSessionEnded?: (summary: FocusSessionSummary) => void;
+  /** Called after a tab has been redirected to the interstitial page */
+  onTabBlocked?: (tabId: number, session: FocusSession) => void;
+}
+
+const sessionItem = storage.defineItem<FocusSession | null>(FOCUS_SESSION_KEY, {
+  fallback: null,
+});
+
+const summaryItem = storage.defineItem<FocusSessionSummary | null>(FOCUS_SUMMARY_KEY, {
+  fallback: null,
+});
+
+/**
+ * Runs focus (Pomodoro) sessions.
+ *
+ * The running session lives in storage and its end is scheduled with
+ * `browser.alarms`, so it survives the service worker being stopped. While a
+ * session runs, distracting pages are optionally redirected to an interstitial;
+ * when it ends, a summary is built from the event log.
+ */
+export class FocusSessionManager {
+  private static readonly logger = createLogger('🎯 FocusSessionManager');
+  private isListenerRegistered = false;
+
+  constructor(
+    private readonly summarizer: FocusSessionSummarizer,
+    private readonly tracker: FocusTrackerHost,
+    private readonly options: FocusSessionManagerOptions = {}
+  ) {
+    this.handleAlarm = this.handleAlarm.bind(this);
+  }
+
+  /**
+   * Build the interstitial page URL for a blocked page
+   */
+  static getInterstitialUrl(blockedUrl: string, session: FocusSession): string {
+    const params = new URLSearchParams({
+      url: blockedUrl,
+      endsAt: String(session.endsAt),
+    });
+    return `${browser.runtime.getURL(FOCUS_INTERSTITIAL_PATH)}?${params.toString()}`;
+  }
+
+  /**
+   * Register the session end alarm listener and finish a session that ran out
+   * while the extension was not running
+   */
+  async start(now: number = Date.now()): Promise<void> {
+    if (!this.isListenerRegistered) {
+      browser.alarms.onAlarm.addListener(this.handleAlarm);
+      this.isListenerRegistered = true;
+    }
+
+    const session = await sessionItem.getValue();
+    if (session && session.endsAt <= now) {
+      await this.endSession(now);
+    }
+    FocusSessionManager.logger.info('Focus session manager started');
+  }
+
+  /**
+   * Remove the alarm listener; a running session keeps its alarm
+   */
+  stop(): void {
+    if (this.isListenerRegistered) {
+      browser.alarms.onAlarm.removeListener(this.handleAlarm);
+      this.isListenerRegistered = false;
+    }
+    FocusSessionManager.logger.info('Focus session manager stopped');
+  }
+
+  /**
+   * Start a session using the site list and blocking choice from the focus config
+   *
+   * @param durationMinutes - Session length
+   * @returns The new session
+   * @throws Error if a session is already running
+   */
+  async startSession(durationMinutes: number, now: number = Date.now()): Promise<FocusSession> {
+    if (await this.getActiveSession(now)) {
+      throw new Error('A focus session is already running');
+    }
+
+    await configManager.initialize();
+    const { mode, sites, blockDistractions } = configManager.getConfig().focus;
+
+    const session: FocusSession = {
+      id: crypto.randomUUID(),
+      startedAt: now,
+      endsAt: now + durationMinutes * 60 * 1000,
+      mode,
+      sites: [...sites],
+      blockDistractions,
+    };
+    await sessionItem.setValue(session);
+    await browser.alarms.create(FOCUS_SESSION_ALARM_NAME, { when: session.endsAt });
+
+    FocusSessionManager.logger.info('Focus session started', session);
+
+    await this.checkActiveTabs(now);
+    return session;
+  }
+
+  /**
+   * End the running session and store its summary
+   *
+   * @returns The summary, or null if no session was running
+   */
+  async endSession(now: number = Date.now()): Promise<FocusSessionSummary | null> {
+    const session = await sessionItem.getValue();
+    if (!session) {
+      return null;
+    }
+
+    await sessionItem.setValue(null);
+    await browser.alarms.clear(FOCUS_SESSION_ALARM_NAME);
+
+    // Queued events of the session window must reach the event log first
+    await this.tracker.flushEvents();
+    const summary = await this.summarizer.summarize(session, Math.min(now, session.endsAt));
+    await summaryItem.setValue(summary);
+
+    FocusSessionManager.logger.info('Focus session ended', summary);
+    this.options.onSessionEnded?.(summary);
+    return summary;
+  }
+
+  /**
+   * Get the running session
+   *
+   * @returns The session, or null if none is running or it has run out
+   */
+  async getActiveSession(now: number = Date.now()): Promise<FocusSession | null> {
+    const session = await sessionItem.getValue();
+    return session && session.endsAt > now ? session : null;
+  }
+
+  /**
+   * Get the summary of the most recently finished session
+   */
+  async getLastSummary(): Promise<FocusSessionSummary | null> {
+    return summaryItem.getValue();
+  }
+
+  /**
+   * Check the active tab of every window
+   */
+  async checkActiveTabs(now: number = Date.now()): Promise<void> {
+    const tabs = await browser.tabs.query({ active: true });
+    for (const tab of tabs) {
+      if (tab.id !== undefined && tab.url) {
+        await this.checkTab(tab.id, tab.url, now);
+      }
+    }
+  }
+
+  /**
+   * Redirect a tab if it shows a distraction and the running session blocks them
+   *
+   * @returns Whether the tab was blocked
+   */
+  async checkTab(tabId: number, url: string, now: number = Date.now()): Promise<boolean> {
+    try {
+      const session = await this.getActiveSession(now);
+      if (!session?.blockDistractions || !FocusSessionSummarizer.isDistraction(url, session)) {
+        return false;
+      }
+
+      FocusSessionManager.logger.info('Distraction during focus session, redirecting tab', {
+        tabId,
+        url,
+      });
+
+      // The interstitial is an extension page, which the navigation listeners
+      // filter out, so close the tracked session explicitly.
+      await this.tracker.endTabSession(tabId, now, 'navigation');
+      await browser.tabs.update(tabId, {
+        url: FocusSessionManager.getInterstitialUrl(url, session),
+      });
+
+      this.options.onTabBlocked?.(tabId, session);
+      return true;
+    } catch (error) {
+      FocusSessionManager.logger.error('Failed to check tab for distractions', {
+        tabId,
+        url,
+        error,
+      });
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async handleAlarm(alarm: Browser.alarms.Alarm): Promise<void> {
+    if (alarm.name !== FOCUS_SESSION_ALARM_NAME) {
+      return;
+    }
+
+    FocusSessionManager.logger.debug('Focus session alarm fired');
+    try {
+      await this.endSession();
+    } catch (error) {
+      FocusSessionManager.logger.error('Failed to end focus session', { error });
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import type { EventsLogRecord } from '@/core/db/models/eventslog.model';
+import type { EventsLogRepository } from '@/core/db/repositories/eventslog.repository';
+import { createLogger } from '@/utils/logger';
+import type { FocusSession, FocusSessionSummary } from './types';
+
+/**
+ * Builds focus session summaries from the event log.
+ *
+ * Active time is measured per activity like the aggregator does (first to last
+ * event), clipped to the session window: an activity without a start event in
+ * the window was already running when the session began, and one without an
+ * end event was still running when it ended.
+ */
+export class FocusSessionSummarizer {
+  private static readonly logger = createLogger('🎯 FocusSessionSummarizer');
+
+  constructor(private readonly eventsLogRepo: EventsLogRepository) {}
+
+  /**
+   * Whether a hostname is covered by a site entry; a domain also covers its subdomains
+   */
+  static matchesSite(hostname: string, site: string): boolean {
+    const normalizedSite = site.trim().toLowerCase().replace(/^\*\./, '');
+    return (
+      normalizedSite.length > 0 &&
+      (hostname === normalizedSite || hostname.endsWith(`.${normalizedSite}`))
+    );
+  }
+
+  /**
+   * Whether visiting a URL counts as a distraction during a session
+   *
+   * @returns False for non-http(s) or malformed URLs
+   */
+  static isDistraction(url: string, session: Pick<FocusSession, 'mode' | 'sites'>): boolean {
+    const hostname = FocusSessionSummarizer.parseHostname(url);
+    if (!hostname) return false;
+
+    const listed = session.sites.some(site => FocusSessionSummarizer.matchesSite(hostname, site));
+    return session.mode === 'allowlist' ? !listed : listed;
+  }
+
+  /**
+   * Summarize a session from the events logged in its window
+   *
+   * @param session - The session to summarize
+   * @param endedAt - When the session ended (its scheduled end, or earlier if stopped)
+   */
+  async summarize(session: FocusSession, endedAt: number): Promise<FocusSessionSummary> {
+    const events = await this.eventsLogRepo.getEventsByTimeRange(session.startedAt, endedAt);
+    const summary = FocusSessionSummarizer.buildSummary(session, events, endedAt);
+
+    FocusSessionSummarizer.logger.debug('Summarized focus session', {
+      sessionId: session.id,
+      eventCount: events.length,
+      summary,
+    });
+    return summary;
+  }
+
+  /**
+   * Build a summary from events already loaded for the session window
+   */
+  static buildSummary(
+    session: FocusSession,
+    events: readonly EventsLogRecord[],
+    endedAt: number
+  ): FocusSessionSummary {
+    const inWindow = events
+      .filter(event => event.timestamp >= session.startedAt && event.timestamp <= endedAt)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    // --- Active time, grouped by activityId ---
+    const activities = new Map<string, EventsLogRecord[]>();
+    for (const event of inWindow) {
+      if (!event.activityId) continue;
+      if (!event.eventType.startsWith('active_time') && event.eventType !== 'checkpoint') continue;
+
+      const group = activities.get(event.activityId) ?? [];
+      group.push(event);
+      activities.set(event.activityId, group);
+    }
+
+    let focusedActiveMs = 0;
+    let distractionActiveMs = 0;
+    for (const group of activities.values()) {
+      const first = group[0];
+      const last = group[group.length - 1];
+      const start = first.eventType === 'active_time_start' ? first.timestamp : session.startedAt;
+      const end = last.eventType === 'active_time_end' ? last.timestamp : endedAt;
+      const duration = Math.max(0, end - start);
+
+      if (!FocusSessionSummarizer.parseHostname(first.url)) continue;
+      if (FocusSessionSummarizer.isDistraction(first.url, session)) {
+        distractionActiveMs += duration;
+      } else {
+        focusedActiveMs += duration;
+      }
+    }
+
+    // --- Distracting visits started during the session ---
+    const visitsByHost = new Map<string, Set<string>>();
+    for (const event of inWindow) {
+      if (event.eventType !== 'open_time_start') continue;
+      if (!FocusSessionSummarizer.isDistraction(event.url, session)) continue;
+
+      const hostname = FocusSessionSummarizer.parseHostname(event.url)!;
+      const visits = visitsByHost.get(hostname) ?? new Set<string>();
+      visits.add(event.visitId);
+      visitsByHost.set(hostname, visits);
+    }
+
+    const distractingHosts = [...visitsByHost.entries()]
+      .sort(([hostA, a], [hostB, b]) => b.size - a.size || hostA.localeCompare(hostB))
+      .map(([hostname]) => hostname);
+
+    return {
+      sessionId: session.id,
+      startedAt: session.startedAt,
+      endedAt,
+      completed: endedAt >= session.endsAt,
+      focusedActiveMs,
+      distractionActiveMs,
+      distractionVisits: [...visitsByHost.values()].reduce((sum, visits) => sum + visits.size, 0),
+      distractingHosts,
+    };
+  }
+
+  private static parseHostname(url: string): string | null {
+    if (!url || !url.startsWith('http')) {
+      return null;
+    }
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
+import { browser } from '#imports';
+import { v4 as uuidv4 } from 'uuid';
+import { FocusSessionManager, FocusSessionSummarizer, type FocusTrackerHost } from '..';
+import type { FocusSession } from '../types';
+import { DEFAULT_CONFIG, FOCUS_SESSION_ALARM_NAME } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { EventsLogRecord } from '@/core/db/models/eventslog.model';
+import type { EventsLogRepository } from '@/core/db/repositories/eventslog.repository';
+
+const START = Date.parse('2025-06-16T09:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+function buildSession(partial: Partial<FocusSession> = {}): FocusSession {
+  return {
+    id: uuidv4(),
+    startedAt: START,
+    endsAt: START + 25 * MINUTE,
+    mode: 'denylist',
+    sites: ['youtube.com'],
+    blockDistractions: true,
+    ...partial,
+  };
+}
+
+/**
+ * Helper to build the events of one visit with a single activity
+ */
+function buildVisit(url: string, activeStart: number, activeEnd: number | null): EventsLogRecord[] {
+  const base = { tabId: 1, url, visitId: uuidv4(), isProcessed: 0 as const };
+  const activityId = uuidv4();
+  const events: EventsLogRecord[] = [
+    { ...base, timestamp: activeStart, eventType: 'open_time_start', activityId: null },
+    { ...base, timestamp: activeStart, eventType: 'active_time_start', activityId },
+  ];
+  if (activeEnd !== null) {
+    events.push({ ...base, timestamp: activeEnd, eventType: 'active_time_end', activityId });
+  }
+  return events;
+}
+
+describe('FocusSessionSummarizer', () => {
+  it('should judge distractions by denylist or allowlist, including subdomains', () => {
+    const denylist = { mode: 'denylist' as const, sites: ['youtube.com'] };
+    expect(FocusSessionSummarizer.isDistraction('https://www.youtube.com/watch', denylist)).toBe(
+      true
+    );
+    expect(FocusSessionSummarizer.isDistraction('https://notyoutube.com/', denylist)).toBe(false);
+
+    const allowlist = { mode: 'allowlist' as const, sites: ['github.com'] };
+    expect(FocusSessionSummarizer.isDistraction('https://docs.github.com/', allowlist)).toBe(false);
+    expect(FocusSessionSummarizer.isDistraction('https://news.org/', allowlist)).toBe(true);
+    expect(FocusSessionSummarizer.isDistraction('chrome://settings', allowlist)).toBe(false);
+  });
+
+  it('should split active time between focused and distracting sites within the window', () => {
+    const session = buildSession();
+    const endedAt = session.endsAt;
+    const events = [
+      ...buildVisit('https://github.com/', START + MINUTE, START + 11 * MINUTE),
+      ...buildVisit('https://www.youtube.com/a', START + 12 * MINUTE, START + 15 * MINUTE),
+      // Still running when the session ended
+      ...buildVisit('https://www.youtube.com/b', START + 20 * MINUTE, null),
+    ];
+
+    const summary = FocusSessionSummarizer.buildSummary(session, events, endedAt);
+
+    expect(summary).toMatchObject({
+      sessionId: session.id,
+      completed: true,
+      focusedActiveMs: 10 * MINUTE,
+      distractionActiveMs: 3 * MINUTE + 5 * MINUTE,
+      distractionVisits: 2,
+      distractingHosts: ['www.youtube.com'],
+    });
+  });
+
+  it('should clip activities that started before the session', () => {
+    const session = buildSession();
+    const [, activeStart, activeEnd] = buildVisit(
+      'https://github.com/',
+      START - 5 * MINUTE,
+      START + 5 * MINUTE
+    );
+
+    const summary = FocusSessionSummarizer.buildSummary(
+      session,
+      [activeStart, activeEnd],
+      START + 10 * MINUTE
+    );
+
+    expect(summary.focusedActiveMs).toBe(5 * MINUTE);
+    expect(summary.completed).toBe(false);
+  });
+});
+
+describe('FocusSessionManager', () => {
+  let eventsLogRepoMock: MockProxy<EventsLogRepository>;
+  let tracker: MockProxy<FocusTrackerHost>;
+  let manager: FocusSessionManager;
+
+  beforeEach(() => {
+    fakeBrowser.reset();
+    eventsLogRepoMock = mock<EventsLogRepository>();
+    eventsLogRepoMock.getEventsByTimeRange.mockResolvedValue([]);
+    tracker = mock<FocusTrackerHost>();
+
+    vi.spyOn(configManager, 'initialize').mockResolvedValue();
+    vi.spyOn(configManager, 'getConfig').mockReturnValue({
+      ...DEFAULT_CONFIG,
+      focus: {
+        durationMinutes: 25,
+        mode: 'denylist',
+        sites: ['youtube.com'],
+        blockDistractions: true,
+      },
+    });
+    vi.spyOn(browser.tabs, 'query').mockResolvedValue([]);
+
+    manager = new FocusSessionManager(new FocusSessionSummarizer(eventsLogRepoMock), tracker);
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should schedule the session end on an alarm and refuse a second session', async () => {
+    await manager.start(START);
+    const session = await manager.startSession(25, START);
+
+    expect(session).toMatchObject({ endsAt: START + 25 * MINUTE, sites: ['youtube.com'] });
+    expect(await browser.alarms.get(FOCUS_SESSION_ALARM_NAME)).toMatchObject({
+      scheduledTime: START + 25 * MINUTE,
+    });
+    await expect(manager.startSession(25, START + MINUTE)).rejects.toThrow('already running');
+  });
+
+  it('should end an expired session on start and store its summary', async () => {
+    await manager.startSession(25, START);
+
+    await manager.start(START + 30 * MINUTE);
+
+    expect(await manager.getActiveSession(START + 30 * MINUTE)).toBeNull();
+    expect(tracker.flushEvents).toHaveBeenCalled();
+    expect(eventsLogRepoMock.getEventsByTimeRange).toHaveBeenCalledWith(START, START + 25 * MINUTE);
+    expect(await manager.getLastSummary()).toMatchObject({ completed: true });
+  });
+
+  it('should redirect tabs on distracting sites to the interstitial', async () => {
+    const update = vi.spyOn(browser.tabs, 'update').mockResolvedValue(undefined as never);
+    await manager.startSession(25, START);
+
+    expect(await manager.checkTab(1, 'https://github.com/', START + MINUTE)).toBe(false);
+    expect(await manager.checkTab(1, 'https://www.youtube.com/', START + MINUTE)).toBe(true);
+
+    expect(tracker.endTabSession).toHaveBeenCalledWith(1, START + MINUTE, 'navigation');
+    expect(update).toHaveBeenCalledWith(1, {
+      url: expect.stringContaining('focus-blocked.html'),
+    });
+  });
+});
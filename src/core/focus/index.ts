@@ -0,0 +1,8 @@
+export { FocusSessionSummarizer } from './FocusSessionSummarizer';
+export { FocusSessionManager, FOCUS_INTERSTITIAL_PATH } from './FocusSessionManager';
+
+/**
+ * Re-export focus session types and manager options
+ */
+export type { FocusSession, FocusSessionSummary } from './types';
+export type { FocusSessionManagerOptions, FocusTrackerHost } from './FocusSessionManager';
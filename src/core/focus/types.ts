@@ -0,0 +1,36 @@
+import type { FocusConfig } from '@/config/constants';
+
+/**
+ * A running focus session
+ *
+ * The site list and blocking choice are copied from the focus config when the
+ * session starts, so edits made mid-session do not change how it is judged.
+ */
+export interface FocusSession {
+  id: string;
+  startedAt: number;
+  /** Scheduled end (Unix timestamp in milliseconds) */
+  endsAt: number;
+  mode: FocusConfig['mode'];
+  sites: string[];
+  blockDistractions: boolean;
+}
+
+/**
+ * Outcome of a finished focus session, built from the event log
+ */
+export interface FocusSessionSummary {
+  sessionId: string;
+  startedAt: number;
+  endedAt: number;
+  /** Whether the session ran for its full length */
+  completed: boolean;
+  /** Active time on allowed sites (ms) */
+  focusedActiveMs: number;
+  /** Active time on distracting sites (ms) */
+  distractionActiveMs: number;
+  /** Number of visits to distracting sites started during the session */
+  distractionVisits: number;
+  /** Distracting hostnames, most visited first */
+  distractingHosts: string[];
+}
@@ -0,0 +1,124 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Goal } from '@/config/constants';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { createLogger } from '@/utils/logger';
+import type { GoalDayResult, GoalOutcome, GoalProgress, GoalStreaks } from './types';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Evaluates daily goals against the aggregated stats.
+ *
+ * Goals are looked up through the `parentDomain` and `hostname` indexes, so an
+ * evaluation only reads the rows of its target.
+ */
+export class GoalEvaluator {
+  private static readonly logger = createLogger('🏁 GoalEvaluator');
+
+  constructor(private readonly aggregatedStatsRepo: AggregatedStatsRepository) {}
+
+  /**
+   * Outcome of a finished day
+   */
+  static getOutcome(goal: Goal, activeTime: number): GoalOutcome {
+    const targetTime = goal.dailyMinutes * 60 * 1000;
+    if (goal.comparison === 'atMost') {
+      return activeTime <= targetTime ? 'hit' : 'miss';
+    }
+    return activeTime >= targetTime ? 'hit' : 'miss';
+  }
+
+  /**
+   * Progress on a day that is still running
+   */
+  static getProgress(goal: Goal, activeTime: number): GoalProgress {
+    const targetTime = goal.dailyMinutes * 60 * 1000;
+    let status: GoalProgress['status'] = 'pending';
+    if (goal.comparison === 'atMost' && activeTime > targetTime) status = 'miss';
+    if (goal.comparison === 'atLeast' && activeTime >= targetTime) status = 'hit';
+
+    return { goal, activeTime, targetTime, ratio: activeTime / targetTime, status };
+  }
+
+  /**
+   * Whether a stats row counts towards a goal
+   */
+  static matches(
+    goal: Goal,
+    stat: Pick<AggregatedStatsRecord, 'hostname' | 'parentDomain'>
+  ): boolean {
+    return goal.scope === 'hostname'
+      ? stat.hostname === goal.target
+      : stat.parentDomain === goal.target;
+  }
+
+  /**
+   * Current and longest run of consecutive hit days
+   *
+   * A day without a result (e.g. beyond the catch-up window) breaks the run.
+   *
+   * @param results - Evaluated days, oldest first
+   */
+  static computeStreaks(results: readonly GoalDayResult[]): GoalStreaks {
+    let current = 0;
+    let longest = 0;
+    let previousDate: string | null = null;
+
+    for (const result of results) {
+      const consecutive =
+        previousDate !== null &&
+        differenceInCalendarDays(parseISO(result.date), parseISO(previousDate)) === 1;
+
+      if (result.outcome === 'hit') {
+        current = consecutive ? current + 1 : 1;
+        longest = Math.max(longest, current);
+      } else {
+        current = 0;
+      }
+      previousDate = result.date;
+    }
+
+    return { current, longest };
+  }
+
+  /**
+   * Evaluate a goal for every day of a date range
+   *
+   * @param goal - The goal to evaluate
+   * @param startDate - First day (YYYY-MM-DD, inclusive)
+   * @param endDate - Last day (YYYY-MM-DD, inclusive); must be finished
+   * @returns One result per day, oldest first
+   */
+  async evaluate(goal: Goal, startDate: string, endDate: string): Promise<GoalDayResult[]> {
+    const stats =
+      goal.scope === 'hostname'
+        ? await this.aggregatedStatsRepo.getStatsByHostnameInRange(goal.target, startDate, endDate)
+        : await this.aggregatedStatsRepo.getStatsByParentDomainInRange(
+            goal.target,
+            startDate,
+            endDate
+          );
+
+    const totals = new Map<string, number>();
+    for (const stat of stats) {
+      totals.set(stat.date, (totals.get(stat.date) ?? 0) + stat.total_active_time);
+    }
+
+    const results: GoalDayResult[] = [];
+    const last = parseISO(endDate);
+    for (let cursor = parseISO(startDate); cursor <= last; cursor = addDays(cursor, 1)) {
+      const date = format(cursor, DATE_FORMAT);
+      const activeTime = totals.get(date) ?? 0;
+      results.push({ date, activeTime, outcome: GoalEvaluator.getOutcome(goal, activeTime) });
+    }
+
+    GoalEvaluator.logger.debug('Evaluated goal', {
+      goalId: goal.id,
+      startDate,
+      endDate,
+      days: results.length,
+    });
+    return results;
+  }
+}
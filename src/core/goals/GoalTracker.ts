@@ -0,0 +1,128 @@
+import { browser, storage } from '#imports';
+import { type Browser } from 'wxt/browser';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { GOAL_EVALUATION_ALARM_NAME, GOAL_HISTORY_KEY } from '@/config/constants';
+import { goalsConfig } from '@/config/storage';
+import { createLogger } from '@/utils/logger';
+import { getBucketedTimeZone, getNextZonedBoundary, getZonedDateString } from '@/utils/timezone';
+import type { GoalEvaluator } from './GoalEvaluator';
+import type { GoalHistory } from './types';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Delay after midnight so the aggregator has picked up the end of the day */
+const EVALUATION_DELAY_MS = 15 * 60 * 1000;
+/** Days evaluated at most when catching up after the extension was not running */
+const MAX_CATCH_UP_DAYS = 60;
+/** Days of history kept per goal */
+const MAX_HISTORY_DAYS = 365;
+
+const historyItem = storage.defineItem<GoalHistory>(GOAL_HISTORY_KEY, {
+  fallback: {},
+});
+
+/**
+ * Evaluates goals once per finished day and keeps their hit/miss history.
+ *
+ * The evaluation runs on a daily `browser.alarms` alarm shortly after midnight
+ * in the time zone the stats are keyed in. Days missed while the extension was
+ * not running are caught up on the next start.
+ */
+export class GoalTracker {
+  private static readonly logger = createLogger('🏁 GoalTracker');
+  private isListenerRegistered = false;
+
+  constructor(private readonly evaluator: GoalEvaluator) {
+    this.handleAlarm = this.handleAlarm.bind(this);
+  }
+
+  /**
+   * Get the stored hit/miss history of all goals
+   */
+  static async getHistory(): Promise<GoalHistory> {
+    return historyItem.getValue();
+  }
+
+  /**
+   * Schedule the daily evaluation and catch up on days missed so far
+   */
+  async start(now: number = Date.now()): Promise<void> {
+    if (!this.isListenerRegistered) {
+      browser.alarms.onAlarm.addListener(this.handleAlarm);
+      this.isListenerRegistered = true;
+    }
+
+    const timeZone = await getBucketedTimeZone();
+    await browser.alarms.create(GOAL_EVALUATION_ALARM_NAME, {
+      when: getNextZonedBoundary(now, DAY_MS, timeZone) + EVALUATION_DELAY_MS,
+      periodInMinutes: DAY_MS / 60_000,
+    });
+
+    await this.evaluatePendingDays(now);
+    GoalTracker.logger.info('Goal tracker started');
+  }
+
+  /**
+   * Remove the alarm listener
+   */
+  stop(): void {
+    if (this.isListenerRegistered) {
+      browser.alarms.onAlarm.removeListener(this.handleAlarm);
+      this.isListenerRegistered = false;
+    }
+  }
+
+  /**
+   * Evaluate every enabled goal for the finished days it has no result for yet
+   *
+   * @returns The updated history
+   */
+  async evaluatePendingDays(now: number = Date.now()): Promise<GoalHistory> {
+    const timeZone = await getBucketedTimeZone();
+    const yesterday = format(subDays(parseISO(getZonedDateString(now, timeZone)), 1), DATE_FORMAT);
+    const earliest = format(subDays(parseISO(yesterday), MAX_CATCH_UP_DAYS - 1), DATE_FORMAT);
+
+    const { goals } = await goalsConfig.getValue();
+    const history = await historyItem.getValue();
+    const next: GoalHistory = {};
+
+    for (const goal of goals) {
+      const results = history[goal.id] ?? [];
+      next[goal.id] = results;
+      if (!goal.enabled) continue;
+
+      const lastDate = results.at(-1)?.date;
+      const afterLast = lastDate ? format(addDays(parseISO(lastDate), 1), DATE_FORMAT) : '';
+      const startDate = [goal.startDate, afterLast, earliest].reduce((a, b) => (a > b ? a : b));
+      if (startDate > yesterday) continue;
+
+      try {
+        const evaluated = await this.evaluator.evaluate(goal, startDate, yesterday);
+        next[goal.id] = [...results, ...evaluated].slice(-MAX_HISTORY_DAYS);
+      } catch (error) {
+        GoalTracker.logger.error('Failed to evaluate goal', { goalId: goal.id, error });
+      }
+    }
+
+    // History of removed goals is dropped with them
+    await historyItem.setValue(next);
+    GoalTracker.logger.debug('Evaluated pending goal days', { yesterday, goals: goals.length });
+    return next;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async handleAlarm(alarm: Browser.alarms.Alarm): Promise<void> {
+    if (alarm.name !== GOAL_EVALUATION_ALARM_NAME) {
+      return;
+    }
+
+    try {
+      await this.evaluatePendingDays();
+    } catch (error) {
+      GoalTracker.logger.error('Failed to evaluate goals', { error });
+    }
+  }
+}
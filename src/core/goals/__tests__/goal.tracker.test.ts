@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { fakeBrowser } from 'wxt/testing';
+import { GoalEvaluator, GoalTracker, type GoalDayResult } from '..';
+import type { Goal } from '@/config/constants';
+import { goalsConfig } from '@/config/storage';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.parse('2025-06-20T12:00:00.000Z');
+
+function buildStat(date: string, activeMinutes: number): AggregatedStatsRecord {
+  return baseBuildStat({
+    date,
+    total_open_time: activeMinutes * MINUTE,
+    total_active_time: activeMinutes * MINUTE,
+    last_updated: NOW,
+  });
+}
+
+function buildGoal(partial: Partial<Goal> = {}): Goal {
+  return {
+    id: 'youtube',
+    target: 'youtube.com',
+    scope: 'parentDomain',
+    comparison: 'atMost',
+    dailyMinutes: 60,
+    enabled: true,
+    startDate: '2025-06-16',
+    ...partial,
+  };
+}
+
+function buildResults(outcomes: string): GoalDayResult[] {
+  return [...outcomes].map((outcome, index) => ({
+    date: `2025-06-${String(10 + index).padStart(2, '0')}`,
+    activeTime: 0,
+    outcome: outcome === 'x' ? 'miss' : 'hit',
+  }));
+}
+
+describe('GoalEvaluator', () => {
+  it('should judge at-most and at-least goals', () => {
+    expect(GoalEvaluator.getOutcome(buildGoal(), 60 * MINUTE)).toBe('hit');
+    expect(GoalEvaluator.getOutcome(buildGoal(), 61 * MINUTE)).toBe('miss');
+    expect(GoalEvaluator.getOutcome(buildGoal({ comparison: 'atLeast' }), 30 * MINUTE)).toBe(
+      'miss'
+    );
+
+    expect(GoalEvaluator.getProgress(buildGoal(), 30 * MINUTE)).toMatchObject({
+      ratio: 0.5,
+      status: 'pending',
+    });
+    expect(
+      GoalEvaluator.getProgress(buildGoal({ comparison: 'atLeast' }), 60 * MINUTE).status
+    ).toBe('hit');
+  });
+
+  it('should compute current and longest streaks', () => {
+    expect(GoalEvaluator.computeStreaks(buildResults('hhhxhh'))).toEqual({
+      current: 2,
+      longest: 3,
+    });
+    expect(GoalEvaluator.computeStreaks(buildResults('hhx'))).toEqual({ current: 0, longest: 2 });
+
+    // A missing day breaks the streak
+    const withGap = buildResults('hhhh').filter(result => result.date !== '2025-06-12');
+    expect(GoalEvaluator.computeStreaks(withGap)).toEqual({ current: 1, longest: 2 });
+  });
+});
+
+describe('GoalTracker', () => {
+  let statsRepoMock: MockProxy<AggregatedStatsRepository>;
+  let tracker: GoalTracker;
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    statsRepoMock = mock<AggregatedStatsRepository>();
+    statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([
+      buildStat('2025-06-16', 30),
+      buildStat('2025-06-17', 90),
+      buildStat('2025-06-19', 45),
+      buildStat('2025-06-20', 120),
+    ]);
+    tracker = new GoalTracker(new GoalEvaluator(statsRepoMock));
+    await goalsConfig.setValue({ goals: [buildGoal()] });
+  });
+
+  it('should evaluate every finished day since the goal started', async () => {
+    const history = await tracker.evaluatePendingDays(NOW);
+
+    expect(history.youtube.map(result => [result.date, result.outcome])).toEqual([
+      ['2025-06-16', 'hit'],
+      ['2025-06-17', 'miss'],
+      ['2025-06-18', 'hit'],
+      ['2025-06-19', 'hit'],
+    ]);
+    expect(await GoalTracker.getHistory()).toEqual(history);
+  });
+
+  it('should only evaluate new days on later runs and drop removed goals', async () => {
+    await tracker.evaluatePendingDays(NOW);
+    await tracker.evaluatePendingDays(NOW);
+    expect(statsRepoMock.getStatsByParentDomainInRange).toHaveBeenCalledTimes(1);
+
+    const history = await tracker.evaluatePendingDays(NOW + 24 * 60 * MINUTE);
+    expect(history.youtube.at(-1)).toMatchObject({ date: '2025-06-20', outcome: 'miss' });
+    expect(history.youtube).toHaveLength(5);
+
+    await goalsConfig.setValue({ goals: [] });
+    expect(await tracker.evaluatePendingDays(NOW + 24 * 60 * MINUTE)).toEqual({});
+  });
+});
@@ -0,0 +1,7 @@
+export { GoalEvaluator } from './GoalEvaluator';
+export { GoalTracker } from './GoalTracker';
+
+/**
+ * Re-export goal types
+ */
+export type { GoalOutcome, GoalDayResult, GoalHistory, GoalStreaks, GoalProgress } from './types';
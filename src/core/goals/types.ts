@@ -0,0 +1,47 @@
+import type { Goal } from '@/config/constants';
+
+/**
+ * Whether a goal was met on a day
+ */
+export type GoalOutcome = 'hit' | 'miss';
+
+/**
+ * Evaluation of a goal for one finished day
+ */
+export interface GoalDayResult {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Active time on the goal target that day (ms) */
+  activeTime: number;
+  outcome: GoalOutcome;
+}
+
+/**
+ * Evaluated days per goal ID, oldest first
+ */
+export type GoalHistory = Record<string, GoalDayResult[]>;
+
+/**
+ * Consecutive hit days of a goal
+ */
+export interface GoalStreaks {
+  /** Hits in a row up to the most recently evaluated day */
+  current: number;
+  longest: number;
+}
+
+/**
+ * Progress of a goal on the current, unfinished day
+ */
+export interface GoalProgress {
+  goal: Goal;
+  activeTime: number;
+  targetTime: number;
+  /** Fraction of the daily target used or reached, may exceed 1 */
+  ratio: number;
+  /**
+   * `hit`/`miss` once today's outcome can no longer change (an `atLeast` goal
+   * was reached or an `atMost` budget was exceeded), otherwise `pending`
+   */
+  status: GoalOutcome | 'pending';
+}
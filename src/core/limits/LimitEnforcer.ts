@@ -0,0 +1,225 @@
+import { browser, storage } from '#imports';
+import { type Browser } from 'wxt/browser';
+import { LIMIT_SNOOZE_ALARM_NAME, LIMIT_SNOOZE_KEY, type LimitRule } from '@/config/constants';
+import { configManager } from '@/config/manager';
+import type { TimeTracker } from '@/core/tracker';
+import { createLogger } from '@/utils/logger';
+import { getBucketedTimeZone } from '@/utils/timezone';
+import type { LimitEvaluator } from './LimitEvaluator';
+import type { LimitSnoozes, LimitUsage } from './types';
+
+/**
+ * Path of the bundled interstitial page shown when a budget is used up
+ */
+export const LIMIT_INTERSTITIAL_PATH = '/limit-reached.html';
+
+/**
+ * Tracker capabilities the enforcer relies on
+ */
+export type LimitTrackerHost = Pick<TimeTracker, 'endTabSession'>;
+
+export interface LimitEnforcerOptions {
+  /** Called after a tab has been redirected to the interstitial page */
+  onTabBlocked?: (tabId: number, usage: LimitUsage) => void;
+}
+
+const snoozesItem = storage.defineItem<LimitSnoozes>(LIMIT_SNOOZE_KEY, {
+  fallback: {},
+});
+
+/**
+ * Enforces daily time limits by redirecting tabs to the interstitial page.
+ *
+ * Checks run from the checkpoint alarm loop, on tab activation and navigation,
+ * and when a snooze expires.
+ */
+export class LimitEnforcer {
+  private static readonly logger = createLogger('⛔ LimitEnforcer');
+  private isListenerRegistered = false;
+
+  constructor(
+    private readonly evaluator: LimitEvaluator,
+    private readonly tracker: LimitTrackerHost,
+    private readonly options: LimitEnforcerOptions = {}
+  ) {
+    this.handleAlarm = this.handleAlarm.bind(this);
+  }
+
+  /**
+   * Build the interstitial page URL for a blocked page
+   */
+  static getInterstitialUrl(blockedUrl: string, usage: LimitUsage): string {
+    const params = new URLSearchParams({
+      url: blockedUrl,
+      target: usage.rule.target,
+      scope: usage.rule.scope,
+      used: String(Math.round(usage.usedMs)),
+      limit: String(usage.limitMs),
+    });
+    return `${browser.runtime.getURL(LIMIT_INTERSTITIAL_PATH)}?${params.toString()}`;
+  }
+
+  /**
+   * Key under which a rule's snooze is stored
+   */
+  static getSnoozeKey(rule: Pick<LimitRule, 'scope' | 'target'>): string {
+    return `${rule.scope}:${rule.target}`;
+  }
+
+  /**
+   * Register the snooze expiry alarm listener
+   */
+  start(): void {
+    if (!this.isListenerRegistered) {
+      browser.alarms.onAlarm.addListener(this.handleAlarm);
+      this.isListenerRegistered = true;
+    }
+    LimitEnforcer.logger.info('Limit enforcer started');
+  }
+
+  /**
+   * Remove the alarm listener and any pending snooze alarm
+   */
+  async stop(): Promise<void> {
+    if (this.isListenerRegistered) {
+      browser.alarms.onAlarm.removeListener(this.handleAlarm);
+      this.isListenerRegistered = false;
+    }
+    await browser.alarms.clear(LIMIT_SNOOZE_ALARM_NAME);
+    LimitEnforcer.logger.info('Limit enforcer stopped');
+  }
+
+  /**
+   * Check the active tab of every window
+   */
+  async checkActiveTabs(): Promise<void> {
+    const tabs = await browser.tabs.query({ active: true });
+    for (const tab of tabs) {
+      if (tab.id !== undefined && tab.url) {
+        await this.checkTab(tab.id, tab.url);
+      }
+    }
+  }
+
+  /**
+   * Check a single tab and redirect it if its budget is used up
+   *
+   * @param tabId - Tab to check
+   * @param url - Current URL of the tab
+   * @returns The evaluated usage, or null if no rule applies or limits are disabled
+   */
+  async checkTab(tabId: number, url: string, now: number = Date.now()): Promise<LimitUsage | null> {
+    try {
+      await configManager.initialize();
+      const { limits } = configManager.getConfig();
+      if (!limits.enabled || limits.rules.length === 0) {
+        return null;
+      }
+
+      const usage = await this.evaluator.evaluate(
+        url,
+        limits.rules,
+        now,
+        await getBucketedTimeZone()
+      );
+      if (!usage?.exceeded) {
+        return usage;
+      }
+
+      const snoozedUntil = await this.getSnoozedUntil(usage.rule, now);
+      if (snoozedUntil !== null) {
+        LimitEnforcer.logger.debug('Limit exceeded but snoozed', { tabId, url, snoozedUntil });
+        return usage;
+      }
+
+      await this.blockTab(tabId, url, usage, now);
+      return usage;
+    } catch (error) {
+      LimitEnforcer.logger.error('Failed to check tab limit', { tabId, url, error });
+      return null;
+    }
+  }
+
+  /**
+   * Grant extra minutes for an exhausted budget
+   *
+   * @returns Timestamp until which the rule is snoozed
+   */
+  async snooze(rule: Pick<LimitRule, 'scope' | 'target'>, now: number = Date.now()): Promise<number> {
+    await configManager.initialize();
+    const { snoozeMinutes } = configManager.getConfig().limits;
+    const snoozedUntil = now + snoozeMinutes * 60 * 1000;
+
+    const snoozes = await snoozesItem.getValue();
+    const activeSnoozes = Object.fromEntries(
+      Object.entries(snoozes).filter(([, expiresAt]) => expiresAt > now)
+    );
+    activeSnoozes[LimitEnforcer.getSnoozeKey(rule)] = snoozedUntil;
+    await snoozesItem.setValue(activeSnoozes);
+
+    await this.scheduleSnoozeAlarm(activeSnoozes);
+
+    LimitEnforcer.logger.info('Limit snoozed', { rule, snoozedUntil });
+    return snoozedUntil;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async getSnoozedUntil(
+    rule: Pick<LimitRule, 'scope' | 'target'>,
+    now: number
+  ): Promise<number | null> {
+    const snoozes = await snoozesItem.getValue();
+    const expiresAt = snoozes[LimitEnforcer.getSnoozeKey(rule)];
+    return expiresAt !== undefined && expiresAt > now ? expiresAt : null;
+  }
+
+  /**
+   * Point the snooze alarm at the earliest pending expiry so the tab is
+   * re-checked right when the extra minutes run out.
+   */
+  private async scheduleSnoozeAlarm(snoozes: LimitSnoozes): Promise<void> {
+    const expiries = Object.values(snoozes);
+    if (expiries.length === 0) {
+      await browser.alarms.clear(LIMIT_SNOOZE_ALARM_NAME);
+      return;
+    }
+    await browser.alarms.create(LIMIT_SNOOZE_ALARM_NAME, { when: Math.min(...expiries) });
+  }
+
+  private async blockTab(tabId: number, url: string, usage: LimitUsage, now: number): Promise<void> {
+    LimitEnforcer.logger.info('Daily limit reached, redirecting tab', {
+      tabId,
+      url,
+      rule: usage.rule,
+      usedMs: usage.usedMs,
+    });
+
+    // The interstitial is an extension page, which the navigation listeners
+    // filter out, so close the tracked session explicitly.
+    await this.tracker.endTabSession(tabId, now, 'navigation');
+    await browser.tabs.update(tabId, { url: LimitEnforcer.getInterstitialUrl(url, usage) });
+
+    this.options.onTabBlocked?.(tabId, usage);
+  }
+
+  private async handleAlarm(alarm: Browser.alarms.Alarm): Promise<void> {
+    if (alarm.name !== LIMIT_SNOOZE_ALARM_NAME) {
+      return;
+    }
+
+    LimitEnforcer.logger.debug('Snooze expired, re-checking active tabs');
+
+    const now = Date.now();
+    const snoozes = await snoozesItem.getValue();
+    const activeSnoozes = Object.fromEntries(
+      Object.entries(snoozes).filter(([, expiresAt]) => expiresAt > now)
+    );
+    await snoozesItem.setValue(activeSnoozes);
+    await this.scheduleSnoozeAlarm(activeSnoozes);
+
+    await this.checkActiveTabs();
+  }
+}
@@ -0,0 +1,127 @@
+import * as psl from 'psl';
+import type { LimitRule } from '@/config/constants';
+import type { LiveStatsService } from '@/core/aggregator/LiveStatsService';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import { createLogger } from '@/utils/logger';
+import { getZonedDateString } from '@/utils/timezone';
+import type { LimitTarget, LimitUsage } from './types';
+
+/**
+ * Evaluates daily time limit rules.
+ *
+ * Usage is the sum of today's aggregated active time for the rule target plus
+ * the time the aggregator has not seen yet, measured by the live stats from the
+ * pending events and the sessions still running in open tabs.
+ */
+export class LimitEvaluator {
+  private static readonly logger = createLogger('⛔ LimitEvaluator');
+
+  /**
+   * @param aggregatedStatsRepo - Repository for reading today's aggregated statistics
+   * @param liveStatsService - Service measuring the time not aggregated yet
+   */
+  constructor(
+    private readonly aggregatedStatsRepo: AggregatedStatsRepository,
+    private readonly liveStatsService: LiveStatsService
+  ) {}
+
+  /**
+   * Resolve the hostname and parent domain of a URL the same way the aggregator does.
+   *
+   * @returns The target, or null for non-http(s) or malformed URLs
+   */
+  static parseTarget(url: string): LimitTarget | null {
+    if (!url || !url.startsWith('http')) {
+      return null;
+    }
+    try {
+      const hostname = new URL(url).hostname.toLowerCase();
+      return { hostname, parentDomain: psl.get(hostname) ?? hostname };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the rule applying to a target. Hostname rules win over parent domain rules
+   * so that e.g. `music.youtube.com` can have a different budget than `youtube.com`.
+   */
+  static findRule(target: LimitTarget, rules: readonly LimitRule[]): LimitRule | null {
+    const enabled = rules.filter(rule => rule.enabled);
+    return (
+      enabled.find(rule => rule.scope === 'hostname' && rule.target === target.hostname) ??
+      enabled.find(rule => rule.scope === 'parentDomain' && rule.target === target.parentDomain) ??
+      null
+    );
+  }
+
+  /**
+   * Whether a target falls under a rule
+   */
+  static matches(rule: LimitRule, target: LimitTarget): boolean {
+    return rule.scope === 'hostname'
+      ? rule.target === target.hostname
+      : rule.target === target.parentDomain;
+  }
+
+  /**
+   * Evaluate today's usage for the rule matching a URL.
+   *
+   * @param url - URL of the tab being checked
+   * @param rules - Configured limit rules
+   * @param now - Evaluation time
+   * @param timeZone - Time zone the aggregates are keyed in; decides where "today" starts
+   * @returns Usage of the matching rule, or null if no rule applies
+   */
+  async evaluate(
+    url: string,
+    rules: readonly LimitRule[],
+    now: number = Date.now(),
+    timeZone: string = 'UTC'
+  ): Promise<LimitUsage | null> {
+    const target = LimitEvaluator.parseTarget(url);
+    if (!target) return null;
+
+    const rule = LimitEvaluator.findRule(target, rules);
+    if (!rule) return null;
+
+    const today = getZonedDateString(now, timeZone);
+
+    const todayStats =
+      rule.scope === 'hostname'
+        ? await this.aggregatedStatsRepo.getStatsByHostnameInRange(rule.target, today, today)
+        : await this.aggregatedStatsRepo.getStatsByParentDomainInRange(
+            target.parentDomain,
+            today,
+            today
+          );
+
+    const aggregatedMs = todayStats.reduce((sum, stat) => sum + stat.total_active_time, 0);
+
+    // Read after the aggregates, so an aggregation finishing in between is not counted twice
+    const pending = await this.liveStatsService.getPendingTime(target.parentDomain, now);
+    const liveMs = Object.values(pending)
+      .filter(data => data.date === today && LimitEvaluator.matches(rule, data))
+      .reduce((sum, data) => sum + data.activeTime, 0);
+
+    const usedMs = aggregatedMs + liveMs;
+    const limitMs = rule.dailyLimitMinutes * 60 * 1000;
+
+    LimitEvaluator.logger.debug('Evaluated limit', {
+      rule,
+      aggregatedMs,
+      liveMs,
+      limitMs,
+    });
+
+    return {
+      rule,
+      aggregatedMs,
+      liveMs,
+      usedMs,
+      limitMs,
+      remainingMs: Math.max(0, limitMs - usedMs),
+      exceeded: usedMs >= limitMs,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mock, type MockProxy } from 'vitest-mock-extended';
+import { LimitEvaluator } from '../LimitEvaluator';
+import type { LimitRule } from '@/config/constants';
+import type { LiveStatsService } from '@/core/aggregator/LiveStatsService';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import { buildPendingTime, buildStat, FIXTURE_NOW } from '@/test-utils/fixtures';
+
+const NOW = FIXTURE_NOW;
+const MINUTE = 60 * 1000;
+
+describe('LimitEvaluator', () => {
+  const domainRule: LimitRule = {
+    target: 'youtube.com',
+    scope: 'parentDomain',
+    dailyLimitMinutes: 30,
+    enabled: true,
+  };
+  let statsRepoMock: MockProxy<AggregatedStatsRepository>;
+  let liveStatsMock: MockProxy<LiveStatsService>;
+  let evaluator: LimitEvaluator;
+
+  beforeEach(() => {
+    statsRepoMock = mock<AggregatedStatsRepository>();
+    statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([]);
+    liveStatsMock = mock<LiveStatsService>();
+    liveStatsMock.getPendingTime.mockResolvedValue({});
+    evaluator = new LimitEvaluator(statsRepoMock, liveStatsMock);
+  });
+
+  it('should return null when no rule matches the URL', async () => {
+    const usage = await evaluator.evaluate('https://example.com/', [domainRule], NOW);
+
+    expect(usage).toBeNull();
+    expect(statsRepoMock.getStatsByParentDomainInRange).not.toHaveBeenCalled();
+  });
+
+  it('should prefer hostname rules over parent domain rules', () => {
+    const hostnameRule: LimitRule = { ...domainRule, target: 'music.youtube.com', scope: 'hostname' };
+
+    expect(
+      LimitEvaluator.findRule(
+        { hostname: 'music.youtube.com', parentDomain: 'youtube.com' },
+        [domainRule, hostnameRule]
+      )
+    ).toBe(hostnameRule);
+    expect(
+      LimitEvaluator.findRule({ hostname: 'www.youtube.com', parentDomain: 'youtube.com' }, [
+        domainRule,
+        hostnameRule,
+      ])
+    ).toBe(domainRule);
+  });
+
+  it('should ignore disabled rules', async () => {
+    const usage = await evaluator.evaluate(
+      'https://www.youtube.com/',
+      [{ ...domainRule, enabled: false }],
+      NOW
+    );
+
+    expect(usage).toBeNull();
+  });
+
+  it("should sum today's aggregated active time of the parent domain", async () => {
+    statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([
+      buildStat({ total_active_time: 10 * MINUTE }),
+      buildStat({ url: 'https://m.youtube.com/', hostname: 'm.youtube.com', total_active_time: 5 * MINUTE }),
+    ]);
+
+    const usage = await evaluator.evaluate('https://www.youtube.com/', [domainRule], NOW);
+
+    expect(statsRepoMock.getStatsByParentDomainInRange).toHaveBeenCalledWith(
+      'youtube.com',
+      '2025-06-15',
+      '2025-06-15'
+    );
+    expect(usage).toMatchObject({
+      aggregatedMs: 15 * MINUTE,
+      liveMs: 0,
+      usedMs: 15 * MINUTE,
+      limitMs: 30 * MINUTE,
+      remainingMs: 15 * MINUTE,
+      exceeded: false,
+    });
+  });
+
+  it("should add today's time the aggregation has not seen yet", async () => {
+    // A rebuild or import has just touched the rows; that must not hide the pending time
+    statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([
+      buildStat({ total_active_time: 25 * MINUTE, last_updated: NOW }),
+    ]);
+    liveStatsMock.getPendingTime.mockResolvedValue(
+      buildPendingTime([
+        { activeTime: 4 * MINUTE, openTime: 10 * MINUTE },
+        { url: 'https://m.youtube.com/', hostname: 'm.youtube.com', activeTime: 2 * MINUTE },
+        // Pending time of earlier days is ignored
+        { date: '2025-06-14', activeTime: 30 * MINUTE },
+      ])
+    );
+
+    const usage = await evaluator.evaluate('https://www.youtube.com/', [domainRule], NOW);
+
+    expect(liveStatsMock.getPendingTime).toHaveBeenCalledWith('youtube.com', NOW);
+    expect(usage?.liveMs).toBe(6 * MINUTE);
+    expect(usage?.usedMs).toBe(31 * MINUTE);
+    expect(usage?.remainingMs).toBe(0);
+    expect(usage?.exceeded).toBe(true);
+  });
+
+  it('should only count the matching hostname for hostname rules', async () => {
+    const hostnameRule: LimitRule = { ...domainRule, target: 'm.youtube.com', scope: 'hostname' };
+    statsRepoMock.getStatsByHostnameInRange.mockResolvedValue([
+      buildStat({ url: 'https://m.youtube.com/', hostname: 'm.youtube.com', total_active_time: 5 * MINUTE }),
+    ]);
+
+    liveStatsMock.getPendingTime.mockResolvedValue(buildPendingTime([{ activeTime: 10 * MINUTE }]));
+
+    const usage = await evaluator.evaluate('https://m.youtube.com/feed', [hostnameRule], NOW);
+
+    expect(statsRepoMock.getStatsByHostnameInRange).toHaveBeenCalledWith(
+      'm.youtube.com',
+      '2025-06-15',
+      '2025-06-15'
+    );
+    expect(statsRepoMock.getStatsByParentDomainInRange).not.toHaveBeenCalled();
+    expect(usage?.aggregatedMs).toBe(5 * MINUTE);
+    expect(usage?.liveMs).toBe(0);
+  });
+
+  it("should use the aggregation time zone for today's boundary", async () => {
+    // At NOW it is already 2025-06-16 02:00 in UTC+14
+    statsRepoMock.getStatsByParentDomainInRange.mockResolvedValue([
+      buildStat({ date: '2025-06-16', total_active_time: 5 * MINUTE }),
+    ]);
+    liveStatsMock.getPendingTime.mockResolvedValue(
+      buildPendingTime([
+        { date: '2025-06-15', activeTime: 60 * MINUTE },
+        { date: '2025-06-16', activeTime: 2 * 60 * MINUTE },
+      ])
+    );
+
+    const usage = await evaluator.evaluate(
+      'https://www.youtube.com/',
+      [domainRule],
+      NOW,
+      'Pacific/Kiritimati'
+    );
+
+    expect(statsRepoMock.getStatsByParentDomainInRange).toHaveBeenCalledWith(
+      'youtube.com',
+      '2025-06-16',
+      '2025-06-16'
+    );
+    expect(usage?.aggregatedMs).toBe(5 * MINUTE);
+    // Only the pending time after local midnight is today's
+    expect(usage?.liveMs).toBe(2 * 60 * MINUTE);
+  });
+});
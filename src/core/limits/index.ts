@@ -0,0 +1,8 @@
+export { LimitEvaluator } from './LimitEvaluator';
+export { LimitEnforcer, LIMIT_INTERSTITIAL_PATH } from './LimitEnforcer';
+
+/**
+ * Re-export limit types and enforcer options
+ */
+export type { LimitTarget, LimitUsage, LimitSnoozes } from './types';
+export type { LimitEnforcerOptions, LimitTrackerHost } from './LimitEnforcer';
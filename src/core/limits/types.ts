@@ -0,0 +1,34 @@
+import type { LimitRule } from '@/config/constants';
+
+/**
+ * Hostname and parent domain a URL is tracked under
+ */
+export interface LimitTarget {
+  hostname: string;
+  parentDomain: string;
+}
+
+/**
+ * Today's usage of a single limit rule
+ */
+export interface LimitUsage {
+  /** The rule that matched the evaluated URL */
+  rule: LimitRule;
+  /** Active time already aggregated into today's stats (ms) */
+  aggregatedMs: number;
+  /** Active time not aggregated yet, including sessions still running in open tabs (ms) */
+  liveMs: number;
+  /** Total active time used today (ms) */
+  usedMs: number;
+  /** Daily budget (ms) */
+  limitMs: number;
+  /** Remaining budget, never negative (ms) */
+  remainingMs: number;
+  /** Whether the budget is used up */
+  exceeded: boolean;
+}
+
+/**
+ * Active snoozes keyed by `${scope}:${target}`, valued by expiry timestamp
+ */
+export type LimitSnoozes = Record<string, number>;
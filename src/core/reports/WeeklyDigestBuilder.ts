@@ -0,0 +1,185 @@
+import { addDays, format, parseISO, startOfWeek, subDays } from 'date-fns';
+import type { CategoriesConfig } from '@/config/constants';
+import { CategoryResolver, groupStatsByCategory } from '@/core/categories';
+import type { AggregatedStatsRepository } from '@/core/db/repositories/aggregatedstats.repository';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { createLogger } from '@/utils/logger';
+import { getZonedDateString } from '@/utils/timezone';
+import type { DigestDay, DigestSite, WeeklyDigest } from './types';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+const TOP_SITES_LIMIT = 10;
+const MOVERS_LIMIT = 5;
+
+/**
+ * Source of aggregated stats; satisfied by the repository and the database service
+ */
+export type DigestStatsSource = Pick<AggregatedStatsRepository, 'getStatsByDateRange'>;
+
+function sumActiveTime(stats: readonly AggregatedStatsRecord[]): number {
+  return stats.reduce((sum, stat) => sum + stat.total_active_time, 0);
+}
+
+function sumByParentDomain(stats: readonly AggregatedStatsRecord[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const stat of stats) {
+    totals.set(stat.parentDomain, (totals.get(stat.parentDomain) ?? 0) + stat.total_active_time);
+  }
+  return totals;
+}
+
+/**
+ * Builds weekly digests from the aggregated stats.
+ *
+ * Weeks start on Monday, like the dashboard's weekly chart, and dates are the
+ * stored ones, so the digest follows the time zone the stats are keyed in.
+ */
+export class WeeklyDigestBuilder {
+  private static readonly logger = createLogger('📰 WeeklyDigestBuilder');
+
+  constructor(private readonly statsSource: DigestStatsSource) {}
+
+  /**
+   * Monday of the week containing a date
+   *
+   * @param date - Date in YYYY-MM-DD format
+   */
+  static getWeekStart(date: string): string {
+    return format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), DATE_FORMAT);
+  }
+
+  /**
+   * Monday of the last fully elapsed week
+   *
+   * @param now - Unix timestamp in milliseconds
+   * @param timeZone - Time zone the stats are keyed in
+   */
+  static getLastCompletedWeekStart(now: number, timeZone: string): string {
+    const currentWeekStart = WeeklyDigestBuilder.getWeekStart(getZonedDateString(now, timeZone));
+    return format(subDays(parseISO(currentWeekStart), 7), DATE_FORMAT);
+  }
+
+  /**
+   * Load the stats of a week and the week before it and build the digest
+   *
+   * @param weekStart - Monday of the week (YYYY-MM-DD)
+   * @param categories - Category config used for the breakdown
+   */
+  async build(
+    weekStart: string,
+    categories: CategoriesConfig,
+    now: number = Date.now()
+  ): Promise<WeeklyDigest> {
+    const start = parseISO(WeeklyDigestBuilder.getWeekStart(weekStart));
+    const previousStart = format(subDays(start, 7), DATE_FORMAT);
+    const weekEnd = format(addDays(start, 6), DATE_FORMAT);
+
+    const stats = await this.statsSource.getStatsByDateRange(previousStart, weekEnd);
+    const boundary = format(start, DATE_FORMAT);
+    const digest = WeeklyDigestBuilder.buildDigest(
+      boundary,
+      stats.filter(stat => stat.date >= boundary),
+      stats.filter(stat => stat.date < boundary),
+      new CategoryResolver(categories),
+      now
+    );
+
+    WeeklyDigestBuilder.logger.debug('Built weekly digest', {
+      weekStart: digest.weekStart,
+      statsCount: stats.length,
+      totalActiveTime: digest.totalActiveTime,
+    });
+    return digest;
+  }
+
+  /**
+   * Build a digest from stats already loaded for the week and the week before
+   *
+   * @param weekStart - Monday of the week (YYYY-MM-DD)
+   * @param stats - Rows of the digest week
+   * @param previousStats - Rows of the week before
+   */
+  static buildDigest(
+    weekStart: string,
+    stats: readonly AggregatedStatsRecord[],
+    previousStats: readonly AggregatedStatsRecord[],
+    resolver: CategoryResolver,
+    generatedAt: number
+  ): WeeklyDigest {
+    const start = parseISO(weekStart);
+    const totalActiveTime = sumActiveTime(stats);
+    const previousTotalActiveTime = sumActiveTime(previousStats);
+
+    // --- Sites, compared with the previous week ---
+    const current = sumByParentDomain(stats);
+    const previous = sumByParentDomain(previousStats);
+    const sites: DigestSite[] = [...new Set([...current.keys(), ...previous.keys()])].map(
+      parentDomain => ({
+        parentDomain,
+        activeTime: current.get(parentDomain) ?? 0,
+        previousActiveTime: previous.get(parentDomain) ?? 0,
+      })
+    );
+    const delta = (site: DigestSite) => site.activeTime - site.previousActiveTime;
+    const byName = (a: DigestSite, b: DigestSite) => a.parentDomain.localeCompare(b.parentDomain);
+
+    const topSites = sites
+      .filter(site => site.activeTime > 0)
+      .sort((a, b) => b.activeTime - a.activeTime || byName(a, b))
+      .slice(0, TOP_SITES_LIMIT);
+    const risers = sites
+      .filter(site => delta(site) > 0)
+      .sort((a, b) => delta(b) - delta(a) || byName(a, b))
+      .slice(0, MOVERS_LIMIT);
+    const fallers = sites
+      .filter(site => delta(site) < 0)
+      .sort((a, b) => delta(a) - delta(b) || byName(a, b))
+      .slice(0, MOVERS_LIMIT);
+
+    // --- Days ---
+    const days: DigestDay[] = Array.from({ length: 7 }, (_, index) => ({
+      date: format(addDays(start, index), DATE_FORMAT),
+      activeTime: 0,
+    }));
+    for (const stat of stats) {
+      const day = days.find(candidate => candidate.date === stat.date);
+      if (day) day.activeTime += stat.total_active_time;
+    }
+    const mostActiveDay = days.reduce<DigestDay | null>(
+      (best, day) => (day.activeTime > (best?.activeTime ?? 0) ? day : best),
+      null
+    );
+
+    // --- Categories ---
+    const categories = groupStatsByCategory([...stats], resolver)
+      .map(group => ({
+        id: group.category.id,
+        name: group.category.name,
+        color: group.category.color,
+        activeTime: group.totalActiveTime,
+        share: totalActiveTime > 0 ? group.totalActiveTime / totalActiveTime : 0,
+      }))
+      .filter(category => category.activeTime > 0)
+      .sort((a, b) => b.activeTime - a.activeTime);
+
+    return {
+      weekStart,
+      weekEnd: format(addDays(start, 6), DATE_FORMAT),
+      generatedAt,
+      totalActiveTime,
+      totalOpenTime: stats.reduce((sum, stat) => sum + stat.total_open_time, 0),
+      previousTotalActiveTime,
+      change: totalActiveTime - previousTotalActiveTime,
+      changePercent:
+        previousTotalActiveTime > 0
+          ? (totalActiveTime - previousTotalActiveTime) / previousTotalActiveTime
+          : null,
+      topSites,
+      risers,
+      fallers,
+      days,
+      mostActiveDay,
+      categories,
+    };
+  }
+}
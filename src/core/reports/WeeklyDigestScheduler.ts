@@ -0,0 +1,152 @@
+import { browser, type Browser } from 'wxt/browser';
+import { addDays, format, parseISO } from 'date-fns';
+import { WEEKLY_DIGEST_ALARM_NAME } from '@/config/constants';
+import { categoriesConfig } from '@/config/storage';
+import { createLogger } from '@/utils/logger';
+import { formatDuration } from '@/utils/time-formatter';
+import { getBucketedTimeZone, getZonedDateString, getZonedHourStart } from '@/utils/timezone';
+import { WeeklyDigestBuilder } from './WeeklyDigestBuilder';
+import { formatChangePercent, formatWeekLabel } from './render';
+
+/**
+ * Path of the bundled digest page
+ */
+export const DIGEST_PAGE_PATH = '/digest.html';
+
+/** Notification IDs carry the week so a click opens the matching digest */
+const NOTIFICATION_PREFIX = 'weekly-digest:';
+/** Local hour on Monday at which the digest of the previous week is announced */
+const DIGEST_HOUR = 9;
+const WEEK_MINUTES = 7 * 24 * 60;
+
+/**
+ * Announces the weekly digest with a notification every Monday morning.
+ *
+ * The schedule lives in `browser.alarms`, so it survives the service worker
+ * being stopped; clicking the notification opens the digest page.
+ */
+export class WeeklyDigestScheduler {
+  private static readonly logger = createLogger('📰 WeeklyDigestScheduler');
+  private isListenerRegistered = false;
+
+  constructor(private readonly builder: WeeklyDigestBuilder) {
+    this.handleAlarm = this.handleAlarm.bind(this);
+    this.handleNotificationClicked = this.handleNotificationClicked.bind(this);
+  }
+
+  /**
+   * URL of the digest page for a week
+   *
+   * @param weekStart - Monday of the week (YYYY-MM-DD)
+   */
+  static getDigestUrl(weekStart: string): string {
+    return `${browser.runtime.getURL(DIGEST_PAGE_PATH)}?week=${weekStart}`;
+  }
+
+  /**
+   * Next Monday at the digest hour, strictly after `now`
+   *
+   * @param now - Unix timestamp in milliseconds
+   * @param timeZone - Time zone the stats are keyed in
+   */
+  static getNextRunTime(now: number, timeZone: string): number {
+    const today = parseISO(getZonedDateString(now, timeZone));
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = addDays(today, offset);
+      if (day.getDay() !== 1) continue;
+
+      const runTime = getZonedHourStart(format(day, 'yyyy-MM-dd'), DIGEST_HOUR, timeZone);
+      if (runTime > now) return runTime;
+    }
+    // Unreachable: one of the next eight days is a later Monday
+    return now + WEEK_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Schedule the weekly alarm if it does not exist yet and register listeners
+   */
+  async start(now: number = Date.now()): Promise<void> {
+    if (!this.isListenerRegistered) {
+      browser.alarms.onAlarm.addListener(this.handleAlarm);
+      browser.notifications.onClicked.addListener(this.handleNotificationClicked);
+      this.isListenerRegistered = true;
+    }
+
+    const existing = await browser.alarms.get(WEEKLY_DIGEST_ALARM_NAME);
+    if (!existing) {
+      const timeZone = await getBucketedTimeZone();
+      const when = WeeklyDigestScheduler.getNextRunTime(now, timeZone);
+      await browser.alarms.create(WEEKLY_DIGEST_ALARM_NAME, {
+        when,
+        periodInMinutes: WEEK_MINUTES,
+      });
+      WeeklyDigestScheduler.logger.info('Scheduled weekly digest', { when: new Date(when) });
+    }
+  }
+
+  /**
+   * Remove the listeners; the weekly alarm stays scheduled
+   */
+  stop(): void {
+    if (this.isListenerRegistered) {
+      browser.alarms.onAlarm.removeListener(this.handleAlarm);
+      browser.notifications.onClicked.removeListener(this.handleNotificationClicked);
+      this.isListenerRegistered = false;
+    }
+  }
+
+  /**
+   * Build the digest of the last completed week and show a notification for it
+   */
+  async notify(now: number = Date.now()): Promise<void> {
+    const timeZone = await getBucketedTimeZone();
+    const weekStart = WeeklyDigestBuilder.getLastCompletedWeekStart(now, timeZone);
+    const digest = await this.builder.build(weekStart, await categoriesConfig.getValue(), now);
+
+    const topSite = digest.topSites[0]?.parentDomain;
+    const message =
+      digest.totalActiveTime > 0
+        ? `${formatDuration(digest.totalActiveTime)} active ` +
+          `(${formatChangePercent(digest.changePercent)} vs previous week)` +
+          (topSite ? `, mostly on ${topSite}` : '')
+        : 'No activity was tracked last week';
+
+    await browser.notifications.create(`${NOTIFICATION_PREFIX}${weekStart}`, {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icon/128.png'),
+      title: `Your weekly digest: ${formatWeekLabel(digest)}`,
+      message,
+    });
+    WeeklyDigestScheduler.logger.info('Weekly digest notification shown', { weekStart });
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async handleAlarm(alarm: Browser.alarms.Alarm): Promise<void> {
+    if (alarm.name !== WEEKLY_DIGEST_ALARM_NAME) {
+      return;
+    }
+
+    try {
+      await this.notify();
+    } catch (error) {
+      WeeklyDigestScheduler.logger.error('Failed to show weekly digest', { error });
+    }
+  }
+
+  private async handleNotificationClicked(notificationId: string): Promise<void> {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) {
+      return;
+    }
+
+    const weekStart = notificationId.slice(NOTIFICATION_PREFIX.length);
+    try {
+      await browser.tabs.create({ url: WeeklyDigestScheduler.getDigestUrl(weekStart) });
+      await browser.notifications.clear(notificationId);
+    } catch (error) {
+      WeeklyDigestScheduler.logger.error('Failed to open weekly digest', { weekStart, error });
+    }
+  }
+}
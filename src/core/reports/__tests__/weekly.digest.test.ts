@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+import {
+  WeeklyDigestBuilder,
+  WeeklyDigestScheduler,
+  renderDigestHtml,
+  renderDigestMarkdown,
+} from '..';
+import type { DigestStatsSource } from '..';
+import type { CategoriesConfig } from '@/config/constants';
+import { CategoryResolver } from '@/core/categories';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.parse('2025-06-25T12:00:00.000Z');
+
+function buildStat(
+  date: string,
+  parentDomain: string,
+  activeMinutes: number
+): AggregatedStatsRecord {
+  return baseBuildStat({
+    date,
+    url: `https://${parentDomain}/`,
+    hostname: parentDomain,
+    parentDomain,
+    total_open_time: activeMinutes * 2 * MINUTE,
+    total_active_time: activeMinutes * MINUTE,
+    last_updated: NOW,
+  });
+}
+
+const categories: CategoriesConfig = {
+  categories: [{ id: 'work', name: 'Work', color: '#2563eb' }],
+  rules: [{ categoryId: 'work', type: 'parentDomain', pattern: 'github.com' }],
+};
+
+// Week of 2025-06-16 and the week before it
+const stats = [
+  buildStat('2025-06-10', 'github.com', 60),
+  buildStat('2025-06-11', 'youtube.com', 120),
+  buildStat('2025-06-16', 'github.com', 90),
+  buildStat('2025-06-18', 'github.com', 30),
+  buildStat('2025-06-18', 'news.org', 70),
+  buildStat('2025-06-20', 'youtube.com', 30),
+];
+
+describe('WeeklyDigestBuilder', () => {
+  it('should find the Monday of the last completed week', () => {
+    expect(WeeklyDigestBuilder.getWeekStart('2025-06-22')).toBe('2025-06-16');
+    expect(WeeklyDigestBuilder.getLastCompletedWeekStart(NOW, 'UTC')).toBe('2025-06-16');
+  });
+
+  it('should summarize the week against the previous one', async () => {
+    const source = mock<DigestStatsSource>();
+    source.getStatsByDateRange.mockResolvedValue(stats);
+
+    const digest = await new WeeklyDigestBuilder(source).build('2025-06-18', categories, NOW);
+
+    expect(source.getStatsByDateRange).toHaveBeenCalledWith('2025-06-09', '2025-06-22');
+    expect(digest).toMatchObject({
+      weekStart: '2025-06-16',
+      weekEnd: '2025-06-22',
+      totalActiveTime: 220 * MINUTE,
+      previousTotalActiveTime: 180 * MINUTE,
+      change: 40 * MINUTE,
+      mostActiveDay: { date: '2025-06-18', activeTime: 100 * MINUTE },
+    });
+    expect(digest.changePercent).toBeCloseTo(40 / 180);
+    expect(digest.days).toHaveLength(7);
+    expect(digest.topSites.map(site => site.parentDomain)).toEqual([
+      'github.com',
+      'news.org',
+      'youtube.com',
+    ]);
+    expect(digest.risers.map(site => site.parentDomain)).toEqual(['news.org', 'github.com']);
+    expect(digest.fallers).toEqual([
+      { parentDomain: 'youtube.com', activeTime: 30 * MINUTE, previousActiveTime: 120 * MINUTE },
+    ]);
+    expect(digest.categories[0]).toMatchObject({ id: 'work', activeTime: 120 * MINUTE });
+    expect(digest.categories[0].share).toBeCloseTo(120 / 220);
+  });
+
+  it('should report no change percent when the previous week was empty', () => {
+    const digest = WeeklyDigestBuilder.buildDigest(
+      '2025-06-16',
+      [],
+      [],
+      new CategoryResolver(categories),
+      NOW
+    );
+
+    expect(digest.changePercent).toBeNull();
+    expect(digest.mostActiveDay).toBeNull();
+    expect(digest.topSites).toEqual([]);
+  });
+});
+
+describe('weekly digest rendering', () => {
+  it('should render self-contained Markdown and escaped HTML', async () => {
+    const source = mock<DigestStatsSource>();
+    source.getStatsByDateRange.mockResolvedValue([
+      ...stats,
+      buildStat('2025-06-19', '<script>.com', 5),
+    ]);
+    const digest = await new WeeklyDigestBuilder(source).build('2025-06-16', categories, NOW);
+
+    const markdown = renderDigestMarkdown(digest);
+    expect(markdown).toContain('# Weekly digest: Jun 16 – Jun 22, 2025');
+    expect(markdown).toContain('| 1 | github.com | 2h | 1h |');
+    expect(markdown).toContain('- youtube.com: -1h30m');
+
+    const html = renderDigestHtml(digest);
+    expect(html).toMatch(/^<!doctype html>/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('&lt;script&gt;.com');
+    expect(html).not.toContain('<script>');
+  });
+});
+
+describe('WeeklyDigestScheduler', () => {
+  it('should schedule the digest for the next Monday morning', () => {
+    // Wednesday → following Monday 09:00
+    expect(WeeklyDigestScheduler.getNextRunTime(NOW, 'UTC')).toBe(
+      Date.parse('2025-06-30T09:00:00.000Z')
+    );
+    // Monday before 09:00 → same day
+    expect(
+      WeeklyDigestScheduler.getNextRunTime(Date.parse('2025-06-23T08:00:00.000Z'), 'UTC')
+    ).toBe(Date.parse('2025-06-23T09:00:00.000Z'));
+    expect(
+      WeeklyDigestScheduler.getNextRunTime(Date.parse('2025-06-23T08:00:00.000Z'), 'Asia/Tokyo')
+    ).toBe(Date.parse('2025-06-30T00:00:00.000Z'));
+  });
+});
@@ -0,0 +1,16 @@
+export { WeeklyDigestBuilder } from './WeeklyDigestBuilder';
+export { WeeklyDigestScheduler, DIGEST_PAGE_PATH } from './WeeklyDigestScheduler';
+export {
+  renderDigestHtml,
+  renderDigestMarkdown,
+  getDigestFilename,
+  formatChangePercent,
+  formatDurationChange,
+  formatWeekLabel,
+} from './render';
+
+/**
+ * Re-export digest types
+ */
+export type { WeeklyDigest, DigestSite, DigestDay, DigestCategory } from './types';
+export type { DigestStatsSource } from './WeeklyDigestBuilder';
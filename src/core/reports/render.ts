@@ -0,0 +1,241 @@
+/**
+ * Weekly digest rendering
+ *
+ * Turns a digest into self-contained Markdown or HTML documents for download.
+ * The HTML carries its own styles so it opens correctly outside the extension.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { formatDuration } from '@/utils/time-formatter';
+import type { DigestSite, WeeklyDigest } from './types';
+
+/**
+ * Format a relative change as a signed percentage, e.g. "+12%"
+ */
+export function formatChangePercent(changePercent: number | null): string {
+  if (changePercent === null) return 'n/a';
+  const rounded = Math.round(changePercent * 100);
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+}
+
+/**
+ * Format a signed duration difference, e.g. "+1h5m" or "-30m"
+ */
+export function formatDurationChange(change: number): string {
+  if (change === 0) return '±0s';
+  return `${change > 0 ? '+' : '-'}${formatDuration(Math.abs(change))}`;
+}
+
+/**
+ * Human-readable week label, e.g. "Jun 16 – Jun 22, 2025"
+ */
+export function formatWeekLabel(digest: Pick<WeeklyDigest, 'weekStart' | 'weekEnd'>): string {
+  const start = parseISO(digest.weekStart);
+  const end = parseISO(digest.weekEnd);
+  return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+/**
+ * Download file name for a digest
+ */
+export function getDigestFilename(digest: WeeklyDigest, extension: 'html' | 'md'): string {
+  return `webtime-digest-${digest.weekStart}.${extension}`;
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'EEEE, MMM d');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|])/g, '\\$1');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function moverChange(site: DigestSite): string {
+  return formatDurationChange(site.activeTime - site.previousActiveTime);
+}
+
+/**
+ * Render a digest as Markdown
+ */
+export function renderDigestMarkdown(digest: WeeklyDigest): string {
+  const lines: string[] = [
+    `# Weekly digest: ${formatWeekLabel(digest)}`,
+    '',
+    `- **Active time:** ${formatDuration(digest.totalActiveTime)}`,
+    `- **Change vs previous week:** ${formatDurationChange(digest.change)} ` +
+      `(${formatChangePercent(digest.changePercent)})`,
+    `- **Most active day:** ${
+      digest.mostActiveDay
+        ? `${formatDay(digest.mostActiveDay.date)} (${formatDuration(digest.mostActiveDay.activeTime)})`
+        : 'n/a'
+    }`,
+    '',
+    '## Top sites',
+    '',
+  ];
+
+  if (digest.topSites.length === 0) {
+    lines.push('No activity this week.');
+  } else {
+    lines.push('| # | Site | Active time | Previous week |', '|---|---|---|---|');
+    digest.topSites.forEach((site, index) => {
+      lines.push(
+        `| ${index + 1} | ${escapeMarkdown(site.parentDomain)} | ${formatDuration(site.activeTime)} ` +
+          `| ${formatDuration(site.previousActiveTime)} |`
+      );
+    });
+  }
+
+  const movers: [string, DigestSite[]][] = [
+    ['Biggest increases', digest.risers],
+    ['Biggest decreases', digest.fallers],
+  ];
+  for (const [title, sites] of movers) {
+    if (sites.length === 0) continue;
+    lines.push('', `## ${title}`, '');
+    for (const site of sites) {
+      lines.push(`- ${escapeMarkdown(site.parentDomain)}: ${moverChange(site)}`);
+    }
+  }
+
+  if (digest.categories.length > 0) {
+    lines.push('', '## Categories', '');
+    for (const category of digest.categories) {
+      lines.push(
+        `- ${escapeMarkdown(category.name)}: ${formatDuration(category.activeTime)} ` +
+          `(${Math.round(category.share * 100)}%)`
+      );
+    }
+  }
+
+  lines.push('', '## Daily active time', '');
+  for (const day of digest.days) {
+    lines.push(`- ${formatDay(day.date)}: ${formatDuration(day.activeTime)}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; color: #1f2937; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; }
+.cards { display: flex; gap: 1rem; }
+.card { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem 1rem; }
+.label { font-size: 0.75rem; color: #6b7280; text-transform: uppercase; }
+.value { font-size: 1.4rem; font-weight: 600; }
+table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #f3f4f6; }
+th { color: #6b7280; font-weight: 500; }
+.num { text-align: right; }
+.up { color: #b91c1c; } .down { color: #15803d; }
+.bar { height: 8px; border-radius: 4px; background: #dbeafe; }
+.bar > span { display: block; height: 8px; border-radius: 4px; background: #2563eb; }
+.swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
+`;
+
+function renderMoverRows(sites: DigestSite[], className: string): string {
+  return sites
+    .map(
+      site =>
+        `<tr><td>${escapeHtml(site.parentDomain)}</td>` +
+        `<td class="num ${className}">${escapeHtml(moverChange(site))}</td></tr>`
+    )
+    .join('');
+}
+
+/**
+ * Render a digest as a standalone HTML document
+ */
+export function renderDigestHtml(digest: WeeklyDigest): string {
+  const weekLabel = escapeHtml(formatWeekLabel(digest));
+  const maxDay = Math.max(1, ...digest.days.map(day => day.activeTime));
+
+  const topSites =
+    digest.topSites.length === 0
+      ? '<p>No activity this week.</p>'
+      : `<table><tr><th>#</th><th>Site</th><th class="num">Active time</th>` +
+        `<th class="num">Previous week</th></tr>` +
+        digest.topSites
+          .map(
+            (site, index) =>
+              `<tr><td>${index + 1}</td><td>${escapeHtml(site.parentDomain)}</td>` +
+              `<td class="num">${formatDuration(site.activeTime)}</td>` +
+              `<td class="num">${formatDuration(site.previousActiveTime)}</td></tr>`
+          )
+          .join('') +
+        '</table>';
+
+  const movers =
+    digest.risers.length + digest.fallers.length === 0
+      ? ''
+      : `<h2>Biggest movers</h2><table>${renderMoverRows(digest.risers, 'up')}` +
+        `${renderMoverRows(digest.fallers, 'down')}</table>`;
+
+  const categories =
+    digest.categories.length === 0
+      ? ''
+      : '<h2>Categories</h2><table>' +
+        digest.categories
+          .map(
+            category =>
+              `<tr><td><span class="swatch" style="background:${escapeHtml(category.color)}">` +
+              `</span>${escapeHtml(category.name)}</td>` +
+              `<td class="num">${formatDuration(category.activeTime)}</td>` +
+              `<td class="num">${Math.round(category.share * 100)}%</td></tr>`
+          )
+          .join('') +
+        '</table>';
+
+  const days =
+    '<table>' +
+    digest.days
+      .map(
+        day =>
+          `<tr><td>${escapeHtml(formatDay(day.date))}</td>` +
+          `<td style="width:50%"><div class="bar"><span style="width:${
+            (day.activeTime / maxDay) * 100
+          }%"></span></div></td>` +
+          `<td class="num">${formatDuration(day.activeTime)}</td></tr>`
+      )
+      .join('') +
+    '</table>';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Weekly digest: ${weekLabel}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Weekly digest: ${weekLabel}</h1>
+<div class="cards">
+<div class="card"><div class="label">Active time</div><div class="value">${formatDuration(
+    digest.totalActiveTime
+  )}</div></div>
+<div class="card"><div class="label">vs previous week</div><div class="value">${escapeHtml(
+    formatChangePercent(digest.changePercent)
+  )}</div><div>${escapeHtml(formatDurationChange(digest.change))}</div></div>
+<div class="card"><div class="label">Most active day</div><div class="value">${
+    digest.mostActiveDay ? escapeHtml(format(parseISO(digest.mostActiveDay.date), 'EEEE')) : 'n/a'
+  }</div><div>${digest.mostActiveDay ? formatDuration(digest.mostActiveDay.activeTime) : ''}</div></div>
+</div>
+<h2>Top sites</h2>
+${topSites}
+${movers}
+${categories}
+<h2>Daily active time</h2>
+${days}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Active time of one parent domain in the digest week and the week before
+ */
+export interface DigestSite {
+  parentDomain: string;
+  activeTime: number;
+  previousActiveTime: number;
+}
+
+/**
+ * Active time of one calendar day
+ */
+export interface DigestDay {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  activeTime: number;
+}
+
+/**
+ * Share of the week's active time spent in one category
+ */
+export interface DigestCategory {
+  id: string;
+  name: string;
+  color: string;
+  activeTime: number;
+  /** Fraction of the week's active time (0-1) */
+  share: number;
+}
+
+/**
+ * Summary of one Monday-based week, built from the aggregated stats
+ */
+export interface WeeklyDigest {
+  /** Monday of the week (YYYY-MM-DD) */
+  weekStart: string;
+  /** Sunday of the week (YYYY-MM-DD) */
+  weekEnd: string;
+  generatedAt: number;
+  totalActiveTime: number;
+  totalOpenTime: number;
+  previousTotalActiveTime: number;
+  /** Active time difference to the previous week (ms) */
+  change: number;
+  /** Relative difference to the previous week, or null if it had no activity */
+  changePercent: number | null;
+  /** Parent domains with the most active time, at most 10 */
+  topSites: DigestSite[];
+  /** Parent domains whose active time grew the most */
+  risers: DigestSite[];
+  /** Parent domains whose active time dropped the most */
+  fallers: DigestSite[];
+  /** All seven days of the week in order */
+  days: DigestDay[];
+  /** Day with the most active time, or null for an empty week */
+  mostActiveDay: DigestDay | null;
+  categories: DigestCategory[];
+}
@@ -69,6 +69,14 @@ export interface CheckpointEvaluation {
   tabState: TabState;
 }
 
+/**
+ * Listener invoked after every checkpoint check completes
+ */
+export type CheckpointCheckListener = (
+  evaluations: CheckpointEvaluation[],
+  checkTime: number,
+) => void | Promise<void>;
+
 /**
  * Scheduler statistics
  */
@@ -109,6 +117,7 @@ export class CheckpointScheduler {
   private readonly eventQueue: EventQueue;
   private isInitialized = false;
   private stats: SchedulerStats;
+  private readonly checkListeners = new Set<CheckpointCheckListener>();
 
   constructor(
     tabStateManager: TabStateManager,
@@ -202,6 +211,18 @@ export class CheckpointScheduler {
     return this.performCheckpointCheck();
   }
 
+  /**
+   * Register a listener that runs after each checkpoint check.
+   * Lets other subsystems (e.g. daily limits) piggyback on the alarm loop
+   * instead of creating their own periodic alarm.
+   *
+   * @returns A function that removes the listener
+   */
+  addCheckListener(listener: CheckpointCheckListener): () => void {
+    this.checkListeners.add(listener);
+    return () => this.checkListeners.delete(listener);
+  }
+
   /**
    * Get scheduler statistics
    */
@@ -231,12 +252,29 @@ export class CheckpointScheduler {
     CheckpointScheduler.logger.info('Checkpoint alarm triggered');
 
     try {
-      await this.performCheckpointCheck();
+      const evaluations = await this.performCheckpointCheck();
+      await this.notifyCheckListeners(evaluations, this.stats.lastCheckTime ?? Date.now());
     } catch (error) {
       console.error('Checkpoint check failed:', error);
     }
   }
 
+  /**
+   * Notify check listeners, isolating failures so one listener cannot break the loop
+   */
+  private async notifyCheckListeners(
+    evaluations: CheckpointEvaluation[],
+    checkTime: number,
+  ): Promise<void> {
+    for (const listener of this.checkListeners) {
+      try {
+        await listener(evaluations, checkTime);
+      } catch (error) {
+        CheckpointScheduler.logger.error('Checkpoint check listener failed:', error);
+      }
+    }
+  }
+
   /**
    * Perform the actual checkpoint check
    */
@@ -110,12 +110,16 @@ export class StartupRecovery {
    * Phase 1: Recover orphan sessions in the DB (crash recovery)
    * Phase 2: Generate open_time_start events and tab session state for all currently open tabs, but do NOT write to DB directly.
    *
+   * Sessions of `continuedTabStates` (restored after a service worker restart) are still
+   * running, so Phase 1 leaves them open and Phase 2 skips their tabs.
+   *
+   * @param continuedTabStates - Tab states the tracker resumes from its persisted snapshot
    * @returns {Promise<{ stats: RecoveryStats, tabStates: Array<{ tabId: number, tabState: TabState }>, events: DomainEvent[] }>}
    *   stats: Recovery statistics (DB orphan session recovery)
    *   tabStates: Initial in-memory session state for each tab
    *   events: open_time_start events for each tab (to be queued by TimeTracker)
    */
-  async executeRecovery(): Promise<{
+  async executeRecovery(continuedTabStates: readonly TabState[] = []): Promise<{
     stats: RecoveryStats;
     tabStates: Array<{ tabId: number; tabState: TabState }>;
     events: TrackingEvent[];
@@ -124,10 +128,12 @@ export class StartupRecovery {
 
     try {
       // Phase 1: Recover orphan sessions in DB
-      await this.recoverOrphanSessions();
+      await this.recoverOrphanSessions(continuedTabStates);
 
       // Phase 2: Generate open_time_start events and tabStates for current tabs
-      const { tabStates, events } = await this.initializeCurrentState();
+      const { tabStates, events } = await this.initializeCurrentState(
+        new Set(continuedTabStates.map(tabState => tabState.tabId))
+      );
 
       this.stats.recoveryCompletionTime = Date.now();
       StartupRecovery.logger.info('Complete startup recovery', {
@@ -149,12 +155,20 @@ export class StartupRecovery {
   /**
    * Phase 1: Identify and recover orphan events
    */
-  private async recoverOrphanSessions(): Promise<void> {
+  private async recoverOrphanSessions(continuedTabStates: readonly TabState[]): Promise<void> {
     StartupRecovery.logger.info('Phase 1: Search orphan sessions');
 
     try {
-      // Find orphan events in the database
-      const orphanEvents = await this.findOrphanEvents();
+      // Find orphan events in the database, leaving continued sessions open
+      const continuedVisitIds = new Set(continuedTabStates.map(tabState => tabState.visitId));
+      const continuedActivityIds = new Set(
+        continuedTabStates.flatMap(tabState => (tabState.activityId ? [tabState.activityId] : []))
+      );
+      const orphanEvents = (await this.findOrphanEvents()).filter(event =>
+        event.activityId
+          ? !continuedActivityIds.has(event.activityId)
+          : !event.visitId || !continuedVisitIds.has(event.visitId)
+      );
       this.stats.orphanSessionsFound = orphanEvents.length;
 
       if (orphanEvents.length === 0) {
@@ -182,14 +196,16 @@ export class StartupRecovery {
   /**
    * Phase 2: Initialize current browser state.
    *
-   * Creates new tab states and open_time_start events for all currently open tabs.
+   * Creates new tab states and open_time_start events for all currently open tabs,
+   * except those whose session is being continued.
    * All sessions are completely new, ensuring no visitId reuse.
    *
+   * @param continuedTabIds - Tabs that already have a restored session
    * @returns {Promise<{ tabStates: Array<{ tabId: number, tabState: TabState }>, events: TrackingEvent[] }>}
    *   tabStates: Newly created in-memory session state for each tab
    *   events: open_time_start events for each tab (to be queued by TimeTracker)
    */
-  private async initializeCurrentState(): Promise<{
+  private async initializeCurrentState(continuedTabIds: ReadonlySet<number>): Promise<{
     tabStates: Array<{ tabId: number; tabState: TabState }>;
     events: TrackingEvent[];
   }> {
@@ -201,7 +217,7 @@ export class StartupRecovery {
     try {
       // Get all currently open tabs
       const currentTabs = (await browser.tabs.query({})).filter(
-        tab => tab.id !== undefined && tab.id >= 0
+        tab => tab.id !== undefined && tab.id >= 0 && !continuedTabIds.has(tab.id)
       );
 
       StartupRecovery.logger.info(`Found ${currentTabs.length} currently open tabs`);
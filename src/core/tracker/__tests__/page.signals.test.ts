@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { browser, type Browser } from '#imports';
+
+import { TimeTracker } from '..';
+import type { PageSignalMessage } from '../types';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+
+const START = Date.parse('2025-06-16T12:00:00.000Z');
+const SECOND = 1000;
+const TAB_ID = 7;
+
+describe('TimeTracker page signals', () => {
+  let db: WebTimeTrackerDB;
+  let tracker: TimeTracker;
+  const tabId = TAB_ID;
+
+  async function sendSignal(
+    signal: PageSignalMessage['signal'],
+    active: boolean,
+    timestamp: number
+  ): Promise<void> {
+    await tracker.handleBrowserEvent({
+      type: 'page-signal',
+      tabId,
+      timestamp,
+      pageSignal: { signal, active, timestamp, tabId },
+    });
+  }
+
+  async function waitForActiveSession(): Promise<void> {
+    await vi.waitFor(() => expect(tracker.getTabState(tabId)?.activeTimeStart).toBeTruthy());
+  }
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    db = new WebTimeTrackerDB();
+    await db.open();
+
+    vi.spyOn(browser.tabs, 'get').mockResolvedValue({
+      id: TAB_ID,
+      windowId: 1,
+      url: 'https://example.com/',
+      audible: false,
+      active: true,
+    } as Browser.tabs.Tab);
+
+    tracker = new TimeTracker({ enableStartupRecovery: false, enableCheckpoints: false }, db);
+    await tracker.initialize();
+    await tracker.start();
+    await tracker.handleBrowserEvent({
+      type: 'web-navigation-committed',
+      tabId,
+      url: 'https://example.com/',
+      timestamp: START,
+    });
+  });
+
+  afterEach(async () => {
+    await tracker.stop();
+    vi.restoreAllMocks();
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should start active time when the page becomes visible and end it when hidden', async () => {
+    await sendSignal('visibility', true, START + SECOND);
+    await waitForActiveSession();
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBe(START + SECOND);
+
+    await sendSignal('visibility', false, START + 10 * SECOND);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBeNull();
+
+    await tracker.stop();
+    const ends = await db.eventslog
+      .filter(event => event.eventType === 'active_time_end')
+      .toArray();
+    expect(ends).toHaveLength(1);
+    expect(ends[0].timestamp).toBe(START + 10 * SECOND);
+  });
+
+  it('should keep active time on focus loss while media is playing', async () => {
+    await sendSignal('media', true, START + SECOND);
+    await waitForActiveSession();
+    expect(tracker.getTabState(tabId)?.isMediaPlaying).toBe(true);
+
+    await sendSignal('focus', false, START + 2 * SECOND);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBe(START + SECOND);
+
+    await sendSignal('media', false, START + 3 * SECOND);
+    expect(tracker.getTabState(tabId)).toMatchObject({
+      isMediaPlaying: false,
+      activeTimeStart: START + SECOND,
+      lastInteractionTimestamp: START + 3 * SECOND,
+    });
+
+    await sendSignal('focus', false, START + 4 * SECOND);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBeNull();
+  });
+
+  it('should ignore idle notifications that used a shorter timeout than the media timeout', async () => {
+    await sendSignal('media', true, START + SECOND);
+    await waitForActiveSession();
+    const tabState = tracker.getTabState(tabId)!;
+    const defaultTimeout = tracker.getInactiveTimeout({ isAudible: false });
+    const mediaTimeout = tracker.getInactiveTimeout(tabState);
+    expect(mediaTimeout).toBeGreaterThan(defaultTimeout);
+
+    await tracker.endActiveSessionDueToIdle(tabId, START + 2 * SECOND, defaultTimeout);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBe(START + SECOND);
+
+    await tracker.endActiveSessionDueToIdle(tabId, START + 3 * SECOND, mediaTimeout);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBeNull();
+  });
+
+  it('should judge idle notifications against updated user timeouts', async () => {
+    tracker.updateTimeTrackingConfig({
+      inactiveTimeoutDefault: 60 * SECOND,
+      inactiveTimeoutMedia: 600 * SECOND,
+      scrollThresholdPixels: 20,
+      mousemoveThresholdPixels: 10,
+    });
+    expect(tracker.getInactiveTimeout({ isAudible: false })).toBe(60 * SECOND);
+
+    await sendSignal('visibility', true, START + SECOND);
+    await waitForActiveSession();
+
+    // A page still on the old 30s default must not end the session early
+    await tracker.endActiveSessionDueToIdle(tabId, START + 31 * SECOND, 30 * SECOND);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBe(START + SECOND);
+
+    await tracker.endActiveSessionDueToIdle(tabId, START + 61 * SECOND, 60 * SECOND);
+    expect(tracker.getTabState(tabId)?.activeTimeStart).toBeNull();
+  });
+});
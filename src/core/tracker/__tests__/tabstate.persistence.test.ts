@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { browser, type Browser } from '#imports';
+
+import { TimeTracker } from '..';
+import { WebTimeTrackerDB } from '@/core/db/schemas';
+
+const TAB_ID = 7;
+const SECOND = 1000;
+
+function buildTab(url: string): Browser.tabs.Tab {
+  return { id: TAB_ID, windowId: 1, url, audible: false, active: true } as Browser.tabs.Tab;
+}
+
+describe('TimeTracker tab state persistence', () => {
+  let db: WebTimeTrackerDB;
+  let trackers: TimeTracker[];
+
+  function mockOpenTab(url: string): void {
+    vi.spyOn(browser.tabs, 'query').mockResolvedValue([buildTab(url)]);
+    vi.spyOn(browser.tabs, 'get').mockResolvedValue(buildTab(url));
+  }
+
+  /**
+   * Start a tracker the way a fresh service worker does
+   */
+  async function startTracker(): Promise<TimeTracker> {
+    const tracker = new TimeTracker({ enableStartupRecovery: true, enableCheckpoints: false }, db);
+    trackers.push(tracker);
+    await tracker.initialize();
+    await tracker.start();
+    return tracker;
+  }
+
+  /**
+   * Activate the tab, then let the worker suspend so queue and snapshot are written
+   */
+  async function activateAndSuspend(tracker: TimeTracker, timestamp: number): Promise<void> {
+    await tracker.handleBrowserEvent({
+      type: 'page-signal',
+      tabId: TAB_ID,
+      timestamp,
+      pageSignal: { signal: 'visibility', active: true, timestamp, tabId: TAB_ID },
+    });
+    await vi.waitFor(() => expect(tracker.getTabState(TAB_ID)?.activeTimeStart).toBeTruthy());
+    await tracker.handleBrowserEvent({ type: 'runtime-suspend', timestamp: Date.now() });
+  }
+
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    db = new WebTimeTrackerDB();
+    await db.open();
+    trackers = [];
+  });
+
+  afterEach(async () => {
+    for (const tracker of trackers) {
+      await tracker.stop();
+    }
+    vi.restoreAllMocks();
+    if (db && db.isOpen()) {
+      await db.delete();
+      db.close();
+    }
+  });
+
+  it('should continue the visit and activity after a service worker restart', async () => {
+    mockOpenTab('https://example.com/');
+    const first = await startTracker();
+    await activateAndSuspend(first, Date.now());
+    const before = first.getTabState(TAB_ID)!;
+
+    const second = await startTracker();
+    const after = second.getTabState(TAB_ID);
+
+    expect(after).toMatchObject({
+      visitId: before.visitId,
+      activityId: before.activityId,
+      activeTimeStart: before.activeTimeStart,
+    });
+
+    await second.stop();
+    const events = await db.eventslog.toArray();
+    expect(events.filter(event => event.eventType === 'open_time_start')).toHaveLength(1);
+    expect(events.some(event => event.resolution === 'crash_recovery')).toBe(false);
+  });
+
+  it('should close the old visit when the tab navigated while no worker was running', async () => {
+    mockOpenTab('https://example.com/');
+    const first = await startTracker();
+    await activateAndSuspend(first, Date.now());
+    const oldVisitId = first.getTabState(TAB_ID)!.visitId;
+
+    mockOpenTab('https://other.org/');
+    const second = await startTracker();
+    expect(second.getTabState(TAB_ID)?.visitId).not.toBe(oldVisitId);
+
+    await second.stop();
+    const oldVisitEnd = await db.eventslog
+      .filter(event => event.visitId === oldVisitId && event.eventType === 'open_time_end')
+      .first();
+    expect(oldVisitEnd?.resolution).toBe('crash_recovery');
+  });
+
+  it('should end a resumed activity that timed out while the worker was stopped', async () => {
+    mockOpenTab('https://example.com/');
+    const first = await startTracker();
+    const lastInteraction = Date.now() - 120 * SECOND;
+    await activateAndSuspend(first, lastInteraction);
+    const { visitId, activityId } = first.getTabState(TAB_ID)!;
+
+    const second = await startTracker();
+    expect(second.getTabState(TAB_ID)).toMatchObject({ visitId, activityId: null });
+
+    await second.stop();
+    const activityEnd = await db.eventslog
+      .filter(event => event.activityId === activityId && event.eventType === 'active_time_end')
+      .first();
+    expect(activityEnd?.timestamp).toBe(
+      lastInteraction + second.getInactiveTimeout({ isAudible: false })
+    );
+  });
+});
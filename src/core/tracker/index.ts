@@ -2,15 +2,20 @@ import { browser } from '#imports';
 import { type Browser } from 'wxt/browser';
 import { EventGenerator } from '@/core/tracker/utils/EventGenerator';
 import { EventQueue } from '@/core/tracker/utils/EventQueue';
-import { CheckpointScheduler } from '@/core/tracker/CheckpointScheduler';
+import {
+  CheckpointScheduler,
+  type CheckpointCheckListener,
+} from '@/core/tracker/CheckpointScheduler';
 import { StartupRecovery } from '@/core/tracker/StartupRecovery';
 import { createLogger } from '@/utils/logger';
 import { DatabaseService } from '@/core/db/services/database.service';
 import { db, type WebTimeTrackerDB } from '@/core/db/schemas';
-import { TabState, InteractionMessage } from '@/core/tracker/types';
+import { TabState, InteractionMessage, type PageSignalMessage } from '@/core/tracker/types';
 import { TabStateManager } from '@/core/tracker/utils/TabStateManager';
+import { TabStateStore } from '@/core/tracker/utils/TabStateStore';
 import {
   type Config,
+  type TimeTrackingConfig,
   DEFAULT_CONFIG,
   validateConfig,
 } from '@/config/constants';
@@ -53,6 +58,7 @@ export type BrowserEventType =
   | 'window-focus-changed'
   | 'web-navigation-committed'
   | 'user-interaction'
+  | 'page-signal'
   | 'runtime-suspend';
 
 /**
@@ -64,6 +70,7 @@ export type BrowserEventType =
  * @property {string} [url] - The URL of the page related to the event (optional), such as navigation or update events.
  * @property {Browser.tabs.TabChangeInfo} [changeInfo] - Detailed information about tab changes (optional), such as URL, audible status, etc.
  * @property {InteractionMessage} [interaction] - The user interaction message body (optional), present only for 'user-interaction' events.
+ * @property {PageSignalMessage} [pageSignal] - The page visibility/focus/media change (optional), present only for 'page-signal' events.
  * @property {number} timestamp - The timestamp of when the event occurred (in milliseconds).
  */
 export interface BrowserEventData {
@@ -73,6 +80,7 @@ export interface BrowserEventData {
   url?: string;
   changeInfo?: Browser.tabs.TabChangeInfo;
   interaction?: InteractionMessage;
+  pageSignal?: PageSignalMessage;
   timestamp: number;
 }
 
@@ -90,6 +98,7 @@ export class TimeTracker {
 
   // Core components
   private tabStateManager: TabStateManager;
+  private readonly tabStateStore = new TabStateStore();
   private eventGenerator: EventGenerator;
   private eventQueue: EventQueue;
   private checkpointScheduler: CheckpointScheduler;
@@ -117,6 +126,7 @@ export class TimeTracker {
     ['window-focus-changed', this.handleWindowFocusChanged.bind(this)],
     ['web-navigation-committed', this.handleWebNavigationCommitted.bind(this)],
     ['user-interaction', this.handleUserInteraction.bind(this)],
+    ['page-signal', this.handlePageSignal.bind(this)],
     ['runtime-suspend', () => this.handleRuntimeSuspend()],
   ]);
 
@@ -141,11 +151,9 @@ export class TimeTracker {
     }
 
     // Initialize core components
-    this.urlProcessor = createDefaultURLProcessor({
-      ignoredHostnames: this.config.urlFiltering.ignoredHostnames,
-      ignoredQueryParams: this.config.urlFiltering.ignoredQueryParams,
-    });
-    this.tabStateManager = new TabStateManager();
+    // Follows the active URL filtering config, like the stats keys do
+    this.urlProcessor = createDefaultURLProcessor();
+    this.tabStateManager = new TabStateManager(this.tabStateStore);
     this.eventGenerator = new EventGenerator({
       validateEvents: true,
       urlProcessor: this.urlProcessor,
@@ -185,6 +193,9 @@ export class TimeTracker {
    * The returned tabStates are used to initialize FocusStateManager (in-memory session state),
    * and the events are queued to EventQueue for DB persistence. This eliminates redundant event generation.
    *
+   * Tab states persisted by a previous service worker are restored first, so visits and
+   * activities still running in their tabs continue under the same IDs.
+   *
    * @returns Initialization result
    */
   async initialize(): Promise<TimeTrackerInitResult> {
@@ -200,10 +211,13 @@ export class TimeTracker {
     try {
       TimeTracker.logger.info('Initialize time tracker');
 
+      // Resume sessions from before a service worker restart instead of closing them
+      const restored = await this.restorePersistedTabStates();
+
       // Use StartupRecovery as the single entry for both DB and in-memory session state recovery
       let recoveryResult;
       if (this.config.enableStartupRecovery) {
-        recoveryResult = await this.startupRecovery.executeRecovery();
+        recoveryResult = await this.startupRecovery.executeRecovery(restored.tabStates);
       } else {
         recoveryResult = {
           stats: { orphanSessionsRecovered: 0, currentTabsInitialized: 0, initializationTime: 0 },
@@ -214,13 +228,22 @@ export class TimeTracker {
 
       // Initialize in-memory tab states from recovery result using batch loading
       this.tabStateManager.clearAllState();
-      const loadedCount = this.tabStateManager.loadTabStatesBatch(recoveryResult.tabStates);
+      const loadedCount = this.tabStateManager.loadTabStatesBatch([
+        ...restored.tabStates.map(tabState => ({ tabId: tabState.tabId, tabState })),
+        ...recoveryResult.tabStates,
+      ]);
+      if (restored.focusedTab) {
+        this.tabStateManager.setFocusedTab(restored.focusedTab.tabId, restored.focusedTab.windowId);
+      }
 
-      // Note: No persistent storage sync needed in pure memory mode
       TimeTracker.logger.debug('Loaded recovered tab states into memory', {
         tabCount: loadedCount,
+        resumedCount: restored.tabStates.length,
       });
 
+      // Close activities that went idle while no worker was running to notice
+      await this.endStaleRestoredActivities(restored.tabStates);
+
       // Queue open_time_start events for DB persistence
       for (const event of recoveryResult.events) {
         await this.eventQueue.enqueue(event);
@@ -454,17 +477,7 @@ export class TimeTracker {
 
     TimeTracker.logger.debug(`Handle tab removed`, { tabId: eventData.tabId });
 
-    const tabState = this.tabStateManager.getTabState(eventData.tabId);
-    if (tabState) {
-      // End any active sessions
-      if (tabState.activeTimeStart) {
-        await this.generateAndQueueActiveTimeEnd(tabState, eventData.timestamp, 'tab_closed');
-      }
-      await this.generateAndQueueOpenTimeEnd(tabState, eventData.timestamp);
-
-      // Clear tab state (memory only)
-      this.tabStateManager.clearTabState(eventData.tabId);
-    }
+    await this.endTabSession(eventData.tabId, eventData.timestamp, 'tab_closed');
   }
 
   // TODO: Implement window focus change handling
@@ -524,35 +537,187 @@ export class TimeTracker {
     // Ensure tab state exists before processing
     await this.getOrCreateTabState(eventData.tabId);
 
+    this.startActiveSession(eventData.tabId, eventData.timestamp);
+
+    // Update last interaction timestamp (this should always happen)
+    this.tabStateManager.updateLastInteraction(eventData.tabId, eventData.timestamp);
+  }
+
+  /**
+   * Handle visibility, focus and media changes reported by the content script.
+   *
+   * The page becoming visible or focused, or media starting to play, starts an
+   * active session like an interaction does. Hiding the page ends it; losing
+   * window focus ends it unless media keeps playing (e.g. a video watched while
+   * typing elsewhere). Media stopping only switches the tab back to the default
+   * inactivity timeout.
+   */
+  private async handlePageSignal(eventData: BrowserEventData): Promise<void> {
+    const signal = eventData.pageSignal;
+    if (!signal || eventData.tabId === undefined || eventData.tabId < 0) return;
+
+    TimeTracker.logger.debug(`Handle page signal`, {
+      tabId: eventData.tabId,
+      signal: signal.signal,
+      active: signal.active,
+    });
+
+    await this.getOrCreateTabState(eventData.tabId);
+
     const tabId = eventData.tabId;
     const tabState = this.tabStateManager.getTabState(tabId);
+    if (!tabState) return;
+
+    if (signal.signal === 'media') {
+      this.tabStateManager.updateTabState(tabId, { isMediaPlaying: signal.active });
+    }
+
+    if (signal.active) {
+      this.startActiveSession(tabId, eventData.timestamp);
+      this.tabStateManager.updateLastInteraction(tabId, eventData.timestamp);
+      return;
+    }
+
+    const keepsPlaying = signal.signal === 'focus' && tabState.isMediaPlaying;
+    if (signal.signal !== 'media' && !keepsPlaying && tabState.activeTimeStart) {
+      // Wait for a session start still in flight so its end event is not lost
+      await this.activeSessionPromises.get(tabId);
+      const currentState = this.tabStateManager.getTabState(tabId);
+      if (currentState) {
+        await this.generateAndQueueActiveTimeEnd(currentState, eventData.timestamp, 'focus_lost');
+      }
+    } else if (signal.signal === 'media') {
+      // The inactivity timeout restarts from the moment playback stopped
+      this.tabStateManager.updateLastInteraction(tabId, eventData.timestamp);
+    }
+  }
+
+  /**
+   * Start an active session for a tab unless one is running or being started.
+   *
+   * Uses an async operation lock to prevent race conditions from concurrent signals.
+   */
+  private startActiveSession(tabId: number, timestamp: number): void {
+    const tabState = this.tabStateManager.getTabState(tabId);
 
-    // Check if we need to start active time tracking
-    // Use async operation lock to prevent race conditions from concurrent interactions
     if (tabState && !tabState.activeTimeStart && !this.activeSessionPromises.has(tabId)) {
       // Create promise for starting active session and set up the async lock
-      const activeSessionPromise = this.generateAndQueueActiveTimeStart(
-        tabState,
-        eventData.timestamp
-      ).finally(() => {
-        // Always clean up the lock when operation completes (success or failure)
-        this.activeSessionPromises.delete(tabId);
-      });
+      const activeSessionPromise = this.generateAndQueueActiveTimeStart(tabState, timestamp).finally(
+        () => {
+          // Always clean up the lock when operation completes (success or failure)
+          this.activeSessionPromises.delete(tabId);
+        }
+      );
 
       // Set the async lock immediately to prevent concurrent operations
       this.activeSessionPromises.set(tabId, activeSessionPromise);
 
-      // Note: We don't await the promise here to avoid blocking the interaction processing
+      // Note: We don't await the promise here to avoid blocking the signal processing
       // The lock mechanism ensures only one active session creation happens per tab
     }
+  }
 
-    // Update last interaction timestamp (this should always happen)
-    this.tabStateManager.updateLastInteraction(eventData.tabId, eventData.timestamp);
+  /**
+   * Inactivity timeout that applies to a tab
+   *
+   * Tabs playing media (reported by the page or by tab audibility) get the longer
+   * media timeout, so watching or listening without input stays active.
+   */
+  getInactiveTimeout(tabState: Pick<TabState, 'isAudible' | 'isMediaPlaying'>): number {
+    return tabState.isMediaPlaying || tabState.isAudible
+      ? this.config.timeTracking.inactiveTimeoutMedia
+      : this.config.timeTracking.inactiveTimeoutDefault;
+  }
+
+  /**
+   * Apply user-configured inactivity timeouts and interaction thresholds
+   *
+   * Called at startup and whenever the stored config changes, so idle checks agree
+   * with the timeouts content scripts are using.
+   */
+  updateTimeTrackingConfig(timeTracking: TimeTrackingConfig): void {
+    this.config = { ...this.config, timeTracking: { ...timeTracking } };
+    TimeTracker.logger.debug('Time tracking config updated', timeTracking);
   }
 
   private async handleRuntimeSuspend(): Promise<void> {
     TimeTracker.logger.info('Runtime suspending, flushing event queue...');
     await this.eventQueue.flush();
+    await this.tabStateManager.persist();
+  }
+
+  /**
+   * Load the persisted tab states that can be resumed
+   *
+   * A state is resumed only while its tab is still open on the same (normalized) URL and
+   * the snapshot is younger than the startup recovery window; anything else is left to
+   * StartupRecovery, which closes it as an orphan.
+   */
+  private async restorePersistedTabStates(): Promise<{
+    tabStates: TabState[];
+    focusedTab?: { tabId: number; windowId: number };
+  }> {
+    const snapshot = await this.tabStateStore.load();
+    if (!snapshot || Date.now() - snapshot.savedAt > this.config.startupRecovery.maxSessionAge) {
+      return { tabStates: [] };
+    }
+
+    const currentTabs = new Map(
+      (await browser.tabs.query({})).flatMap(tab => (tab.id !== undefined ? [[tab.id, tab]] : []))
+    );
+
+    const tabStates = snapshot.tabStates.flatMap(tabState => {
+      const tab = currentTabs.get(tabState.tabId);
+      if (!tab?.url || tabState.sessionEnded) return [];
+
+      const urlValidation = this.urlProcessor.processUrl(tab.url);
+      if (!urlValidation.isValid || urlValidation.normalizedUrl !== tabState.url) return [];
+
+      return [
+        {
+          ...tabState,
+          isAudible: tab.audible ?? tabState.isAudible,
+          isFocused: false,
+          windowId: tab.windowId ?? tabState.windowId,
+        },
+      ];
+    });
+
+    const { focusedTabId } = snapshot.focusContext;
+    const focusedState = tabStates.find(tabState => tabState.tabId === focusedTabId);
+
+    TimeTracker.logger.info('Restored persisted tab states', {
+      persisted: snapshot.tabStates.length,
+      resumed: tabStates.length,
+    });
+
+    return {
+      tabStates,
+      focusedTab: focusedState && { tabId: focusedState.tabId, windowId: focusedState.windowId },
+    };
+  }
+
+  /**
+   * End resumed activities whose inactivity timeout ran out while the worker was stopped
+   *
+   * The end is placed where the page's idle timer would have fired.
+   */
+  private async endStaleRestoredActivities(tabStates: readonly TabState[]): Promise<void> {
+    const now = Date.now();
+
+    for (const { tabId } of tabStates) {
+      const tabState = this.tabStateManager.getTabState(tabId);
+      if (!tabState?.activeTimeStart) continue;
+
+      const idleAt = tabState.lastInteractionTimestamp + this.getInactiveTimeout(tabState);
+      if (idleAt <= now) {
+        await this.generateAndQueueActiveTimeEnd(
+          tabState,
+          Math.max(idleAt, tabState.activeTimeStart),
+          'timeout'
+        );
+      }
+    }
   }
 
   // Helper methods for event generation and queuing
@@ -834,6 +999,59 @@ export class TimeTracker {
     return this.tabStateManager.getTabState(tabId);
   }
 
+  /**
+   * Get all tracked tab states
+   * @returns A read-only view of the in-memory tab states keyed by tab ID
+   */
+  getAllTabStates(): ReadonlyMap<number, TabState> {
+    return this.tabStateManager.getAllTabStates();
+  }
+
+  /**
+   * Write all queued events to the database now
+   *
+   * For readers that need the event log to be complete up to this moment.
+   */
+  async flushEvents(): Promise<void> {
+    await this.eventQueue.flush();
+  }
+
+  /**
+   * Register a listener that runs after each periodic checkpoint check
+   * @param listener - Function to call with the checkpoint evaluations
+   * @returns A function that removes the listener
+   */
+  onCheckpointCheck(listener: CheckpointCheckListener): () => void {
+    return this.checkpointScheduler.addCheckListener(listener);
+  }
+
+  /**
+   * End all sessions for a tab and forget its state.
+   *
+   * Used when a tab is closed, and when the tab leaves a trackable page in a way
+   * the navigation listeners ignore (e.g. redirect to an extension page).
+   * @param tabId - The tab ID to end sessions for
+   * @param timestamp - The timestamp when the sessions ended
+   * @param reason - Reason recorded on the active_time_end event
+   */
+  async endTabSession(
+    tabId: number,
+    timestamp: number,
+    reason: 'tab_closed' | 'navigation' = 'tab_closed'
+  ): Promise<void> {
+    const tabState = this.tabStateManager.getTabState(tabId);
+    if (!tabState) return;
+
+    // End any active sessions
+    if (tabState.activeTimeStart) {
+      await this.generateAndQueueActiveTimeEnd(tabState, timestamp, reason);
+    }
+    await this.generateAndQueueOpenTimeEnd(tabState, timestamp);
+
+    // Clear tab state (memory only)
+    this.tabStateManager.clearTabState(tabId);
+  }
+
   /**
    * Set callback for audible state changes
    * @param callback - Function to call when audible state changes
@@ -846,8 +1064,13 @@ export class TimeTracker {
    * End active session for a tab due to idle timeout
    * @param tabId - The tab ID to end active session for
    * @param timestamp - The timestamp when idle was detected
+   * @param appliedTimeout - Inactivity timeout the page waited for, if it reported one
    */
-  async endActiveSessionDueToIdle(tabId: number, timestamp: number): Promise<void> {
+  async endActiveSessionDueToIdle(
+    tabId: number,
+    timestamp: number,
+    appliedTimeout?: number
+  ): Promise<void> {
     // Lock to prevent race conditions from multiple idle events
     if (this.sessionEndLocks.has(tabId)) {
       TimeTracker.logger.debug('Session end already in progress for tab, skipping', { tabId });
@@ -862,6 +1085,18 @@ export class TimeTracker {
       return;
     }
 
+    // The page may not have switched to the media timeout yet (e.g. the tab just became
+    // audible); it re-arms its idle timer with the longer timeout once it learns about it
+    const timeout = this.getInactiveTimeout(tabState);
+    if (appliedTimeout !== undefined && appliedTimeout < timeout) {
+      TimeTracker.logger.debug('Idle notification used a shorter timeout, skipping', {
+        tabId,
+        appliedTimeout,
+        timeout,
+      });
+      return;
+    }
+
     try {
       this.sessionEndLocks.add(tabId);
 
@@ -34,6 +34,9 @@ export const TabStateSchema = z.object({
   /** Whether the tab is currently playing audio */
   isAudible: z.boolean(),
 
+  /** Whether a <video>/<audio> element on the page is playing, as reported by the content script */
+  isMediaPlaying: z.boolean().optional(),
+
   /** Timestamp of the last user interaction (Unix timestamp in milliseconds) */
   lastInteractionTimestamp: z.number().int().min(0),
 
@@ -90,6 +93,28 @@ export const InteractionMessageSchema = z.object({
 
 export type InteractionMessage = z.infer<typeof InteractionMessageSchema>;
 
+/**
+ * Schema for page activity signals from content script to background script
+ *
+ * Unlike interactions these are state changes: the page became visible or hidden,
+ * the window gained or lost focus, or media on the page started or stopped playing.
+ */
+export const PageSignalMessageSchema = z.object({
+  /** Which page state changed */
+  signal: z.enum(['visibility', 'focus', 'media']),
+
+  /** New state: visible, focused or media playing */
+  active: z.boolean(),
+
+  /** Timestamp when the change occurred (Unix timestamp in milliseconds) */
+  timestamp: z.number().int().min(0),
+
+  /** Tab ID where the change occurred */
+  tabId: z.number().int().nonnegative(),
+});
+
+export type PageSignalMessage = z.infer<typeof PageSignalMessageSchema>;
+
 /**
  * Schema for idle notification messages from content script to background script
  */
@@ -99,6 +124,9 @@ export const IdleNotificationMessageSchema = z.object({
 
   /** Timestamp when idle state was detected (Unix timestamp in milliseconds) */
   timestamp: z.number().int().min(0),
+
+  /** Inactivity timeout the page waited for before reporting idle (milliseconds) */
+  timeout: z.number().int().nonnegative().optional(),
 });
 
 export type IdleNotificationMessage = z.infer<typeof IdleNotificationMessageSchema>;
@@ -202,6 +230,23 @@ export const FocusContextSchema = z.object({
 
 export type FocusContext = z.infer<typeof FocusContextSchema>;
 
+/**
+ * Schema for the tab state snapshot kept in session storage
+ * Lets a restarted service worker continue the visits and activities it was tracking
+ */
+export const TabStateSnapshotSchema = z.object({
+  /** When the snapshot was written (Unix timestamp in milliseconds) */
+  savedAt: z.number().int().min(0),
+
+  /** Focus context at the time of the snapshot */
+  focusContext: FocusContextSchema,
+
+  /** Tab states; each entry is validated against TabStateSchema when restored */
+  tabStates: z.array(z.unknown()),
+});
+
+export type TabStateSnapshot = z.infer<typeof TabStateSnapshotSchema>;
+
 // ============================================================================
 // Event Queue Management
 // ============================================================================
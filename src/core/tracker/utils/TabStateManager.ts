@@ -2,12 +2,14 @@
  * Tab State Manager
  *
  * Implements the core state management class that maintains the "single focus" principle.
- * This class tracks the state of all browser tabs using in-memory storage only.
+ * This class tracks the state of all browser tabs in memory, optionally writing every
+ * change through to a TabStateStore so it survives service worker restarts.
  * It provides methods for focus management, tab state transitions, and ensures only one
  * tab can be considered "focused" at any time according to LLD specifications.
  */
 
 import { TabState, TabStateSchema, FocusContext, FocusContextSchema } from '@/core/tracker/types';
+import type { TabStateStore } from '@/core/tracker/utils/TabStateStore';
 import { createLogger } from '@/utils/logger';
 
 /**
@@ -36,7 +38,7 @@ export interface FocusChangeEvent {
  * Tab State Manager Class
  *
  * Manages the single-focus principle for time tracking by maintaining
- * real-time state of all browser tabs using in-memory storage only.
+ * real-time state of all browser tabs in memory.
  */
 export class TabStateManager {
   /** Memory cache: Map of tab ID to tab state */
@@ -55,6 +57,14 @@ export class TabStateManager {
   /** Event listeners for focus changes */
   private focusChangeListeners: Array<(event: FocusChangeEvent) => void> = [];
 
+  /** Whether a snapshot write is already scheduled for this tick */
+  private isPersistScheduled = false;
+
+  /**
+   * @param store - Optional store that every state change is written through to
+   */
+  constructor(private readonly store?: TabStateStore) {}
+
   // ============================================================================
   // Focus Management
   // ============================================================================
@@ -105,6 +115,7 @@ export class TabStateManager {
       windowId,
     };
 
+    this.schedulePersist();
     this.notifyFocusChange(focusChangeEvent);
   }
 
@@ -134,6 +145,7 @@ export class TabStateManager {
         windowId: this.focusContext.focusedWindowId || -1,
       };
 
+      this.schedulePersist();
       this.notifyFocusChange(focusChangeEvent);
     }
   }
@@ -222,6 +234,7 @@ export class TabStateManager {
 
     // Update memory cache
     this.tabStates.set(tabId, newState);
+    this.schedulePersist();
   }
 
   /**
@@ -251,6 +264,7 @@ export class TabStateManager {
   clearTabState(tabId: number): void {
     // Remove from memory cache
     this.tabStates.delete(tabId);
+    this.schedulePersist();
 
     // Clear focus if this was the focused tab
     if (this.focusContext.focusedTabId === tabId) {
@@ -306,6 +320,7 @@ export class TabStateManager {
    */
   private setTabStateInMemory(tabId: number, tabState: TabState): void {
     this.tabStates.set(tabId, tabState);
+    this.schedulePersist();
   }
 
   /**
@@ -335,6 +350,35 @@ export class TabStateManager {
     return loadedCount;
   }
 
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  /**
+   * Writes the current state to the store now
+   *
+   * @returns Resolves once the snapshot is written (immediately without a store)
+   */
+  async persist(): Promise<void> {
+    if (!this.store) return;
+    await this.store.save(this.getFocusContext(), this.tabStates.values());
+  }
+
+  /**
+   * Coalesces all changes made in the current tick into a single snapshot write
+   *
+   * @private
+   */
+  private schedulePersist(): void {
+    if (!this.store || this.isPersistScheduled) return;
+
+    this.isPersistScheduled = true;
+    queueMicrotask(() => {
+      this.isPersistScheduled = false;
+      void this.persist();
+    });
+  }
+
   // ============================================================================
   // Event Management
   // ============================================================================
@@ -463,7 +507,8 @@ export class TabStateManager {
       focusedWindowId: null,
       lastFocusChange: Date.now(),
     };
-    
+    this.schedulePersist();
+
     TabStateManager.logger.info('Cleared all tab states from memory');
   }
 
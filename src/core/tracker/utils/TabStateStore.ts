@@ -0,0 +1,95 @@
+/**
+ * Tab State Store
+ *
+ * Persists snapshots of the tracker's tab states to `storage.session`. MV3 service workers
+ * are stopped whenever they go idle; the snapshot survives that (but not a browser restart),
+ * so the next worker can continue the open visits and activities instead of closing them.
+ */
+
+import { storage } from '#imports';
+import { TAB_STATE_SNAPSHOT_KEY } from '@/config/constants';
+import {
+  TabState,
+  TabStateSchema,
+  FocusContext,
+  TabStateSnapshot,
+  TabStateSnapshotSchema,
+} from '@/core/tracker/types';
+import { createLogger } from '@/utils/logger';
+
+/**
+ * Snapshot restored from storage, with invalid tab states dropped
+ */
+export interface RestoredTabStates {
+  savedAt: number;
+  focusContext: FocusContext;
+  tabStates: TabState[];
+}
+
+const snapshotItem = storage.defineItem<TabStateSnapshot | null>(TAB_STATE_SNAPSHOT_KEY, {
+  fallback: null,
+});
+
+/**
+ * Tab State Store Class
+ *
+ * Writes are chained so snapshots land in the order they were taken.
+ */
+export class TabStateStore {
+  private static readonly logger = createLogger('💾 TabStateStore');
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a snapshot write
+   *
+   * @param focusContext - Current focus context
+   * @param tabStates - All tab states in memory
+   * @returns Resolves once this snapshot (and every earlier one) has been written
+   */
+  save(focusContext: FocusContext, tabStates: Iterable<TabState>): Promise<void> {
+    const snapshot: TabStateSnapshot = {
+      savedAt: Date.now(),
+      focusContext,
+      tabStates: [...tabStates],
+    };
+
+    this.writeChain = this.writeChain
+      .then(() => snapshotItem.setValue(snapshot))
+      .catch(error => {
+        TabStateStore.logger.warn('Failed to persist tab states', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Load the last snapshot
+   *
+   * Tab states that fail TabStateSchema (e.g. tabs whose visit has not started yet)
+   * are dropped.
+   *
+   * @returns The snapshot, or null if none exists or it is malformed
+   */
+  async load(): Promise<RestoredTabStates | null> {
+    try {
+      const parsed = TabStateSnapshotSchema.safeParse(await snapshotItem.getValue());
+      if (!parsed.success) {
+        return null;
+      }
+
+      const tabStates = parsed.data.tabStates.flatMap(state => {
+        const result = TabStateSchema.safeParse(state);
+        return result.success ? [result.data] : [];
+      });
+
+      return { savedAt: parsed.data.savedAt, focusContext: parsed.data.focusContext, tabStates };
+    } catch (error) {
+      TabStateStore.logger.warn('Failed to load persisted tab states', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
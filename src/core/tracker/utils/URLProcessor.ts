@@ -2,14 +2,18 @@
  * URL Processor for Time Tracking
  *
  * Extends the existing URL normalization functionality to support CSPEC requirements.
- * This processor integrates with the existing url-normalizer.util.ts and adds support
- * for hostname filtering (IGNORED_HOSTNAMES_DEFAULT) and additional query parameter
- * filtering (IGNORED_QUERY_PARAMS_DEFAULT). It provides methods for URL validation,
- * normalization, and filtering specifically for time tracking purposes.
+ * Normalization itself is delegated to `normalizeUrl` in url-normalizer.util.ts, the
+ * same pipeline that keys the aggregated stats; this processor adds hostname and
+ * protocol filtering on top. Options that are not set follow the active URL
+ * filtering config, i.e. the user's settings once the background has registered them.
  */
 
-import { normalizeUrl, isAllowedQueryParam, ALLOWED_QUERY_PARAMS } from '@/core/db/utils/url-normalizer.util';
-import { DEFAULT_CONFIG } from '@/config/constants';
+import {
+  normalizeUrl,
+  getActiveUrlFilteringConfig,
+  ALLOWED_QUERY_PARAMS,
+} from '@/core/db/utils/url-normalizer.util';
+import { UrlNormalizationRuleSchema, type UrlNormalizationRule } from '@/config/constants';
 import { z } from 'zod/v4';
 
 // ============================================================================
@@ -20,9 +24,9 @@ import { z } from 'zod/v4';
  * URL processing options
  */
 export interface URLProcessingOptions {
-  /** Hostnames to ignore */
+  /** Hostnames to ignore (defaults to the active config) */
   ignoredHostnames?: string[];
-  /** Query parameters to remove during normalization */
+  /** Query parameters to remove during normalization (defaults to the active config) */
   ignoredQueryParams?: string[];
   /** Additional query parameters to allow beyond the default whitelist */
   additionalAllowedParams?: string[];
@@ -30,6 +34,8 @@ export interface URLProcessingOptions {
   preserveFragment?: boolean;
   /** Whether to sort query parameters for consistency */
   sortParams?: boolean;
+  /** Per-site normalization rules (defaults to the active config) */
+  siteRules?: UrlNormalizationRule[];
 }
 
 /**
@@ -61,6 +67,7 @@ export const URLProcessingOptionsSchema = z.object({
   additionalAllowedParams: z.array(z.string()).optional(),
   preserveFragment: z.boolean().optional(),
   sortParams: z.boolean().optional(),
+  siteRules: z.array(UrlNormalizationRuleSchema).optional(),
 });
 
 // ============================================================================
@@ -74,16 +81,16 @@ export const URLProcessingOptionsSchema = z.object({
  * including validation, normalization, and filtering based on CSPEC requirements.
  */
 export class URLProcessor {
-  private ignoredHostnamesSet: Set<string>;
-  private ignoredQueryParamsSet: Set<string>;
+  private ignoredHostnamesSet: Set<string> | null;
   private options: URLProcessingOptions;
 
   constructor(options: URLProcessingOptions = {}) {
     this.options = URLProcessingOptionsSchema.parse(options);
 
-    // Build ignored hostnames set
-    this.ignoredHostnamesSet = new Set(this.options.ignoredHostnames || []);
-    this.ignoredQueryParamsSet = new Set(this.options.ignoredQueryParams || []);
+    // Build ignored hostnames set; without one the active config is read on each check
+    this.ignoredHostnamesSet = this.options.ignoredHostnames
+      ? new Set(this.options.ignoredHostnames)
+      : null;
   }
 
   // ============================================================================
@@ -146,7 +153,9 @@ export class URLProcessor {
    */
   shouldIgnoreHostname(hostname: string): boolean {
     const normalizedHostname = this.extractHostname(hostname);
-    return this.ignoredHostnamesSet.has(normalizedHostname);
+    return this.ignoredHostnamesSet
+      ? this.ignoredHostnamesSet.has(normalizedHostname)
+      : getActiveUrlFilteringConfig().ignoredHostnames.includes(normalizedHostname);
   }
 
   /**
@@ -157,24 +166,13 @@ export class URLProcessor {
    */
   normalizeUrlForTracking(url: string): string {
     try {
-      const parsedUrl = new URL(url);
-
-      // Remove ignored query parameters
-      const filteredParams = new URLSearchParams();
-      for (const [key, value] of parsedUrl.searchParams) {
-        if (!this.ignoredQueryParamsSet.has(key) && !this.shouldIgnoreQueryParam(key)) {
-          filteredParams.append(key, value);
-        }
-      }
-
-      // Rebuild URL with filtered parameters
-      parsedUrl.search = filteredParams.toString();
-
-      // Use existing normalizer for additional processing
-      const baseNormalizedUrl = normalizeUrl(parsedUrl.toString(), {
+      // Same pipeline as the stats keys, so recorded URLs and keys agree
+      const baseNormalizedUrl = normalizeUrl(url, {
         preserveFragment: this.options.preserveFragment,
         sortParams: this.options.sortParams,
         additionalAllowedParams: this.options.additionalAllowedParams,
+        ignoredQueryParams: this.options.ignoredQueryParams,
+        rules: this.options.siteRules,
       });
 
       return baseNormalizedUrl;
@@ -202,7 +200,9 @@ export class URLProcessor {
    * @returns Array of ignored hostnames
    */
   getIgnoredHostnames(): string[] {
-    return Array.from(this.ignoredHostnamesSet);
+    return this.ignoredHostnamesSet
+      ? Array.from(this.ignoredHostnamesSet)
+      : [...getActiveUrlFilteringConfig().ignoredHostnames];
   }
 
   /**
@@ -226,12 +226,8 @@ export class URLProcessor {
     if (newOptions.ignoredHostnames) {
       this.ignoredHostnamesSet = new Set(newOptions.ignoredHostnames);
     }
-    // Rebuild query param set if changed
-    if (newOptions.ignoredQueryParams) {
-      this.ignoredQueryParamsSet = new Set(newOptions.ignoredQueryParams);
-    }
 
-    // Note: additionalAllowedParams are used directly from options,
+    // Note: the other options are passed to normalizeUrl directly,
     // no need to rebuild a separate set
   }
 
@@ -274,20 +270,6 @@ export class URLProcessor {
     // Remove www prefix for consistency
     return hostname.toLowerCase().replace(/^www\./, '');
   }
-
-  /**
-   * Checks if a query parameter should be ignored
-   *
-   * Uses whitelist approach: parameters are ignored unless they are explicitly allowed.
-   * This method integrates with the existing url-normalizer whitelist system.
-   *
-   * @param paramName - Parameter name to check
-   * @returns True if parameter should be ignored (not in whitelist)
-   */
-  private shouldIgnoreQueryParam(paramName: string): boolean {
-    // Use whitelist approach: ignore parameters that are not explicitly allowed
-    return !isAllowedQueryParam(paramName, this.options.additionalAllowedParams || []);
-  }
 }
 
 // ============================================================================
@@ -297,19 +279,16 @@ export class URLProcessor {
 /**
  * Creates a URLProcessor instance preconfigured for time tracking, with optional overrides.
  *
- * By default, fragments are not preserved and query parameters are sorted. Additional options can customize ignored hostnames, allowed query parameters, fragment handling, or parameter sorting.
+ * By default, fragments are not preserved, query parameters are sorted, and ignored hostnames, ignored query parameters and site rules follow the active URL filtering config. Additional options can override any of them, e.g. to preview a draft config.
  *
  * @returns A URLProcessor configured with default and custom options
  */
 export function createDefaultURLProcessor(
   additionalOptions: URLProcessingOptions = {}
 ): URLProcessor {
-  const { urlFiltering } = DEFAULT_CONFIG;
   return new URLProcessor({
     preserveFragment: false,
     sortParams: true,
-    ignoredHostnames: urlFiltering.ignoredHostnames,
-    ignoredQueryParams: urlFiltering.ignoredQueryParams,
     ...additionalOptions,
   });
 }
@@ -1,34 +1,73 @@
 import { browser, defineBackground } from '#imports';
 import { defineExtensionMessaging } from '@webext-core/messaging';
 import { debounce } from 'es-toolkit';
-import { createTimeTracker, type BrowserEventData, type InteractionMessage } from '@/core/tracker';
+import {
+  createTimeTracker,
+  type BrowserEventData,
+  type IdleNotificationMessage,
+  type InteractionMessage,
+  type PageSignalMessage,
+} from '@/core/tracker';
 import { isProtectedUrl } from '@/core/tracker/utils/URLProcessor';
 import { createLogger } from '@/utils/logger';
 import {
   AggregationEngine,
   AggregationScheduler,
   DataPruner,
+  DateRebucketer,
   AggregationService,
+  LiveStatsService,
+  StatsRebuilder,
+  StatsKeyMigrator,
 } from '@/core/aggregator';
-import { EventsLogRepository, AggregatedStatsRepository } from '@/core/db/repositories';
+import {
+  EventsLogRepository,
+  AggregatedStatsRepository,
+  HourlyStatsRepository,
+  VisitsRepository,
+  RollupStatsRepository,
+} from '@/core/db/repositories';
+import { LimitEnforcer, LimitEvaluator } from '@/core/limits';
+import { FocusSessionManager, FocusSessionSummarizer } from '@/core/focus';
+import { WeeklyDigestBuilder, WeeklyDigestScheduler } from '@/core/reports';
+import { GoalEvaluator, GoalTracker } from '@/core/goals';
+import { BadgeUpdater } from '@/core/badge';
 import { connectionManager } from '@/core/db/connection/manager';
 import type {
   TabDataResponse,
   TabDataErrorResponse,
   PopupDebugProtocolMap,
+  LimitsProtocolMap,
+  FocusProtocolMap,
+  StatsProtocolMap,
   ManualAggregationResponse,
+  ExportDataResponse,
+  ImportDataResponse,
 } from '@/types/messaging';
 import { databaseService } from '@/core/db/services/database.service';
+import { setActiveUrlFilteringConfig } from '@/core/db/utils/url-normalizer.util';
+import { ExportService } from '@/core/db/services/export.service';
+import { ImportService } from '@/core/db/services/import.service';
+import { configManager } from '@/config/manager';
+import { timeTrackingConfig, uiConfig, urlFilteringConfig } from '@/config/storage';
+import type { TimeTrackingConfig } from '@/config/constants';
 import { ConfigMigration } from '@/config/migration';
 import { LRUCache } from 'lru-cache';
 
 // Define messaging protocol for communication with content scripts and popup
-interface TrackerProtocolMap extends PopupDebugProtocolMap {
+interface TrackerProtocolMap
+  extends PopupDebugProtocolMap,
+    LimitsProtocolMap,
+    FocusProtocolMap,
+    StatsProtocolMap {
   /** Content script sends interaction data to background script */
   'interaction-detected': (data: InteractionMessage) => Promise<void>;
 
   /** Content script sends idle notification to background script */
-  'tab-is-idle': (data: { tabId: number; timestamp: number }) => Promise<void>;
+  'tab-is-idle': (data: IdleNotificationMessage) => Promise<void>;
+
+  /** Content script reports page visibility, window focus and media playback changes */
+  'page-signal': (data: PageSignalMessage) => Promise<void>;
 
   /** Background script sends page status updates to content script */
   'page-status-update': (data: { isTracking: boolean; tabId: number }) => Promise<void>;
@@ -41,6 +80,12 @@ interface TrackerProtocolMap extends PopupDebugProtocolMap {
 
   /** Background script notifies content script of audible state changes */
   'audible-state-changed': (data: { tabId: number; isAudible: boolean }) => Promise<void>;
+
+  /** Content script requests the effective time tracking config */
+  'get-time-tracking-config': () => Promise<TimeTrackingConfig>;
+
+  /** Background script pushes time tracking config changes to content scripts */
+  'time-tracking-config-changed': (data: TimeTrackingConfig) => Promise<void>;
 }
 
 // Initialize messaging
@@ -59,6 +104,13 @@ const timeTracker = createTimeTracker({
 // Global reference to aggregation scheduler for manual triggering
 let aggregationScheduler: AggregationScheduler | null = null;
 
+// Global reference to the daily limit enforcer, set once the database is ready
+let limitEnforcer: LimitEnforcer | null = null;
+let focusSessionManager: FocusSessionManager | null = null;
+let badgeUpdater: BadgeUpdater | null = null;
+let liveStatsService: LiveStatsService | null = null;
+let statsRebuilder: StatsRebuilder | null = null;
+
 /**
  * Maximum number of tabs to track in navigation cache.
  * Older entries will be evicted using LRU policy.
@@ -102,6 +154,7 @@ export default defineBackground(() => {
   setupBrowserEventListeners();
   setupMessagingHandlers();
   setupIdleStateListener();
+  setupConfigWatchers();
 
   // Use IIAFE to handle async initialization without making main function async
   (async () => {
@@ -109,6 +162,14 @@ export default defineBackground(() => {
       // Run configuration migration before initializing other components
       await ConfigMigration.runMigration();
 
+      // Open the database before anything queries it, so schema upgrades run with a backup
+      await connectionManager.getDatabase();
+
+      // Apply user-configured timeouts before resumed sessions or idle notifications are judged
+      await configManager.initialize();
+      timeTracker.updateTimeTrackingConfig(configManager.getConfig().timeTracking);
+      setActiveUrlFilteringConfig(configManager.getConfig().urlFiltering);
+
       // Initialize the time tracker
       const initResult = await timeTracker.initialize();
 
@@ -146,17 +207,82 @@ export default defineBackground(() => {
         const eventsLogRepository = new EventsLogRepository(db);
         const aggregatedStatsRepository = new AggregatedStatsRepository(db);
         const aggregationEngine = new AggregationEngine(
+          db,
           eventsLogRepository,
-          aggregatedStatsRepository
+          aggregatedStatsRepository,
+          new HourlyStatsRepository(db),
+          new VisitsRepository(db),
+          new RollupStatsRepository(db, 'week'),
+          new RollupStatsRepository(db, 'month')
         );
         const dataPruner = new DataPruner(eventsLogRepository);
-        aggregationScheduler = new AggregationScheduler(aggregationEngine, dataPruner);
+        const dateRebucketer = new DateRebucketer(db);
+        aggregationScheduler = new AggregationScheduler(
+          aggregationEngine,
+          dataPruner,
+          dateRebucketer
+        );
         const aggregationService = new AggregationService(aggregationScheduler);
 
+        // Answer popup stats queries with aggregated plus pending time
+        liveStatsService = new LiveStatsService(
+          aggregationEngine,
+          aggregatedStatsRepository,
+          timeTracker
+        );
+
+        // Rebuild stats of a date range from raw events on request
+        statsRebuilder = new StatsRebuilder(
+          db,
+          aggregationEngine,
+          eventsLogRepository,
+          dateRebucketer
+        );
+
+        // Merge stats stored under keys of the former, divergent URL normalizations
+        await new StatsKeyMigrator(db).runOnce();
+
         // Start the aggregation service
         await aggregationService.start();
         logger.info('Aggregation service started successfully');
 
+        // Enforce daily limits on the checkpoint alarm loop
+        const limitEvaluator = new LimitEvaluator(aggregatedStatsRepository, liveStatsService);
+        limitEnforcer = new LimitEnforcer(
+          limitEvaluator,
+          timeTracker,
+          { onTabBlocked: forgetTabNavigation }
+        );
+        limitEnforcer.start();
+        timeTracker.onCheckpointCheck(() => limitEnforcer?.checkActiveTabs());
+        logger.info('Limit enforcer started successfully');
+
+        // Run focus sessions and block distractions while they are active
+        focusSessionManager = new FocusSessionManager(
+          new FocusSessionSummarizer(eventsLogRepository),
+          timeTracker,
+          { onTabBlocked: forgetTabNavigation }
+        );
+        await focusSessionManager.start();
+        logger.info('Focus session manager started successfully');
+
+        // Announce the weekly digest every Monday
+        const weeklyDigestScheduler = new WeeklyDigestScheduler(
+          new WeeklyDigestBuilder(aggregatedStatsRepository)
+        );
+        await weeklyDigestScheduler.start();
+        logger.info('Weekly digest scheduler started successfully');
+
+        // Evaluate daily goals after each finished day
+        const goalTracker = new GoalTracker(new GoalEvaluator(aggregatedStatsRepository));
+        await goalTracker.start();
+        logger.info('Goal tracker started successfully');
+
+        // Show today's time on the current site on the toolbar badge
+        badgeUpdater = new BadgeUpdater(aggregatedStatsRepository, limitEvaluator, timeTracker);
+        await badgeUpdater.start();
+        logger.info('Badge updater started successfully');
+
         // Expose debugging utilities in development mode
         if (import.meta.env.DEV) {
           // Make aggregation scheduler available for manual triggering in dev console
@@ -251,6 +377,22 @@ async function processNavigation(tabId: number, url: string): Promise<void> {
   };
 
   await timeTracker.handleBrowserEvent(eventData);
+
+  await limitEnforcer?.checkTab(tabId, url);
+  await focusSessionManager?.checkTab(tabId, url);
+  await badgeUpdater?.updateTab(tabId, url);
+}
+
+/**
+ * Drops cached navigation state for a tab so the next navigation to the same URL
+ * is processed again (e.g. returning from the limit interstitial page).
+ *
+ * @param tabId - The ID of the tab to forget
+ */
+function forgetTabNavigation(tabId: number): void {
+  debouncedNavHandlers.get(tabId)?.cancel();
+  debouncedNavHandlers.delete(tabId);
+  navigationTracker.delete(tabId);
 }
 
 /**
@@ -315,6 +457,12 @@ function setupBrowserEventListeners(): void {
       };
 
       await timeTracker.handleBrowserEvent(eventData);
+
+      if (shouldTrackUrl(tab.url, { tabId: activeInfo.tabId, source: 'tab-activated' })) {
+        await limitEnforcer?.checkTab(activeInfo.tabId, tab.url);
+        await focusSessionManager?.checkTab(activeInfo.tabId, tab.url);
+      }
+      await badgeUpdater?.updateTab(activeInfo.tabId, tab.url ?? '');
     } catch (error) {
       logger.error('Failed to get tab info for activation', { tabId: activeInfo.tabId, error });
     }
@@ -374,12 +522,7 @@ function setupBrowserEventListeners(): void {
     await timeTracker.handleBrowserEvent(eventData);
 
     // Clean up debounced handlers and tracking data for removed tabs
-    const handler = debouncedNavHandlers.get(tabId);
-    if (handler) {
-      handler.cancel(); // Cancel any pending debounced navigation
-      debouncedNavHandlers.delete(tabId);
-    }
-    navigationTracker.delete(tabId);
+    forgetTabNavigation(tabId);
   });
 
   // Window focus change events
@@ -474,6 +617,12 @@ function setupMessagingHandlers(): void {
     };
   });
 
+  // Handle config requests from content scripts
+  onMessage('get-time-tracking-config', async () => {
+    await configManager.initialize();
+    return configManager.getConfig().timeTracking;
+  });
+
   // Handle idle notifications from content scripts
   onMessage('tab-is-idle', async message => {
     const { data, sender } = message;
@@ -486,10 +635,31 @@ function setupMessagingHandlers(): void {
     logger.debug('Received idle notification', {
       tabId: sender.tab.id,
       timestamp: data.timestamp,
+      timeout: data.timeout,
     });
 
     // End active session due to idle timeout
-    await timeTracker.endActiveSessionDueToIdle(sender.tab.id, data.timestamp);
+    await timeTracker.endActiveSessionDueToIdle(sender.tab.id, data.timestamp, data.timeout);
+  });
+
+  // Handle visibility, focus and media signals from content scripts
+  onMessage('page-signal', async message => {
+    const { data, sender } = message;
+
+    if (!sender.tab?.id) {
+      logger.warn('Received page signal without tab ID');
+      return;
+    }
+
+    const eventData: BrowserEventData = {
+      type: 'page-signal',
+      tabId: sender.tab.id,
+      windowId: sender.tab.windowId,
+      pageSignal: data,
+      timestamp: Date.now(),
+    };
+
+    await timeTracker.handleBrowserEvent(eventData);
   });
 
   // Handle popup debug data requests
@@ -556,6 +726,193 @@ function setupMessagingHandlers(): void {
     }
   });
 
+  // Handle data export requests
+  onMessage('exportDataRequest', async message => {
+    const { data } = message;
+
+    try {
+      logger.info('Data export requested from popup', { format: data.format });
+
+      const dbService = await databaseService.getInstance();
+      await configManager.initialize();
+
+      const files = await new ExportService(dbService).export(
+        data.format,
+        configManager.getConfig()
+      );
+
+      return { success: true, files } as ExportDataResponse;
+    } catch (error) {
+      logger.error('Failed to export data:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      } as ExportDataResponse;
+    }
+  });
+
+  // Handle data import requests
+  onMessage('importDataRequest', async message => {
+    const { data } = message;
+
+    try {
+      logger.info('Data import requested from popup', {
+        strategy: data.strategy,
+        dryRun: data.dryRun,
+      });
+
+      const dbService = await databaseService.getInstance();
+      const report = await new ImportService(dbService).importBundle(data.content, {
+        strategy: data.strategy,
+        dryRun: data.dryRun,
+      });
+
+      return { success: true, report } as ImportDataResponse;
+    } catch (error) {
+      logger.error('Failed to import data:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      } as ImportDataResponse;
+    }
+  });
+
+  // Handle stats rebuild requests; the rebuild runs on after the response
+  onMessage('startStatsRebuild', async message => {
+    const { data } = message;
+
+    try {
+      if (!statsRebuilder) {
+        return { success: false, error: 'Stats rebuilder not initialized' };
+      }
+
+      logger.info('Stats rebuild requested from popup', data);
+      return { success: true, progress: statsRebuilder.start(data) };
+    } catch (error) {
+      logger.error('Failed to start stats rebuild:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
+  onMessage('getStatsRebuildStatus', async () => {
+    if (!statsRebuilder) {
+      return { success: false, error: 'Stats rebuilder not initialized' };
+    }
+
+    return { success: true, progress: statsRebuilder.getProgress() };
+  });
+
+  onMessage('cancelStatsRebuild', async () => {
+    if (!statsRebuilder) {
+      return { success: false, error: 'Stats rebuilder not initialized' };
+    }
+
+    statsRebuilder.cancel();
+    return { success: true, progress: statsRebuilder.getProgress() };
+  });
+
+  // Handle snooze requests from the limit interstitial page
+  onMessage('snoozeLimit', async message => {
+    const { data } = message;
+
+    try {
+      if (!limitEnforcer) {
+        return { success: false, error: 'Limit enforcer not initialized' };
+      }
+
+      const snoozedUntil = await limitEnforcer.snooze(data);
+      return { success: true, snoozedUntil };
+    } catch (error) {
+      logger.error('Failed to snooze limit:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
+  // Handle focus session requests
+  onMessage('startFocusSession', async message => {
+    const { data } = message;
+
+    try {
+      if (!focusSessionManager) {
+        return { success: false, error: 'Focus session manager not initialized' };
+      }
+
+      const session = await focusSessionManager.startSession(data.durationMinutes);
+      return { success: true, session };
+    } catch (error) {
+      logger.error('Failed to start focus session:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
+  onMessage('endFocusSession', async () => {
+    try {
+      if (!focusSessionManager) {
+        return { success: false, error: 'Focus session manager not initialized' };
+      }
+
+      const lastSummary = await focusSessionManager.endSession();
+      return { success: true, session: null, lastSummary };
+    } catch (error) {
+      logger.error('Failed to end focus session:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
+  onMessage('getFocusSessionStatus', async () => {
+    try {
+      if (!focusSessionManager) {
+        return { success: false, error: 'Focus session manager not initialized' };
+      }
+
+      const [session, lastSummary] = await Promise.all([
+        focusSessionManager.getActiveSession(),
+        focusSessionManager.getLastSummary(),
+      ]);
+      return { success: true, session, lastSummary };
+    } catch (error) {
+      logger.error('Failed to get focus session status:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
+  // Handle live stats requests, aggregated plus not yet aggregated time
+  onMessage('getLiveDomainStats', async message => {
+    const { data } = message;
+
+    try {
+      if (!liveStatsService) {
+        return { success: false, error: 'Live stats service not initialized' };
+      }
+
+      return {
+        success: true,
+        data: await liveStatsService.getParentDomainStats(data.parentDomain),
+      };
+    } catch (error) {
+      logger.error('Failed to get live domain stats:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  });
+
   // Handle manual aggregation requests
   onMessage('triggerManualAggregation', async message => {
     const { data } = message;
@@ -634,6 +991,45 @@ function setupIdleStateListener(): void {
   logger.info('System idle state listener set up');
 }
 
+/**
+ * Keeps the tracker and every open page in sync with the stored time tracking config.
+ *
+ * Content scripts fetch the config once on load; this pushes later changes so running
+ * tabs re-tune their thresholds and idle timeout without a reload.
+ */
+function setupConfigWatchers(): void {
+  timeTrackingConfig.watch(async newConfig => {
+    logger.info('Time tracking config changed', newConfig);
+    timeTracker.updateTimeTrackingConfig(newConfig);
+
+    try {
+      const tabs = await browser.tabs.query({});
+      await Promise.all(
+        tabs
+          .filter(tab => tab.id !== undefined)
+          .map(tab =>
+            sendMessage('time-tracking-config-changed', newConfig, tab.id).catch(() => {
+              // Pages without a content script (e.g. browser pages) cannot receive it
+            })
+          )
+      );
+    } catch (error) {
+      logger.error('Failed to broadcast time tracking config:', error);
+    }
+  });
+
+  uiConfig.watch(async () => {
+    await badgeUpdater?.refresh();
+  });
+
+  // Newly recorded URLs and stats keys follow the edited URL filtering settings
+  urlFilteringConfig.watch(newConfig => {
+    setActiveUrlFilteringConfig(newConfig);
+  });
+
+  logger.info('Config watchers set up');
+}
+
 // Optionally, periodically call .purgeStale() to force cleanup (not strictly needed, but can be added for safety):
 setInterval(
   () => {
@@ -3,7 +3,8 @@
  *
  * Detects user interactions on web pages and sends them to the background script
  * for time tracking purposes. Implements threshold-based detection and event throttling
- * to optimize performance and reduce noise.
+ * to optimize performance and reduce noise. Also reports page visibility, window focus
+ * and <video>/<audio> playback, which start and stop active time in the background.
  *
  */
 
@@ -12,7 +13,11 @@ import { defineExtensionMessaging } from '@webext-core/messaging';
 import { throttle, debounce } from 'es-toolkit';
 import { DEFAULT_CONFIG } from '../config/constants';
 import type { TimeTrackingConfig } from '../config/constants';
-import type { InteractionMessage } from '../core/tracker/types';
+import type {
+  IdleNotificationMessage,
+  InteractionMessage,
+  PageSignalMessage,
+} from '../core/tracker/types';
 import { createLogger } from '@/utils/logger';
 
 // Define messaging protocol (must match background script)
@@ -21,7 +26,10 @@ interface TrackerProtocolMap {
   'interaction-detected': (data: InteractionMessage) => Promise<void>;
 
   /** Content script sends idle notification to background script */
-  'tab-is-idle': (data: { tabId: number; timestamp: number }) => Promise<void>;
+  'tab-is-idle': (data: IdleNotificationMessage) => Promise<void>;
+
+  /** Content script reports page visibility, window focus and media playback changes */
+  'page-signal': (data: PageSignalMessage) => Promise<void>;
 
   /** Background script sends page status updates to content script */
   'page-status-update': (data: { isTracking: boolean; tabId: number }) => Promise<void>;
@@ -34,6 +42,12 @@ interface TrackerProtocolMap {
 
   /** Background script notifies content script of audible state changes */
   'audible-state-changed': (data: { tabId: number; isAudible: boolean }) => Promise<void>;
+
+  /** Content script requests the effective time tracking config */
+  'get-time-tracking-config': () => Promise<TimeTrackingConfig>;
+
+  /** Background script pushes time tracking config changes to content scripts */
+  'time-tracking-config-changed': (data: TimeTrackingConfig) => Promise<void>;
 }
 
 const { sendMessage, onMessage } = defineExtensionMessaging<TrackerProtocolMap>();
@@ -46,7 +60,7 @@ export default defineContentScript({
   main() {
     logger.info('WebTime Tracker content script loaded');
 
-    // Initialize interaction detector
+    // Initialize interaction detector with defaults until the user's config arrives
     const interactionDetector = new InteractionDetector(DEFAULT_CONFIG.timeTracking);
     interactionDetector.initialize();
   },
@@ -63,7 +77,7 @@ class InteractionDetector {
   private isInitialized = false;
   private isTracking = false;
   private tabId = 0;
-  private readonly config: TimeTrackingConfig;
+  private config: TimeTrackingConfig;
 
   // Throttling configuration 
   private readonly THROTTLE_INTERVAL = 2000; // in ms for interaction-detected messages
@@ -77,6 +91,8 @@ class InteractionDetector {
 
   // Idle detection state
   private isAudible = false;
+  private isMediaPlaying = false;
+  private idleTimeout: number;
   private debouncedSendIdleNotification: ReturnType<typeof debounce>;
 
   // Throttled functions using es-toolkit
@@ -87,6 +103,7 @@ class InteractionDetector {
     element: EventTarget;
     event: string;
     handler: EventListener;
+    options?: AddEventListenerOptions;
   }> = [];
 
   constructor(config: TimeTrackingConfig) {
@@ -99,10 +116,11 @@ class InteractionDetector {
     );
 
     // Initialize debounced function for idle detection
-    // Start with default timeout, will be updated based on audible state
+    // Start with default timeout, will be updated based on audible and media state
+    this.idleTimeout = this.config.inactiveTimeoutDefault;
     this.debouncedSendIdleNotification = debounce(
       this.sendIdleNotification.bind(this),
-      this.config.inactiveTimeoutDefault,
+      this.idleTimeout,
       { edges: ['trailing'] }
     );
   }
@@ -121,8 +139,16 @@ class InteractionDetector {
       this.isTracking = status.isTracking;
       this.tabId = status.tabId;
       this.isAudible = status.isAudible;
+      this.isMediaPlaying = this.detectMediaPlaying();
+
+      // Use the user's config; keep the defaults if the background cannot answer
+      try {
+        this.config = await sendMessage('get-time-tracking-config');
+      } catch (error) {
+        InteractionDetector.logger.warn('Failed to get config, using defaults:', error);
+      }
 
-      // Update debounce timeout based on audible state
+      // Update debounce timeout based on audible and media state
       this.updateIdleTimeout();
 
       // Set up event listeners
@@ -160,6 +186,19 @@ class InteractionDetector {
     // Keyboard events
     this.addEventListener(document, 'keydown', this.handleKeyDown.bind(this), { passive: true });
 
+    // Page visibility and window focus
+    this.addEventListener(document, 'visibilitychange', this.handleVisibilityChange.bind(this));
+    this.addEventListener(window, 'focus', this.handleWindowFocus.bind(this));
+    this.addEventListener(window, 'blur', this.handleWindowBlur.bind(this));
+
+    // Media events do not bubble, so listen in the capture phase
+    for (const event of ['play', 'playing', 'pause', 'ended', 'emptied']) {
+      this.addEventListener(document, event, this.handleMediaChange.bind(this), {
+        capture: true,
+        passive: true,
+      });
+    }
+
     InteractionDetector.logger.debug('Event listeners set up');
   }
 
@@ -208,6 +247,16 @@ class InteractionDetector {
         this.updateIdleTimeout();
       }
     });
+
+    // Handle time tracking config changes
+    onMessage('time-tracking-config-changed', message => {
+      InteractionDetector.logger.info('Time tracking config updated', message.data);
+
+      // Thresholds are read on each event; the idle timer needs recreating
+      this.config = message.data;
+      this.resetAccumulators();
+      this.updateIdleTimeout();
+    });
   }
 
   /**
@@ -300,6 +349,90 @@ class InteractionDetector {
     this.throttledSendInteraction('keydown');
   }
 
+  /**
+   * Handle page visibility changes
+   */
+  private handleVisibilityChange(): void {
+    if (!this.isTracking) return;
+
+    const isVisible = document.visibilityState === 'visible';
+    if (isVisible) {
+      this.resetIdleTimer();
+    } else {
+      // The background ends the active session; nothing left to time out
+      this.debouncedSendIdleNotification.cancel();
+    }
+    this.sendPageSignal('visibility', isVisible);
+  }
+
+  /**
+   * Handle the window gaining focus
+   */
+  private handleWindowFocus(): void {
+    if (!this.isTracking) return;
+
+    this.resetIdleTimer();
+    this.sendPageSignal('focus', true);
+  }
+
+  /**
+   * Handle the window losing focus
+   */
+  private handleWindowBlur(): void {
+    if (!this.isTracking) return;
+
+    // Focus moving into an iframe blurs the top window too; the document still has focus then
+    setTimeout(() => {
+      if (!document.hasFocus()) {
+        this.sendPageSignal('focus', false);
+      }
+    }, 0);
+  }
+
+  /**
+   * Handle media play/pause events from any <video> or <audio> element
+   */
+  private handleMediaChange(): void {
+    const isMediaPlaying = this.detectMediaPlaying();
+    if (isMediaPlaying === this.isMediaPlaying) return;
+
+    this.isMediaPlaying = isMediaPlaying;
+    this.updateIdleTimeout();
+
+    if (!this.isTracking) return;
+    this.sendPageSignal('media', isMediaPlaying);
+  }
+
+  /**
+   * Whether any media element on the page is currently playing
+   */
+  private detectMediaPlaying(): boolean {
+    return Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio')).some(
+      media => !media.paused && !media.ended
+    );
+  }
+
+  /**
+   * Send a page visibility, focus or media state change to the background script
+   */
+  private async sendPageSignal(
+    signal: PageSignalMessage['signal'],
+    active: boolean
+  ): Promise<void> {
+    try {
+      await sendMessage('page-signal', {
+        signal,
+        active,
+        timestamp: Date.now(),
+        tabId: this.tabId,
+      });
+
+      InteractionDetector.logger.debug('Page signal sent', { signal, active, tabId: this.tabId });
+    } catch (error) {
+      InteractionDetector.logger.error('Failed to send page signal:', error);
+    }
+  }
+
   /**
    * Internal method to send interaction message to background script
    * This is the actual implementation that gets throttled
@@ -330,17 +463,16 @@ class InteractionDetector {
    */
   private async sendIdleNotification(): Promise<void> {
     try {
-      await sendMessage('tab-is-idle', {
+      const notification: IdleNotificationMessage = {
         tabId: this.tabId,
         timestamp: Date.now(),
-      });
+        timeout: this.idleTimeout,
+      };
+      await sendMessage('tab-is-idle', notification);
 
-      const timeout = this.isAudible
-        ? this.config.inactiveTimeoutMedia
-        : this.config.inactiveTimeoutDefault;
       InteractionDetector.logger.debug('Idle notification sent', {
         tabId: this.tabId,
-        timeout: `${timeout}ms`,
+        timeout: `${this.idleTimeout}ms`,
       });
     } catch (error) {
       InteractionDetector.logger.error('Failed to send idle notification:', error);
@@ -348,26 +480,35 @@ class InteractionDetector {
   }
 
   /**
-   * Update idle timeout based on audible state
+   * Update idle timeout based on audible and media state
    * Recreates the debounced function with the appropriate timeout
    */
   private updateIdleTimeout(): void {
     // Cancel existing debounced function
     this.debouncedSendIdleNotification.cancel();
 
-    // Choose timeout based on audible state
-    const timeout = this.isAudible
-      ? this.config.inactiveTimeoutMedia
-      : this.config.inactiveTimeoutDefault;
+    // Choose timeout based on audible and media state
+    this.idleTimeout =
+      this.isAudible || this.isMediaPlaying
+        ? this.config.inactiveTimeoutMedia
+        : this.config.inactiveTimeoutDefault;
 
     // Create new debounced function with updated timeout
-    this.debouncedSendIdleNotification = debounce(this.sendIdleNotification.bind(this), timeout, {
-      edges: ['trailing'],
-    });
+    this.debouncedSendIdleNotification = debounce(
+      this.sendIdleNotification.bind(this),
+      this.idleTimeout,
+      { edges: ['trailing'] }
+    );
+
+    // Re-arm the timer so a running active session still times out
+    if (this.isTracking && document.visibilityState === 'visible') {
+      this.debouncedSendIdleNotification();
+    }
 
     InteractionDetector.logger.debug('Updated idle timeout', {
       isAudible: this.isAudible,
-      timeout: timeout / 1000 + 's',
+      isMediaPlaying: this.isMediaPlaying,
+      timeout: this.idleTimeout / 1000 + 's',
     });
   }
 
@@ -394,7 +535,7 @@ class InteractionDetector {
   ): void {
     const eventListener = handler as EventListener;
     element.addEventListener(event, eventListener, options);
-    this.eventListeners.push({ element, event, handler: eventListener });
+    this.eventListeners.push({ element, event, handler: eventListener, options });
   }
 
   /**
@@ -412,8 +553,8 @@ class InteractionDetector {
    * Cleanup event listeners and throttled/debounced functions
    */
   cleanup(): void {
-    this.eventListeners.forEach(({ element, event, handler }) => {
-      element.removeEventListener(event, handler);
+    this.eventListeners.forEach(({ element, event, handler, options }) => {
+      element.removeEventListener(event, handler, options);
     });
     this.eventListeners = [];
 
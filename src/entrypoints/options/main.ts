@@ -1,33 +1,5 @@
-/**
- * Options页面入口文件
- * 负责初始化设置页面的Vue应用
- *
- * 职责范围：
- * - 创建Vue应用实例
- * - 挂载到DOM元素
- * - 配置路由和状态管理
- *
- * 功能边界：
- * ✅ 包含：应用初始化、DOM挂载
- * ❌ 不包含：具体业务逻辑、数据处理
- *
- * TODO:
- * - [ ] 创建Options Vue组件
- * - [ ] 配置路由系统
- * - [ ] 集成状态管理
- * - [ ] 添加样式文件
- */
+import { createApp } from 'vue';
+import '../popup/style.css';
+import App from './App.vue';
 
-// 暂时创建一个简单的页面，避免构建错误
-document.addEventListener('DOMContentLoaded', () => {
-  const app = document.getElementById('app');
-  if (app) {
-    app.innerHTML = `
-      <div style="padding: 20px; font-family: Arial, sans-serif;">
-        <h1>WebTime Tracker Settings</h1>
-        <p>设置页面正在开发中...</p>
-        <p>当前项目结构已初始化完成。</p>
-      </div>
-    `;
-  }
-});
+createApp(App).mount('#app');
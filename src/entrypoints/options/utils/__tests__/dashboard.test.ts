@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import { buildStat as baseBuildStat } from '@/test-utils/fixtures';
+import { summarizeSiteTotals } from '@/core/db/utils';
+import {
+  buildSiteRows,
+  buildSiteRowsFromTotals,
+  buildTimeSeries,
+  getDrillLevel,
+  querySiteRows,
+} from '../dashboard';
+
+const MINUTE = 60 * 1000;
+
+function buildStat(partial: Partial<AggregatedStatsRecord>): AggregatedStatsRecord {
+  return baseBuildStat({
+    date: '2025-06-16',
+    url: 'https://www.example.com/',
+    total_open_time: 10 * MINUTE,
+    total_active_time: 5 * MINUTE,
+    last_updated: Date.parse('2025-06-16T12:00:00.000Z'),
+    ...partial,
+  });
+}
+
+const stats = [
+  buildStat({}),
+  buildStat({ url: 'https://www.example.com/a', total_active_time: 0 }),
+  buildStat({ date: '2025-06-18', hostname: 'docs.example.com', url: 'https://docs.example.com/' }),
+  buildStat({
+    date: '2025-06-24',
+    hostname: 'news.org',
+    parentDomain: 'news.org',
+    url: 'https://news.org/',
+    total_open_time: 60 * MINUTE,
+    total_active_time: 30 * MINUTE,
+  }),
+];
+
+describe('dashboard data shaping', () => {
+  it('should build a gap-free daily series starting at the first day with data', () => {
+    const series = buildTimeSeries(stats, '2020-01-01', '2025-06-19', 'day');
+
+    expect(series.map(point => point.startDate)).toEqual([
+      '2025-06-16',
+      '2025-06-17',
+      '2025-06-18',
+      '2025-06-19',
+    ]);
+    expect(series[0]).toEqual({
+      startDate: '2025-06-16',
+      openTime: 20 * MINUTE,
+      activeTime: 5 * MINUTE,
+    });
+    expect(series[1]).toEqual({ startDate: '2025-06-17', openTime: 0, activeTime: 0 });
+  });
+
+  it('should bucket weekly series by Monday', () => {
+    const series = buildTimeSeries(stats, '2025-06-16', '2025-06-30', 'week');
+
+    expect(series).toEqual([
+      { startDate: '2025-06-16', openTime: 30 * MINUTE, activeTime: 10 * MINUTE },
+      { startDate: '2025-06-23', openTime: 60 * MINUTE, activeTime: 30 * MINUTE },
+      { startDate: '2025-06-30', openTime: 0, activeTime: 0 },
+    ]);
+  });
+
+  it('should drill down from parent domain to hostname to URL', () => {
+    const domains = buildSiteRows(stats, {});
+    expect(getDrillLevel({})).toBe('parentDomain');
+    expect(domains.find(row => row.key === 'example.com')).toMatchObject({
+      openTime: 30 * MINUTE,
+      days: 2,
+      children: 2,
+    });
+
+    const hostnames = buildSiteRows(stats, { parentDomain: 'example.com' });
+    expect(hostnames.map(row => row.key).sort()).toEqual(['docs.example.com', 'www.example.com']);
+    expect(hostnames.every(row => row.level === 'hostname')).toBe(true);
+
+    const urls = buildSiteRows(stats, { parentDomain: 'example.com', hostname: 'www.example.com' });
+    expect(urls.map(row => row.key).sort()).toEqual([
+      'https://www.example.com/',
+      'https://www.example.com/a',
+    ]);
+    expect(urls[0]).toMatchObject({ level: 'url', children: 0 });
+  });
+
+  it('should build the same domain and hostname rows from site totals', () => {
+    const totals = summarizeSiteTotals([], stats);
+    const byKey = (a: { key: string }, b: { key: string }) => a.key.localeCompare(b.key);
+
+    expect(buildSiteRowsFromTotals(totals, {}).sort(byKey)).toEqual(
+      buildSiteRows(stats, {}).sort(byKey)
+    );
+
+    // Hostname totals carry no URL count
+    const path = { parentDomain: 'example.com' };
+    expect(buildSiteRowsFromTotals(totals, path).sort(byKey)).toEqual(
+      buildSiteRows(stats, path)
+        .map(row => ({ ...row, children: 0 }))
+        .sort(byKey)
+    );
+  });
+
+  it('should filter rows by search and sort them', () => {
+    const rows = buildSiteRows(stats, {});
+
+    expect(
+      querySiteRows(rows, { sortKey: 'activeTime', direction: 'desc' }).map(row => row.key)
+    ).toEqual(['news.org', 'example.com']);
+    expect(querySiteRows(rows, { sortKey: 'key', direction: 'asc' }).map(row => row.key)).toEqual([
+      'example.com',
+      'news.org',
+    ]);
+    expect(
+      querySiteRows(rows, { search: 'NEWS', sortKey: 'openTime', direction: 'desc' })
+    ).toHaveLength(1);
+  });
+});
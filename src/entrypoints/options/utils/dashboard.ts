@@ -0,0 +1,209 @@
+/**
+ * Dashboard data shaping
+ *
+ * Turns aggregated stats rows and site totals into chart series and drill-down
+ * table rows for the options page. All functions are pure so the views stay declarative.
+ */
+
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import type { DatedTime, SiteTotal, SiteTotals } from '@/core/db/utils';
+
+export type ChartGranularity = 'day' | 'week';
+
+/**
+ * One bar of the time chart
+ */
+export interface TimeSeriesPoint {
+  /** First date covered by the bar (YYYY-MM-DD) */
+  startDate: string;
+  openTime: number;
+  activeTime: number;
+}
+
+/**
+ * Level of the site hierarchy shown in the top-sites table
+ */
+export type DrillLevel = 'parentDomain' | 'hostname' | 'url';
+
+/**
+ * Current drill-down position; each set field narrows the table by one level
+ */
+export interface DrillPath {
+  parentDomain?: string;
+  hostname?: string;
+}
+
+/**
+ * One row of the top-sites table
+ */
+export interface SiteRow {
+  /** Value of the grouping field (parent domain, hostname or URL) */
+  key: string;
+  level: DrillLevel;
+  openTime: number;
+  activeTime: number;
+  /** Number of distinct days with activity */
+  days: number;
+  /** Number of distinct entries one level down (0 at the URL level and for hostname totals) */
+  children: number;
+}
+
+export type SiteSortKey = 'key' | 'openTime' | 'activeTime' | 'days';
+
+export interface SiteRowQuery {
+  search?: string;
+  sortKey: SiteSortKey;
+  direction: 'asc' | 'desc';
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function getBucketStart(date: string, granularity: ChartGranularity): string {
+  return granularity === 'week'
+    ? format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), DATE_FORMAT)
+    : date;
+}
+
+/**
+ * Build a gap-free series of daily or weekly (Monday-based) totals.
+ *
+ * The series starts at the first day with data when that is later than
+ * `startDate`, so an "all time" range does not render years of empty bars.
+ *
+ * @param stats - Daily rows, or weekly rollups dated by their Monday, within the range
+ * @param startDate - First date of the range (YYYY-MM-DD, inclusive)
+ * @param endDate - Last date of the range (YYYY-MM-DD, inclusive)
+ * @param granularity - Bucket size
+ * @returns Points ordered by date
+ */
+export function buildTimeSeries(
+  stats: readonly DatedTime[],
+  startDate: string,
+  endDate: string,
+  granularity: ChartGranularity
+): TimeSeriesPoint[] {
+  const buckets = new Map<string, TimeSeriesPoint>();
+  let firstDate = endDate;
+
+  for (const stat of stats) {
+    if (stat.date < startDate || stat.date > endDate) continue;
+    if (stat.date < firstDate) firstDate = stat.date;
+
+    const bucketStart = getBucketStart(stat.date, granularity);
+    const point = buckets.get(bucketStart) ?? {
+      startDate: bucketStart,
+      openTime: 0,
+      activeTime: 0,
+    };
+    point.openTime += stat.total_open_time;
+    point.activeTime += stat.total_active_time;
+    buckets.set(bucketStart, point);
+  }
+
+  const series: TimeSeriesPoint[] = [];
+  const step = granularity === 'week' ? 7 : 1;
+  const last = parseISO(getBucketStart(endDate, granularity));
+  for (
+    let cursor = parseISO(getBucketStart(firstDate, granularity));
+    cursor <= last;
+    cursor = addDays(cursor, step)
+  ) {
+    const bucketStart = format(cursor, DATE_FORMAT);
+    series.push(buckets.get(bucketStart) ?? { startDate: bucketStart, openTime: 0, activeTime: 0 });
+  }
+
+  return series;
+}
+
+/**
+ * Level shown for a drill-down position
+ */
+export function getDrillLevel(path: DrillPath): DrillLevel {
+  if (path.hostname) return 'url';
+  if (path.parentDomain) return 'hostname';
+  return 'parentDomain';
+}
+
+/**
+ * Group rows for the current drill-down level
+ *
+ * @param stats - Aggregated rows within the selected range
+ * @param path - Current drill-down position
+ * @returns One row per parent domain, hostname or URL below `path`, unsorted
+ */
+export function buildSiteRows(stats: readonly AggregatedStatsRecord[], path: DrillPath): SiteRow[] {
+  const level = getDrillLevel(path);
+  const childField = level === 'parentDomain' ? 'hostname' : 'url';
+  const groups = new Map<string, { row: SiteRow; dates: Set<string>; children: Set<string> }>();
+
+  for (const stat of stats) {
+    if (path.parentDomain && stat.parentDomain !== path.parentDomain) continue;
+    if (path.hostname && stat.hostname !== path.hostname) continue;
+
+    const key = stat[level];
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        row: { key, level, openTime: 0, activeTime: 0, days: 0, children: 0 },
+        dates: new Set(),
+        children: new Set(),
+      };
+      groups.set(key, group);
+    }
+
+    group.row.openTime += stat.total_open_time;
+    group.row.activeTime += stat.total_active_time;
+    group.dates.add(stat.date);
+    if (level !== 'url') group.children.add(stat[childField]);
+  }
+
+  return [...groups.values()].map(({ row, dates, children }) => ({
+    ...row,
+    days: dates.size,
+    children: children.size,
+  }));
+}
+
+function toSiteRow(total: SiteTotal, level: 'parentDomain' | 'hostname'): SiteRow {
+  return {
+    key: total.site,
+    level,
+    openTime: total.openTime,
+    activeTime: total.activeTime,
+    days: total.days,
+    children: level === 'parentDomain' ? total.hostnames : 0,
+  };
+}
+
+/**
+ * Rows of the parent domain or hostname level, from the site totals of the range
+ *
+ * @param totals - Site totals within the selected range
+ * @param path - Current drill-down position above the URL level
+ * @returns One row per parent domain, or per hostname of `path.parentDomain`, unsorted
+ */
+export function buildSiteRowsFromTotals(totals: SiteTotals, path: DrillPath): SiteRow[] {
+  if (!path.parentDomain) {
+    return totals.parentDomains.map(total => toSiteRow(total, 'parentDomain'));
+  }
+
+  return totals.hostnames
+    .filter(total => total.parentDomain === path.parentDomain)
+    .map(total => toSiteRow(total, 'hostname'));
+}
+
+/**
+ * Filter rows by a case-insensitive substring and sort them
+ */
+export function querySiteRows(rows: readonly SiteRow[], query: SiteRowQuery): SiteRow[] {
+  const search = query.search?.trim().toLowerCase();
+  const filtered = search ? rows.filter(row => row.key.toLowerCase().includes(search)) : [...rows];
+  const sign = query.direction === 'asc' ? 1 : -1;
+
+  return filtered.sort((a, b) =>
+    query.sortKey === 'key'
+      ? a.key.localeCompare(b.key) * sign
+      : (a[query.sortKey] - b[query.sortKey]) * sign || a.key.localeCompare(b.key)
+  );
+}
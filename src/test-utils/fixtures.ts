@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AggregatedData } from '@/core/aggregator/types';
+import type { AggregatedStatsRecord } from '@/core/db/schemas';
+import type { TabState } from '@/core/tracker/types';
+
+/**
+ * Shared test fixtures
+ *
+ * Builders for records used across many test files, so a schema change only
+ * has to be made here.
+ */
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Reference time of the fixture defaults (noon UTC on 2025-06-15)
+ */
+export const FIXTURE_NOW = Date.parse('2025-06-15T12:00:00.000Z');
+
+/**
+ * Builds an AggregatedStatsRecord; by default for a YouTube page on the day of FIXTURE_NOW.
+ *
+ * Unless given, the key is derived from the date and URL. When only the URL is given, the hostname
+ * is taken from it and the parent domain is its last two labels.
+ */
+export function buildStat(partial: Partial<AggregatedStatsRecord> = {}): AggregatedStatsRecord {
+  const date = partial.date ?? '2025-06-15';
+  const url = partial.url ?? 'https://www.youtube.com/watch';
+  const hostname = partial.hostname ?? new URL(url).hostname;
+  return {
+    key: `${date}:${url}`,
+    date,
+    url,
+    hostname,
+    parentDomain: hostname.split('.').slice(-2).join('.'),
+    total_open_time: 0,
+    total_active_time: 0,
+    visit_count: 0,
+    active_session_count: 0,
+    first_seen: null,
+    last_seen: null,
+    last_updated: FIXTURE_NOW - 30 * MINUTE,
+    ...partial,
+  };
+}
+
+/**
+ * Builds the pending time of LiveStatsService.getPendingTime, one entry per given partial.
+ *
+ * Each entry defaults to no time on the YouTube page of the day of FIXTURE_NOW.
+ */
+export function buildPendingTime(
+  partials: Partial<AggregatedData[string]>[] = [{}]
+): AggregatedData {
+  const pending: AggregatedData = {};
+  for (const partial of partials) {
+    const data = {
+      openTime: 0,
+      activeTime: 0,
+      visitCount: 0,
+      activeSessionCount: 0,
+      firstSeen: FIXTURE_NOW - MINUTE,
+      lastSeen: FIXTURE_NOW,
+      url: 'https://www.youtube.com/watch',
+      date: '2025-06-15',
+      hostname: 'www.youtube.com',
+      parentDomain: 'youtube.com',
+      ...partial,
+    };
+    pending[`${data.date}:${data.url}`] = data;
+  }
+  return pending;
+}
+
+/**
+ * Builds the TabState of a focused YouTube tab, open for an hour and active for ten minutes.
+ */
+export function buildTabState(partial: Partial<TabState> = {}): TabState {
+  return {
+    url: 'https://www.youtube.com/watch?v=1',
+    visitId: uuidv4(),
+    activityId: uuidv4(),
+    isAudible: false,
+    lastInteractionTimestamp: FIXTURE_NOW,
+    openTimeStart: FIXTURE_NOW - 60 * MINUTE,
+    activeTimeStart: FIXTURE_NOW - 10 * MINUTE,
+    isFocused: true,
+    tabId: 1,
+    windowId: 1,
+    sessionEnded: false,
+    ...partial,
+  };
+}
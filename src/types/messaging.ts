@@ -6,7 +6,9 @@
  */
 
 import { z } from 'zod/v4';
-import type { EventsLogRecord, AggregatedStatsRecord } from '@/core/db';
+import type { EventsLogRecord, AggregatedStatsRecord, ImportReport } from '@/core/db';
+import type { FocusSession, FocusSessionSummary } from '@/core/focus';
+import type { LiveDomainStats, StatsRebuildProgress } from '@/core/aggregator';
 
 // ============================================================================
 // Request/Response Schemas
@@ -96,6 +98,207 @@ export const ManualAggregationResponseSchema = z.object({
 
 export type ManualAggregationResponse = z.infer<typeof ManualAggregationResponseSchema>;
 
+/**
+ * Schema for data export request
+ */
+export const ExportDataRequestSchema = z.object({
+  /** JSON bundle, or one CSV file per table */
+  format: z.enum(['json', 'csv']),
+});
+
+export type ExportDataRequest = z.infer<typeof ExportDataRequestSchema>;
+
+/**
+ * Schema for data export response
+ */
+export const ExportDataResponseSchema = z.object({
+  /** Whether the export was successful */
+  success: z.boolean(),
+
+  /** Generated files */
+  files: z
+    .array(
+      z.object({
+        filename: z.string(),
+        mimeType: z.string(),
+        content: z.string(),
+      })
+    )
+    .optional(),
+
+  /** Error message if failed */
+  error: z.string().optional(),
+});
+
+export type ExportDataResponse = z.infer<typeof ExportDataResponseSchema>;
+
+/**
+ * Schema for data import request
+ */
+export const ImportDataRequestSchema = z.object({
+  /** Content of a previously exported JSON bundle */
+  content: z.string(),
+
+  /** How stats with an existing key are combined */
+  strategy: z.enum(['sum', 'replace']),
+
+  /** Only report what would change */
+  dryRun: z.boolean(),
+});
+
+export type ImportDataRequest = z.infer<typeof ImportDataRequestSchema>;
+
+/**
+ * Data import response
+ */
+export interface ImportDataResponse {
+  /** Whether the import (or dry run) was successful */
+  success: boolean;
+
+  /** Import report */
+  report?: ImportReport;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Schema for rebuilding the aggregated stats of a date range from raw events
+ */
+export const StatsRebuildRequestSchema = z.object({
+  /** First date to rebuild (YYYY-MM-DD, inclusive) */
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+
+  /** Last date to rebuild (YYYY-MM-DD, inclusive) */
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+export type StatsRebuildRequest = z.infer<typeof StatsRebuildRequestSchema>;
+
+/**
+ * Stats rebuild response, shared by start, status and cancel requests
+ */
+export interface StatsRebuildResponse {
+  /** Whether the request was handled */
+  success: boolean;
+
+  /** Progress of the running or last rebuild, null if none ran yet */
+  progress?: StatsRebuildProgress | null;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Schema for snooze request sent from the limit interstitial page
+ */
+export const SnoozeLimitRequestSchema = z.object({
+  /** Rule target (parent domain or hostname) to snooze */
+  target: z.string().min(1),
+
+  /** Rule scope the target belongs to */
+  scope: z.enum(['parentDomain', 'hostname']),
+});
+
+export type SnoozeLimitRequest = z.infer<typeof SnoozeLimitRequestSchema>;
+
+/**
+ * Schema for snooze response
+ */
+export const SnoozeLimitResponseSchema = z.object({
+  /** Whether the snooze was recorded */
+  success: z.boolean(),
+
+  /** Timestamp until which the limit is snoozed */
+  snoozedUntil: z.number().optional(),
+
+  /** Error message if failed */
+  error: z.string().optional(),
+});
+
+export type SnoozeLimitResponse = z.infer<typeof SnoozeLimitResponseSchema>;
+
+/**
+ * Schema for starting a focus session from the popup
+ */
+export const StartFocusSessionRequestSchema = z.object({
+  /** Session length in minutes */
+  durationMinutes: z.number().int().positive().max(24 * 60),
+});
+
+export type StartFocusSessionRequest = z.infer<typeof StartFocusSessionRequestSchema>;
+
+/**
+ * Focus session state returned to the popup and the focus interstitial page
+ */
+export interface FocusSessionResponse {
+  /** Whether the request was handled */
+  success: boolean;
+
+  /** The running session, if any */
+  session?: FocusSession | null;
+
+  /** Summary of the most recently finished session, if any */
+  lastSummary?: FocusSessionSummary | null;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Protocol map for focus sessions
+ */
+export interface FocusProtocolMap {
+  /** Popup starts a focus session */
+  startFocusSession: (data: StartFocusSessionRequest) => Promise<FocusSessionResponse>;
+
+  /** Popup or interstitial page ends the running session early */
+  endFocusSession: () => Promise<FocusSessionResponse>;
+
+  /** Popup requests the running session and the last summary */
+  getFocusSessionStatus: () => Promise<FocusSessionResponse>;
+}
+
+/**
+ * Schema for the live stats request of one parent domain
+ */
+export const LiveDomainStatsRequestSchema = z.object({
+  /** Parent domain to get stats for */
+  parentDomain: z.string().min(1),
+});
+
+export type LiveDomainStatsRequest = z.infer<typeof LiveDomainStatsRequestSchema>;
+
+/**
+ * Live stats response, aggregated plus not yet aggregated time
+ */
+export interface LiveDomainStatsResponse {
+  /** Whether the stats were computed */
+  success: boolean;
+
+  /** Stats of the requested parent domain */
+  data?: LiveDomainStats;
+
+  /** Error message if failed */
+  error?: string;
+}
+
+/**
+ * Protocol map for live stats queries
+ */
+export interface StatsProtocolMap {
+  /** Popup requests up-to-date stats of a parent domain */
+  getLiveDomainStats: (data: LiveDomainStatsRequest) => Promise<LiveDomainStatsResponse>;
+}
+
+/**
+ * Protocol map for the daily limit interstitial page
+ */
+export interface LimitsProtocolMap {
+  /** Interstitial page requests a short extension of an exhausted budget */
+  snoozeLimit: (data: SnoozeLimitRequest) => Promise<SnoozeLimitResponse>;
+}
+
 /**
  * Protocol map for Popup debugging interface messaging
  * Extends the existing TrackerProtocolMap with debug-specific messages
@@ -106,6 +309,21 @@ export interface PopupDebugProtocolMap {
 
   /** Popup requests manual aggregation from Background */
   triggerManualAggregation: (data: ManualAggregationRequest) => Promise<ManualAggregationResponse>;
+
+  /** Popup requests a data export from Background */
+  exportDataRequest: (data: ExportDataRequest) => Promise<ExportDataResponse>;
+
+  /** Popup requests a data import (or dry run) from Background */
+  importDataRequest: (data: ImportDataRequest) => Promise<ImportDataResponse>;
+
+  /** Popup starts rebuilding the stats of a date range from raw events */
+  startStatsRebuild: (data: StatsRebuildRequest) => Promise<StatsRebuildResponse>;
+
+  /** Popup polls the progress of the stats rebuild */
+  getStatsRebuildStatus: () => Promise<StatsRebuildResponse>;
+
+  /** Popup cancels the running stats rebuild */
+  cancelStatsRebuild: () => Promise<StatsRebuildResponse>;
 }
 
 // ============================================================================
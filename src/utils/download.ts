@@ -0,0 +1,32 @@
+/**
+ * File download utilities for extension pages
+ */
+
+/**
+ * Triggers a browser download of in-memory text content.
+ *
+ * Must be called from a page context (popup, options or extension page), not
+ * from the background service worker, since it relies on `document`.
+ *
+ * @param filename - Suggested file name for the download
+ * @param content - File content
+ * @param mimeType - MIME type of the content
+ *
+ * @example
+ * downloadTextFile('report.md', '# Weekly report', 'text/markdown');
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.style.display = 'none';
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -3,6 +3,7 @@
  */
 
 import { format, parseISO, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays } from 'date-fns';
+import { getZonedDateString } from './timezone';
 
 /**
  * Converts a duration in milliseconds to a concise, human-readable string using hours, minutes, and seconds.
@@ -73,14 +74,17 @@ export interface DateRange {
  * - "yesterday": previous local day
  * - "week": Monday to Sunday of the current week
  * - "month": current calendar month
+ * - "last7" / "last30": the trailing 7 or 30 days including today
  * - "all": from 2020-01-01 to today
  * Unrecognized identifiers default to the "all" range.
  *
  * @param timeRange - The time period identifier to calculate the date range for
+ * @param timeZone - Time zone the stored dates are keyed in; defaults to the local time zone
  * @returns An object with `startDate` and `endDate` as YYYY-MM-DD strings
  */
-export function getDateRange(timeRange: string): DateRange {
-  const now = new Date();
+export function getDateRange(timeRange: string, timeZone?: string): DateRange {
+  // Midnight of the current date in the given zone, expressed as a local Date
+  const now = timeZone ? parseISO(getZonedDateString(Date.now(), timeZone)) : new Date();
 
   switch (timeRange) {
     case 'today': {
@@ -108,6 +112,15 @@ export function getDateRange(timeRange: string): DateRange {
       return { startDate: format(localStart, 'yyyy-MM-dd'), endDate: format(localEnd, 'yyyy-MM-dd') };
     }
 
+    case 'last7':
+    case 'last30': {
+      const days = timeRange === 'last7' ? 7 : 30;
+      return {
+        startDate: format(subDays(now, days - 1), 'yyyy-MM-dd'),
+        endDate: format(now, 'yyyy-MM-dd'),
+      };
+    }
+
     case 'all':
     default: {
       return {
@@ -128,3 +141,13 @@ export function formatLocalDate(utcDateStr: string): string {
   const date = parseISO(utcDateStr);
   return format(date, 'yyyy-MM-dd');
 }
+
+/**
+ * Formats a timestamp as a local clock time (HH:mm).
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @returns The local time formatted as HH:mm
+ */
+export function formatTimeOfDay(timestamp: number): string {
+  return format(timestamp, 'HH:mm');
+}
@@ -0,0 +1,176 @@
+/**
+ * Time zone utilities
+ *
+ * Aggregated rows are keyed by calendar date in a configurable IANA time zone.
+ * These helpers convert between Unix timestamps and zoned dates/hours using
+ * only the Intl API, so no time zone database has to be bundled.
+ */
+
+import { AGGREGATION_TIMEZONE_KEY } from '@/config/constants';
+import { storage } from '#imports';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Time zone of the browser, falling back to UTC when it cannot be determined
+ */
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Check whether a string is an IANA time zone supported by this browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the configured time zone setting to a concrete IANA zone
+ *
+ * @param configured - Configured zone; empty means "use the browser zone"
+ * @returns The configured zone if valid, otherwise the browser zone
+ */
+export function resolveTimeZone(configured: string | undefined): string {
+  if (configured && isValidTimeZone(configured)) {
+    return configured;
+  }
+  return getBrowserTimeZone();
+}
+
+/**
+ * Time zone the stored aggregates are currently keyed in
+ *
+ * Readers use this to decide which date is "today". Data written before the
+ * setting existed is keyed in UTC.
+ */
+export async function getBucketedTimeZone(): Promise<string> {
+  return (await storage.getItem<string>(AGGREGATION_TIMEZONE_KEY)) ?? 'UTC';
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @param timeZone - IANA time zone
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  if (timeZone === 'UTC') {
+    return 0;
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Calendar date and hour of an instant in a time zone
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @param timeZone - IANA time zone
+ * @returns Date in YYYY-MM-DD format and hour (0-23)
+ */
+export function getZonedDateHour(
+  timestamp: number,
+  timeZone: string
+): { date: string; hour: number } {
+  const iso = new Date(timestamp + getTimeZoneOffset(timestamp, timeZone)).toISOString();
+  return { date: iso.slice(0, 10), hour: Number(iso.slice(11, 13)) };
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @param timeZone - IANA time zone
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getZonedDateString(timestamp: number, timeZone: string): string {
+  return getZonedDateHour(timestamp, timeZone).date;
+}
+
+/**
+ * Instant at which a zoned calendar hour starts
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param hour - Hour of the day (0-23)
+ * @param timeZone - IANA time zone
+ * @returns Unix timestamp in milliseconds
+ */
+export function getZonedHourStart(date: string, hour: number, timeZone: string): number {
+  const wallClock = Date.parse(`${date}T${String(hour).padStart(2, '0')}:00:00.000Z`);
+  // Second pass corrects for a DST change between the guess and the result
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * Instant at which a zoned calendar day starts
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param timeZone - IANA time zone
+ * @returns Unix timestamp in milliseconds
+ */
+export function getZonedDayStart(date: string, timeZone: string): number {
+  return getZonedHourStart(date, 0, timeZone);
+}
+
+/**
+ * Next zoned hour or day boundary strictly after an instant
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @param unitMs - Boundary unit (one hour or one day)
+ * @param timeZone - IANA time zone
+ * @returns Unix timestamp in milliseconds of the next boundary
+ */
+export function getNextZonedBoundary(timestamp: number, unitMs: number, timeZone: string): number {
+  const offset = getTimeZoneOffset(timestamp, timeZone);
+  const nextWallClock = (Math.floor((timestamp + offset) / unitMs) + 1) * unitMs;
+  const boundary = nextWallClock - getTimeZoneOffset(nextWallClock - offset, timeZone);
+  // A DST jump can land the corrected boundary at or before the input
+  return boundary > timestamp ? boundary : timestamp + Math.min(unitMs, HOUR_MS);
+}
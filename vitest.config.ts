@@ -45,6 +45,7 @@ export default defineConfig({
         'src/**/*.test.ts',
         'src/**/*.spec.ts',
         'src/**/__tests__/**',
+        'src/test-utils/**',
         'src/entrypoints/**',
         'src/assets/**',
       ],
@@ -17,7 +17,16 @@ export default defineConfig({
   },
   manifest: ({ browser, manifestVersion, mode, command }) => {
     return {
-      permissions: ['tabs', 'activeTab', 'scripting', 'alarms', 'storage', 'webNavigation', 'idle'],
+      permissions: [
+        'tabs',
+        'activeTab',
+        'scripting',
+        'alarms',
+        'storage',
+        'webNavigation',
+        'idle',
+        'notifications',
+      ],
       host_permissions: ['<all_urls>'],
     };
   },